@@ -15,12 +15,19 @@ import Anthropic from '@anthropic-ai/sdk';
 import { createHash } from 'node:crypto';
 import {
   ModelCapabilities,
+  ModelMessage,
+  ModelRequest,
+  ResponseFormat,
   TransformContext,
   TransformResult,
   AdapterError,
   StreamChunk,
   StreamResult,
   StreamingModelAdapter,
+  ToolCall,
+  checkRequest,
+  promptRequest,
+  responseFormatInstruction,
 } from './model.js';
 
 // =============================================================================
@@ -188,8 +195,8 @@ export class ClaudeAdapter implements StreamingModelAdapter {
     this.ready = true;
   }
 
-  async transform(
-    prompt: string,
+  async complete(
+    request: ModelRequest,
     context: TransformContext
   ): Promise<TransformResult> {
     if (!this.ready) {
@@ -199,32 +206,27 @@ export class ClaudeAdapter implements StreamingModelAdapter {
         false
       );
     }
+    checkRequest(request, this.capabilities);
 
     const start_time = performance.now();
 
     try {
-      const response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: this.capabilities.max_output_tokens,
-        temperature: this.temperature,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        metadata: {
-          user_id: context.intent_id,
-        },
-      });
+      const response = await this.client.messages.create(
+        this.buildParams(request, context)
+      );
 
       const latency_ms = Math.round(performance.now() - start_time);
 
-      // Extract text content
-      const content = response.content
-        .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-        .map((block) => block.text)
-        .join('\n');
+      // Extract text content; a native response format answers as its tool
+      const format = nativeFormat(request);
+      const answer = format && toToolCalls(response.content).find((call) => call.name === format.name);
+      const content = answer
+        ? JSON.stringify(answer.input)
+        : response.content
+            .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+            .map((block) => block.text)
+            .join('\n');
+      const tool_calls = format ? [] : toToolCalls(response.content);
 
       return {
         content,
@@ -233,12 +235,20 @@ export class ClaudeAdapter implements StreamingModelAdapter {
         latency_ms,
         model_version: response.model,
         from_cache: false,
+        ...(tool_calls.length > 0 && { tool_calls }),
       };
     } catch (error) {
       throw this.mapError(error);
     }
   }
 
+  async transform(
+    prompt: string,
+    context: TransformContext
+  ): Promise<TransformResult> {
+    return this.complete(promptRequest(prompt), context);
+  }
+
   async *transformStream(
     prompt: string,
     context: TransformContext
@@ -259,20 +269,9 @@ export class ClaudeAdapter implements StreamingModelAdapter {
     let tokens_output = 0;
 
     try {
-      const stream = this.client.messages.stream({
-        model: this.model,
-        max_tokens: this.capabilities.max_output_tokens,
-        temperature: this.temperature,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        metadata: {
-          user_id: context.intent_id,
-        },
-      });
+      const stream = this.client.messages.stream(
+        this.buildParams(promptRequest(prompt), context)
+      );
 
       for await (const event of stream) {
         if (event.type === 'content_block_delta') {
@@ -341,6 +340,45 @@ export class ClaudeAdapter implements StreamingModelAdapter {
     this.ready = false;
   }
 
+  /**
+   * Build Messages API parameters for a request. Claude has no JSON schema
+   * output mode; a response format is enforced by forcing a tool whose input
+   * schema is the format's schema (see nativeFormat), or, alongside the
+   * request's own tools, given as a system instruction.
+   */
+  private buildParams(
+    request: ModelRequest,
+    context: TransformContext
+  ): Anthropic.MessageCreateParamsNonStreaming {
+    const format = nativeFormat(request);
+    const system = [
+      request.system,
+      request.response_format && !format && responseFormatInstruction(request.response_format),
+    ].filter((part): part is string => typeof part === 'string' && part !== '');
+    const tools = format
+      ? [{ name: format.name, description: 'Respond with this tool.', input_schema: format.schema }]
+      : request.tools;
+
+    return {
+      model: this.model,
+      max_tokens: request.max_tokens ?? this.capabilities.max_output_tokens,
+      temperature: this.temperature,
+      ...(system.length > 0 && { system: system.join('\n\n') }),
+      messages: request.messages.map(toClaudeMessage),
+      ...(tools && {
+        tools: tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.input_schema as Anthropic.Tool.InputSchema,
+        })),
+      }),
+      ...(format && { tool_choice: { type: 'tool' as const, name: format.name } }),
+      metadata: {
+        user_id: context.intent_id,
+      },
+    };
+  }
+
   /**
    * Map Anthropic errors to AdapterError.
    */
@@ -391,6 +429,59 @@ export class ClaudeAdapter implements StreamingModelAdapter {
   }
 }
 
+/**
+ * Convert a message to a Claude message.
+ */
+function toClaudeMessage(message: ModelMessage): Anthropic.MessageParam {
+  if (typeof message.content === 'string') {
+    return { role: message.role, content: message.content };
+  }
+  return {
+    role: message.role,
+    content: message.content.map((block): Anthropic.ContentBlockParam => {
+      switch (block.type) {
+        case 'text':
+          return { type: 'text', text: block.text };
+        case 'image':
+          return {
+            type: 'image',
+            source: { type: 'base64', media_type: block.media_type, data: block.data },
+          };
+        case 'tool_use':
+          return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+        case 'tool_result':
+          return {
+            type: 'tool_result',
+            tool_use_id: block.tool_use_id,
+            content: block.content,
+            ...(block.is_error && { is_error: true }),
+          };
+      }
+    }),
+  };
+}
+
+/**
+ * The response format Claude enforces natively: that of a request without
+ * tools, answered through a forced tool call.
+ */
+function nativeFormat(request: ModelRequest): ResponseFormat | undefined {
+  return request.tools ? undefined : request.response_format;
+}
+
+/**
+ * Extract tool calls from Claude response content.
+ */
+function toToolCalls(content: Anthropic.ContentBlock[]): ToolCall[] {
+  return content
+    .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+    .map((block) => ({
+      id: block.id,
+      name: block.name,
+      input: (block.input ?? {}) as Record<string, unknown>,
+    }));
+}
+
 // =============================================================================
 // Factory Functions
 // =============================================================================
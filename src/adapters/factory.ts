@@ -9,9 +9,12 @@
 import {
   ModelAdapter,
   ModelCapabilities,
+  ModelRequest,
   AdapterError,
   TransformContext,
   TransformResult,
+  StreamingModelAdapter,
+  promptRequest,
 } from './model.js';
 import { MockModelAdapter, createEchoAdapter } from './mock.js';
 import { ClaudeAdapter, ClaudeModel } from './claude.js';
@@ -22,10 +25,9 @@ import {
   ResilientExecutor,
   CircuitBreakerConfig,
   RetryConfig,
-  CircuitOpenError,
-  RetryExhaustedError,
   createAPIResilientExecutor,
 } from './resilience.js';
+import { AdapterMiddleware, fromResilienceError, retry, withMiddleware } from './middleware.js';
 
 // =============================================================================
 // Types
@@ -326,21 +328,28 @@ class FallbackAdapter implements ModelAdapter {
     this.capabilities = primary.capabilities;
   }
 
-  async transform(
-    prompt: string,
-    context: import('./model.js').TransformContext
-  ): Promise<import('./model.js').TransformResult> {
+  async complete(
+    request: ModelRequest,
+    context: TransformContext
+  ): Promise<TransformResult> {
     try {
-      return await this.primary.transform(prompt, context);
+      return await this.primary.complete(request, context);
     } catch (error) {
       // Only fallback on retryable errors
       if (error instanceof AdapterError && error.retryable) {
-        return await this.fallback.transform(prompt, context);
+        return await this.fallback.complete(request, context);
       }
       throw error;
     }
   }
 
+  async transform(
+    prompt: string,
+    context: TransformContext
+  ): Promise<TransformResult> {
+    return this.complete(promptRequest(prompt), context);
+  }
+
   async isReady(): Promise<boolean> {
     const [primaryReady, fallbackReady] = await Promise.all([
       this.primary.isReady(),
@@ -441,34 +450,21 @@ export class ResilientAdapter implements ModelAdapter {
   async transform(
     prompt: string,
     context: TransformContext
+  ): Promise<TransformResult> {
+    return this.complete(promptRequest(prompt), context);
+  }
+
+  async complete(
+    request: ModelRequest,
+    context: TransformContext
   ): Promise<TransformResult> {
     try {
       return await this.executor.execute(() =>
-        this.inner.transform(prompt, context)
+        this.inner.complete(request, context)
       );
     } catch (error) {
       // Convert resilience errors to adapter errors
-      if (error instanceof CircuitOpenError) {
-        const details: Record<string, unknown> = {};
-        if (error.recoveryAt !== undefined) details.recovery_at = error.recoveryAt;
-        throw new AdapterError(
-          'RATE_LIMITED',
-          `Circuit breaker open: ${error.message}`,
-          true, // Retryable after recovery
-          Object.keys(details).length > 0 ? details : undefined
-        );
-      }
-      if (error instanceof RetryExhaustedError) {
-        const details: Record<string, unknown> = {};
-        if (error.lastError) details.last_error = error.lastError.message;
-        throw new AdapterError(
-          'NETWORK_ERROR',
-          `Retry exhausted: ${error.message}`,
-          false,
-          Object.keys(details).length > 0 ? details : undefined
-        );
-      }
-      throw error;
+      throw fromResilienceError(error);
     }
   }
 
@@ -531,18 +527,26 @@ export function createResilientAdapterWithFallback(
     return primary;
   }
 
-  const fallbackOpts: AdapterFactoryOptions = {
-    provider: options.fallback_provider,
-  };
+  const fallback = createResilientAdapter(fallbackOptions(options, options.fallback_provider));
+
+  return new FallbackAdapter(primary, fallback);
+}
+
+/**
+ * Options for a resilient fallback adapter: the fallback provider and
+ * model, with the primary's generation and resilience settings.
+ */
+function fallbackOptions(
+  options: AdapterFactoryOptions,
+  provider: AdapterProvider
+): AdapterFactoryOptions {
+  const fallbackOpts: AdapterFactoryOptions = { provider };
   if (options.fallback_model !== undefined) fallbackOpts.model = options.fallback_model;
   if (options.temperature !== undefined) fallbackOpts.temperature = options.temperature;
   if (options.timeout_ms !== undefined) fallbackOpts.timeout_ms = options.timeout_ms;
   if (options.circuit_config !== undefined) fallbackOpts.circuit_config = options.circuit_config;
   if (options.retry_config !== undefined) fallbackOpts.retry_config = options.retry_config;
-
-  const fallback = createResilientAdapter(fallbackOpts);
-
-  return new FallbackAdapter(primary, fallback);
+  return fallbackOpts;
 }
 
 /**
@@ -553,34 +557,44 @@ export function createResilientAdapterWithFallback(
  * - Retry with exponential backoff (3 attempts, 1s-30s delay)
  * - Optional fallback provider
  *
+ * The given middleware run outside the retry middleware, around each
+ * provider: with a fallback, both providers share the middleware (and
+ * their cache, limiter or budget) and each has its own circuit.
+ *
  * @param options - Adapter configuration
+ * @param middleware - Middleware, outermost first (e.g. cache(), budget())
  * @returns Production-ready adapter
  */
 export function createProductionAdapter(
-  options: AdapterFactoryOptions
-): ModelAdapter {
-  const opts: AdapterFactoryOptions = {
-    ...options,
-    circuit_config: {
-      failureThreshold: 5,
-      resetTimeout: 30000,
-      successThreshold: 2,
-      failureWindow: 60000,
-      ...options.circuit_config,
-    },
-    retry_config: {
-      maxAttempts: 3,
-      initialDelay: 1000,
-      maxDelay: 30000,
-      backoffMultiplier: 2,
-      jitter: 0.1,
-      ...options.retry_config,
-    },
-  };
-
-  if (opts.fallback_provider) {
-    return createResilientAdapterWithFallback(opts);
+  options: AdapterFactoryOptions,
+  middleware: readonly AdapterMiddleware[] = []
+): StreamingModelAdapter {
+  const pipeline = [
+    ...middleware,
+    retry({
+      circuit: {
+        failureThreshold: 5,
+        resetTimeout: 30000,
+        successThreshold: 2,
+        failureWindow: 60000,
+        ...options.circuit_config,
+      },
+      retry: {
+        maxAttempts: 3,
+        initialDelay: 1000,
+        maxDelay: 30000,
+        backoffMultiplier: 2,
+        jitter: 0.1,
+        ...options.retry_config,
+      },
+    }),
+  ];
+
+  const primary = withMiddleware(createAdapter(options), pipeline);
+  if (!options.fallback_provider) {
+    return primary;
   }
 
-  return createResilientAdapter(opts);
+  const fallback = withMiddleware(createAdapter(fallbackOptions(options, options.fallback_provider)), pipeline);
+  return withMiddleware(new FallbackAdapter(primary, fallback), []);
 }
@@ -16,12 +16,18 @@
 import { createHash } from 'node:crypto';
 import {
   ModelCapabilities,
+  ModelMessage,
+  ModelRequest,
   TransformContext,
   TransformResult,
   AdapterError,
   StreamChunk,
   StreamResult,
   StreamingModelAdapter,
+  ToolCall,
+  checkRequest,
+  promptRequest,
+  responseFormatInstruction,
 } from './model.js';
 
 // =============================================================================
@@ -144,13 +150,33 @@ export interface GeminiAdapterOptions {
   base_url?: string;
 }
 
+/**
+ * Gemini API request content part.
+ */
+type GeminiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: { name: string; args: Record<string, unknown> } }
+  | { functionResponse: { name: string; response: Record<string, unknown> } };
+
+/**
+ * Gemini API request content.
+ */
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
 /**
  * Gemini API response types.
  */
 interface GeminiResponse {
   candidates: Array<{
     content: {
-      parts: Array<{ text: string }>;
+      parts: Array<{
+        text?: string;
+        functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+      }>;
       role: string;
     };
     finishReason: string;
@@ -227,8 +253,8 @@ export class GeminiAdapter implements StreamingModelAdapter {
     this.ready = true;
   }
 
-  async transform(
-    prompt: string,
+  async complete(
+    request: ModelRequest,
     _context: TransformContext
   ): Promise<TransformResult> {
     if (!this.ready) {
@@ -238,6 +264,7 @@ export class GeminiAdapter implements StreamingModelAdapter {
         false
       );
     }
+    checkRequest(request, this.capabilities);
 
     const start_time = performance.now();
     const url = `${this.base_url}/models/${this.model}:generateContent?key=${this.api_key}`;
@@ -254,17 +281,7 @@ export class GeminiAdapter implements StreamingModelAdapter {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [{ text: prompt }],
-            },
-          ],
-          generationConfig: {
-            temperature: this.temperature,
-            maxOutputTokens: this.max_output_tokens,
-          },
-        }),
+        body: JSON.stringify(this.buildBody(request)),
         signal: controller.signal,
       });
 
@@ -280,11 +297,22 @@ export class GeminiAdapter implements StreamingModelAdapter {
       const data = (await response.json()) as GeminiResponse;
       const latency_ms = Math.round(performance.now() - start_time);
 
-      // Extract text content
-      const content =
-        data.candidates?.[0]?.content?.parts
-          ?.map((p) => p.text)
-          .join('\n') ?? '';
+      // Extract text content and function calls
+      const parts = data.candidates?.[0]?.content?.parts ?? [];
+      const content = parts
+        .flatMap((p) => (p.text !== undefined ? [p.text] : []))
+        .join('\n');
+      const tool_calls = parts.flatMap((p, i): ToolCall[] =>
+        p.functionCall
+          ? [
+              {
+                id: p.functionCall.id ?? `call_${i}`,
+                name: p.functionCall.name,
+                input: p.functionCall.args ?? {},
+              },
+            ]
+          : []
+      );
 
       return {
         content,
@@ -293,12 +321,20 @@ export class GeminiAdapter implements StreamingModelAdapter {
         latency_ms,
         model_version: data.modelVersion ?? this.model,
         from_cache: false,
+        ...(tool_calls.length > 0 && { tool_calls }),
       };
     } catch (error) {
       throw this.mapError(error);
     }
   }
 
+  async transform(
+    prompt: string,
+    context: TransformContext
+  ): Promise<TransformResult> {
+    return this.complete(promptRequest(prompt), context);
+  }
+
   async *transformStream(
     prompt: string,
     _context: TransformContext
@@ -333,17 +369,7 @@ export class GeminiAdapter implements StreamingModelAdapter {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [{ text: prompt }],
-            },
-          ],
-          generationConfig: {
-            temperature: this.temperature,
-            maxOutputTokens: this.max_output_tokens,
-          },
-        }),
+        body: JSON.stringify(this.buildBody(promptRequest(prompt))),
         signal: controller.signal,
       });
 
@@ -447,10 +473,54 @@ export class GeminiAdapter implements StreamingModelAdapter {
     this.ready = false;
   }
 
+  /**
+   * Build a generateContent body for a request. Models with structured
+   * output take the response format as a response JSON schema; others get
+   * it as a system instruction.
+   */
+  private buildBody(request: ModelRequest): Record<string, unknown> {
+    const format = request.response_format;
+    const native = format !== undefined && this.capabilities.supports_structured_output;
+    const system = [
+      request.system,
+      format && !native && responseFormatInstruction(format),
+    ].filter((part): part is string => typeof part === 'string' && part !== '');
+
+    return {
+      ...(system.length > 0 && {
+        systemInstruction: { parts: [{ text: system.join('\n\n') }] },
+      }),
+      contents: toGeminiContents(request.messages),
+      ...(request.tools && {
+        tools: [
+          {
+            functionDeclarations: request.tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              parametersJsonSchema: tool.input_schema,
+            })),
+          },
+        ],
+      }),
+      generationConfig: {
+        temperature: this.temperature,
+        maxOutputTokens: request.max_tokens ?? this.max_output_tokens,
+        ...(native && {
+          responseMimeType: 'application/json',
+          responseJsonSchema: format.schema,
+        }),
+      },
+    };
+  }
+
   /**
    * Map errors to AdapterError.
    */
   private mapError(error: unknown): AdapterError {
+    if (error instanceof AdapterError) {
+      return error;
+    }
+
     if (error instanceof Error) {
       const message = error.message;
 
@@ -492,6 +562,42 @@ export class GeminiAdapter implements StreamingModelAdapter {
   }
 }
 
+/**
+ * Convert messages to Gemini contents. A function response is matched to
+ * its call by name, so tool results look up the name of their call.
+ */
+function toGeminiContents(messages: readonly ModelMessage[]): GeminiContent[] {
+  const callNames = new Map<string, string>();
+
+  return messages.map((message): GeminiContent => {
+    const role = message.role === 'assistant' ? 'model' : 'user';
+    if (typeof message.content === 'string') {
+      return { role, parts: [{ text: message.content }] };
+    }
+    return {
+      role,
+      parts: message.content.map((block): GeminiPart => {
+        switch (block.type) {
+          case 'text':
+            return { text: block.text };
+          case 'image':
+            return { inlineData: { mimeType: block.media_type, data: block.data } };
+          case 'tool_use':
+            callNames.set(block.id, block.name);
+            return { functionCall: { name: block.name, args: block.input } };
+          case 'tool_result':
+            return {
+              functionResponse: {
+                name: callNames.get(block.tool_use_id) ?? block.tool_use_id,
+                response: block.is_error ? { error: block.content } : { content: block.content },
+              },
+            };
+        }
+      }),
+    };
+  });
+}
+
 // =============================================================================
 // Factory Functions
 // =============================================================================
@@ -15,6 +15,20 @@ export type {
   AdapterErrorCode,
   RecordedInteraction,
   RecordingSession,
+  // Request types
+  ModelRequest,
+  ModelMessage,
+  ModelMessageRole,
+  ContentBlock,
+  TextBlock,
+  ImageBlock,
+  ImageMediaType,
+  ToolDefinition,
+  ToolCall,
+  ToolResult,
+  ToolUseBlock,
+  ToolResultBlock,
+  ResponseFormat,
   // Streaming types
   StreamChunk,
   StreamResult,
@@ -25,12 +39,63 @@ export type {
 
 export {
   AdapterError,
+  // Request canonicalization
+  promptRequest,
+  requestPrompt,
+  requestText,
+  canonicalizeRequest,
+  hashRequest,
+  checkRequest,
+  responseFormatInstruction,
+  contentText,
   // Streaming utilities
   isStreamingAdapter,
   collectStream,
   simulateStream,
 } from './model.js';
 
+// Tool loop
+export type { ToolHandler, ToolHandlers, ToolLoopResult } from './tools.js';
+
+export { runToolLoop, DEFAULT_MAX_TOOL_STEPS } from './tools.js';
+
+// Structured output
+export type {
+  SchemaKeyword,
+  SchemaViolation,
+  StructuredOptions,
+  StructuredResult,
+} from './structured.js';
+
+export {
+  completeStructured,
+  extractJSON,
+  parseStructured,
+  validateSchema,
+  DEFAULT_MAX_REPAIRS,
+} from './structured.js';
+
+// Middleware
+export type {
+  ModelCall,
+  AdapterMiddleware,
+  CacheMiddlewareOptions,
+  RateLimitMiddlewareOptions,
+  BudgetMiddlewareOptions,
+  MetricsMiddlewareOptions,
+  RetryMiddlewareOptions,
+} from './middleware.js';
+
+export {
+  withMiddleware,
+  cache,
+  rateLimit,
+  budget,
+  metrics,
+  retry,
+  fromResilienceError,
+} from './middleware.js';
+
 // Mock adapter
 export type {
   MockResponse,
@@ -0,0 +1,408 @@
+/**
+ * Adapter Middleware
+ * ==================
+ *
+ * Composes caching, rate limiting, cost budgets, metrics and retry around
+ * any model adapter.
+ *
+ * A middleware wraps the adapter's complete() call. Middleware run in list
+ * order: the first is the outermost, so it sees every call and the last
+ * sits next to the adapter. For example, with
+ * `[cache(), rateLimit(), budget(), metrics(), retry()]` a cache hit
+ * consumes no rate limit or budget, and metrics count each call once
+ * however many times it is retried. Cache hits never reach metrics(), so
+ * cache() counts them itself when given the collector.
+ *
+ * Usage:
+ * ```typescript
+ * const adapter = withMiddleware(createClaudeAdapter(), [
+ *   cache({ collector }),
+ *   rateLimit({ limiter: createProviderRateLimiter('anthropic') }),
+ *   budget({ tracker: createDailyBudgetTracker(10, 'block') }),
+ *   metrics({ collector }),
+ *   retry(),
+ * ]);
+ * ```
+ */
+
+import {
+  AdapterError,
+  hashRequest,
+  promptRequest,
+  requestText,
+  simulateStream,
+} from './model.js';
+import type {
+  ModelAdapter,
+  ModelCapabilities,
+  ModelRequest,
+  StreamChunk,
+  StreamResult,
+  StreamingModelAdapter,
+  TransformContext,
+  TransformResult,
+} from './model.js';
+import {
+  CircuitOpenError,
+  ResilientExecutor,
+  RetryExhaustedError,
+  type CircuitBreakerConfig,
+  type RetryConfig,
+} from './resilience.js';
+import { LRUCache, generateCacheKey } from '../infra/cache.js';
+import { RateLimitError, createRateLimiter, type RateLimiter } from '../infra/rate-limit.js';
+import { BudgetExceededError, type CostTracker } from '../infra/cost.js';
+import { createMetricsCollector, type MetricsCollector } from '../infra/metrics.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A model call: the adapter's complete(), or the rest of the pipeline.
+ */
+export type ModelCall = (request: ModelRequest, context: TransformContext) => Promise<TransformResult>;
+
+/**
+ * A middleware around a model call.
+ */
+export interface AdapterMiddleware {
+  /**
+   * Middleware name (for adapter IDs and diagnostics).
+   */
+  readonly name: string;
+
+  /**
+   * Wrap the next call in the pipeline.
+   *
+   * @param next - Call to the next middleware, or to the adapter
+   * @param adapter - The wrapped adapter (for model_id and capabilities)
+   * @returns Call that runs this middleware, then next
+   */
+  wrap(next: ModelCall, adapter: ModelAdapter): ModelCall;
+}
+
+/**
+ * Options for the cache middleware.
+ */
+export interface CacheMiddlewareOptions {
+  /**
+   * Cache to use (default: a new LRUCache with default options).
+   */
+  cache?: LRUCache<TransformResult>;
+
+  /**
+   * Entry TTL in ms (default: the cache's TTL).
+   */
+  ttl_ms?: number;
+
+  /**
+   * Collector to count hits in as model_cache_hits, labeled by model
+   * (default: hits are not counted).
+   */
+  collector?: MetricsCollector;
+}
+
+/**
+ * Options for the rate limit middleware.
+ */
+export interface RateLimitMiddlewareOptions {
+  /**
+   * Limiter to use (default: createRateLimiter()).
+   */
+  limiter?: RateLimiter;
+}
+
+/**
+ * Options for the budget middleware.
+ */
+export interface BudgetMiddlewareOptions {
+  /**
+   * Cost tracker holding the budget.
+   */
+  tracker: CostTracker;
+}
+
+/**
+ * Options for the metrics middleware.
+ */
+export interface MetricsMiddlewareOptions {
+  /**
+   * Collector to record into (default: createMetricsCollector('model')).
+   */
+  collector?: MetricsCollector;
+}
+
+/**
+ * Options for the retry middleware.
+ */
+export interface RetryMiddlewareOptions {
+  /**
+   * Retry configuration. By default, only retryable AdapterErrors are
+   * retried.
+   */
+  retry?: Partial<RetryConfig>;
+
+  /**
+   * Circuit breaker configuration.
+   */
+  circuit?: Partial<CircuitBreakerConfig>;
+}
+
+// =============================================================================
+// Middleware Adapter
+// =============================================================================
+
+/**
+ * Wrap an adapter in middleware.
+ *
+ * The result streams by running the pipeline for the whole response and
+ * yielding it in chunks (see simulateStream), so middleware always see
+ * complete responses: a cached or retried call never streams partial
+ * output.
+ *
+ * @param adapter - Adapter to wrap
+ * @param middleware - Middleware, outermost first
+ * @returns Streaming adapter running every call through the middleware
+ */
+export function withMiddleware(
+  adapter: ModelAdapter,
+  middleware: readonly AdapterMiddleware[]
+): StreamingModelAdapter {
+  return new MiddlewareAdapter(adapter, middleware);
+}
+
+/**
+ * Adapter that runs calls through a middleware pipeline.
+ */
+class MiddlewareAdapter implements StreamingModelAdapter {
+  readonly adapter_id: string;
+  readonly model_id: string;
+  readonly capabilities: ModelCapabilities;
+
+  private readonly call: ModelCall;
+
+  constructor(
+    private readonly inner: ModelAdapter,
+    middleware: readonly AdapterMiddleware[]
+  ) {
+    this.adapter_id = `middleware_${inner.adapter_id}`;
+    this.model_id = inner.model_id;
+    this.capabilities = { ...inner.capabilities, supports_streaming: true };
+    this.call = middleware.reduceRight<ModelCall>(
+      (next, m) => m.wrap(next, inner),
+      (request, context) => inner.complete(request, context)
+    );
+  }
+
+  async complete(request: ModelRequest, context: TransformContext): Promise<TransformResult> {
+    return this.call(request, context);
+  }
+
+  async transform(prompt: string, context: TransformContext): Promise<TransformResult> {
+    return this.complete(promptRequest(prompt), context);
+  }
+
+  async *transformStream(
+    prompt: string,
+    context: TransformContext
+  ): AsyncGenerator<StreamChunk, StreamResult, undefined> {
+    return yield* simulateStream(this, prompt, context);
+  }
+
+  async isReady(): Promise<boolean> {
+    return this.inner.isReady();
+  }
+
+  async shutdown(): Promise<void> {
+    return this.inner.shutdown();
+  }
+}
+
+// =============================================================================
+// Middleware
+// =============================================================================
+
+/**
+ * Serve repeated requests from a cache. Requests are keyed by model and
+ * request hash; a hit returns the cached result with zero latency and
+ * from_cache set, and is counted here because it never reaches the
+ * middleware after the cache. Failed calls are not cached.
+ */
+export function cache(options: CacheMiddlewareOptions = {}): AdapterMiddleware {
+  const entries = options.cache ?? new LRUCache<TransformResult>();
+  return {
+    name: 'cache',
+    wrap: (next, adapter) => async (request, context) => {
+      const key = generateCacheKey(hashRequest(request), adapter.model_id);
+      const cached = entries.get(key);
+      if (cached) {
+        options.collector?.increment('model_cache_hits', 1, { model: adapter.model_id });
+        return { ...cached, latency_ms: 0, from_cache: true };
+      }
+
+      const result = await next(request, context);
+      entries.set(key, result, options.ttl_ms);
+      return result;
+    },
+  };
+}
+
+/**
+ * Acquire the rate limiter before each call, counting the request's
+ * estimated input tokens. A refused call fails with RATE_LIMITED.
+ */
+export function rateLimit(options: RateLimitMiddlewareOptions = {}): AdapterMiddleware {
+  const limiter = options.limiter ?? createRateLimiter();
+  return {
+    name: 'rate_limit',
+    wrap: (next) => async (request, context) => {
+      try {
+        await limiter.acquire(estimateTokens(request));
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          throw new AdapterError('RATE_LIMITED', error.message, true, {
+            retry_after_ms: error.retryAfterMs,
+          });
+        }
+        throw error;
+      }
+      return next(request, context);
+    },
+  };
+}
+
+/**
+ * Check the cost budget before each call and record the cost of each
+ * response. The check estimates the request's input tokens and its full
+ * output allowance (max_tokens, else the model's max_output_tokens). A call
+ * the budget blocks fails with BUDGET_EXCEEDED and is not sent; a response
+ * that exhausts the budget is still returned.
+ */
+export function budget(options: BudgetMiddlewareOptions): AdapterMiddleware {
+  const { tracker } = options;
+  return {
+    name: 'budget',
+    wrap: (next, adapter) => async (request, context) => {
+      const check = tracker.checkBudgetForRequest(
+        adapter.model_id,
+        estimateTokens(request),
+        request.max_tokens ?? adapter.capabilities.max_output_tokens
+      );
+      if (!check.canProceed) {
+        throw new AdapterError('BUDGET_EXCEEDED', 'Cost budget exhausted', false, {
+          estimated_cost: check.estimatedCost,
+          budget_remaining: check.budgetRemaining ?? 0,
+        });
+      }
+
+      const result = await next(request, context);
+      try {
+        tracker.record(
+          `${context.run_id}_${hashRequest(request).slice(0, 16)}`,
+          adapter.model_id,
+          result.tokens_input,
+          result.tokens_output,
+          [context.mode]
+        );
+      } catch (error) {
+        // The response is already paid for; the next call is blocked
+        if (!(error instanceof BudgetExceededError)) {
+          throw error;
+        }
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Record call counts, errors, latency and token usage, labeled by model.
+ * Only calls that reach this middleware are recorded; cache hits are
+ * counted by cache() when it is given the same collector.
+ */
+export function metrics(options: MetricsMiddlewareOptions = {}): AdapterMiddleware {
+  const collector = options.collector ?? createMetricsCollector('model');
+  return {
+    name: 'metrics',
+    wrap: (next, adapter) => async (request, context) => {
+      const labels = { model: adapter.model_id };
+      const stop = collector.startTimer('model_latency_ms', labels);
+      collector.increment('model_requests', 1, labels);
+      try {
+        const result = await next(request, context);
+        stop();
+        collector.increment('model_tokens_input', result.tokens_input, labels);
+        collector.increment('model_tokens_output', result.tokens_output, labels);
+        return result;
+      } catch (error) {
+        stop();
+        const code = error instanceof AdapterError ? error.code : 'ADAPTER_ERROR';
+        collector.increment('model_errors', 1, { ...labels, code });
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Retry failed calls with exponential backoff behind a circuit breaker.
+ * Each wrapped adapter gets its own circuit.
+ */
+export function retry(options: RetryMiddlewareOptions = {}): AdapterMiddleware {
+  return {
+    name: 'retry',
+    wrap: (next) => {
+      const executor = new ResilientExecutor(options.circuit, {
+        retryOn: (error) => error instanceof AdapterError && error.retryable,
+        ...options.retry,
+      });
+      return async (request, context) => {
+        try {
+          return await executor.execute(() => next(request, context));
+        } catch (error) {
+          throw fromResilienceError(error);
+        }
+      };
+    },
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Convert circuit breaker and retry errors to AdapterErrors; other errors
+ * are returned unchanged.
+ */
+export function fromResilienceError(error: unknown): unknown {
+  if (error instanceof CircuitOpenError) {
+    const details: Record<string, unknown> = {};
+    if (error.recoveryAt !== undefined) details.recovery_at = error.recoveryAt;
+    return new AdapterError(
+      'RATE_LIMITED',
+      `Circuit breaker open: ${error.message}`,
+      true, // Retryable after recovery
+      Object.keys(details).length > 0 ? details : undefined
+    );
+  }
+  if (error instanceof RetryExhaustedError) {
+    const details: Record<string, unknown> = {};
+    if (error.lastError) details.last_error = error.lastError.message;
+    return new AdapterError(
+      'NETWORK_ERROR',
+      `Retry exhausted: ${error.message}`,
+      false,
+      Object.keys(details).length > 0 ? details : undefined
+    );
+  }
+  return error;
+}
+
+/**
+ * Estimate a request's input tokens (4 characters per token).
+ */
+function estimateTokens(request: ModelRequest): number {
+  return Math.ceil(requestText(request).length / 4);
+}
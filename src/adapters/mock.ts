@@ -19,12 +19,14 @@ import { createHash } from 'node:crypto';
 import type {
   ModelAdapter,
   ModelCapabilities,
+  ModelRequest,
   TransformContext,
   TransformResult,
   RecordedInteraction,
   RecordingSession,
+  ToolCall,
 } from './model.js';
-import { AdapterError } from './model.js';
+import { AdapterError, checkRequest, promptRequest, requestText } from './model.js';
 
 // =============================================================================
 // Mock Response Configuration
@@ -53,6 +55,11 @@ export interface MockResponse {
    * Simulated latency in ms (default: 0).
    */
   latency_ms?: number;
+
+  /**
+   * Tool calls to return (default: none).
+   */
+  tool_calls?: ToolCall[];
 }
 
 /**
@@ -106,6 +113,9 @@ export interface MockModelAdapterOptions {
  * 1. Exact prompt hash match
  * 2. Prompt substring match
  * 3. Default behavior (error, echo, or fixed response)
+ *
+ * A structured request matches as its request text (see requestText): the
+ * prompt of a single-prompt request, otherwise its canonical JSON.
  */
 export class MockModelAdapter implements ModelAdapter {
   readonly adapter_id: string;
@@ -198,11 +208,13 @@ export class MockModelAdapter implements ModelAdapter {
     };
   }
 
-  async transform(prompt: string, context: TransformContext): Promise<TransformResult> {
+  async complete(request: ModelRequest, context: TransformContext): Promise<TransformResult> {
     if (!this.ready) {
       throw new AdapterError('ADAPTER_ERROR', 'Adapter is not ready', false);
     }
+    checkRequest(request, this.capabilities);
 
+    const prompt = requestText(request);
     const promptHash = this.hashString(prompt);
     let response: MockResponse | undefined;
 
@@ -250,6 +262,7 @@ export class MockModelAdapter implements ModelAdapter {
       latency_ms,
       model_version: `${this.model_id}-mock`,
       from_cache: true,
+      ...(response.tool_calls && { tool_calls: response.tool_calls }),
     };
 
     // Record if enabled
@@ -267,6 +280,10 @@ export class MockModelAdapter implements ModelAdapter {
     return result;
   }
 
+  async transform(prompt: string, context: TransformContext): Promise<TransformResult> {
+    return this.complete(promptRequest(prompt), context);
+  }
+
   async isReady(): Promise<boolean> {
     return this.ready;
   }
@@ -12,11 +12,17 @@
  *
  * Design Principles:
  * - All methods return Promises (async boundary)
+ * - Requests are structured (system, messages, tools, response format)
+ *   and canonicalized for replay hashing
  * - Context includes all information needed for audit trails
  * - Results include metrics for observability
  * - No model-specific types leak through the interface
  */
 
+import { createHash } from 'node:crypto';
+
+import { canonicalize } from '../utils/canonical.js';
+
 // =============================================================================
 // Context Types
 // =============================================================================
@@ -60,6 +66,177 @@ export interface TransformContext {
   metadata: Readonly<Record<string, unknown>>;
 }
 
+// =============================================================================
+// Request Types
+// =============================================================================
+
+/**
+ * Role of a message in a conversation.
+ */
+export type ModelMessageRole = 'user' | 'assistant';
+
+/**
+ * Text content block.
+ */
+export interface TextBlock {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * Supported image media types.
+ */
+export type ImageMediaType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+/**
+ * Image content block (inline, base64-encoded).
+ */
+export interface ImageBlock {
+  type: 'image';
+  media_type: ImageMediaType;
+  /**
+   * Base64-encoded image bytes.
+   */
+  data: string;
+}
+
+/**
+ * A tool call requested by the model.
+ */
+export interface ToolCall {
+  /**
+   * Call ID, unique within the response (provider-assigned, or derived from
+   * the call's position for providers without IDs).
+   */
+  id: string;
+
+  /**
+   * Name of the tool to call.
+   */
+  name: string;
+
+  /**
+   * Tool input, matching the tool's input_schema.
+   */
+  input: Record<string, unknown>;
+}
+
+/**
+ * The outcome of a tool call, returned to the model.
+ */
+export interface ToolResult {
+  /**
+   * ID of the call this answers.
+   */
+  tool_use_id: string;
+
+  /**
+   * Tool output (text).
+   */
+  content: string;
+
+  /**
+   * Whether the tool failed.
+   */
+  is_error?: boolean;
+}
+
+/**
+ * Tool call content block (assistant messages).
+ */
+export interface ToolUseBlock extends ToolCall {
+  type: 'tool_use';
+}
+
+/**
+ * Tool result content block (user messages).
+ */
+export interface ToolResultBlock extends ToolResult {
+  type: 'tool_result';
+}
+
+/**
+ * A block of message content.
+ */
+export type ContentBlock = TextBlock | ImageBlock | ToolUseBlock | ToolResultBlock;
+
+/**
+ * A message in a conversation.
+ * A string content is equivalent to a single text block.
+ */
+export interface ModelMessage {
+  role: ModelMessageRole;
+  content: string | readonly ContentBlock[];
+}
+
+/**
+ * A tool the model may use, described by a JSON Schema for its input.
+ */
+export interface ToolDefinition {
+  /**
+   * Tool name (unique within a request).
+   */
+  name: string;
+
+  /**
+   * What the tool does, for the model.
+   */
+  description: string;
+
+  /**
+   * JSON Schema of the tool input (an object schema).
+   */
+  input_schema: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Expected response format: JSON matching a schema.
+ */
+export interface ResponseFormat {
+  type: 'json_schema';
+
+  /**
+   * Schema name (provider-facing identifier).
+   */
+  name: string;
+
+  /**
+   * JSON Schema the response must match.
+   */
+  schema: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * A structured model request.
+ */
+export interface ModelRequest {
+  /**
+   * System prompt.
+   */
+  system?: string;
+
+  /**
+   * Conversation, oldest first. MUST be non-empty.
+   */
+  messages: readonly ModelMessage[];
+
+  /**
+   * Tools the model may use (requires supports_tool_use).
+   * ORDERING: As presented to the model.
+   */
+  tools?: readonly ToolDefinition[];
+
+  /**
+   * Expected response format.
+   */
+  response_format?: ResponseFormat;
+
+  /**
+   * Maximum output tokens (default: the adapter's max_output_tokens).
+   */
+  max_tokens?: number;
+}
+
 // =============================================================================
 // Result Types
 // =============================================================================
@@ -97,6 +274,11 @@ export interface TransformResult {
    * Whether the response was from cache/replay.
    */
   from_cache: boolean;
+
+  /**
+   * Tools the model asked to call, in response order (absent if none).
+   */
+  tool_calls?: ToolCall[];
 }
 
 // =============================================================================
@@ -207,6 +389,8 @@ export type AdapterErrorCode =
   | 'NETWORK_ERROR'      // Network failure
   | 'TIMEOUT'            // Request timed out
   | 'REPLAY_MISS'        // No recorded response for replay
+  | 'TOOL_LOOP_LIMIT'    // Tool loop did not finish within its step limit
+  | 'BUDGET_EXCEEDED'    // Cost budget exhausted
   | 'ADAPTER_ERROR';     // Generic adapter error
 
 /**
@@ -260,11 +444,23 @@ export interface ModelAdapter {
   readonly capabilities: ModelCapabilities;
 
   /**
-   * Transform content using the model.
+   * Complete a structured request using the model.
    *
-   * This is the core operation. The adapter takes a prompt and context,
+   * This is the core operation. The adapter takes a request and context,
    * invokes the model (or mock/replay), and returns the result.
    *
+   * @param request - The request to send to the model
+   * @param context - Execution context for audit and determinism
+   * @returns Promise resolving to transform result
+   * @throws AdapterError on failure
+   */
+  complete(request: ModelRequest, context: TransformContext): Promise<TransformResult>;
+
+  /**
+   * Transform a single prompt using the model.
+   *
+   * Compatibility shim: equivalent to `complete(promptRequest(prompt), context)`.
+   *
    * @param prompt - The prompt to send to the model
    * @param context - Execution context for audit and determinism
    * @returns Promise resolving to transform result
@@ -397,6 +593,166 @@ export async function* simulateStream(
   };
 }
 
+// =============================================================================
+// Request Canonicalization
+// =============================================================================
+
+/**
+ * Build the request for a single prompt (one user message).
+ *
+ * @param prompt - Prompt text
+ * @returns Request
+ */
+export function promptRequest(prompt: string): ModelRequest {
+  return { messages: [{ role: 'user', content: prompt }] };
+}
+
+/**
+ * Get the prompt of a single-prompt request: one user message of text and
+ * nothing else. Such requests hash like the bare prompt, so recordings made
+ * with `transform` replay through `complete` and vice versa.
+ *
+ * @param request - Request
+ * @returns The prompt, or undefined if the request is not a single prompt
+ */
+export function requestPrompt(request: ModelRequest): string | undefined {
+  if (
+    request.system !== undefined ||
+    request.tools !== undefined ||
+    request.response_format !== undefined ||
+    request.max_tokens !== undefined ||
+    request.messages.length !== 1
+  ) {
+    return undefined;
+  }
+  const message = request.messages[0]!;
+  if (message.role !== 'user') return undefined;
+  if (typeof message.content === 'string') return message.content;
+  const [block, ...rest] = message.content;
+  return block?.type === 'text' && rest.length === 0 ? block.text : undefined;
+}
+
+/**
+ * Canonicalize a request: string contents become a text block, absent
+ * optional fields are omitted, and keys are sorted (canonicalize()).
+ * Message, block and tool order are preserved.
+ *
+ * @param request - Request
+ * @returns Canonical JSON
+ */
+export function canonicalizeRequest(request: ModelRequest): string {
+  return canonicalize({
+    ...(request.system !== undefined && { system: request.system }),
+    messages: request.messages.map((message) => ({
+      role: message.role,
+      content:
+        typeof message.content === 'string'
+          ? [{ type: 'text', text: message.content }]
+          : message.content.map(canonicalBlock),
+    })),
+    ...(request.tools !== undefined && {
+      tools: request.tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.input_schema,
+      })),
+    }),
+    ...(request.response_format !== undefined && {
+      response_format: {
+        type: request.response_format.type,
+        name: request.response_format.name,
+        schema: request.response_format.schema,
+      },
+    }),
+    ...(request.max_tokens !== undefined && { max_tokens: request.max_tokens }),
+  });
+}
+
+/**
+ * Canonical form of a content block (known fields only).
+ */
+function canonicalBlock(block: ContentBlock): Record<string, unknown> {
+  switch (block.type) {
+    case 'text':
+      return { type: 'text', text: block.text };
+    case 'image':
+      return { type: 'image', media_type: block.media_type, data: block.data };
+    case 'tool_use':
+      return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+    case 'tool_result':
+      return {
+        type: 'tool_result',
+        tool_use_id: block.tool_use_id,
+        content: block.content,
+        is_error: block.is_error ?? false,
+      };
+  }
+}
+
+/**
+ * Get the text a request is recorded and hashed as: the prompt of a
+ * single-prompt request, otherwise its canonical JSON.
+ *
+ * @param request - Request
+ * @returns Request text
+ */
+export function requestText(request: ModelRequest): string {
+  return requestPrompt(request) ?? canonicalizeRequest(request);
+}
+
+/**
+ * Hash a request for recording and replay lookup: SHA-256 (hex) of its
+ * request text.
+ *
+ * @param request - Request
+ * @returns Hex hash
+ */
+export function hashRequest(request: ModelRequest): string {
+  return createHash('sha256').update(requestText(request), 'utf-8').digest('hex');
+}
+
+/**
+ * Check a request against an adapter's capabilities.
+ *
+ * @param request - Request
+ * @param capabilities - Adapter capabilities
+ * @throws AdapterError (INVALID_REQUEST) if the request has no messages,
+ *   or has tools the adapter does not support
+ */
+export function checkRequest(request: ModelRequest, capabilities: ModelCapabilities): void {
+  if (request.messages.length === 0) {
+    throw new AdapterError('INVALID_REQUEST', 'Request has no messages', false);
+  }
+  if (request.tools !== undefined && request.tools.length > 0 && !capabilities.supports_tool_use) {
+    throw new AdapterError('INVALID_REQUEST', 'Adapter does not support tool use', false);
+  }
+}
+
+/**
+ * Render a response format as a system instruction, for providers without
+ * native structured output.
+ *
+ * @param format - Response format
+ * @returns Instruction text
+ */
+export function responseFormatInstruction(format: ResponseFormat): string {
+  return `Respond with JSON only, matching this JSON Schema (${format.name}):\n${JSON.stringify(format.schema)}`;
+}
+
+/**
+ * Get the text of message content.
+ *
+ * @param content - Message content
+ * @returns Text blocks joined with newlines (images omitted)
+ */
+export function contentText(content: ModelMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .filter((block): block is TextBlock => block.type === 'text')
+    .map((block) => block.text)
+    .join('\n');
+}
+
 // =============================================================================
 // Recording Types
 // =============================================================================
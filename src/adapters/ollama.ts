@@ -13,12 +13,21 @@
 import { createHash } from 'node:crypto';
 import {
   ModelCapabilities,
+  ModelMessage,
+  ModelRequest,
   TransformContext,
   TransformResult,
   AdapterError,
   StreamChunk,
   StreamResult,
   StreamingModelAdapter,
+  ToolCall,
+  ToolResultBlock,
+  ToolUseBlock,
+  checkRequest,
+  contentText,
+  promptRequest,
+  responseFormatInstruction,
 } from './model.js';
 
 // =============================================================================
@@ -154,6 +163,30 @@ interface OllamaGenerateResponse {
   eval_duration?: number;
 }
 
+/**
+ * Ollama chat message.
+ */
+interface OllamaChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> };
+}
+
+interface OllamaChatResponse {
+  model: string;
+  created_at: string;
+  message: OllamaChatMessage;
+  done: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
 // =============================================================================
 // Implementation
 // =============================================================================
@@ -199,8 +232,8 @@ export class OllamaAdapter implements StreamingModelAdapter {
     this.ready = true;
   }
 
-  async transform(
-    prompt: string,
+  async complete(
+    request: ModelRequest,
     _context: TransformContext
   ): Promise<TransformResult> {
     if (!this.ready) {
@@ -210,6 +243,7 @@ export class OllamaAdapter implements StreamingModelAdapter {
         false
       );
     }
+    checkRequest(request, this.capabilities);
 
     const start_time = performance.now();
 
@@ -220,20 +254,12 @@ export class OllamaAdapter implements StreamingModelAdapter {
         this.timeout_ms
       );
 
-      const response = await fetch(`${this.base_url}/api/generate`, {
+      const response = await fetch(`${this.base_url}/api/chat`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          model: this.model,
-          prompt,
-          stream: false,
-          options: {
-            temperature: this.temperature,
-            num_predict: this.num_predict,
-          },
-        }),
+        body: JSON.stringify(this.buildChatBody(request)),
         signal: controller.signal,
       });
 
@@ -244,22 +270,38 @@ export class OllamaAdapter implements StreamingModelAdapter {
         throw new Error(`Ollama API error ${response.status}: ${error_text}`);
       }
 
-      const data = (await response.json()) as OllamaGenerateResponse;
+      const data = (await response.json()) as OllamaChatResponse;
       const latency_ms = Math.round(performance.now() - start_time);
 
+      const tool_calls = (data.message.tool_calls ?? []).map(
+        (call, i): ToolCall => ({
+          id: `call_${i}`,
+          name: call.function.name,
+          input: call.function.arguments ?? {},
+        })
+      );
+
       return {
-        content: data.response,
+        content: data.message.content,
         tokens_input: data.prompt_eval_count ?? 0,
         tokens_output: data.eval_count ?? 0,
         latency_ms,
         model_version: data.model,
         from_cache: false,
+        ...(tool_calls.length > 0 && { tool_calls }),
       };
     } catch (error) {
       throw this.mapError(error);
     }
   }
 
+  async transform(
+    prompt: string,
+    context: TransformContext
+  ): Promise<TransformResult> {
+    return this.complete(promptRequest(prompt), context);
+  }
+
   async *transformStream(
     prompt: string,
     _context: TransformContext
@@ -405,6 +447,46 @@ export class OllamaAdapter implements StreamingModelAdapter {
     this.ready = false;
   }
 
+  /**
+   * Build an /api/chat body for a request. Models with structured output
+   * take the response format's schema as `format`; others get it as a
+   * system instruction.
+   */
+  private buildChatBody(request: ModelRequest): Record<string, unknown> {
+    const format = request.response_format;
+    const native = format !== undefined && this.capabilities.supports_structured_output;
+    const system = [
+      request.system,
+      format && !native && responseFormatInstruction(format),
+    ].filter((part): part is string => typeof part === 'string' && part !== '');
+
+    const messages: OllamaChatMessage[] = [
+      ...(system.length > 0 ? [{ role: 'system' as const, content: system.join('\n\n') }] : []),
+      ...toOllamaMessages(request.messages),
+    ];
+
+    return {
+      model: this.model,
+      messages,
+      ...(request.tools && {
+        tools: request.tools.map((tool) => ({
+          type: 'function',
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.input_schema,
+          },
+        })),
+      }),
+      ...(native && { format: format.schema }),
+      stream: false,
+      options: {
+        temperature: this.temperature,
+        num_predict: request.max_tokens ?? this.num_predict,
+      },
+    };
+  }
+
   /**
    * List available models on the Ollama server.
    */
@@ -466,6 +548,51 @@ export class OllamaAdapter implements StreamingModelAdapter {
   }
 }
 
+/**
+ * Convert messages to Ollama chat messages. Ollama calls carry no IDs, so
+ * tool results (`tool` messages) name their tool, looked up from the call.
+ */
+function toOllamaMessages(messages: readonly ModelMessage[]): OllamaChatMessage[] {
+  const callNames = new Map<string, string>();
+
+  return messages.flatMap((message): OllamaChatMessage[] => {
+    if (typeof message.content === 'string') {
+      return [{ role: message.role, content: message.content }];
+    }
+
+    const results = message.content
+      .filter((block): block is ToolResultBlock => block.type === 'tool_result')
+      .map((block): OllamaChatMessage => ({
+        role: 'tool',
+        content: block.is_error ? `Error: ${block.content}` : block.content,
+        tool_name: callNames.get(block.tool_use_id) ?? block.tool_use_id,
+      }));
+    const tool_calls = message.content
+      .filter((block): block is ToolUseBlock => block.type === 'tool_use')
+      .map((block): OllamaToolCall => {
+        callNames.set(block.id, block.name);
+        return { function: { name: block.name, arguments: block.input } };
+      });
+    const images = message.content.flatMap((block) =>
+      block.type === 'image' ? [block.data] : []
+    );
+    const content = contentText(message.content);
+
+    if (results.length > 0 && content === '' && images.length === 0) {
+      return results;
+    }
+    return [
+      ...results,
+      {
+        role: message.role,
+        content,
+        ...(images.length > 0 && { images }),
+        ...(tool_calls.length > 0 && { tool_calls }),
+      },
+    ];
+  });
+}
+
 // =============================================================================
 // Factory Functions
 // =============================================================================
@@ -15,12 +15,21 @@ import OpenAI from 'openai';
 import { createHash } from 'node:crypto';
 import {
   ModelCapabilities,
+  ModelMessage,
+  ModelRequest,
   TransformContext,
   TransformResult,
   AdapterError,
   StreamChunk,
   StreamResult,
   StreamingModelAdapter,
+  ToolCall,
+  ToolResultBlock,
+  ToolUseBlock,
+  checkRequest,
+  contentText,
+  promptRequest,
+  responseFormatInstruction,
 } from './model.js';
 
 // =============================================================================
@@ -210,8 +219,8 @@ export class OpenAIAdapter implements StreamingModelAdapter {
     this.ready = true;
   }
 
-  async transform(
-    prompt: string,
+  async complete(
+    request: ModelRequest,
     context: TransformContext
   ): Promise<TransformResult> {
     if (!this.ready) {
@@ -221,6 +230,7 @@ export class OpenAIAdapter implements StreamingModelAdapter {
         false
       );
     }
+    checkRequest(request, this.capabilities);
 
     const start_time = performance.now();
 
@@ -230,21 +240,38 @@ export class OpenAIAdapter implements StreamingModelAdapter {
 
       const response = await this.client.chat.completions.create({
         model: this.model,
-        max_tokens: this.capabilities.max_output_tokens,
+        max_tokens: request.max_tokens ?? this.capabilities.max_output_tokens,
         ...(isO1Model ? {} : { temperature: this.temperature }),
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
+        messages: this.buildMessages(request),
+        ...(request.tools && {
+          tools: request.tools.map((tool) => ({
+            type: 'function' as const,
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: { ...tool.input_schema },
+            },
+          })),
+        }),
+        ...(request.response_format &&
+          this.capabilities.supports_structured_output && {
+            response_format: {
+              type: 'json_schema' as const,
+              json_schema: {
+                name: request.response_format.name,
+                schema: { ...request.response_format.schema },
+              },
+            },
+          }),
         user: context.intent_id,
       });
 
       const latency_ms = Math.round(performance.now() - start_time);
 
       // Extract content
-      const content = response.choices[0]?.message?.content ?? '';
+      const message = response.choices[0]?.message;
+      const content = message?.content ?? '';
+      const tool_calls = toToolCalls(message?.tool_calls);
 
       return {
         content,
@@ -253,12 +280,20 @@ export class OpenAIAdapter implements StreamingModelAdapter {
         latency_ms,
         model_version: response.model,
         from_cache: false,
+        ...(tool_calls.length > 0 && { tool_calls }),
       };
     } catch (error) {
       throw this.mapError(error);
     }
   }
 
+  async transform(
+    prompt: string,
+    context: TransformContext
+  ): Promise<TransformResult> {
+    return this.complete(promptRequest(prompt), context);
+  }
+
   async *transformStream(
     prompt: string,
     context: TransformContext
@@ -293,12 +328,7 @@ export class OpenAIAdapter implements StreamingModelAdapter {
         model: this.model,
         max_tokens: this.capabilities.max_output_tokens,
         temperature: this.temperature,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
+        messages: this.buildMessages(promptRequest(prompt)),
         user: context.intent_id,
         stream: true,
         stream_options: { include_usage: true },
@@ -362,10 +392,40 @@ export class OpenAIAdapter implements StreamingModelAdapter {
     this.ready = false;
   }
 
+  /**
+   * Build chat messages for a request. A response format the model cannot
+   * enforce natively becomes part of the system prompt; o1 models take the
+   * system prompt as a leading user message.
+   */
+  private buildMessages(
+    request: ModelRequest
+  ): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const system = [
+      request.system,
+      request.response_format &&
+        !this.capabilities.supports_structured_output &&
+        responseFormatInstruction(request.response_format),
+    ].filter((part): part is string => typeof part === 'string' && part !== '');
+
+    const messages = request.messages.flatMap(toOpenAIMessages);
+    if (system.length === 0) return messages;
+    return [
+      {
+        role: this.model.startsWith('o1') ? 'user' : 'system',
+        content: system.join('\n\n'),
+      },
+      ...messages,
+    ];
+  }
+
   /**
    * Map OpenAI errors to AdapterError.
    */
   private mapError(error: unknown): AdapterError {
+    if (error instanceof AdapterError) {
+      return error;
+    }
+
     if (error instanceof OpenAI.APIError) {
       const status = error.status;
       const message = error.message;
@@ -416,6 +476,87 @@ export class OpenAIAdapter implements StreamingModelAdapter {
   }
 }
 
+/**
+ * Convert a message to OpenAI chat messages. Tool results become `tool`
+ * messages, which must directly follow the assistant's tool calls.
+ */
+function toOpenAIMessages(
+  message: ModelMessage
+): OpenAI.Chat.ChatCompletionMessageParam[] {
+  if (typeof message.content === 'string') {
+    return [{ role: message.role, content: message.content }];
+  }
+
+  if (message.role === 'assistant') {
+    const tool_calls = message.content
+      .filter((block): block is ToolUseBlock => block.type === 'tool_use')
+      .map((block) => ({
+        id: block.id,
+        type: 'function' as const,
+        function: { name: block.name, arguments: JSON.stringify(block.input) },
+      }));
+    const text = contentText(message.content);
+    return [
+      {
+        role: 'assistant',
+        content: text === '' && tool_calls.length > 0 ? null : text,
+        ...(tool_calls.length > 0 && { tool_calls }),
+      },
+    ];
+  }
+
+  const results = message.content
+    .filter((block): block is ToolResultBlock => block.type === 'tool_result')
+    .map((block): OpenAI.Chat.ChatCompletionToolMessageParam => ({
+      role: 'tool',
+      tool_call_id: block.tool_use_id,
+      content: block.is_error ? `Error: ${block.content}` : block.content,
+    }));
+  const parts = message.content.flatMap(
+    (block): OpenAI.Chat.ChatCompletionContentPart[] => {
+      if (block.type === 'text') return [{ type: 'text', text: block.text }];
+      if (block.type === 'image') {
+        return [
+          {
+            type: 'image_url',
+            image_url: { url: `data:${block.media_type};base64,${block.data}` },
+          },
+        ];
+      }
+      return [];
+    }
+  );
+  return [...results, ...(parts.length > 0 ? [{ role: 'user' as const, content: parts }] : [])];
+}
+
+/**
+ * Convert OpenAI tool calls to tool calls.
+ */
+function toToolCalls(
+  calls: OpenAI.Chat.ChatCompletionMessageToolCall[] | undefined
+): ToolCall[] {
+  return (calls ?? []).map((call) => {
+    let input: unknown;
+    try {
+      input = JSON.parse(call.function.arguments || '{}');
+    } catch {
+      throw new AdapterError(
+        'MODEL_ERROR',
+        `Tool call ${call.function.name} has invalid JSON arguments`,
+        true
+      );
+    }
+    if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+      throw new AdapterError(
+        'MODEL_ERROR',
+        `Tool call ${call.function.name} arguments are not an object`,
+        true
+      );
+    }
+    return { id: call.id, name: call.function.name, input: input as Record<string, unknown> };
+  });
+}
+
 // =============================================================================
 // Factory Functions
 // =============================================================================
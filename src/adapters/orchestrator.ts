@@ -12,13 +12,14 @@
 import type {
   ModelAdapter,
   ModelCapabilities,
+  ModelRequest,
   TransformContext,
   TransformResult,
   StreamChunk,
   StreamResult,
   StreamingModelAdapter,
 } from './model.js';
-import { AdapterError, isStreamingAdapter } from './model.js';
+import { AdapterError, isStreamingAdapter, promptRequest } from './model.js';
 import { createAdapter, type AdapterFactoryOptions, type AdapterProvider } from './factory.js';
 
 // =============================================================================
@@ -217,6 +218,16 @@ export class ModelOrchestrator implements StreamingModelAdapter {
   async transform(
     prompt: string,
     context: TransformContext
+  ): Promise<TransformResult> {
+    return this.complete(promptRequest(prompt), context);
+  }
+
+  /**
+   * Complete a request with intelligent routing.
+   */
+  async complete(
+    request: ModelRequest,
+    context: TransformContext
   ): Promise<TransformResult> {
     const startTime = performance.now();
 
@@ -234,7 +245,7 @@ export class ModelOrchestrator implements StreamingModelAdapter {
       (this.stats.requests_by_provider[provider] ?? 0) + 1;
 
     try {
-      const result = await adapter.transform(prompt, context);
+      const result = await adapter.complete(request, context);
 
       // Update latency stats
       const latency = performance.now() - startTime;
@@ -262,7 +273,7 @@ export class ModelOrchestrator implements StreamingModelAdapter {
         const fallbackAdapter = this.getFallbackAdapter(tier);
         if (fallbackAdapter && fallbackAdapter !== adapter) {
           this.stats.fallbacks++;
-          return fallbackAdapter.transform(prompt, context);
+          return fallbackAdapter.complete(request, context);
         }
       }
 
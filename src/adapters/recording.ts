@@ -11,7 +11,7 @@
  * const recorder = new RecordingModelAdapter(liveAdapter);
  *
  * // Use recorder instead of liveAdapter
- * await recorder.transform(prompt, context);
+ * await recorder.complete(request, context);
  *
  * // Save the recording
  * await recorder.saveRecording('recordings/session_001.json');
@@ -23,6 +23,7 @@ import { writeFile, readFile } from 'node:fs/promises';
 import type {
   ModelAdapter,
   ModelCapabilities,
+  ModelRequest,
   TransformContext,
   TransformResult,
   RecordedInteraction,
@@ -31,7 +32,7 @@ import type {
   StreamResult,
   StreamingModelAdapter,
 } from './model.js';
-import { AdapterError, isStreamingAdapter } from './model.js';
+import { AdapterError, isStreamingAdapter, promptRequest, requestText } from './model.js';
 
 // =============================================================================
 // Recording Model Adapter Implementation
@@ -79,7 +80,7 @@ export class RecordingModelAdapter implements StreamingModelAdapter {
     this.startedAt = new Date().toISOString();
   }
 
-  async transform(prompt: string, context: TransformContext): Promise<TransformResult> {
+  async complete(request: ModelRequest, context: TransformContext): Promise<TransformResult> {
     // Check recording limit
     if (this.interactions.length >= this.maxInteractions) {
       throw new AdapterError(
@@ -90,7 +91,8 @@ export class RecordingModelAdapter implements StreamingModelAdapter {
     }
 
     // Call delegate
-    const result = await this.delegate.transform(prompt, context);
+    const result = await this.delegate.complete(request, context);
+    const prompt = requestText(request);
 
     // Record interaction
     const interaction: RecordedInteraction = {
@@ -107,6 +109,10 @@ export class RecordingModelAdapter implements StreamingModelAdapter {
     return result;
   }
 
+  async transform(prompt: string, context: TransformContext): Promise<TransformResult> {
+    return this.complete(promptRequest(prompt), context);
+  }
+
   async *transformStream(
     prompt: string,
     context: TransformContext
@@ -296,12 +302,13 @@ export class ReplayModelAdapter implements StreamingModelAdapter {
       max_context_tokens: 100000,
       max_output_tokens: 4096,
       supports_structured_output: true,
-      supports_tool_use: false,
+      supports_tool_use: true, // Replay returns recorded tool calls
       supports_streaming: true, // Replay can simulate streaming
     };
   }
 
-  async transform(prompt: string, context: TransformContext): Promise<TransformResult> {
+  async complete(request: ModelRequest, _context: TransformContext): Promise<TransformResult> {
+    const prompt = requestText(request);
     const promptHash = this.hashString(prompt);
     let interaction: RecordedInteraction | undefined;
 
@@ -351,6 +358,10 @@ export class ReplayModelAdapter implements StreamingModelAdapter {
     };
   }
 
+  async transform(prompt: string, context: TransformContext): Promise<TransformResult> {
+    return this.complete(promptRequest(prompt), context);
+  }
+
   async *transformStream(
     prompt: string,
     context: TransformContext
@@ -0,0 +1,366 @@
+/**
+ * Structured Output
+ * =================
+ *
+ * Requests JSON matching a schema and validates the response locally.
+ *
+ * The schema travels as the request's response_format, so adapters with
+ * native structured output enforce it at the provider and the others
+ * receive it as a system instruction. Either way the response is checked
+ * here; an invalid response is sent back with its violations, asking the
+ * model to fix its JSON, up to a bounded number of repairs.
+ *
+ * Validation never depends on the adapter's capabilities: a replay of a
+ * recorded session makes the same repair calls the recording made.
+ *
+ * Usage:
+ * ```typescript
+ * const { value, violations } = await completeStructured(adapter, {
+ *   messages: [{ role: 'user', content: 'List three colors.' }],
+ *   response_format: { type: 'json_schema', name: 'colors', schema },
+ * }, context);
+ * ```
+ */
+
+import type {
+  ModelAdapter,
+  ModelMessage,
+  ModelRequest,
+  ResponseFormat,
+  TransformContext,
+  TransformResult,
+} from './model.js';
+import { AdapterError } from './model.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Schema keyword a value violated. 'json' means the response was not JSON.
+ */
+export type SchemaKeyword =
+  | 'json'
+  | 'type'
+  | 'enum'
+  | 'required'
+  | 'additionalProperties'
+  | 'minItems'
+  | 'maxItems'
+  | 'minLength'
+  | 'maxLength'
+  | 'minimum'
+  | 'maximum';
+
+/**
+ * A schema violation.
+ */
+export interface SchemaViolation {
+  /**
+   * JSON Pointer to the offending value ('' for the root).
+   */
+  path: string;
+
+  /**
+   * Keyword that failed.
+   */
+  keyword: SchemaKeyword;
+
+  /**
+   * Human-readable description.
+   */
+  message: string;
+}
+
+/**
+ * Options for completeStructured.
+ */
+export interface StructuredOptions {
+  /**
+   * Maximum number of repair re-prompts (default: DEFAULT_MAX_REPAIRS).
+   */
+  max_repairs?: number;
+}
+
+/**
+ * Result of a structured completion.
+ */
+export interface StructuredResult {
+  /**
+   * The parsed response, present only if it matches the schema.
+   */
+  value?: unknown;
+
+  /**
+   * The last response. Tokens and latency are totals over all attempts.
+   */
+  result: TransformResult;
+
+  /**
+   * Violations of the last response (empty if valid).
+   * ORDERING: Validation order (required before property checks).
+   */
+  violations: SchemaViolation[];
+
+  /**
+   * Number of complete() calls made (1 + repairs).
+   */
+  attempts: number;
+}
+
+/**
+ * Default maximum number of repair re-prompts.
+ */
+export const DEFAULT_MAX_REPAIRS = 2;
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate a value against a JSON Schema.
+ *
+ * Supports the subset of JSON Schema used for response formats: type
+ * (including type arrays), enum, properties, required,
+ * additionalProperties, items, minItems, maxItems, minLength, maxLength,
+ * minimum and maximum. Other keywords are ignored.
+ *
+ * @param schema - JSON Schema
+ * @param value - Parsed JSON value
+ * @returns Violations (empty if valid)
+ */
+export function validateSchema(
+  schema: Readonly<Record<string, unknown>>,
+  value: unknown
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  validateAt(schema, value, '', violations);
+  return violations;
+}
+
+/**
+ * Parse a response and validate it against a response format. The JSON is
+ * extracted first (see extractJSON), so a code block or prose around it is
+ * ignored.
+ *
+ * @param content - Response content
+ * @param format - Expected response format
+ * @returns Parsed value (if JSON) and violations
+ */
+export function parseStructured(
+  content: string,
+  format: ResponseFormat
+): { value?: unknown; violations: SchemaViolation[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJSON(content));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { violations: [{ path: '', keyword: 'json', message: `Invalid JSON: ${message}` }] };
+  }
+  return { value, violations: validateSchema(format.schema, value) };
+}
+
+/**
+ * Extract JSON from a response that may contain markdown code blocks.
+ */
+export function extractJSON(response: string): string {
+  // Try to find JSON in code blocks first
+  const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (codeBlockMatch && codeBlockMatch[1]) {
+    return codeBlockMatch[1].trim();
+  }
+
+  // Try to find raw JSON (object or array)
+  const jsonMatch = response.match(/(\{[\s\S]*\}|\[[\s\S]*\])/);
+  if (jsonMatch && jsonMatch[1]) {
+    return jsonMatch[1].trim();
+  }
+
+  // Return as-is
+  return response.trim();
+}
+
+function validateAt(
+  schema: Readonly<Record<string, unknown>>,
+  value: unknown,
+  path: string,
+  violations: SchemaViolation[]
+): void {
+  const types = schema['type'] === undefined ? undefined : ([] as unknown[]).concat(schema['type']);
+  if (types && !types.some((type) => matchesType(type, value))) {
+    violations.push({ path, keyword: 'type', message: `must be ${types.join(' or ')}` });
+    return;
+  }
+
+  const allowed = schema['enum'];
+  if (Array.isArray(allowed) && !allowed.some((option) => option === value)) {
+    violations.push({
+      path,
+      keyword: 'enum',
+      message: `must be one of ${allowed.map((option) => JSON.stringify(option)).join(', ')}`,
+    });
+  }
+
+  if (typeof value === 'string') {
+    checkBound(schema, 'minLength', value.length, path, violations, `must have at least %d characters`);
+    checkBound(schema, 'maxLength', value.length, path, violations, `must have at most %d characters`);
+  } else if (typeof value === 'number') {
+    checkBound(schema, 'minimum', value, path, violations, `must be >= %d`);
+    checkBound(schema, 'maximum', value, path, violations, `must be <= %d`);
+  } else if (Array.isArray(value)) {
+    checkBound(schema, 'minItems', value.length, path, violations, `must have at least %d items`);
+    checkBound(schema, 'maxItems', value.length, path, violations, `must have at most %d items`);
+    const items = schema['items'];
+    if (isObject(items)) {
+      value.forEach((item, i) => validateAt(items, item, `${path}/${i}`, violations));
+    }
+  } else if (isObject(value)) {
+    validateObject(schema, value, path, violations);
+  }
+}
+
+function validateObject(
+  schema: Readonly<Record<string, unknown>>,
+  value: Record<string, unknown>,
+  path: string,
+  violations: SchemaViolation[]
+): void {
+  const properties = isObject(schema['properties']) ? schema['properties'] : {};
+  const required = Array.isArray(schema['required']) ? schema['required'] : [];
+
+  for (const name of required) {
+    if (typeof name === 'string' && !Object.hasOwn(value, name)) {
+      violations.push({ path: `${path}/${pointer(name)}`, keyword: 'required', message: 'is required' });
+    }
+  }
+
+  const additional = schema['additionalProperties'];
+  for (const [name, item] of Object.entries(value)) {
+    const property = Object.hasOwn(properties, name) ? properties[name] : undefined;
+    const itemPath = `${path}/${pointer(name)}`;
+    if (isObject(property)) {
+      validateAt(property, item, itemPath, violations);
+    } else if (property === undefined && additional === false) {
+      violations.push({ path: itemPath, keyword: 'additionalProperties', message: 'is not allowed' });
+    } else if (property === undefined && isObject(additional)) {
+      validateAt(additional, item, itemPath, violations);
+    }
+  }
+}
+
+function checkBound(
+  schema: Readonly<Record<string, unknown>>,
+  keyword: 'minLength' | 'maxLength' | 'minimum' | 'maximum' | 'minItems' | 'maxItems',
+  actual: number,
+  path: string,
+  violations: SchemaViolation[],
+  message: string
+): void {
+  const bound = schema[keyword];
+  if (typeof bound !== 'number') {
+    return;
+  }
+  const lower = keyword.startsWith('min');
+  if (lower ? actual < bound : actual > bound) {
+    violations.push({ path, keyword, message: message.replace('%d', String(bound)) });
+  }
+}
+
+function matchesType(type: unknown, value: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Escape a property name as a JSON Pointer token (RFC 6901).
+ */
+function pointer(name: string): string {
+  return name.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+// =============================================================================
+// Structured Completion
+// =============================================================================
+
+/**
+ * Complete a request whose response must match its response_format.
+ *
+ * Each repair appends the invalid response and a user message listing its
+ * violations to the conversation, so every attempt is an ordinary
+ * complete() call that a RecordingModelAdapter records.
+ *
+ * @param adapter - Adapter to call
+ * @param request - Request (MUST have a response_format)
+ * @param context - Transform context passed to every attempt
+ * @param options - Repair options
+ * @returns The last response, its parsed value if valid, and its violations
+ * @throws AdapterError (INVALID_REQUEST) if the request has no response_format
+ */
+export async function completeStructured(
+  adapter: ModelAdapter,
+  request: ModelRequest,
+  context: TransformContext,
+  options: StructuredOptions = {}
+): Promise<StructuredResult> {
+  const format = request.response_format;
+  if (!format) {
+    throw new AdapterError('INVALID_REQUEST', 'Structured request has no response_format', false);
+  }
+  const maxRepairs = options.max_repairs ?? DEFAULT_MAX_REPAIRS;
+
+  const messages: ModelMessage[] = [...request.messages];
+  let tokens_input = 0;
+  let tokens_output = 0;
+  let latency_ms = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await adapter.complete({ ...request, messages: [...messages] }, context);
+    tokens_input += result.tokens_input;
+    tokens_output += result.tokens_output;
+    latency_ms += result.latency_ms;
+
+    const { value, violations } = parseStructured(result.content, format);
+    if (violations.length === 0 || attempt > maxRepairs) {
+      return {
+        ...(violations.length === 0 && { value }),
+        result: { ...result, tokens_input, tokens_output, latency_ms },
+        violations,
+        attempts: attempt,
+      };
+    }
+
+    messages.push(
+      { role: 'assistant', content: result.content },
+      { role: 'user', content: repairPrompt(violations) }
+    );
+  }
+}
+
+/**
+ * Build the re-prompt asking the model to fix its JSON.
+ */
+function repairPrompt(violations: readonly SchemaViolation[]): string {
+  const lines = violations.map((v) => `- ${v.path || '(root)'}: ${v.message}`);
+  return `Your response does not match the required JSON Schema:\n${lines.join('\n')}\n\nRespond with the corrected JSON only.`;
+}
@@ -0,0 +1,152 @@
+/**
+ * Tool Loop
+ * =========
+ *
+ * Runs a provider-neutral tool-calling conversation: the model is asked,
+ * each tool call it makes is answered by a local handler, and the results
+ * are sent back until the model responds without tool calls.
+ *
+ * Every step is a plain complete() call whose request carries the whole
+ * conversation so far, so a RecordingModelAdapter records each step and a
+ * ReplayModelAdapter replays the loop deterministically.
+ *
+ * Usage:
+ * ```typescript
+ * const { result } = await runToolLoop(adapter, promptRequest('Is src/ clean?'), tools, {
+ *   read_file: async (input) => readFile(String(input['path']), 'utf-8'),
+ * }, context);
+ * ```
+ */
+
+import type {
+  ContentBlock,
+  ModelAdapter,
+  ModelMessage,
+  ModelRequest,
+  ToolCall,
+  ToolDefinition,
+  ToolResultBlock,
+  TransformContext,
+  TransformResult,
+} from './model.js';
+import { AdapterError } from './model.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Handles a tool call: returns the tool output, or throws to report a
+ * tool failure to the model.
+ */
+export type ToolHandler = (
+  input: Record<string, unknown>,
+  call: ToolCall
+) => string | Promise<string>;
+
+/**
+ * Tool handlers by tool name.
+ */
+export type ToolHandlers = Readonly<Record<string, ToolHandler>>;
+
+/**
+ * Result of a tool loop.
+ */
+export interface ToolLoopResult {
+  /**
+   * The final response (without tool calls).
+   */
+  result: TransformResult;
+
+  /**
+   * The conversation, including every tool call and result.
+   * ORDERING: Oldest first.
+   */
+  messages: readonly ModelMessage[];
+
+  /**
+   * Number of complete() calls made.
+   */
+  steps: number;
+}
+
+/**
+ * Default maximum number of model calls in a tool loop.
+ */
+export const DEFAULT_MAX_TOOL_STEPS = 10;
+
+// =============================================================================
+// Tool Loop
+// =============================================================================
+
+/**
+ * Run a tool loop.
+ *
+ * Tool calls are handled one at a time, in the order the model made them.
+ * An unknown tool or a handler that throws is reported to the model as an
+ * error result; the loop continues.
+ *
+ * @param adapter - Adapter to call (must support tool use)
+ * @param request - Initial request (its tools are replaced by `tools`)
+ * @param tools - Tools the model may use
+ * @param handlers - Handler for each tool
+ * @param context - Transform context passed to every step
+ * @param maxSteps - Maximum number of model calls
+ * @returns Final response and conversation
+ * @throws AdapterError (TOOL_LOOP_LIMIT) if the model still calls tools
+ *   after maxSteps calls
+ */
+export async function runToolLoop(
+  adapter: ModelAdapter,
+  request: ModelRequest,
+  tools: readonly ToolDefinition[],
+  handlers: ToolHandlers,
+  context: TransformContext,
+  maxSteps: number = DEFAULT_MAX_TOOL_STEPS
+): Promise<ToolLoopResult> {
+  const messages: ModelMessage[] = [...request.messages];
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const result = await adapter.complete({ ...request, messages: [...messages], tools }, context);
+    const calls = result.tool_calls ?? [];
+    if (calls.length === 0) {
+      return { result, messages, steps: step };
+    }
+
+    const content: ContentBlock[] = result.content ? [{ type: 'text', text: result.content }] : [];
+    messages.push({
+      role: 'assistant',
+      content: [...content, ...calls.map((call): ContentBlock => ({ type: 'tool_use', ...call }))],
+    });
+
+    const results: ToolResultBlock[] = [];
+    for (const call of calls) {
+      results.push(await runTool(call, handlers));
+    }
+    messages.push({ role: 'user', content: results });
+  }
+
+  throw new AdapterError(
+    'TOOL_LOOP_LIMIT',
+    `Tool loop did not finish within ${maxSteps} steps`,
+    false,
+    { max_steps: maxSteps }
+  );
+}
+
+/**
+ * Answer one tool call.
+ */
+async function runTool(call: ToolCall, handlers: ToolHandlers): Promise<ToolResultBlock> {
+  const handler = Object.hasOwn(handlers, call.name) ? handlers[call.name] : undefined;
+  if (!handler) {
+    return { type: 'tool_result', tool_use_id: call.id, content: `Unknown tool: ${call.name}`, is_error: true };
+  }
+
+  try {
+    return { type: 'tool_result', tool_use_id: call.id, content: await handler(call.input, call) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { type: 'tool_result', tool_use_id: call.id, content: message, is_error: true };
+  }
+}
@@ -26,6 +26,8 @@ import {
   type Output,
   type OutputId,
   type Question,
+  type ModelAssist,
+  type ResolvedAnswer,
   type Score,
 } from '../types/artifacts.js';
 import { clampToScore } from '../types/validation.js';
@@ -38,7 +40,7 @@ import { clampToScore } from '../types/validation.js';
  * Current kernel version.
  * This is embedded in every bundle for reproducibility.
  */
-export const KERNEL_VERSION = '0.1.0';
+export const KERNEL_VERSION = '0.3.0';
 
 // =============================================================================
 // Output Generation
@@ -112,6 +114,16 @@ function formatConstraintSummary(node: ContextNode): string {
   lines.push(`- Schema Gaps: ${node.entropy.schema_gaps}`);
   lines.push(`- Contradictions: ${node.entropy.contradiction_count}`);
 
+  const contradictions = node.entropy.contradictions ?? [];
+  if (contradictions.length > 0) {
+    lines.push('');
+    lines.push('## Contradictions');
+    lines.push('');
+    for (const c of contradictions) {
+      lines.push(`- [${c.rule_id}] "${node.constraints[c.a_index]}" vs "${node.constraints[c.b_index]}": ${c.explanation}`);
+    }
+  }
+
   if (node.unresolved_questions.length > 0) {
     lines.push('');
     lines.push('## Unresolved Questions');
@@ -206,11 +218,13 @@ function determineBundleStatus(unresolvedQuestions: Question[]): BundleStatus {
  *
  * @param intent - Normalized input intent
  * @param decomposition - Decomposition result
+ * @param resolvedAnswers - Answers applied via resolveBundle (sorted by question_id)
  * @returns Complete bundle
  */
 export function assembleBundle(
   intent: NormalizedIntent,
-  decomposition: FullDecompositionResult
+  decomposition: FullDecompositionResult,
+  resolvedAnswers: ResolvedAnswer[] = []
 ): Bundle {
   // Compute intent hash
   const sourceIntentHash = canonicalHash(intent);
@@ -237,6 +251,10 @@ export function assembleBundle(
     terminal_nodes: decomposition.terminal_nodes,
     outputs,
     unresolved_questions: unresolvedQuestions,
+    // Optional fields are omitted when empty so existing bundle hashes are unchanged
+    ...(decomposition.entropy_packs.length > 0 && { entropy_packs: decomposition.entropy_packs }),
+    ...(decomposition.question_templates && { question_templates: decomposition.question_templates }),
+    ...(resolvedAnswers.length > 0 && { resolved_answers: resolvedAnswers }),
     stats,
   };
 
@@ -291,6 +309,25 @@ export function transform(
   return bundle;
 }
 
+/**
+ * Attach advisory model output to a bundle. The bundle ID is re-derived,
+ * so it covers the model output; everything else is unchanged.
+ *
+ * @param bundle - Bundle from transform (or resolveBundle)
+ * @param assist - Model output (see harness model record/replay)
+ * @returns Bundle with model_assist
+ */
+export function withModelAssist(bundle: Bundle, assist: ModelAssist): Bundle {
+  const { id: _previousId, ...content } = bundle;
+  const bundleContent = { ...content, model_assist: assist };
+  const id = deriveId('bundle', bundleContent) as BundleId;
+
+  return {
+    id,
+    ...bundleContent,
+  };
+}
+
 /**
  * Get the canonical bytes of a bundle.
  * This is what gets hashed for verification.
@@ -0,0 +1,143 @@
+/**
+ * Incremental Transform
+ * =====================
+ *
+ * Re-runs the transform for a changed intent, reusing the analysis of
+ * nodes that a previous bundle already contains.
+ *
+ * Node analyses (entropy, density, generated questions and the splitting
+ * decision) are pure functions of (goal, sorted constraints, analysis
+ * scope), so a cache seeded from the previous bundle yields a bundle that
+ * is byte-identical to a cold transform() of the new intent.
+ */
+
+import { normalizeIntent } from '../utils/normalize.js';
+import {
+  decompose,
+  createAnalysisScope,
+  nodeCacheKey,
+  type DecompositionCache,
+  type NodeAnalysis,
+} from '../decomposition/decomposer.js';
+import type { Bundle, ContextNode, NodeId, Question } from '../types/artifacts.js';
+import { assembleBundle, DEFAULT_TRANSFORM_CONFIG, KERNEL_VERSION, type TransformConfig } from './bundle.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Result of an incremental transform.
+ */
+export interface IncrementalTransformResult {
+  /**
+   * The new bundle (identical to transform(newIntent, config)).
+   */
+  bundle: Bundle;
+
+  /**
+   * Nodes of the new tree whose analysis was computed.
+   * ORDERING: Sorted ascending.
+   */
+  recomputed_node_ids: NodeId[];
+
+  /**
+   * Nodes of the new tree whose analysis was reused.
+   * ORDERING: Sorted ascending.
+   */
+  reused_node_ids: NodeId[];
+}
+
+// =============================================================================
+// Cache Seeding
+// =============================================================================
+
+/**
+ * Reconstruct a node's analysis from its bundle form.
+ *
+ * Expanded nodes list every candidate question except the splitting one;
+ * terminal nodes with unresolved questions were expanded without a viable
+ * split. Other nodes (terminal by threshold or depth, or never reached)
+ * carry measurements only.
+ */
+function analysisOf(node: ContextNode): NodeAnalysis {
+  const analysis: NodeAnalysis = { entropy: node.entropy, density: node.density };
+
+  if (node.splitting_question) {
+    const questions: Question[] = [...node.unresolved_questions, node.splitting_question.question];
+    questions.sort((a, b) => {
+      if (a.priority !== b.priority) {
+        return b.priority - a.priority;
+      }
+      return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    });
+    analysis.expansion = { questions, splitting_question: node.splitting_question };
+  } else if (node.status === 'terminal' && node.unresolved_questions.length > 0) {
+    analysis.expansion = { questions: [...node.unresolved_questions], splitting_question: null };
+  }
+
+  return analysis;
+}
+
+/**
+ * Seed a decomposition cache from the nodes a bundle contains.
+ *
+ * Entries are keyed by the bundle's own analysis scope (its entropy packs,
+ * question template pack and resolved answers); they are only hit by a
+ * decomposition with the same scope. A bundle from another kernel version
+ * seeds nothing, since its analyses may differ.
+ *
+ * @param bundle - Previous bundle
+ * @returns Decomposition cache
+ */
+export function seedDecompositionCache(bundle: Bundle): DecompositionCache {
+  const cache: DecompositionCache = new Map();
+  if (bundle.kernel_version !== KERNEL_VERSION) {
+    return cache;
+  }
+
+  const scope = createAnalysisScope(
+    bundle.entropy_packs ?? [],
+    bundle.question_templates ?? null,
+    (bundle.resolved_answers ?? []).map((r) => r.question_id)
+  );
+
+  for (const node of [bundle.root_node, ...bundle.terminal_nodes]) {
+    cache.set(nodeCacheKey(node.goal, node.constraints, scope), analysisOf(node));
+  }
+
+  return cache;
+}
+
+// =============================================================================
+// Incremental Transform
+// =============================================================================
+
+/**
+ * Transform a new intent, reusing unchanged subtrees of a previous bundle.
+ *
+ * @param previousBundle - Bundle from an earlier transform
+ * @param newIntent - The changed intent
+ * @param config - Transform configuration (should match the previous run)
+ * @returns New bundle with the recomputed and reused node IDs
+ */
+export function incrementalTransform(
+  previousBundle: Bundle,
+  newIntent: { goal: string; constraints?: string[]; context?: Record<string, unknown> },
+  config: TransformConfig = DEFAULT_TRANSFORM_CONFIG
+): IncrementalTransformResult {
+  const intent = normalizeIntent(newIntent);
+  const cache = seedDecompositionCache(previousBundle);
+
+  const decomposition = decompose(intent.goal, intent.constraints, config, cache);
+  const bundle = assembleBundle(intent, decomposition);
+
+  const recomputed = new Set(decomposition.recomputed_node_ids);
+  const reused = [...decomposition.nodes.keys()].filter((id) => !recomputed.has(id)).sort();
+
+  return {
+    bundle,
+    recomputed_node_ids: decomposition.recomputed_node_ids,
+    reused_node_ids: reused,
+  };
+}
@@ -4,3 +4,5 @@
  */
 
 export * from './bundle.js';
+export * from './resolve.js';
+export * from './incremental.js';
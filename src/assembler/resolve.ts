@@ -0,0 +1,230 @@
+/**
+ * Bundle Resolution
+ * =================
+ *
+ * Feeds answers to a CLARIFY bundle's questions back into the kernel.
+ *
+ * Each answer is validated against the question's expected_answer_type,
+ * mapped to the matching branch, and the branch's constraints are added to
+ * the intent. Decomposition is then re-run with the answered questions
+ * excluded, so the resolved bundle is a deterministic function of
+ * (previous bundle, answers, config).
+ */
+
+import { canonicalize } from '../utils/canonical.js';
+import { normalizeConstraints, normalizeString, type NormalizedIntent } from '../utils/normalize.js';
+import { decompose, selectBranch } from '../decomposition/decomposer.js';
+import type {
+  Bundle,
+  Question,
+  QuestionId,
+  QuestionTemplatePackRef,
+  ResolvedAnswer,
+} from '../types/artifacts.js';
+import { assembleBundle, DEFAULT_TRANSFORM_CONFIG, type TransformConfig } from './bundle.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Answers keyed by question ID.
+ * Value types follow the question's expected_answer_type:
+ * - boolean: true | false
+ * - choice: one of the question's options
+ * - text: non-empty string
+ * - number: finite number
+ * - list: non-empty array of non-empty strings
+ * - structured: plain object
+ */
+export type AnswerMap = Record<QuestionId, unknown>;
+
+// =============================================================================
+// Answer Validation
+// =============================================================================
+
+/**
+ * Check if value is a plain object.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Throw the error for an answer that does not match its question.
+ */
+function invalidAnswer(question: Question, expected: string): never {
+  throw new Error(
+    `Invalid answer for ${question.id} (${question.expected_answer_type}): expected ${expected}`
+  );
+}
+
+/**
+ * Validate an answer against its question and render it as a string.
+ *
+ * @param question - Question being answered
+ * @param value - Supplied answer
+ * @returns Normalized answer string
+ * @throws Error if the answer does not match expected_answer_type
+ */
+export function formatAnswer(question: Question, value: unknown): string {
+  switch (question.expected_answer_type) {
+    case 'boolean':
+      if (typeof value !== 'boolean') invalidAnswer(question, 'a boolean');
+      return value ? 'Yes' : 'No';
+
+    case 'choice': {
+      if (typeof value !== 'string') invalidAnswer(question, 'a string');
+      const answer = normalizeString(value).trim();
+      const options = question.options ?? [];
+      if (!options.includes(answer)) invalidAnswer(question, `one of: ${options.join(', ')}`);
+      return answer;
+    }
+
+    case 'text': {
+      if (typeof value !== 'string') invalidAnswer(question, 'a string');
+      const answer = normalizeString(value).trim();
+      if (answer.length === 0) invalidAnswer(question, 'a non-empty string');
+      return answer;
+    }
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) invalidAnswer(question, 'a finite number');
+      return String(value);
+
+    case 'list': {
+      if (!Array.isArray(value) || value.length === 0) invalidAnswer(question, 'a non-empty array');
+      const items = value.map((item: unknown) =>
+        typeof item === 'string' ? normalizeString(item).trim() : ''
+      );
+      if (items.some((item) => item.length === 0)) invalidAnswer(question, 'an array of non-empty strings');
+      return items.join(', ');
+    }
+
+    case 'structured':
+      if (!isObject(value)) invalidAnswer(question, 'an object');
+      return canonicalize(value);
+  }
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/**
+ * Collect every question a bundle exposes, keyed by ID.
+ * Includes splitting questions, which are not listed as unresolved.
+ */
+function collectQuestions(bundle: Bundle): Map<QuestionId, Question> {
+  const questions = new Map<QuestionId, Question>();
+  const nodes = [bundle.root_node, ...bundle.terminal_nodes];
+
+  for (const node of nodes) {
+    if (node.splitting_question) {
+      questions.set(node.splitting_question.question.id, node.splitting_question.question);
+    }
+    for (const q of node.unresolved_questions) {
+      questions.set(q.id, q);
+    }
+  }
+  for (const q of bundle.unresolved_questions) {
+    questions.set(q.id, q);
+  }
+
+  return questions;
+}
+
+/**
+ * Describe a question template pack for error messages.
+ */
+function describePack(ref: QuestionTemplatePackRef | undefined): string {
+  return ref ? `${ref.id}@${ref.version} (${ref.sha256.slice(0, 12)})` : 'built-in templates';
+}
+
+/**
+ * Resolve a bundle's questions with supplied answers.
+ *
+ * The resolved intent is the root node's goal and constraints plus the
+ * constraints of each selected branch. Answers already recorded in the
+ * bundle (from an earlier resolution) are carried forward. Intent context
+ * is not part of a bundle and therefore not part of the resolved intent.
+ * A bundle generated with a question template pack must be resolved with
+ * the same pack (config.question_templates).
+ *
+ * @param bundle - Bundle whose questions are being answered
+ * @param answers - Answers keyed by question ID
+ * @param config - Transform configuration
+ * @returns Resolved bundle with resolved_answers recorded
+ * @throws Error if a question is unknown, already resolved, or an answer is invalid,
+ *   or if the question template pack does not match the bundle's
+ */
+export function resolveBundle(
+  bundle: Bundle,
+  answers: AnswerMap,
+  config: TransformConfig = DEFAULT_TRANSFORM_CONFIG
+): Bundle {
+  const questions = collectQuestions(bundle);
+  const previous = bundle.resolved_answers ?? [];
+  const previousIds = new Set(previous.map((r) => r.question_id));
+
+  const resolved: ResolvedAnswer[] = [...previous];
+  const addedConstraints: string[] = [];
+
+  // Sorted iteration keeps error reporting independent of key order
+  const questionIds = Object.keys(answers).sort();
+
+  for (const questionId of questionIds) {
+    if (previousIds.has(questionId)) {
+      throw new Error(`Question already resolved: ${questionId}`);
+    }
+    const question = questions.get(questionId);
+    if (!question) {
+      throw new Error(`Unknown question: ${questionId}`);
+    }
+
+    const answer = formatAnswer(question, answers[questionId]);
+    const branch = selectBranch(question, answer);
+    if (!branch) {
+      throw new Error(`No branch matches answer for ${questionId}: ${answer}`);
+    }
+
+    const branchConstraints = normalizeConstraints(branch.added_constraints);
+    addedConstraints.push(...branchConstraints);
+    resolved.push({
+      question_id: question.id,
+      question_text: question.text,
+      answer: branch.answer,
+      branch_id: branch.branch_id,
+      added_constraints: branchConstraints,
+    });
+  }
+
+  resolved.sort((a, b) => (a.question_id < b.question_id ? -1 : a.question_id > b.question_id ? 1 : 0));
+
+  const intent: NormalizedIntent = {
+    goal: bundle.root_node.goal,
+    constraints: normalizeConstraints([...bundle.root_node.constraints, ...addedConstraints]),
+    context: {},
+  };
+
+  // Measure with the bundle's packs unless the config selects its own
+  const entropyPacks = config.entropy_packs ?? bundle.entropy_packs?.map((p) => p.id);
+
+  const decomposition = decompose(intent.goal, intent.constraints, {
+    ...config,
+    resolved_question_ids: resolved.map((r) => r.question_id),
+    ...(entropyPacks && { entropy_packs: entropyPacks }),
+  });
+
+  // Answers only make sense against the catalog that asked the questions
+  const expected = bundle.question_templates?.sha256 ?? null;
+  const actual = decomposition.question_templates?.sha256 ?? null;
+  if (expected !== actual) {
+    throw new Error(
+      `Question template pack mismatch: bundle uses ${describePack(bundle.question_templates)}, ` +
+        `config provides ${describePack(decomposition.question_templates ?? undefined)}`
+    );
+  }
+
+  return assembleBundle(intent, decomposition, resolved);
+}
@@ -29,7 +29,7 @@ export type ApplyOperationStatus = 'success' | 'skipped' | 'error';
 /**
  * Operation type (matches PatchOpType).
  */
-export type ApplyOpType = 'create' | 'modify' | 'delete';
+export type ApplyOpType = 'create' | 'modify' | 'delete' | 'rename' | 'set_mode';
 
 /**
  * Result of a single operation within an apply.
@@ -41,10 +41,28 @@ export interface ApplyOperationResult {
   op: ApplyOpType;
 
   /**
-   * Target path (relative).
+   * Target path (relative). For rename, the source path.
    */
   path: string;
 
+  /**
+   * Destination path (rename only, relative).
+   */
+  to?: string;
+
+  /**
+   * Permission bits before the operation (set_mode only; null if the
+   * file didn't exist).
+   * Format: 4 octal digits, e.g. "0644"
+   */
+  before_mode?: string | null;
+
+  /**
+   * Permission bits after the operation (set_mode, and create with mode).
+   * Format: 4 octal digits, e.g. "0755"
+   */
+  after_mode?: string;
+
   /**
    * Operation status.
    */
@@ -58,6 +76,7 @@ export interface ApplyOperationResult {
 
   /**
    * Hash of file after operation (null if deleted/error).
+   * For rename, the hash of the destination file.
    * Format: sha256:{64 hex characters}
    */
   after_hash: string | null;
@@ -182,6 +201,158 @@ export interface ApplyResult {
    */
   violations?: ApplyViolation[];
 
+  /**
+   * Rollback journal written alongside this report (non-dry-run applies
+   * that reached execution, when a journal path was requested).
+   */
+  journal?: ApplyJournalRef;
+
+  /**
+   * Error message if outcome is FAILED or REFUSED.
+   */
+  error?: string;
+}
+
+// =============================================================================
+// Rollback Journal
+// =============================================================================
+
+/**
+ * Current rollback journal schema version.
+ */
+export const ROLLBACK_SCHEMA_VERSION = '1.0.0';
+
+/**
+ * Reference from an apply report to its rollback journal.
+ */
+export interface ApplyJournalRef {
+  /**
+   * Journal file name, relative to the directory holding the report.
+   */
+  file: string;
+
+  /**
+   * Hash of the journal file bytes (canonical JSON).
+   * Format: sha256:{64 hex characters}
+   */
+  sha256: string;
+}
+
+/**
+ * Pre-image of one file touched by an apply.
+ */
+export interface RollbackEntry {
+  /**
+   * Touched path (relative). A rename contributes its source and its
+   * destination as separate entries.
+   */
+  path: string;
+
+  /**
+   * Hash of the original bytes (null if the file didn't exist).
+   * Format: sha256:{64 hex characters}
+   */
+  before_hash: string | null;
+
+  /**
+   * Original permission bits (null if the file didn't exist).
+   * Format: 4 octal digits, e.g. "0644"
+   */
+  before_mode: string | null;
+
+  /**
+   * Original bytes, base64-encoded (absent if the file didn't exist).
+   */
+  content_base64?: string;
+
+  /**
+   * Hash the apply left at this path (null if the apply removed it).
+   * Undo refuses unless the file still matches.
+   */
+  after_hash: string | null;
+}
+
+/**
+ * Rollback journal: the pre-images of every file a non-dry-run apply
+ * changed, enough to restore the target exactly.
+ */
+export interface RollbackJournal {
+  /**
+   * Schema version for this format.
+   */
+  rollback_schema_version: string;
+
+  /**
+   * Patch source info (matches the apply report).
+   */
+  patch_source: ApplyPatchSource;
+
+  /**
+   * One entry per touched path of every successful operation (sorted by
+   * path).
+   */
+  entries: RollbackEntry[];
+}
+
+/**
+ * Undo outcome status.
+ */
+export type UndoOutcome = 'RESTORED' | 'FAILED' | 'REFUSED';
+
+/**
+ * A single file restored by undo.
+ */
+export interface UndoFileResult {
+  /**
+   * Restored path (relative).
+   */
+  path: string;
+
+  /**
+   * Hash before undo (the apply's after_hash).
+   */
+  from_hash: string | null;
+
+  /**
+   * Hash after undo (the apply's before_hash; null if removed).
+   */
+  to_hash: string | null;
+}
+
+/**
+ * Result of undoing an apply from its report and rollback journal.
+ */
+export interface UndoResult {
+  /**
+   * Schema version (same as ApplyResult).
+   */
+  apply_schema_version: string;
+
+  /**
+   * Overall outcome.
+   */
+  outcome: UndoOutcome;
+
+  /**
+   * Target root directory (relative, no absolute paths).
+   */
+  target_root: string;
+
+  /**
+   * Patch source info from the report.
+   */
+  patch_source: ApplyPatchSource;
+
+  /**
+   * Restored files (sorted by path; empty unless RESTORED).
+   */
+  restored: UndoFileResult[];
+
+  /**
+   * Violations if any (sorted by rule_id, path).
+   */
+  violations?: ApplyViolation[];
+
   /**
    * Error message if outcome is FAILED or REFUSED.
    */
@@ -204,6 +375,12 @@ export interface ApplyVerifyOptions {
    * Useful when verifying a result without the original patch.
    */
   skipPatchMatch?: boolean;
+
+  /**
+   * Rollback journal referenced by the result. When given, AS15 checks
+   * its hash and that it covers every successful operation.
+   */
+  journal?: unknown;
 }
 
 /**
@@ -220,4 +397,11 @@ export interface ApplyOptions {
    * Default: false (strict mode).
    */
   allowOverwrite?: boolean;
+
+  /**
+   * Write a rollback journal to this path (ignored for dry runs).
+   * The report references it by file name, so it belongs next to the
+   * report.
+   */
+  journalPath?: string;
 }
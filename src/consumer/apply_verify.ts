@@ -18,8 +18,14 @@
  * - AS10: Canonical JSON output (serialization contract)
  * - AS11: Idempotence documentation (informational)
  * - AS12: No absolute path leakage
+ * - AS13: Base hash match (enforced at apply time)
+ * - AS14: Rename and mode results (destination, preserved content, modes)
+ * - AS15: Rollback journal (reference form; coverage, contained paths and
+ *   pre-images when the journal is supplied)
  */
 
+import { createHash } from 'node:crypto';
+
 import type {
   ApplyResult,
   ApplyViolation,
@@ -27,8 +33,10 @@ import type {
   ApplyVerifyOptions,
   ApplyOperationResult,
   ApplyOutcome,
+  RollbackJournal,
 } from './apply_types.js';
 import type { PatchSet } from './patch_types.js';
+import { canonicalHash } from '../utils/canonical.js';
 
 /**
  * Rule IDs matching APPLY_SPEC.md.
@@ -40,6 +48,8 @@ const RULES = {
   AS7: 'AS7',
   AS9: 'AS9',
   AS12: 'AS12',
+  AS14: 'AS14',
+  AS15: 'AS15',
   SCHEMA: 'SCHEMA',
 } as const;
 
@@ -51,7 +61,17 @@ const VALID_OUTCOMES: Set<ApplyOutcome> = new Set(['SUCCESS', 'PARTIAL', 'FAILED
 /**
  * Valid operation types.
  */
-const VALID_OPS = new Set(['create', 'modify', 'delete']);
+const VALID_OPS = new Set(['create', 'modify', 'delete', 'rename', 'set_mode']);
+
+/**
+ * Modes a patch may set (PATCH_SPEC.md PS14).
+ */
+const VALID_MODES = new Set(['0644', '0755']);
+
+/**
+ * Reported permission bits (4 octal digits).
+ */
+const MODE_PATTERN = /^0[0-7]{3}$/;
 
 /**
  * Valid operation statuses.
@@ -72,6 +92,13 @@ function isAbsolutePath(path: string): boolean {
   return path.startsWith('/') || /^[A-Za-z]:/.test(path);
 }
 
+/**
+ * Check if path has a traversal segment.
+ */
+function hasPathTraversal(path: string): boolean {
+  return path.split(/[/\\]/).some((seg) => seg === '..');
+}
+
 /**
  * Check if hash has valid sha256: format or is null.
  */
@@ -194,6 +221,18 @@ function checkWriteSetEqualsPatchSet(
       });
     }
   }
+
+  // Check rename destinations match the patch
+  const patchDestinations = new Map(patch.operations.map((o) => [o.path, o.to]));
+  for (const r of result.operation_results) {
+    if (patchPaths.has(r.path) && r.to !== patchDestinations.get(r.path)) {
+      violations.push({
+        rule_id: RULES.AS6,
+        path: r.path,
+        message: `rename destination in result (${r.to ?? 'none'}) does not match patch (${patchDestinations.get(r.path) ?? 'none'})`,
+      });
+    }
+  }
 }
 
 /**
@@ -272,6 +311,211 @@ function checkNoAbsolutePaths(result: ApplyResult, violations: ApplyViolation[])
           message: `absolute path in operation: ${op.path}`,
         });
       }
+      if (typeof op.to === 'string' && isAbsolutePath(op.to)) {
+        violations.push({
+          rule_id: RULES.AS12,
+          path: `$.operation_results[${i}].to`,
+          message: `absolute path in operation: ${op.to}`,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * AS14: Rename results name their destination and preserve content;
+ * mode results report valid permission bits.
+ */
+function checkRenameAndModeResults(result: ApplyResult, violations: ApplyViolation[]): void {
+  if (!Array.isArray(result.operation_results)) return;
+
+  for (let i = 0; i < result.operation_results.length; i++) {
+    const op = result.operation_results[i]!;
+    const at = `$.operation_results[${i}]`;
+
+    if (op.op === 'rename') {
+      if (typeof op.to !== 'string' || op.to.length === 0) {
+        violations.push({ rule_id: RULES.AS14, path: `${at}.to`, message: 'rename result must have to' });
+      }
+      if (op.status === 'success' && op.before_hash !== op.after_hash) {
+        violations.push({
+          rule_id: RULES.AS14,
+          path: `${at}.after_hash`,
+          message: 'rename must preserve content (before_hash !== after_hash)',
+        });
+      }
+    } else if (op.to !== undefined) {
+      violations.push({ rule_id: RULES.AS14, path: `${at}.to`, message: `${op.op} result must not have to` });
+    }
+
+    if (op.op === 'set_mode' && op.status === 'success') {
+      if (op.after_mode === undefined || !VALID_MODES.has(op.after_mode)) {
+        violations.push({
+          rule_id: RULES.AS14,
+          path: `${at}.after_mode`,
+          message: `set_mode result must have after_mode 0644 or 0755, got ${op.after_mode ?? 'none'}`,
+        });
+      }
+      if (op.before_hash !== op.after_hash) {
+        violations.push({
+          rule_id: RULES.AS14,
+          path: `${at}.after_hash`,
+          message: 'set_mode must preserve content (before_hash !== after_hash)',
+        });
+      }
+    }
+
+    if (op.before_mode !== undefined && op.before_mode !== null && !MODE_PATTERN.test(op.before_mode)) {
+      violations.push({ rule_id: RULES.AS14, path: `${at}.before_mode`, message: `invalid mode: ${op.before_mode}` });
+    }
+    if (op.after_mode !== undefined && !MODE_PATTERN.test(op.after_mode)) {
+      violations.push({ rule_id: RULES.AS14, path: `${at}.after_mode`, message: `invalid mode: ${op.after_mode}` });
+    }
+  }
+}
+
+/**
+ * Paths a successful operation leaves behind, mapped to the hash it left
+ * there (a rename empties its source).
+ */
+function touchedPaths(result: ApplyResult): Map<string, string | null> {
+  const touched = new Map<string, string | null>();
+  for (const op of result.operation_results) {
+    if (op.status !== 'success') continue;
+    if (op.op === 'rename' && typeof op.to === 'string') {
+      touched.set(op.path, null);
+      touched.set(op.to, op.after_hash);
+    } else {
+      touched.set(op.path, op.after_hash);
+    }
+  }
+  return touched;
+}
+
+/**
+ * AS15: Journal reference form. Only written applies carry one; the file
+ * name is relative to the report's directory.
+ */
+function checkJournalRef(result: ApplyResult, violations: ApplyViolation[]): void {
+  if (result.journal === undefined) return;
+
+  const ref: unknown = result.journal;
+  if (!isObject(ref) || typeof ref['file'] !== 'string' || typeof ref['sha256'] !== 'string') {
+    violations.push({ rule_id: RULES.AS15, path: '$.journal', message: 'journal must have file and sha256 strings' });
+    return;
+  }
+  if (ref['file'].length === 0 || ref['file'].includes('/') || ref['file'].includes('\\')) {
+    violations.push({
+      rule_id: RULES.AS15,
+      path: '$.journal.file',
+      message: `journal file must be a bare file name: ${ref['file']}`,
+    });
+  }
+  if (ref['sha256'] === null || !isValidHash(ref['sha256'])) {
+    violations.push({ rule_id: RULES.AS15, path: '$.journal.sha256', message: `invalid hash format: ${ref['sha256']}` });
+  }
+  if (result.dry_run || result.outcome === 'REFUSED') {
+    violations.push({
+      rule_id: RULES.AS15,
+      path: '$.journal',
+      message: `${result.dry_run ? 'dry-run' : 'refused'} result must not have a journal`,
+    });
+  }
+}
+
+/**
+ * AS15: A supplied journal matches the reference hash and holds a
+ * verifiable pre-image for exactly the paths the apply changed.
+ */
+function checkJournal(result: ApplyResult, journal: unknown, violations: ApplyViolation[]): void {
+  if (result.journal === undefined) {
+    violations.push({ rule_id: RULES.AS15, path: '$.journal', message: 'result has no journal reference' });
+    return;
+  }
+  let journalHash: string | null;
+  try {
+    journalHash = `sha256:${canonicalHash(journal)}`;
+  } catch {
+    journalHash = null;
+  }
+  if (journalHash !== result.journal.sha256) {
+    violations.push({ rule_id: RULES.AS15, path: '$.journal.sha256', message: 'journal hash does not match reference' });
+  }
+  if (!isObject(journal) || typeof journal['rollback_schema_version'] !== 'string' || !Array.isArray(journal['entries'])) {
+    violations.push({ rule_id: RULES.AS15, path: 'journal', message: 'journal must have rollback_schema_version and entries' });
+    return;
+  }
+
+  const j = journal as unknown as RollbackJournal;
+  if (
+    !isObject(j.patch_source) ||
+    j.patch_source.proposal_id !== result.patch_source.proposal_id ||
+    j.patch_source.proposal_hash !== result.patch_source.proposal_hash
+  ) {
+    violations.push({ rule_id: RULES.AS15, path: 'journal.patch_source', message: 'journal patch_source does not match result' });
+  }
+
+  const touched = touchedPaths(result);
+  const seen = new Set<string>();
+  let prevPath: string | null = null;
+
+  for (let i = 0; i < j.entries.length; i++) {
+    const entry = j.entries[i]!;
+    const at = `journal.entries[${i}]`;
+    if (!isObject(entry) || typeof entry.path !== 'string') {
+      violations.push({ rule_id: RULES.AS15, path: at, message: 'journal entry must have a path' });
+      continue;
+    }
+    if (prevPath !== null && entry.path <= prevPath) {
+      violations.push({ rule_id: RULES.AS15, path: `${at}.path`, message: `entries not sorted by path: ${entry.path}` });
+    }
+    prevPath = entry.path;
+    seen.add(entry.path);
+
+    if (isAbsolutePath(entry.path) || hasPathTraversal(entry.path)) {
+      violations.push({ rule_id: RULES.AS15, path: `${at}.path`, message: `journal entry path escapes target: ${entry.path}` });
+    }
+
+    if (!isValidHash(entry.before_hash) || !isValidHash(entry.after_hash)) {
+      violations.push({ rule_id: RULES.AS15, path: at, message: `invalid hash format in entry: ${entry.path}` });
+      continue;
+    }
+    if (entry.before_mode !== null && (typeof entry.before_mode !== 'string' || !MODE_PATTERN.test(entry.before_mode))) {
+      violations.push({ rule_id: RULES.AS15, path: `${at}.before_mode`, message: `invalid mode: ${entry.before_mode}` });
+    }
+
+    if (entry.before_hash === null) {
+      if (entry.content_base64 !== undefined || entry.before_mode !== null) {
+        violations.push({ rule_id: RULES.AS15, path: at, message: `new file must have no pre-image: ${entry.path}` });
+      }
+    } else if (typeof entry.content_base64 !== 'string') {
+      violations.push({ rule_id: RULES.AS15, path: `${at}.content_base64`, message: `missing pre-image: ${entry.path}` });
+    } else {
+      const bytes = Buffer.from(entry.content_base64, 'base64');
+      const hash = `sha256:${createHash('sha256').update(bytes).digest('hex')}`;
+      if (hash !== entry.before_hash) {
+        violations.push({
+          rule_id: RULES.AS15,
+          path: `${at}.content_base64`,
+          message: `pre-image does not match before_hash: ${entry.path}`,
+        });
+      }
+    }
+
+    if (!touched.has(entry.path)) {
+      violations.push({ rule_id: RULES.AS15, path: `${at}.path`, message: `journal entry for untouched path: ${entry.path}` });
+    } else if (touched.get(entry.path) !== entry.after_hash) {
+      violations.push({
+        rule_id: RULES.AS15,
+        path: `${at}.after_hash`,
+        message: `journal after_hash does not match result: ${entry.path}`,
+      });
+    }
+  }
+
+  for (const path of touched.keys()) {
+    if (!seen.has(path)) {
+      violations.push({ rule_id: RULES.AS15, path: 'journal.entries', message: `touched path missing from journal: ${path}` });
     }
   }
 }
@@ -548,8 +792,15 @@ export function verifyApplyResult(
   checkHashFormat(r, violations);
   checkErrorConsistency(r, violations);
   checkNoAbsolutePaths(r, violations);
+  checkRenameAndModeResults(r, violations);
+  checkJournalRef(r, violations);
   checkSummaryConsistency(r, violations);
 
+  // Optional AS15 journal check if journal provided
+  if (options?.journal !== undefined) {
+    checkJournal(r, options.journal, violations);
+  }
+
   // Optional AS6 check if patch provided
   if (patch && !options?.skipPatchMatch) {
     checkWriteSetEqualsPatchSet(r, patch, violations);
@@ -0,0 +1,322 @@
+/**
+ * Bundle Diff
+ * ===========
+ *
+ * Produces a deterministic structured diff of two bundles: constraint
+ * changes, node score and status changes, question and output changes,
+ * and the bundle status transition.
+ *
+ * Nodes are compared across the root and terminal nodes (the nodes a
+ * bundle contains). The roots are always paired; terminal nodes are
+ * paired by ID, then by goal when the goal is unique in both bundles
+ * (node IDs change with their constraints, goals usually do not).
+ *
+ * NOTE: No timestamps, host info, or nondeterministic data in output.
+ */
+
+import type { Bundle, ContextNode } from '../types/artifacts.js';
+import type {
+  BundleDiff,
+  NodeDiff,
+  OutputContentChange,
+  OutputDiffEntry,
+  QuestionDiffEntry,
+  ScoreChange,
+} from './bundle_types.js';
+import { canonicalHash } from '../utils/canonical.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Compare strings by code unit order.
+ */
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Elements of `a` not in `b`, sorted and deduplicated.
+ */
+function difference(a: readonly string[], b: readonly string[]): string[] {
+  const exclude = new Set(b);
+  return [...new Set(a.filter((x) => !exclude.has(x)))].sort(compareStrings);
+}
+
+/**
+ * Score change, or undefined if the scores are equal.
+ */
+function scoreChange(from: number, to: number): ScoreChange | undefined {
+  return from === to ? undefined : { from, to, delta: to - from };
+}
+
+/**
+ * Count the lines of `a` not matched by a line of `b` (multiset difference).
+ */
+function unmatchedLines(a: string, b: string): number {
+  const counts = new Map<string, number>();
+  for (const line of b.split('\n')) {
+    counts.set(line, (counts.get(line) ?? 0) + 1);
+  }
+
+  let unmatched = 0;
+  for (const line of a.split('\n')) {
+    const count = counts.get(line) ?? 0;
+    if (count > 0) {
+      counts.set(line, count - 1);
+    } else {
+      unmatched++;
+    }
+  }
+  return unmatched;
+}
+
+// =============================================================================
+// Nodes
+// =============================================================================
+
+/**
+ * Root and terminal nodes by ID (a terminal root appears once).
+ */
+function collectNodes(bundle: Bundle): Map<string, ContextNode> {
+  const nodes = new Map<string, ContextNode>();
+  for (const node of [bundle.root_node, ...bundle.terminal_nodes]) {
+    nodes.set(node.id, node);
+  }
+  return nodes;
+}
+
+/**
+ * Diff a matched node pair, or undefined if nothing changed.
+ */
+function diffNode(from: ContextNode, to: ContextNode): NodeDiff | undefined {
+  const entropy = scoreChange(from.entropy.entropy_score, to.entropy.entropy_score);
+  const density = scoreChange(from.density.density_score, to.density.density_score);
+  const statusChanged = from.status !== to.status;
+
+  if (from.id === to.id && !entropy && !density && !statusChanged) {
+    return undefined;
+  }
+
+  return {
+    from_id: from.id,
+    to_id: to.id,
+    goal: to.goal,
+    ...(statusChanged && { status: { from: from.status, to: to.status } }),
+    ...(entropy && { entropy_score: entropy }),
+    ...(density && { density_score: density }),
+  };
+}
+
+/**
+ * Pair nodes across bundles and diff each pair.
+ */
+function diffNodes(a: Bundle, b: Bundle): BundleDiff['nodes'] {
+  const fromNodes = collectNodes(a);
+  const toNodes = collectNodes(b);
+  const pairs: Array<[ContextNode, ContextNode]> = [[a.root_node, b.root_node]];
+  fromNodes.delete(a.root_node.id);
+  toNodes.delete(b.root_node.id);
+
+  // Pair by ID
+  for (const id of [...fromNodes.keys()].sort(compareStrings)) {
+    const to = toNodes.get(id);
+    if (to) {
+      pairs.push([fromNodes.get(id)!, to]);
+      fromNodes.delete(id);
+      toNodes.delete(id);
+    }
+  }
+
+  // Pair by goal, when unique on both sides
+  const byGoal = (nodes: Map<string, ContextNode>): Map<string, ContextNode | null> => {
+    const index = new Map<string, ContextNode | null>();
+    for (const node of nodes.values()) {
+      index.set(node.goal, index.has(node.goal) ? null : node);
+    }
+    return index;
+  };
+  const fromGoals = byGoal(fromNodes);
+  const toGoals = byGoal(toNodes);
+  for (const goal of [...fromGoals.keys()].sort(compareStrings)) {
+    const from = fromGoals.get(goal);
+    const to = toGoals.get(goal);
+    if (from && to) {
+      pairs.push([from, to]);
+      fromNodes.delete(from.id);
+      toNodes.delete(to.id);
+    }
+  }
+
+  const changed: NodeDiff[] = [];
+  for (const [from, to] of pairs) {
+    const diff = diffNode(from, to);
+    if (diff) {
+      changed.push(diff);
+    }
+  }
+  changed.sort((x, y) => compareStrings(x.from_id, y.from_id) || compareStrings(x.to_id, y.to_id));
+
+  return {
+    added: [...toNodes.keys()].sort(compareStrings),
+    removed: [...fromNodes.keys()].sort(compareStrings),
+    changed,
+  };
+}
+
+// =============================================================================
+// Questions and Outputs
+// =============================================================================
+
+/**
+ * Unresolved questions of `a` whose IDs are not in `b`, sorted by ID.
+ */
+function questionDifference(a: Bundle, b: Bundle): QuestionDiffEntry[] {
+  const exclude = new Set(b.unresolved_questions.map((q) => q.id));
+  return a.unresolved_questions
+    .filter((q) => !exclude.has(q.id))
+    .map((q) => ({ id: q.id, text: q.text }))
+    .sort((x, y) => compareStrings(x.id, y.id));
+}
+
+/**
+ * Diff outputs by path.
+ */
+function diffOutputs(a: Bundle, b: Bundle): BundleDiff['outputs'] {
+  const fromOutputs = new Map(a.outputs.map((o) => [o.path, o]));
+  const toOutputs = new Map(b.outputs.map((o) => [o.path, o]));
+
+  const added: OutputDiffEntry[] = [];
+  const removed: OutputDiffEntry[] = [];
+  const changed: OutputContentChange[] = [];
+
+  for (const path of [...fromOutputs.keys()].sort(compareStrings)) {
+    const from = fromOutputs.get(path)!;
+    const to = toOutputs.get(path);
+    if (!to) {
+      removed.push({ path, content_hash: from.content_hash });
+    } else if (from.content_hash !== to.content_hash) {
+      changed.push({
+        path,
+        from_content_hash: from.content_hash,
+        to_content_hash: to.content_hash,
+        lines_added: unmatchedLines(to.content, from.content),
+        lines_removed: unmatchedLines(from.content, to.content),
+      });
+    }
+  }
+  for (const path of [...toOutputs.keys()].sort(compareStrings)) {
+    if (!fromOutputs.has(path)) {
+      added.push({ path, content_hash: toOutputs.get(path)!.content_hash });
+    }
+  }
+
+  return { added, removed, changed };
+}
+
+// =============================================================================
+// Diff
+// =============================================================================
+
+/**
+ * Compute the structured diff from bundle `a` to bundle `b`.
+ *
+ * @param a - First (old) bundle, validated
+ * @param b - Second (new) bundle, validated
+ * @returns Deterministic diff
+ */
+export function diffBundles(a: Bundle, b: Bundle): BundleDiff {
+  const fromHash = canonicalHash(a);
+  const toHash = canonicalHash(b);
+
+  return {
+    from_hash: fromHash,
+    to_hash: toHash,
+    identical: fromHash === toHash,
+    status: a.status === b.status ? null : { from: a.status, to: b.status },
+    constraints: {
+      added: difference(b.root_node.constraints, a.root_node.constraints),
+      removed: difference(a.root_node.constraints, b.root_node.constraints),
+    },
+    nodes: diffNodes(a, b),
+    questions: {
+      added: questionDifference(b, a),
+      removed: questionDifference(a, b),
+    },
+    outputs: diffOutputs(a, b),
+  };
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Format a score change as "from -> to (+delta)".
+ */
+function formatScore(change: ScoreChange): string {
+  const sign = change.delta > 0 ? '+' : '';
+  return `${change.from} -> ${change.to} (${sign}${change.delta})`;
+}
+
+/**
+ * Render a diff as human-readable text.
+ *
+ * @param diff - Diff from diffBundles()
+ * @returns Text report (newline-terminated)
+ */
+export function formatBundleDiff(diff: BundleDiff): string {
+  const lines: string[] = [`--- ${diff.from_hash}`, `+++ ${diff.to_hash}`];
+
+  if (diff.identical) {
+    lines.push('', 'Bundles are identical.');
+    return lines.join('\n') + '\n';
+  }
+
+  if (diff.status) {
+    lines.push('', `Status: ${diff.status.from} -> ${diff.status.to}`);
+  }
+
+  const { constraints, nodes, questions, outputs } = diff;
+
+  if (constraints.added.length > 0 || constraints.removed.length > 0) {
+    lines.push('', 'Constraints:');
+    lines.push(...constraints.removed.map((c) => `  - ${c}`));
+    lines.push(...constraints.added.map((c) => `  + ${c}`));
+  }
+
+  if (nodes.added.length > 0 || nodes.removed.length > 0 || nodes.changed.length > 0) {
+    lines.push('', 'Nodes:');
+    lines.push(...nodes.removed.map((id) => `  - ${id}`));
+    lines.push(...nodes.added.map((id) => `  + ${id}`));
+    for (const node of nodes.changed) {
+      const id = node.from_id === node.to_id ? node.to_id : `${node.from_id} -> ${node.to_id}`;
+      lines.push(`  ~ ${id} "${node.goal}"`);
+      if (node.status) {
+        lines.push(`      status: ${node.status.from} -> ${node.status.to}`);
+      }
+      if (node.entropy_score) {
+        lines.push(`      entropy: ${formatScore(node.entropy_score)}`);
+      }
+      if (node.density_score) {
+        lines.push(`      density: ${formatScore(node.density_score)}`);
+      }
+    }
+  }
+
+  if (questions.added.length > 0 || questions.removed.length > 0) {
+    lines.push('', 'Questions:');
+    lines.push(...questions.removed.map((q) => `  - ${q.id} ${q.text}`));
+    lines.push(...questions.added.map((q) => `  + ${q.id} ${q.text}`));
+  }
+
+  if (outputs.added.length > 0 || outputs.removed.length > 0 || outputs.changed.length > 0) {
+    lines.push('', 'Outputs:');
+    lines.push(...outputs.removed.map((o) => `  - ${o.path}`));
+    lines.push(...outputs.added.map((o) => `  + ${o.path}`));
+    lines.push(...outputs.changed.map((o) => `  ~ ${o.path} (+${o.lines_added} -${o.lines_removed} lines)`));
+  }
+
+  return lines.join('\n') + '\n';
+}
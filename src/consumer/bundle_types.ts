@@ -68,3 +68,93 @@ export interface BundleSummary {
   /** List of terminal node IDs, sorted lexicographically */
   terminal_node_ids: string[];
 }
+
+/**
+ * A value that differs between two bundles.
+ */
+export interface ValueChange<T> {
+  /** Value in the first bundle */
+  from: T;
+  /** Value in the second bundle */
+  to: T;
+}
+
+/**
+ * A score that differs between two bundles.
+ */
+export interface ScoreChange extends ValueChange<number> {
+  /** to - from */
+  delta: number;
+}
+
+/**
+ * A node present in both bundles whose measurements or status differ.
+ * Only the fields that differ are present.
+ */
+export interface NodeDiff {
+  /** Node ID in the first bundle */
+  from_id: string;
+  /** Node ID in the second bundle (differs when matched by goal) */
+  to_id: string;
+  /** Node goal */
+  goal: string;
+  /** Node status transition */
+  status?: ValueChange<string>;
+  /** Entropy score change */
+  entropy_score?: ScoreChange;
+  /** Density score change */
+  density_score?: ScoreChange;
+}
+
+/**
+ * Question reference in a bundle diff.
+ */
+export interface QuestionDiffEntry {
+  id: string;
+  text: string;
+}
+
+/**
+ * Output reference in a bundle diff.
+ */
+export interface OutputDiffEntry {
+  path: string;
+  content_hash: string;
+}
+
+/**
+ * An output present in both bundles (same path) with different content.
+ */
+export interface OutputContentChange {
+  path: string;
+  from_content_hash: string;
+  to_content_hash: string;
+  /** Lines of the second version not matched in the first */
+  lines_added: number;
+  /** Lines of the first version not matched in the second */
+  lines_removed: number;
+}
+
+/**
+ * Deterministic structured diff of two bundles.
+ * All lists are sorted (constraints and paths lexicographically,
+ * nodes and questions by ID).
+ */
+export interface BundleDiff {
+  /** Canonical hash of the first bundle */
+  from_hash: string;
+  /** Canonical hash of the second bundle */
+  to_hash: string;
+  /** True when the bundles are canonically identical */
+  identical: boolean;
+  /** Bundle status transition (null if unchanged) */
+  status: ValueChange<string> | null;
+  /** Root constraints added and removed */
+  constraints: { added: string[]; removed: string[] };
+  /** Root and terminal nodes added, removed and changed */
+  nodes: { added: string[]; removed: string[]; changed: NodeDiff[] };
+  /** Unresolved questions added and removed */
+  questions: { added: QuestionDiffEntry[]; removed: QuestionDiffEntry[] };
+  /** Outputs added, removed and changed (matched by path) */
+  outputs: { added: OutputDiffEntry[]; removed: OutputDiffEntry[]; changed: OutputContentChange[] };
+}
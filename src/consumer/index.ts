@@ -11,6 +11,7 @@
  * Or via CLI:
  *   npm run bundle-verify -- bundle.json
  *   npm run bundle-summarize -- bundle.json
+ *   npm run bundle-diff -- old.json new.json
  *   npm run patch-verify -- patch.json
  *
  * See: docs/CONSUMING_BUNDLES.md, docs/PATCH_SPEC.md
@@ -28,6 +29,13 @@ export type {
   Violation,
   VerifyResult,
   BundleSummary,
+  BundleDiff,
+  NodeDiff,
+  OutputContentChange,
+  OutputDiffEntry,
+  QuestionDiffEntry,
+  ScoreChange,
+  ValueChange,
 } from './bundle_types.js';
 
 // Bundle Verification
@@ -36,11 +44,16 @@ export { verifyBundle } from './bundle_verify.js';
 // Bundle Summary
 export { summarizeBundle } from './bundle_summary.js';
 
+// Bundle Diff
+export { diffBundles, formatBundleDiff } from './bundle_diff.js';
+
 // Patch Types
 export type {
   PatchSet,
   PatchOperation,
   PatchOpType,
+  PatchHunk,
+  PatchFileMode,
   PatchVerifyResult,
   PatchVerifyOptions,
 } from './patch_types.js';
@@ -49,10 +62,15 @@ export { PATCH_SCHEMA_VERSION } from './patch_types.js';
 // Patch Verification
 export { verifyPatch } from './patch_verify.js';
 
+// Patch Hunks
+export type { ApplyHunksResult } from './patch_hunks.js';
+export { applyHunks, countHunkLines, hunkAddedBytes } from './patch_hunks.js';
+
 // Model IO Types
 export type {
   ModelIOSession,
   ModelIOInteraction,
+  ModelIOToolCall,
   ModelIOCore,
   ModelIOInteractionCore,
   ModelIOViolation,
@@ -81,8 +99,14 @@ export type {
   ApplyVerifyResult,
   ApplyVerifyOptions,
   ApplyOptions,
+  ApplyJournalRef,
+  RollbackEntry,
+  RollbackJournal,
+  UndoOutcome,
+  UndoFileResult,
+  UndoResult,
 } from './apply_types.js';
-export { APPLY_SCHEMA_VERSION } from './apply_types.js';
+export { APPLY_SCHEMA_VERSION, ROLLBACK_SCHEMA_VERSION } from './apply_types.js';
 
 // Apply Verification
 export { verifyApplyResult } from './apply_verify.js';
@@ -156,6 +180,8 @@ export type {
   RunnerTiming,
   RunnerExit,
   RunnerEphemeral,
+  RunnerStep,
+  RunnerStepStatus,
   ExecutionPhase,
   RunnerViolation,
   RunnerVerificationResult,
@@ -171,6 +197,7 @@ export {
   VALID_ARCH,
   VALID_SANDBOX_BACKENDS,
   VALID_ISOLATION_LEVELS,
+  VALID_STEP_STATUSES,
   FORBIDDEN_ENV_PREFIXES as RUNNER_FORBIDDEN_ENV_PREFIXES,
   LIMIT_BOUNDS,
 } from './runner_types.js';
@@ -182,3 +209,28 @@ export {
   computeRunnerHash,
   serializeRunner,
 } from './runner_verify.js';
+
+// Ledger Types
+export type {
+  LedgerEntryRecord,
+  LedgerCheckpointRecord,
+  LedgerViolation,
+  LedgerVerifyResult,
+  LedgerVerifyOptions,
+} from './ledger_types.js';
+
+// Ledger Verification
+export { verifyLedger, computeEntryHash, computeMerkleRoot } from './ledger_verify.js';
+
+// Ledger Query
+export type { LedgerFilter, AcceptancePeriod, AcceptanceRow, LedgerParseResult } from './ledger_types.js';
+export {
+  parseLedgerEntries,
+  validateLedgerFilter,
+  filterLedgerEntries,
+  findRunsForBundle,
+  aggregateAcceptance,
+  formatLedgerCsv,
+  ENTRY_CSV_COLUMNS,
+  ACCEPTANCE_CSV_COLUMNS,
+} from './ledger_query.js';
@@ -0,0 +1,234 @@
+/**
+ * Ledger Query
+ * ============
+ *
+ * Read-only queries over harness ledgers: filtering entries, finding the
+ * runs that produced a bundle, and aggregating acceptance rates per
+ * intent over time. Outputs are deterministic (ledger order, or sorted
+ * keys for aggregates) and can be rendered as CSV.
+ *
+ * Queries do not check the hash chain; use verifyLedger for that.
+ */
+
+import type {
+  LedgerEntryRecord,
+  LedgerFilter,
+  LedgerParseResult,
+  AcceptancePeriod,
+  AcceptanceRow,
+} from './ledger_types.js';
+
+/**
+ * Date-only pattern (YYYY-MM-DD).
+ */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * One day in milliseconds.
+ */
+const DAY_MS = 86_400_000;
+
+/**
+ * Columns of an entry CSV row, in order.
+ */
+export const ENTRY_CSV_COLUMNS = [
+  'run_id',
+  'timestamp',
+  'intent_sha256',
+  'bundle_sha256',
+  'result_kind',
+  'accepted',
+  'mode',
+  'policy',
+  'policy_sha256',
+  'entry_hash',
+] as const;
+
+/**
+ * Columns of an acceptance CSV row, in order.
+ */
+export const ACCEPTANCE_CSV_COLUMNS = ['intent_sha256', 'period', 'runs', 'accepted', 'acceptance_rate'] as const;
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parse the entries of a ledger, skipping checkpoint records.
+ *
+ * @param content - Ledger file content (JSONL)
+ * @returns Entries in ledger order, or the first unparseable line
+ */
+export function parseLedgerEntries(content: string): LedgerParseResult {
+  const entries: LedgerEntryRecord[] = [];
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i]!;
+    if (text.trim() === '') continue;
+
+    let record: unknown;
+    try {
+      record = JSON.parse(text);
+    } catch {
+      return { ok: false, line: i + 1, error: 'invalid JSON' };
+    }
+    if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+      return { ok: false, line: i + 1, error: 'record must be an object' };
+    }
+
+    const fields = record as Record<string, unknown>;
+    if (fields['record_type'] === 'checkpoint') continue;
+    if (typeof fields['run_id'] !== 'string' || typeof fields['timestamp'] !== 'string') {
+      return { ok: false, line: i + 1, error: 'entry must have run_id and timestamp' };
+    }
+    entries.push(record as LedgerEntryRecord);
+  }
+
+  return { ok: true, entries };
+}
+
+// =============================================================================
+// Filtering
+// =============================================================================
+
+/**
+ * Resolve a range bound to milliseconds. A date-only upper bound covers
+ * the whole day.
+ */
+function boundMs(bound: string, upper: boolean): number {
+  const ms = Date.parse(DATE_PATTERN.test(bound) ? `${bound}T00:00:00.000Z` : bound);
+  return upper && DATE_PATTERN.test(bound) ? ms + DAY_MS - 1 : ms;
+}
+
+/**
+ * Check a filter's date bounds.
+ *
+ * @returns Error message, or null if the bounds are valid
+ */
+export function validateLedgerFilter(filter: LedgerFilter): string | null {
+  for (const key of ['since', 'until'] as const) {
+    const bound = filter[key];
+    if (bound !== undefined && Number.isNaN(boundMs(bound, key === 'until'))) {
+      return `Invalid ${key} date: ${bound}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Select the entries matching a filter.
+ *
+ * @param entries - Ledger entries
+ * @param filter - Filter (all given fields must match)
+ * @returns Matching entries, in ledger order
+ */
+export function filterLedgerEntries(entries: readonly LedgerEntryRecord[], filter: LedgerFilter): LedgerEntryRecord[] {
+  const since = filter.since !== undefined ? boundMs(filter.since, false) : undefined;
+  const until = filter.until !== undefined ? boundMs(filter.until, true) : undefined;
+
+  return entries.filter((entry) => {
+    const ms = Date.parse(entry.timestamp);
+    if (since !== undefined && !(ms >= since)) return false;
+    if (until !== undefined && !(ms <= until)) return false;
+    if (filter.result_kind !== undefined && entry.result_kind !== filter.result_kind) return false;
+    if (filter.policy !== undefined && entry.policy !== filter.policy) return false;
+    if (filter.mode !== undefined && entry.mode !== filter.mode) return false;
+    if (filter.accepted !== undefined && entry.accepted !== filter.accepted) return false;
+    if (filter.intent_sha256 !== undefined && entry.intent_sha256 !== filter.intent_sha256) return false;
+    if (filter.bundle_sha256 !== undefined && entry.bundle_sha256 !== filter.bundle_sha256) return false;
+    return true;
+  });
+}
+
+/**
+ * Find every run that produced a bundle.
+ *
+ * @param entries - Ledger entries
+ * @param bundleSha256 - Bundle content hash
+ * @returns Entries with that bundle_sha256, in ledger order
+ */
+export function findRunsForBundle(entries: readonly LedgerEntryRecord[], bundleSha256: string): LedgerEntryRecord[] {
+  return filterLedgerEntries(entries, { bundle_sha256: bundleSha256 });
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+/**
+ * String comparator (byte order, locale-independent).
+ */
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Period key of a timestamp (ISO 8601 UTC).
+ */
+function periodOf(timestamp: string, period: AcceptancePeriod): string {
+  if (period === 'day') return timestamp.slice(0, 10);
+  if (period === 'month') return timestamp.slice(0, 7);
+  return 'all';
+}
+
+/**
+ * Aggregate acceptance rates per intent and period.
+ *
+ * @param entries - Ledger entries
+ * @param period - Aggregation period
+ * @returns Rows sorted by intent_sha256, then period
+ */
+export function aggregateAcceptance(
+  entries: readonly LedgerEntryRecord[],
+  period: AcceptancePeriod
+): AcceptanceRow[] {
+  const groups = new Map<string, { intent_sha256: string; period: string; runs: number; accepted: number }>();
+
+  for (const entry of entries) {
+    const key = `${entry.intent_sha256}\n${periodOf(entry.timestamp, period)}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { intent_sha256: entry.intent_sha256, period: periodOf(entry.timestamp, period), runs: 0, accepted: 0 };
+      groups.set(key, group);
+    }
+    group.runs++;
+    if (entry.accepted) group.accepted++;
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => compare(a.intent_sha256, b.intent_sha256) || compare(a.period, b.period))
+    .map((group) => ({
+      ...group,
+      acceptance_rate: Math.round((group.accepted / group.runs) * 10000) / 10000,
+    }));
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+/**
+ * Render a CSV field (RFC 4180 quoting; null renders empty).
+ */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV with a header line. Lines end with LF.
+ *
+ * @param rows - Rows to render
+ * @param columns - Column names, in order
+ * @returns CSV text
+ */
+export function formatLedgerCsv(rows: readonly object[], columns: readonly string[]): string {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    const fields = row as Record<string, unknown>;
+    lines.push(columns.map((column) => csvField(fields[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
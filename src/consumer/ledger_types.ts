@@ -0,0 +1,163 @@
+/**
+ * Ledger Consumer Types
+ * =====================
+ *
+ * Minimal public types for verifying and querying harness ledgers
+ * (ledger.jsonl). A ledger is a hash chain of entry and checkpoint records.
+ *
+ * See: docs/LEDGER_SPEC.md
+ */
+
+/**
+ * Content hash format.
+ */
+export type ContentHash = `sha256:${string}`;
+
+/**
+ * Ledger entry (one harness run).
+ */
+export interface LedgerEntryRecord {
+  run_id: string;
+  timestamp: string;
+  intent_sha256: ContentHash;
+  bundle_sha256: ContentHash | null;
+  result_kind: string;
+  accepted: boolean;
+  mode: string;
+  policy: string;
+  policy_sha256?: ContentHash;
+  prev_entry_hash: ContentHash | null;
+  entry_hash: ContentHash;
+}
+
+/**
+ * Ledger checkpoint (Merkle root over the entries since the previous
+ * checkpoint).
+ */
+export interface LedgerCheckpointRecord {
+  record_type: 'checkpoint';
+  timestamp: string;
+  entry_count: number;
+  entries_total: number;
+  merkle_root: ContentHash;
+  prev_entry_hash: ContentHash | null;
+  entry_hash: ContentHash;
+}
+
+/**
+ * Verification violation.
+ */
+export interface LedgerViolation {
+  rule_id: string;
+  message: string;
+
+  /**
+   * 1-based line number of the offending record, if any.
+   */
+  line?: number;
+}
+
+/**
+ * Verification result.
+ */
+export interface LedgerVerifyResult {
+  valid: boolean;
+  violations: LedgerViolation[];
+
+  /**
+   * Number of chained entry records.
+   */
+  entry_count: number;
+
+  /**
+   * Number of legacy (unchained) entries before the chain starts.
+   */
+  legacy_count: number;
+
+  /**
+   * Number of checkpoint records.
+   */
+  checkpoint_count: number;
+
+  /**
+   * entry_hash of the last record (null for an empty ledger).
+   */
+  head_hash: ContentHash | null;
+}
+
+/**
+ * Verification options.
+ */
+export interface LedgerVerifyOptions {
+  /**
+   * Expected entry_hash of the last record (detects truncation at a
+   * record boundary).
+   */
+  expectedHead?: string;
+
+  /**
+   * Expected number of entry records.
+   */
+  expectedCount?: number;
+
+  /**
+   * Accept a ledger segment whose first record links to an earlier
+   * record instead of starting the chain (e.g. the ledger in a pack).
+   */
+  allowSegment?: boolean;
+}
+
+/**
+ * Ledger query filter. Every field is optional; an entry matches when it
+ * matches all fields given.
+ */
+export interface LedgerFilter {
+  /**
+   * Earliest timestamp (inclusive). A date (YYYY-MM-DD) means its start.
+   */
+  since?: string;
+
+  /**
+   * Latest timestamp (inclusive). A date (YYYY-MM-DD) means its end.
+   */
+  until?: string;
+
+  result_kind?: string;
+  policy?: string;
+  mode?: string;
+  accepted?: boolean;
+  intent_sha256?: string;
+  bundle_sha256?: string;
+}
+
+/**
+ * Acceptance aggregation period.
+ */
+export type AcceptancePeriod = 'day' | 'month' | 'all';
+
+/**
+ * Acceptance rate of one intent over one period.
+ */
+export interface AcceptanceRow {
+  intent_sha256: string;
+
+  /**
+   * Period key: YYYY-MM-DD, YYYY-MM, or "all".
+   */
+  period: string;
+
+  runs: number;
+  accepted: number;
+
+  /**
+   * accepted / runs, rounded to 4 decimal places.
+   */
+  acceptance_rate: number;
+}
+
+/**
+ * Result of parsing a ledger for querying.
+ */
+export type LedgerParseResult =
+  | { ok: true; entries: LedgerEntryRecord[] }
+  | { ok: false; line: number; error: string };
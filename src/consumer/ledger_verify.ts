@@ -0,0 +1,339 @@
+/**
+ * Ledger Verification
+ * ===================
+ *
+ * Non-authoritative verification of harness ledgers (JSONL) against
+ * LEDGER_SPEC.md. Returns violations deterministically without throwing.
+ *
+ * Rule IDs align with LEDGER_SPEC.md invariants:
+ * - LD1: One record per line (valid JSON, entry or checkpoint schema)
+ * - LD2: Monotonic timestamps
+ * - LD3: Unique run IDs
+ * - LD4: Valid content hashes
+ * - LD5: Entry hash valid (record not edited)
+ * - LD6: Chain linked (no deletion, insertion or reordering)
+ * - LD7: Checkpoints valid (counts and Merkle root)
+ * - LD8: Not truncated (complete final line, expected head and count)
+ *
+ * Entries written before the hash chain (no prev_entry_hash or
+ * entry_hash) are accepted as a legacy prefix: they are checked for LD1-LD4
+ * and counted separately, and the chain starts at the first chained record.
+ */
+
+import { createHash } from 'node:crypto';
+
+import type {
+  ContentHash,
+  LedgerViolation,
+  LedgerVerifyResult,
+  LedgerVerifyOptions,
+} from './ledger_types.js';
+import { canonicalHash } from '../utils/canonical.js';
+
+/**
+ * Rule IDs matching LEDGER_SPEC.md.
+ */
+const RULES = {
+  LD1: 'LD1',
+  LD2: 'LD2',
+  LD3: 'LD3',
+  LD4: 'LD4',
+  LD5: 'LD5',
+  LD6: 'LD6',
+  LD7: 'LD7',
+  LD8: 'LD8',
+} as const;
+
+/**
+ * Content hash pattern: sha256:<64 lowercase hex>.
+ */
+const CONTENT_HASH_PATTERN = /^sha256:[a-f0-9]{64}$/;
+
+/**
+ * Required entry fields and their JSON types.
+ */
+const ENTRY_FIELDS: ReadonlyArray<[string, string]> = [
+  ['run_id', 'string'],
+  ['timestamp', 'string'],
+  ['intent_sha256', 'string'],
+  ['result_kind', 'string'],
+  ['accepted', 'boolean'],
+  ['mode', 'string'],
+  ['policy', 'string'],
+];
+
+/**
+ * Check if value is a plain object.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Check if value is a valid content hash.
+ */
+function isContentHash(value: unknown): value is ContentHash {
+  return typeof value === 'string' && CONTENT_HASH_PATTERN.test(value);
+}
+
+/**
+ * Check if value is a non-negative integer.
+ */
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+// =============================================================================
+// Hashing
+// =============================================================================
+
+/**
+ * Compute the entry_hash of a ledger record: the SHA-256 of its
+ * canonical JSON with entry_hash removed.
+ *
+ * @param record - Entry or checkpoint record
+ * @returns Entry hash
+ */
+export function computeEntryHash(record: object): ContentHash {
+  const { entry_hash: _entryHash, ...rest } = record as Record<string, unknown>;
+  return `sha256:${canonicalHash(rest)}`;
+}
+
+/**
+ * Compute the Merkle root over entry hashes. Each parent is the SHA-256
+ * of the concatenated child hash strings; an unpaired node is promoted
+ * to the next level unchanged.
+ *
+ * @param hashes - Entry hashes in ledger order (at least one)
+ * @returns Merkle root
+ * @throws Error if hashes is empty
+ */
+export function computeMerkleRoot(hashes: readonly string[]): ContentHash {
+  if (hashes.length === 0) {
+    throw new Error('Cannot compute Merkle root of zero entries');
+  }
+
+  let level = [...hashes];
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i]!;
+      const right = level[i + 1];
+      next.push(
+        right === undefined ? left : `sha256:${createHash('sha256').update(left + right).digest('hex')}`
+      );
+    }
+    level = next;
+  }
+  return level[0] as ContentHash;
+}
+
+// =============================================================================
+// Record Checks
+// =============================================================================
+
+/**
+ * Check an entry record's schema and hashes (LD1, LD4).
+ */
+function checkEntrySchema(record: Record<string, unknown>, line: number, violations: LedgerViolation[]): void {
+  for (const [field, type] of ENTRY_FIELDS) {
+    if (typeof record[field] !== type) {
+      violations.push({ rule_id: RULES.LD1, line, message: `${field} must be a ${type}` });
+    }
+  }
+  if (!('bundle_sha256' in record)) {
+    violations.push({ rule_id: RULES.LD1, line, message: 'missing field bundle_sha256' });
+  }
+
+  if (typeof record['intent_sha256'] === 'string' && !isContentHash(record['intent_sha256'])) {
+    violations.push({ rule_id: RULES.LD4, line, message: 'intent_sha256 is not a valid content hash' });
+  }
+  if (record['bundle_sha256'] !== undefined && record['bundle_sha256'] !== null && !isContentHash(record['bundle_sha256'])) {
+    violations.push({ rule_id: RULES.LD4, line, message: 'bundle_sha256 is not a valid content hash' });
+  }
+  if (record['policy_sha256'] !== undefined && !isContentHash(record['policy_sha256'])) {
+    violations.push({ rule_id: RULES.LD4, line, message: 'policy_sha256 is not a valid content hash' });
+  }
+}
+
+/**
+ * Check a checkpoint record's schema (LD1, LD4).
+ */
+function checkCheckpointSchema(record: Record<string, unknown>, line: number, violations: LedgerViolation[]): void {
+  if (typeof record['timestamp'] !== 'string') {
+    violations.push({ rule_id: RULES.LD1, line, message: 'timestamp must be a string' });
+  }
+  if (!isCount(record['entry_count']) || record['entry_count'] === 0) {
+    violations.push({ rule_id: RULES.LD1, line, message: 'entry_count must be a positive integer' });
+  }
+  if (!isCount(record['entries_total'])) {
+    violations.push({ rule_id: RULES.LD1, line, message: 'entries_total must be a non-negative integer' });
+  }
+  if (!isContentHash(record['merkle_root'])) {
+    violations.push({ rule_id: RULES.LD4, line, message: 'merkle_root is not a valid content hash' });
+  }
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Verify a ledger against LEDGER_SPEC.md.
+ *
+ * @param content - Ledger file content (JSONL)
+ * @param options - Verification options
+ * @returns Verification result (never throws)
+ */
+export function verifyLedger(content: string, options: LedgerVerifyOptions = {}): LedgerVerifyResult {
+  const violations: LedgerViolation[] = [];
+  const lines = content.split('\n');
+
+  const runIds = new Set<string>();
+  let entryCount = 0;
+  let checkpointCount = 0;
+  let legacyCount = 0;
+  let pending: string[] = [];
+  let prevHash: string | null = null;
+  let prevTimestamp: number | null = null;
+  let first = true;
+
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i]!;
+    const line = i + 1;
+    if (text.trim() === '') continue;
+
+    // LD1: valid JSON object
+    let record: unknown;
+    try {
+      record = JSON.parse(text);
+    } catch {
+      violations.push({ rule_id: RULES.LD1, line, message: 'invalid JSON' });
+      continue;
+    }
+    if (!isObject(record)) {
+      violations.push({ rule_id: RULES.LD1, line, message: 'record must be an object' });
+      continue;
+    }
+
+    const isCheckpoint = record['record_type'] === 'checkpoint';
+    if (record['record_type'] !== undefined && !isCheckpoint) {
+      violations.push({ rule_id: RULES.LD1, line, message: `unknown record_type: ${String(record['record_type'])}` });
+      continue;
+    }
+
+    if (isCheckpoint) {
+      checkCheckpointSchema(record, line, violations);
+    } else {
+      checkEntrySchema(record, line, violations);
+    }
+
+    // LD2: monotonic timestamps
+    if (typeof record['timestamp'] === 'string') {
+      const ms = Date.parse(record['timestamp']);
+      if (Number.isNaN(ms)) {
+        violations.push({ rule_id: RULES.LD2, line, message: `invalid timestamp: ${record['timestamp']}` });
+      } else {
+        if (prevTimestamp !== null && ms < prevTimestamp) {
+          violations.push({ rule_id: RULES.LD2, line, message: 'timestamp earlier than previous record' });
+        }
+        prevTimestamp = ms;
+      }
+    }
+
+    // LD3: unique run IDs
+    if (!isCheckpoint && typeof record['run_id'] === 'string') {
+      if (runIds.has(record['run_id'])) {
+        violations.push({ rule_id: RULES.LD3, line, message: `duplicate run_id: ${record['run_id']}` });
+      }
+      runIds.add(record['run_id']);
+    }
+
+    // Legacy prefix: unchained entries before the first chained record
+    if (first && !isCheckpoint && !('entry_hash' in record) && !('prev_entry_hash' in record)) {
+      legacyCount++;
+      continue;
+    }
+
+    // LD5: entry hash
+    const entryHash = record['entry_hash'];
+    if (!isContentHash(entryHash)) {
+      violations.push({ rule_id: RULES.LD5, line, message: 'missing or malformed entry_hash' });
+    } else if (computeEntryHash(record) !== entryHash) {
+      violations.push({ rule_id: RULES.LD5, line, message: 'entry_hash does not match record content' });
+    }
+
+    // LD6: chain linkage
+    const prevEntryHash = record['prev_entry_hash'];
+    if (prevEntryHash !== null && !isContentHash(prevEntryHash)) {
+      violations.push({ rule_id: RULES.LD6, line, message: 'missing or malformed prev_entry_hash' });
+    } else if (first) {
+      if (prevEntryHash !== null && !options.allowSegment) {
+        violations.push({ rule_id: RULES.LD6, line, message: 'first record must have prev_entry_hash null' });
+      }
+    } else if (prevEntryHash !== prevHash) {
+      violations.push({
+        rule_id: RULES.LD6,
+        line,
+        message: 'prev_entry_hash does not match previous record (record deleted, inserted or reordered)',
+      });
+    }
+
+    // LD7: checkpoint covers exactly the entries since the previous one
+    if (isCheckpoint) {
+      if (record['entry_count'] !== pending.length) {
+        violations.push({
+          rule_id: RULES.LD7,
+          line,
+          message: `entry_count ${String(record['entry_count'])} does not match ${pending.length} entries since previous checkpoint`,
+        });
+      } else if (pending.length > 0 && record['merkle_root'] !== computeMerkleRoot(pending)) {
+        violations.push({ rule_id: RULES.LD7, line, message: 'merkle_root does not match covered entries' });
+      }
+      if (record['entries_total'] !== entryCount) {
+        violations.push({
+          rule_id: RULES.LD7,
+          line,
+          message: `entries_total ${String(record['entries_total'])} does not match ${entryCount} entries`,
+        });
+      }
+      checkpointCount++;
+      pending = [];
+    } else {
+      entryCount++;
+      pending.push(typeof entryHash === 'string' ? entryHash : '');
+    }
+
+    prevHash = typeof entryHash === 'string' ? entryHash : null;
+    first = false;
+  }
+
+  // LD8: the last line must be terminated (a partial write or a cut file
+  // leaves an unterminated tail)
+  if (content.length > 0 && !content.endsWith('\n')) {
+    violations.push({ rule_id: RULES.LD8, line: lines.length, message: 'final line is not newline-terminated' });
+  }
+
+  // LD8: expected head and count
+  if (options.expectedHead !== undefined && options.expectedHead !== prevHash) {
+    violations.push({
+      rule_id: RULES.LD8,
+      message: `head ${prevHash ?? 'null'} does not match expected ${options.expectedHead}`,
+    });
+  }
+  if (options.expectedCount !== undefined && options.expectedCount !== entryCount) {
+    violations.push({
+      rule_id: RULES.LD8,
+      message: `entry count ${entryCount} does not match expected ${options.expectedCount}`,
+    });
+  }
+
+  return {
+    valid: violations.length === 0,
+    violations,
+    entry_count: entryCount,
+    legacy_count: legacyCount,
+    checkpoint_count: checkpointCount,
+    head_hash: isContentHash(prevHash) ? prevHash : null,
+  };
+}
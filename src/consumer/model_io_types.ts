@@ -50,6 +50,18 @@ export interface ModelIOStats {
   total_latency_ms: number;
 }
 
+/**
+ * A tool call made by the model in a response.
+ */
+export interface ModelIOToolCall {
+  /** Call ID, unique within the response */
+  id: string;
+  /** Name of the tool called */
+  name: string;
+  /** Tool input */
+  input: Record<string, unknown>;
+}
+
 /**
  * A recorded interaction.
  */
@@ -62,6 +74,8 @@ export interface ModelIOInteraction {
   response_hash: ContentHash;
   /** Response content (UTF-8 string) */
   response_content: string;
+  /** Tool calls made in the response, in call order (optional) */
+  tool_calls?: ModelIOToolCall[];
   /** Tokens consumed in request (optional, ephemeral) */
   tokens_input?: number;
   /** Tokens generated in response (optional, ephemeral) */
@@ -78,6 +92,7 @@ export interface ModelIOInteractionCore {
   prompt_hash: ContentHash;
   response_hash: ContentHash;
   response_content: string;
+  tool_calls?: ModelIOToolCall[];
 }
 
 /**
@@ -18,6 +18,7 @@
  * - MI10: Stable violations (internal - violations are auto-sorted)
  * - MI11: Size limits
  * - MI12: No hidden nondeterminism (internal - handled by core extraction)
+ * - MI13: Tool calls well-formed
  */
 
 import { createHash } from 'node:crypto';
@@ -48,6 +49,7 @@ const RULES = {
   MI8: 'MI8',
   MI9: 'MI9',
   MI11: 'MI11',
+  MI13: 'MI13',
   SCHEMA: 'SCHEMA',
 } as const;
 
@@ -334,6 +336,52 @@ function checkSizeLimits(session: ModelIOSession, options: ModelIOVerifyOptions,
   }
 }
 
+/**
+ * MI13: Tool calls must be an array of { id, name, input } with unique IDs.
+ */
+function checkToolCalls(session: ModelIOSession, violations: ModelIOViolation[]): void {
+  if (!Array.isArray(session.interactions)) return;
+
+  for (let i = 0; i < session.interactions.length; i++) {
+    const toolCalls: unknown = session.interactions[i]!.tool_calls;
+    if (toolCalls === undefined) continue;
+
+    const path = `$.interactions[${i}].tool_calls`;
+    if (!Array.isArray(toolCalls)) {
+      violations.push({ rule_id: RULES.MI13, path, message: 'tool_calls must be an array' });
+      continue;
+    }
+
+    const ids = new Set<string>();
+    for (let j = 0; j < toolCalls.length; j++) {
+      const call: unknown = toolCalls[j];
+      if (
+        !isObject(call) ||
+        typeof call['id'] !== 'string' ||
+        call['id'].length === 0 ||
+        typeof call['name'] !== 'string' ||
+        call['name'].length === 0 ||
+        !isObject(call['input'])
+      ) {
+        violations.push({
+          rule_id: RULES.MI13,
+          path: `${path}[${j}]`,
+          message: 'tool call must have non-empty string id and name and an object input',
+        });
+        continue;
+      }
+      if (ids.has(call['id'])) {
+        violations.push({
+          rule_id: RULES.MI13,
+          path: `${path}[${j}].id`,
+          message: `duplicate tool call id ${call['id']}`,
+        });
+      }
+      ids.add(call['id']);
+    }
+  }
+}
+
 /**
  * Check basic session schema structure.
  */
@@ -407,6 +455,7 @@ export function computeModelIOCore(session: ModelIOSession): ModelIOCore {
         prompt_hash: interaction.prompt_hash,
         response_hash: interaction.response_hash,
         response_content: interaction.response_content,
+        ...(interaction.tool_calls && { tool_calls: interaction.tool_calls }),
       }))
       .sort((a, b) => a.i - b.i),
   };
@@ -454,6 +503,7 @@ export function verifyModelIO(session: unknown, options: ModelIOVerifyOptions =
   checkNoDuplicates(s, violations);
   checkSorting(s, violations);
   checkSizeLimits(s, options, violations);
+  checkToolCalls(s, violations);
 
   if (violations.length === 0) {
     return {
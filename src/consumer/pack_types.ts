@@ -26,6 +26,8 @@ export const PACK_MANIFEST = {
   OPTIONAL: ['patch.json', 'evidence.json', 'ledger.jsonl', 'policy.json', 'model_io.json', 'runner.json', 'meta.json'] as const,
   /** All allowed files */
   ALL: ['run.json', 'bundle.json', 'patch.json', 'evidence.json', 'ledger.jsonl', 'policy.json', 'model_io.json', 'runner.json', 'meta.json'] as const,
+  /** Directory of content-addressed step logs (`<hex>.log`) */
+  LOGS_DIR: 'logs',
 } as const;
 
 /**
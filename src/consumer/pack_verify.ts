@@ -10,16 +10,19 @@
  * - PK2: No unknown files
  * - PK3: Run spec valid
  * - PK4: Bundle spec valid
- * - PK5: Hash match (run -> bundle)
+ * - PK5: Hash match (run -> bundle, model_io)
  * - PK6: No symlinks
  * - PK7: No path traversal
  * - PK8: Optional files valid
- * - PK9: Ledger format valid
+ * - PK9: Ledger format and hash chain valid
  * - PK10: Stable violations (internal - violations are auto-sorted)
  * - PK11: Meta ignored (meta.json not validated)
  * - PK12: Regular files only
+ * - PK13: Execution logs complete (not truncated)
+ * - PK14: Step logs content-addressed
  */
 
+import { createHash } from 'node:crypto';
 import { readFileSync, readdirSync, lstatSync, existsSync, statSync } from 'node:fs';
 import { join, basename, resolve, normalize } from 'node:path';
 import { canonicalize, canonicalHash } from '../utils/canonical.js';
@@ -27,6 +30,7 @@ import { verifyBundle } from './bundle_verify.js';
 import { verifyPatch } from './patch_verify.js';
 import { verifyModelIO } from './model_io_verify.js';
 import { verifyRunner } from './runner_verify.js';
+import { verifyLedger } from './ledger_verify.js';
 import type {
   PackVerifyResult,
   PackVerifySuccess,
@@ -53,9 +57,16 @@ const RULES = {
   PK8: 'PK8',
   PK9: 'PK9',
   PK12: 'PK12',
+  PK13: 'PK13',
+  PK14: 'PK14',
   IO: 'IO',
 } as const;
 
+/**
+ * Step log file name: hex SHA-256 of its bytes.
+ */
+const LOG_FILE_PATTERN = /^([0-9a-f]{64})\.log$/;
+
 /**
  * Check if a path is a symlink using lstat.
  */
@@ -222,7 +233,9 @@ function validateRunBasicSchema(run: unknown, violations: PackViolation[]): bool
 }
 
 /**
- * Validate ledger.jsonl format (PK9).
+ * Validate ledger.jsonl format and hash chain (PK9).
+ * A pack ledger may be a segment of a longer ledger, so its first record
+ * need not start the chain.
  */
 function validateLedger(packPath: string, violations: PackViolation[]): void {
   const ledgerPath = join(packPath, 'ledger.jsonl');
@@ -230,38 +243,15 @@ function validateLedger(packPath: string, violations: PackViolation[]): void {
 
   try {
     const content = readFileSync(ledgerPath, 'utf-8');
-    const lines = content.split('\n').filter((line) => line.trim() !== '');
+    const result = verifyLedger(content, { allowSegment: true });
 
-    for (let i = 0; i < lines.length; i++) {
-      try {
-        const entry = JSON.parse(lines[i]!);
-        // Basic schema validation
-        if (typeof entry !== 'object' || entry === null) {
-          violations.push({
-            rule_id: RULES.PK9,
-            path: 'ledger.jsonl',
-            message: `line ${i + 1}: entry must be an object`,
-          });
-          continue;
-        }
-        // Check required ledger entry fields
-        const required = ['run_id', 'timestamp', 'intent_sha256', 'result_kind', 'accepted', 'mode', 'policy'];
-        for (const field of required) {
-          if (!(field in entry)) {
-            violations.push({
-              rule_id: RULES.PK9,
-              path: 'ledger.jsonl',
-              message: `line ${i + 1}: missing field ${field}`,
-            });
-          }
-        }
-      } catch {
-        violations.push({
-          rule_id: RULES.PK9,
-          path: 'ledger.jsonl',
-          message: `line ${i + 1}: invalid JSON`,
-        });
-      }
+    for (const violation of result.violations) {
+      const where = violation.line !== undefined ? `line ${violation.line}: ` : '';
+      violations.push({
+        rule_id: RULES.PK9,
+        path: 'ledger.jsonl',
+        message: `${where}${violation.rule_id}: ${violation.message}`,
+      });
     }
   } catch (err) {
     violations.push({
@@ -272,6 +262,115 @@ function validateLedger(packPath: string, violations: PackViolation[]): void {
   }
 }
 
+/**
+ * Validate that run.json's execution logs were captured in full (PK13).
+ * Log fields are optional (runs before they were recorded lack them); a
+ * truncated stream means the hashed log is not the command's output.
+ */
+function validateExecutionLogs(runData: unknown, violations: PackViolation[]): void {
+  if (runData === null || typeof runData !== 'object') return;
+  const execution = (runData as Record<string, unknown>)['execution'];
+  if (execution === null || typeof execution !== 'object') return;
+  const execObj = execution as Record<string, unknown>;
+
+  for (const stream of ['stdout', 'stderr'] as const) {
+    const bytes = execObj[`${stream}_bytes`];
+    const truncated = execObj[`${stream}_truncated`];
+
+    if (bytes !== undefined && !(typeof bytes === 'number' && Number.isInteger(bytes) && bytes >= 0)) {
+      violations.push({
+        rule_id: RULES.PK13,
+        path: 'run.json',
+        message: `execution.${stream}_bytes must be a non-negative integer`,
+      });
+    }
+    if (truncated !== undefined && typeof truncated !== 'boolean') {
+      violations.push({
+        rule_id: RULES.PK13,
+        path: 'run.json',
+        message: `execution.${stream}_truncated must be a boolean`,
+      });
+    } else if (truncated === true) {
+      violations.push({
+        rule_id: RULES.PK13,
+        path: 'run.json',
+        message: `${stream} log truncated at ${typeof bytes === 'number' ? bytes : 'unknown'} bytes`,
+      });
+    }
+  }
+}
+
+/**
+ * Validate the logs directory and that every step that ran has its
+ * stdout and stderr logs there (PK14). Log files are named by the
+ * SHA-256 of their bytes.
+ */
+function validateStepLogs(
+  packPath: string,
+  runData: unknown,
+  violations: PackViolation[],
+  filesVerified: string[]
+): void {
+  const logsPath = join(packPath, PACK_MANIFEST.LOGS_DIR);
+  const present = new Set<string>();
+
+  if (existsSync(logsPath) && isDirectory(logsPath)) {
+    for (const name of readdirSync(logsPath).sort()) {
+      const entry = `${PACK_MANIFEST.LOGS_DIR}/${name}`;
+      const match = LOG_FILE_PATTERN.exec(name);
+      if (isSymlink(join(logsPath, name))) {
+        violations.push({ rule_id: RULES.PK6, path: entry, message: `file is a symbolic link: ${entry}` });
+        continue;
+      }
+      if (!isRegularFile(join(logsPath, name))) {
+        violations.push({ rule_id: RULES.PK12, path: entry, message: `not a regular file: ${entry}` });
+        continue;
+      }
+      if (!match) {
+        violations.push({ rule_id: RULES.PK14, path: entry, message: `log file name is not <sha256>.log: ${name}` });
+        continue;
+      }
+      const actual = createHash('sha256').update(readFileSync(join(logsPath, name))).digest('hex');
+      if (actual !== match[1]) {
+        violations.push({ rule_id: RULES.PK14, path: entry, message: `log content hashes to sha256:${actual}` });
+        continue;
+      }
+      present.add(`sha256:${actual}`);
+      filesVerified.push(entry);
+    }
+  }
+
+  if (runData === null || typeof runData !== 'object') return;
+  const execution = (runData as Record<string, unknown>)['execution'];
+  if (execution === null || typeof execution !== 'object') return;
+  const steps = (execution as Record<string, unknown>)['steps'];
+  if (steps === undefined) return;
+  if (!Array.isArray(steps)) {
+    violations.push({ rule_id: RULES.PK14, path: 'run.json', message: 'execution.steps must be an array' });
+    return;
+  }
+
+  for (const step of steps as unknown[]) {
+    if (step === null || typeof step !== 'object') {
+      violations.push({ rule_id: RULES.PK14, path: 'run.json', message: 'execution.steps entries must be objects' });
+      continue;
+    }
+    const stepObj = step as Record<string, unknown>;
+    if (stepObj['status'] === 'skipped') continue;
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const hash = stepObj[`${stream}_sha256`];
+      if (typeof hash !== 'string' || !present.has(hash)) {
+        violations.push({
+          rule_id: RULES.PK14,
+          path: PACK_MANIFEST.LOGS_DIR,
+          message: `missing ${stream} log for step ${String(stepObj['name'])}: ${String(hash)}`,
+        });
+      }
+    }
+  }
+}
+
 /**
  * Validate policy.json matches run.json policy (if both exist).
  */
@@ -308,6 +407,15 @@ function validatePolicyConsistency(packPath: string, runData: unknown, violation
         // Skip comparison if canonicalization fails
       }
     }
+
+    const runPolicyHash = runObj['policy_sha256'];
+    if (typeof runPolicyHash === 'string' && runPolicyHash !== `sha256:${canonicalHash(policyResult.data)}`) {
+      violations.push({
+        rule_id: RULES.PK8,
+        path: 'policy.json',
+        message: 'policy.json does not match run.json policy_sha256',
+      });
+    }
   }
 }
 
@@ -415,6 +523,7 @@ export function verifyPack(packPath: string, options: PackVerifyOptions = {}): P
   // PK2: Check for unknown files
   const allowedFiles = new Set(PACK_MANIFEST.ALL);
   for (const entry of entries) {
+    if (entry === PACK_MANIFEST.LOGS_DIR) continue;
     if (!allowedFiles.has(entry as typeof PACK_MANIFEST.ALL[number])) {
       violations.push({
         rule_id: RULES.PK2,
@@ -447,7 +556,10 @@ export function verifyPack(packPath: string, options: PackVerifyOptions = {}): P
       continue;
     }
 
-    // PK12: Must be regular file
+    // PK12: Must be regular file (the logs directory is checked by PK14)
+    if (entry === PACK_MANIFEST.LOGS_DIR && isDirectory(filePath)) {
+      continue;
+    }
     if (!isRegularFile(filePath)) {
       violations.push({
         rule_id: RULES.PK12,
@@ -479,6 +591,9 @@ export function verifyPack(packPath: string, options: PackVerifyOptions = {}): P
 
       // PK3: Validate run.json basic schema
       validateRunBasicSchema(runData, violations);
+
+      // PK13: Execution logs must not be truncated
+      validateExecutionLogs(runData, violations);
     }
   } else {
     // PK1: run.json is always required
@@ -553,6 +668,40 @@ export function verifyPack(packPath: string, options: PackVerifyOptions = {}): P
     }
   }
 
+  // PK5: Verify reference integrity (run -> model_io hash)
+  if (verifyReferences && runData !== null && typeof runData === 'object') {
+    const modelIoHash = (runData as Record<string, unknown>)['model_io_hash'];
+    if (typeof modelIoHash === 'string') {
+      const modelIoPath = join(resolvedPath, 'model_io.json');
+      let computedHash: ContentHash | null = null;
+      if (existsSync(modelIoPath) && isRegularFile(modelIoPath)) {
+        const modelIoResult = readJsonFile(modelIoPath);
+        if (modelIoResult.ok) {
+          const modelIoVerify = verifyModelIO(modelIoResult.data);
+          computedHash = modelIoVerify.ok ? modelIoVerify.model_io_hash : null;
+        }
+      }
+
+      const check: ReferenceCheck = {
+        source: 'run.json',
+        target: 'model_io.json',
+        field: 'model_io_hash',
+        expected: modelIoHash as ContentHash,
+        computed: computedHash,
+        match: modelIoHash === computedHash,
+      };
+      referenceChecks.push(check);
+
+      if (!check.match) {
+        violations.push({
+          rule_id: RULES.PK5,
+          path: 'model_io.json',
+          message: `hash mismatch: run.json references ${modelIoHash}, but model_io.json computes to ${computedHash}`,
+        });
+      }
+    }
+  }
+
   // PK8: Validate optional files
   if (deepValidation) {
     // Validate patch.json
@@ -683,6 +832,9 @@ export function verifyPack(packPath: string, options: PackVerifyOptions = {}): P
     // Note: meta.json contents are NOT validated beyond JSON syntax (PK11)
   }
 
+  // PK14: Step logs are content-addressed and complete
+  validateStepLogs(resolvedPath, runData, violations, filesVerified);
+
   // Sort violations (PK10)
   const sortedViolations = sortViolations(violations);
 
@@ -0,0 +1,108 @@
+/**
+ * Patch Hunks
+ * ===========
+ *
+ * Line-level application of unified diff hunks (PATCH_SPEC.md section 5.5).
+ *
+ * Hunks are applied without fuzz: every context and removed line must
+ * match the base at exactly the hunk's position. Lines are the elements
+ * of `content.split('\n')`, so newline handling is lossless.
+ */
+
+import type { PatchHunk } from './patch_types.js';
+
+/**
+ * Result of applying hunks to a base text.
+ */
+export type ApplyHunksResult =
+  | { ok: true; content: string }
+  | { ok: false; error: string };
+
+/**
+ * Count the base (context, removed) and result (context, added) lines of
+ * a hunk.
+ *
+ * @param hunk - Hunk to count
+ * @returns Line counts
+ */
+export function countHunkLines(hunk: PatchHunk): { old_lines: number; new_lines: number } {
+  let oldLines = 0;
+  let newLines = 0;
+  for (const line of hunk.lines) {
+    if (line.startsWith(' ')) {
+      oldLines++;
+      newLines++;
+    } else if (line.startsWith('-')) {
+      oldLines++;
+    } else if (line.startsWith('+')) {
+      newLines++;
+    }
+  }
+  return { old_lines: oldLines, new_lines: newLines };
+}
+
+/**
+ * Bytes added by hunks: the UTF-8 length of every added line, without
+ * its '+' prefix. This is the hunk form's contribution to total_bytes.
+ *
+ * @param hunks - Hunks to measure
+ * @returns Added bytes
+ */
+export function hunkAddedBytes(hunks: readonly PatchHunk[]): number {
+  let bytes = 0;
+  for (const hunk of hunks) {
+    for (const line of hunk.lines) {
+      if (line.startsWith('+')) {
+        bytes += Buffer.byteLength(line.slice(1), 'utf8');
+      }
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Apply hunks to a base text.
+ *
+ * Hunks must be sorted by old_start and must not overlap (verifyPatch
+ * checks this). Fails on the first context or removed line that does not
+ * match the base.
+ *
+ * @param base - Current file content
+ * @param hunks - Hunks to apply
+ * @returns New content, or the first mismatch
+ */
+export function applyHunks(base: string, hunks: readonly PatchHunk[]): ApplyHunksResult {
+  const baseLines = base.split('\n');
+  const result: string[] = [];
+  let cursor = 0; // next base line index (0-based) not yet copied
+
+  for (let h = 0; h < hunks.length; h++) {
+    const hunk = hunks[h]!;
+    const start = hunk.old_start - 1;
+
+    if (start < cursor || start + hunk.old_lines > baseLines.length) {
+      return { ok: false, error: `hunk ${h} out of range (old_start ${hunk.old_start})` };
+    }
+
+    result.push(...baseLines.slice(cursor, start));
+    cursor = start;
+
+    for (const line of hunk.lines) {
+      const text = line.slice(1);
+      if (line.startsWith('+')) {
+        result.push(text);
+        continue;
+      }
+      if (baseLines[cursor] !== text) {
+        return { ok: false, error: `hunk ${h} does not match base at line ${cursor + 1}` };
+      }
+      if (line.startsWith(' ')) {
+        result.push(text);
+      }
+      cursor++;
+    }
+  }
+
+  result.push(...baseLines.slice(cursor));
+  return { ok: true, content: result.join('\n') };
+}
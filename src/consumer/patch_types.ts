@@ -19,7 +19,47 @@ export const PATCH_SCHEMA_VERSION = '1.0.0';
 /**
  * Patch operation type.
  */
-export type PatchOpType = 'create' | 'modify' | 'delete';
+export type PatchOpType = 'create' | 'modify' | 'delete' | 'rename' | 'set_mode';
+
+/**
+ * File mode a patch may set (regular or executable file).
+ */
+export type PatchFileMode = '0644' | '0755';
+
+/**
+ * A unified diff hunk for a line-level modify operation.
+ *
+ * Lines are the elements of `content.split('\n')`, so a trailing newline
+ * is an empty last line and CR characters stay part of their line.
+ */
+export interface PatchHunk {
+  /**
+   * First base line covered by the hunk (1-based). For a hunk with no
+   * base lines, the line the new lines are inserted before.
+   */
+  old_start: number;
+
+  /**
+   * Number of base lines covered (context and removed lines).
+   */
+  old_lines: number;
+
+  /**
+   * First line of the hunk in the result (1-based).
+   */
+  new_start: number;
+
+  /**
+   * Number of result lines (context and added lines).
+   */
+  new_lines: number;
+
+  /**
+   * Hunk lines, each prefixed with ' ' (context), '-' (removed) or
+   * '+' (added).
+   */
+  lines: string[];
+}
 
 /**
  * Single file operation within a PatchSet.
@@ -32,14 +72,39 @@ export interface PatchOperation {
 
   /**
    * Target file path (relative, POSIX-style).
+   * For rename, the source path.
    */
   path: string;
 
+  /**
+   * Destination path (rename operations only).
+   */
+  to?: string;
+
+  /**
+   * File mode (required for set_mode, optional for create).
+   */
+  mode?: PatchFileMode;
+
   /**
    * File content (for create/modify operations).
+   * A modify operation carries either content or hunks.
    */
   content?: string;
 
+  /**
+   * Line-level changes (modify operations only).
+   * ORDERING: Sorted by old_start ascending, non-overlapping.
+   */
+  hunks?: PatchHunk[];
+
+  /**
+   * Hash of the file the operation expects (required with hunks and for
+   * rename).
+   * Format: sha256:{64 hex characters}
+   */
+  base_hash?: string;
+
   /**
    * Expected content hash after operation.
    */
@@ -83,7 +148,7 @@ export interface PatchSet {
   operations: PatchOperation[];
 
   /**
-   * Total byte count of all content.
+   * Total byte count of all content (including added hunk lines).
    */
   total_bytes: number;
 }
@@ -16,10 +16,15 @@
  * - PS8: Sorting canonical
  * - PS9: No symlink intent
  * - PS10: Stable violations (internal - violations are auto-sorted)
+ * - PS11: Hunk form (hunks only on modify, with base_hash, without content)
+ * - PS12: Hunk consistency (line prefixes, counts, ordering)
+ * - PS13: Rename form (destination and base_hash guard)
+ * - PS14: Mode form (0644 or 0755, only on set_mode and create)
  */
 
-import type { PatchSet, PatchOperation, PatchVerifyOptions, PatchVerifyResult } from './patch_types.js';
+import type { PatchSet, PatchOperation, PatchHunk, PatchVerifyOptions, PatchVerifyResult } from './patch_types.js';
 import type { Violation } from './bundle_types.js';
+import { countHunkLines, hunkAddedBytes } from './patch_hunks.js';
 
 /**
  * Rule IDs matching PATCH_SPEC.md.
@@ -34,6 +39,10 @@ const RULES = {
   PS7: 'PS7',
   PS8: 'PS8',
   PS9: 'PS9',
+  PS11: 'PS11',
+  PS12: 'PS12',
+  PS13: 'PS13',
+  PS14: 'PS14',
   SCHEMA: 'SCHEMA',
 } as const;
 
@@ -45,7 +54,17 @@ const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
 /**
  * Valid operation types.
  */
-const VALID_OPS = new Set(['create', 'modify', 'delete']);
+const VALID_OPS = new Set(['create', 'modify', 'delete', 'rename', 'set_mode']);
+
+/**
+ * File modes a patch may set.
+ */
+const VALID_MODES = new Set(['0644', '0755']);
+
+/**
+ * Base hash format (sha256:{64 hex characters}).
+ */
+const BASE_HASH_PATTERN = /^sha256:[0-9a-f]{64}$/;
 
 /**
  * Check if value is a plain object.
@@ -133,6 +152,17 @@ function hasNormalizationIssues(path: string): boolean {
   );
 }
 
+/**
+ * Paths an operation writes: its path, plus the destination of a rename.
+ */
+function targetPaths(op: PatchOperation, index: number): Array<{ path: string; at: string }> {
+  const targets = [{ path: op.path, at: `$.operations[${index}].path` }];
+  if (op.op === 'rename' && typeof op.to === 'string') {
+    targets.push({ path: op.to, at: `$.operations[${index}].to` });
+  }
+  return targets;
+}
+
 /**
  * PS1: Schema version must be present and valid string.
  */
@@ -186,13 +216,14 @@ function checkPathRelativeOnly(patch: PatchSet, violations: Violation[]): void {
   if (!Array.isArray(patch.operations)) return;
 
   for (let i = 0; i < patch.operations.length; i++) {
-    const op = patch.operations[i]!;
-    if (isAbsolutePath(op.path)) {
-      violations.push({
-        rule_id: RULES.PS3,
-        path: `$.operations[${i}].path`,
-        message: `absolute path not allowed: ${op.path}`,
-      });
+    for (const target of targetPaths(patch.operations[i]!, i)) {
+      if (isAbsolutePath(target.path)) {
+        violations.push({
+          rule_id: RULES.PS3,
+          path: target.at,
+          message: `absolute path not allowed: ${target.path}`,
+        });
+      }
     }
   }
 }
@@ -204,27 +235,28 @@ function checkNoPathTraversal(patch: PatchSet, violations: Violation[]): void {
   if (!Array.isArray(patch.operations)) return;
 
   for (let i = 0; i < patch.operations.length; i++) {
-    const op = patch.operations[i]!;
-    if (hasPathTraversal(op.path)) {
-      violations.push({
-        rule_id: RULES.PS4,
-        path: `$.operations[${i}].path`,
-        message: `path traversal or backslash not allowed: ${op.path}`,
-      });
-    }
-    if (hasForbiddenPathChars(op.path)) {
-      violations.push({
-        rule_id: RULES.PS4,
-        path: `$.operations[${i}].path`,
-        message: `forbidden characters in path: ${op.path}`,
-      });
-    }
-    if (hasNormalizationIssues(op.path)) {
-      violations.push({
-        rule_id: RULES.PS4,
-        path: `$.operations[${i}].path`,
-        message: `path not normalized: ${op.path}`,
-      });
+    for (const { path, at } of targetPaths(patch.operations[i]!, i)) {
+      if (hasPathTraversal(path)) {
+        violations.push({
+          rule_id: RULES.PS4,
+          path: at,
+          message: `path traversal or backslash not allowed: ${path}`,
+        });
+      }
+      if (hasForbiddenPathChars(path)) {
+        violations.push({
+          rule_id: RULES.PS4,
+          path: at,
+          message: `forbidden characters in path: ${path}`,
+        });
+      }
+      if (hasNormalizationIssues(path)) {
+        violations.push({
+          rule_id: RULES.PS4,
+          path: at,
+          message: `path not normalized: ${path}`,
+        });
+      }
     }
   }
 }
@@ -237,16 +269,17 @@ function checkNoDuplicateTargets(patch: PatchSet, violations: Violation[]): void
 
   const seen = new Map<string, number>();
   for (let i = 0; i < patch.operations.length; i++) {
-    const op = patch.operations[i]!;
-    const prevIndex = seen.get(op.path);
-    if (prevIndex !== undefined) {
-      violations.push({
-        rule_id: RULES.PS5,
-        path: `$.operations[${i}].path`,
-        message: `duplicate target path: ${op.path} (also at index ${prevIndex})`,
-      });
-    } else {
-      seen.set(op.path, i);
+    for (const { path, at } of targetPaths(patch.operations[i]!, i)) {
+      const prevIndex = seen.get(path);
+      if (prevIndex !== undefined) {
+        violations.push({
+          rule_id: RULES.PS5,
+          path: at,
+          message: `duplicate target path: ${path} (also at index ${prevIndex})`,
+        });
+      } else {
+        seen.set(path, i);
+      }
     }
   }
 }
@@ -266,20 +299,44 @@ function checkTextOnlyUtf8(patch: PatchSet, violations: Violation[]): void {
         message: `content is not valid UTF-8 or contains null bytes`,
       });
     }
-    // delete operations should not have content
-    if (op.op === 'delete' && op.content !== undefined) {
+    // delete, rename and set_mode operations should not have content
+    if ((op.op === 'delete' || op.op === 'rename' || op.op === 'set_mode') && op.content !== undefined) {
       violations.push({
         rule_id: RULES.PS6,
         path: `$.operations[${i}].content`,
-        message: `delete operation must not have content`,
+        message: `${op.op} operation must not have content`,
       });
     }
-    // create/modify operations should have content (at least empty string)
-    if ((op.op === 'create' || op.op === 'modify') && op.content === undefined) {
+    // create operations should have content (at least empty string)
+    if (op.op === 'create' && op.content === undefined) {
       violations.push({
         rule_id: RULES.PS6,
         path: `$.operations[${i}].content`,
-        message: `${op.op} operation must have content`,
+        message: `create operation must have content`,
+      });
+    }
+    // modify operations should have content or hunks
+    if (op.op === 'modify' && op.content === undefined && op.hunks === undefined) {
+      violations.push({
+        rule_id: RULES.PS6,
+        path: `$.operations[${i}].content`,
+        message: `modify operation must have content or hunks`,
+      });
+    }
+    // hunk lines follow the same text rules as content
+    if (Array.isArray(op.hunks)) {
+      op.hunks.forEach((hunk, h) => {
+        if (isObject(hunk) && Array.isArray(hunk.lines)) {
+          hunk.lines.forEach((line, l) => {
+            if (typeof line === 'string' && !isValidUtf8Content(line)) {
+              violations.push({
+                rule_id: RULES.PS6,
+                path: `$.operations[${i}].hunks[${h}].lines[${l}]`,
+                message: `hunk line is not valid UTF-8 or contains null bytes`,
+              });
+            }
+          });
+        }
       });
     }
   }
@@ -313,6 +370,9 @@ function checkMaxBytesEnforced(patch: PatchSet, maxBytes: number, violations: Vi
       if (op.content !== undefined) {
         actualBytes += Buffer.byteLength(op.content, 'utf8');
       }
+      if (Array.isArray(op.hunks) && op.hunks.every(isWellFormedHunk)) {
+        actualBytes += hunkAddedBytes(op.hunks);
+      }
     }
   }
 
@@ -372,6 +432,242 @@ function checkNoSymlinkIntent(patch: PatchSet, violations: Violation[]): void {
   }
 }
 
+/**
+ * Check if a hunk has the right field types (counts are checked by PS12).
+ */
+function isWellFormedHunk(hunk: unknown): hunk is PatchHunk {
+  if (!isObject(hunk)) return false;
+  for (const field of ['old_start', 'old_lines', 'new_start', 'new_lines']) {
+    const value = hunk[field];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      return false;
+    }
+  }
+  return (
+    (hunk['old_start'] as number) >= 1 &&
+    (hunk['new_start'] as number) >= 1 &&
+    Array.isArray(hunk['lines']) &&
+    hunk['lines'].every((line) => typeof line === 'string')
+  );
+}
+
+/**
+ * PS11: Hunks only on modify, exclusive with content, with a base hash.
+ */
+function checkHunkForm(patch: PatchSet, violations: Violation[]): void {
+  if (!Array.isArray(patch.operations)) return;
+
+  for (let i = 0; i < patch.operations.length; i++) {
+    const op = patch.operations[i]!;
+
+    if (op.hunks === undefined) {
+      if (op.base_hash !== undefined && op.op !== 'rename') {
+        violations.push({
+          rule_id: RULES.PS11,
+          path: `$.operations[${i}].base_hash`,
+          message: 'base_hash is only allowed with hunks or rename',
+        });
+      }
+      continue;
+    }
+
+    if (op.op !== 'modify') {
+      violations.push({
+        rule_id: RULES.PS11,
+        path: `$.operations[${i}].hunks`,
+        message: `${op.op} operation must not have hunks`,
+      });
+    }
+    if (op.content !== undefined) {
+      violations.push({
+        rule_id: RULES.PS11,
+        path: `$.operations[${i}].hunks`,
+        message: 'operation must not have both content and hunks',
+      });
+    }
+    if (!Array.isArray(op.hunks) || op.hunks.length === 0) {
+      violations.push({
+        rule_id: RULES.PS11,
+        path: `$.operations[${i}].hunks`,
+        message: 'hunks must be a non-empty array',
+      });
+    }
+    if (op.base_hash === undefined) {
+      violations.push({
+        rule_id: RULES.PS11,
+        path: `$.operations[${i}].base_hash`,
+        message: 'hunks require base_hash',
+      });
+    } else if (typeof op.base_hash !== 'string' || !BASE_HASH_PATTERN.test(op.base_hash)) {
+      violations.push({
+        rule_id: RULES.PS11,
+        path: `$.operations[${i}].base_hash`,
+        message: 'base_hash must be sha256:{64 hex characters}',
+      });
+    }
+  }
+}
+
+/**
+ * PS12: Hunk lines are prefixed, counts match, hunks are sorted and
+ * non-overlapping, and new_start accounts for earlier hunks.
+ */
+function checkHunkConsistency(patch: PatchSet, violations: Violation[]): void {
+  if (!Array.isArray(patch.operations)) return;
+
+  for (let i = 0; i < patch.operations.length; i++) {
+    const op = patch.operations[i]!;
+    if (!Array.isArray(op.hunks)) continue;
+
+    let nextOldLine = 1; // first base line not covered by an earlier hunk
+    let offset = 0; // new_lines - old_lines of earlier hunks
+
+    for (let h = 0; h < op.hunks.length; h++) {
+      const hunk: unknown = op.hunks[h];
+      const path = `$.operations[${i}].hunks[${h}]`;
+
+      if (!isWellFormedHunk(hunk)) {
+        violations.push({
+          rule_id: RULES.PS12,
+          path,
+          message: 'hunk must have positive integer starts, non-negative integer counts and string lines',
+        });
+        continue;
+      }
+
+      const badLine = hunk.lines.findIndex((line) => !/^[ +-]/.test(line));
+      if (badLine !== -1) {
+        violations.push({
+          rule_id: RULES.PS12,
+          path: `${path}.lines[${badLine}]`,
+          message: "hunk line must start with ' ', '-' or '+'",
+        });
+        continue;
+      }
+
+      const counts = countHunkLines(hunk);
+      if (counts.old_lines !== hunk.old_lines || counts.new_lines !== hunk.new_lines) {
+        violations.push({
+          rule_id: RULES.PS12,
+          path,
+          message: `hunk counts (${hunk.old_lines}, ${hunk.new_lines}) do not match lines (${counts.old_lines}, ${counts.new_lines})`,
+        });
+      }
+      if (!hunk.lines.some((line) => !line.startsWith(' '))) {
+        violations.push({
+          rule_id: RULES.PS12,
+          path,
+          message: 'hunk has no added or removed lines',
+        });
+      }
+      if (hunk.old_start < nextOldLine) {
+        violations.push({
+          rule_id: RULES.PS12,
+          path,
+          message: `hunk overlaps or precedes the previous hunk (old_start ${hunk.old_start})`,
+        });
+      }
+      if (hunk.new_start !== hunk.old_start + offset) {
+        violations.push({
+          rule_id: RULES.PS12,
+          path,
+          message: `hunk new_start ${hunk.new_start} does not match old_start plus earlier hunks (${hunk.old_start + offset})`,
+        });
+      }
+
+      nextOldLine = hunk.old_start + hunk.old_lines;
+      offset += hunk.new_lines - hunk.old_lines;
+    }
+  }
+}
+
+/**
+ * PS13: Rename operations have a distinct destination and a base_hash
+ * guard; `to` appears only on rename.
+ */
+function checkRenameForm(patch: PatchSet, violations: Violation[]): void {
+  if (!Array.isArray(patch.operations)) return;
+
+  for (let i = 0; i < patch.operations.length; i++) {
+    const op = patch.operations[i]!;
+
+    if (op.op !== 'rename') {
+      if (op.to !== undefined) {
+        violations.push({
+          rule_id: RULES.PS13,
+          path: `$.operations[${i}].to`,
+          message: `${op.op} operation must not have to`,
+        });
+      }
+      continue;
+    }
+
+    if (typeof op.to !== 'string') {
+      violations.push({
+        rule_id: RULES.PS13,
+        path: `$.operations[${i}].to`,
+        message: 'rename requires to',
+      });
+    } else if (op.to === op.path) {
+      violations.push({
+        rule_id: RULES.PS13,
+        path: `$.operations[${i}].to`,
+        message: `rename destination equals source: ${op.path}`,
+      });
+    }
+    if (op.base_hash === undefined) {
+      violations.push({
+        rule_id: RULES.PS13,
+        path: `$.operations[${i}].base_hash`,
+        message: 'rename requires base_hash',
+      });
+    } else if (typeof op.base_hash !== 'string' || !BASE_HASH_PATTERN.test(op.base_hash)) {
+      violations.push({
+        rule_id: RULES.PS13,
+        path: `$.operations[${i}].base_hash`,
+        message: 'base_hash must be sha256:{64 hex characters}',
+      });
+    }
+  }
+}
+
+/**
+ * PS14: set_mode has a mode of 0644 or 0755; create may have one; other
+ * operations must not.
+ */
+function checkModeForm(patch: PatchSet, violations: Violation[]): void {
+  if (!Array.isArray(patch.operations)) return;
+
+  for (let i = 0; i < patch.operations.length; i++) {
+    const op = patch.operations[i]!;
+
+    if (op.mode === undefined) {
+      if (op.op === 'set_mode') {
+        violations.push({
+          rule_id: RULES.PS14,
+          path: `$.operations[${i}].mode`,
+          message: 'set_mode requires mode',
+        });
+      }
+      continue;
+    }
+
+    if (op.op !== 'set_mode' && op.op !== 'create') {
+      violations.push({
+        rule_id: RULES.PS14,
+        path: `$.operations[${i}].mode`,
+        message: `${op.op} operation must not have mode`,
+      });
+    } else if (!VALID_MODES.has(op.mode)) {
+      violations.push({
+        rule_id: RULES.PS14,
+        path: `$.operations[${i}].mode`,
+        message: `mode must be 0644 or 0755, got ${String(op.mode)}`,
+      });
+    }
+  }
+}
+
 /**
  * Check basic patch schema structure.
  */
@@ -456,6 +752,10 @@ export function verifyPatch(patch: unknown, options?: PatchVerifyOptions): Patch
   checkMaxBytesEnforced(p, maxBytes, violations);
   checkSortingCanonical(p, violations);
   checkNoSymlinkIntent(p, violations);
+  checkHunkForm(p, violations);
+  checkHunkConsistency(p, violations);
+  checkRenameForm(p, violations);
+  checkModeForm(p, violations);
 
   if (violations.length === 0) {
     return { ok: true };
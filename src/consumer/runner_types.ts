@@ -48,6 +48,12 @@ export const FORBIDDEN_ENV_PREFIXES = [
   'ANTHROPIC_',
 ] as const;
 
+/**
+ * Valid pipeline step statuses.
+ */
+export const VALID_STEP_STATUSES = ['success', 'failure', 'timeout', 'skipped'] as const;
+export type RunnerStepStatus = (typeof VALID_STEP_STATUSES)[number];
+
 /**
  * Limit bounds for validation.
  */
@@ -136,6 +142,18 @@ export interface RunnerExit {
   timeout_killed: boolean;
 }
 
+/**
+ * Pipeline step outcome. Step timing belongs in timing.phases.
+ */
+export interface RunnerStep {
+  name: string;
+  status: RunnerStepStatus;
+  exit_code: number | null;
+  continue_on_failure: boolean;
+  stdout_sha256: string;
+  stderr_sha256: string;
+}
+
 /**
  * Ephemeral fields excluded from core hash.
  */
@@ -160,6 +178,7 @@ export interface RunnerCore {
   write_roots: string[];
   context: RunnerContext;
   exit: RunnerExit;
+  steps?: RunnerStep[];
   warnings?: string[];
 }
 
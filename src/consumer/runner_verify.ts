@@ -18,6 +18,7 @@
  * - RN10: Exit status valid
  * - RN11: Core hash excludes ephemeral and timing
  * - RN12: Canonical round-trip stable
+ * - RN13: Pipeline steps consistent
  */
 
 import type {
@@ -35,6 +36,7 @@ import {
   VALID_ISOLATION_LEVELS,
   FORBIDDEN_ENV_PREFIXES,
   LIMIT_BOUNDS,
+  VALID_STEP_STATUSES,
 } from './runner_types.js';
 import { canonicalize, canonicalHash, verifyRoundTrip } from '../utils/canonical.js';
 
@@ -53,6 +55,7 @@ const RULES = {
   RN9: 'RN9',
   RN10: 'RN10',
   RN12: 'RN12',
+  RN13: 'RN13',
   SCHEMA: 'SCHEMA',
 } as const;
 
@@ -61,6 +64,11 @@ const RULES = {
  */
 const RUNNER_ID_PATTERN = /^runner_\d{8}_\d{6}_[a-z0-9]+$/;
 
+/**
+ * Log hash pattern: sha256:{64 hex}
+ */
+const LOG_HASH_PATTERN = /^sha256:[0-9a-f]{64}$/;
+
 /**
  * Check if value is a plain object.
  */
@@ -162,6 +170,7 @@ export function computeRunnerCore(runner: Runner): RunnerCore {
     write_roots: runner.write_roots,
     context: runner.context,
     exit: runner.exit,
+    ...(runner.steps ? { steps: runner.steps } : {}),
     ...(runner.warnings ? { warnings: runner.warnings } : {}),
   };
 }
@@ -174,6 +183,134 @@ export function computeRunnerHash(runner: Runner): string {
   return `sha256:${canonicalHash(core)}`;
 }
 
+/**
+ * Validate pipeline steps (RN13): names unique, statuses valid, skipped
+ * steps only after a step that halted the pipeline, and exit.code equal
+ * to the exit code of the failed step that halted it.
+ */
+function validateSteps(steps: unknown, exit: unknown, violations: RunnerViolation[]): void {
+  if (!Array.isArray(steps)) {
+    violations.push({
+      rule_id: RULES.SCHEMA,
+      message: 'steps must be an array',
+      path: 'steps',
+    });
+    return;
+  }
+
+  const names = new Set<string>();
+  let halting: Record<string, unknown> | null = null;
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i] as unknown;
+    const path = `steps[${i}]`;
+    if (!isObject(step)) {
+      violations.push({
+        rule_id: RULES.SCHEMA,
+        message: `${path} is not an object`,
+        path,
+      });
+      continue;
+    }
+
+    if (typeof step.name !== 'string' || step.name.length === 0) {
+      violations.push({
+        rule_id: RULES.RN13,
+        message: `${path}.name must be a non-empty string`,
+        path: `${path}.name`,
+      });
+    } else if (names.has(step.name)) {
+      violations.push({
+        rule_id: RULES.RN13,
+        message: `${path}.name is not unique: "${step.name}"`,
+        path: `${path}.name`,
+      });
+    } else {
+      names.add(step.name);
+    }
+
+    if (!VALID_STEP_STATUSES.includes(step.status as (typeof VALID_STEP_STATUSES)[number])) {
+      violations.push({
+        rule_id: RULES.RN13,
+        message: `${path}.status must be one of: ${VALID_STEP_STATUSES.join(', ')}`,
+        path: `${path}.status`,
+      });
+    }
+
+    if (typeof step.continue_on_failure !== 'boolean') {
+      violations.push({
+        rule_id: RULES.RN13,
+        message: `${path}.continue_on_failure must be boolean`,
+        path: `${path}.continue_on_failure`,
+      });
+    }
+
+    for (const field of ['stdout_sha256', 'stderr_sha256'] as const) {
+      if (typeof step[field] !== 'string' || !LOG_HASH_PATTERN.test(step[field] as string)) {
+        violations.push({
+          rule_id: RULES.RN13,
+          message: `${path}.${field} must be sha256:<64 hex>`,
+          path: `${path}.${field}`,
+        });
+      }
+    }
+
+    if (step.status === 'skipped') {
+      if (step.exit_code !== null) {
+        violations.push({
+          rule_id: RULES.RN13,
+          message: `${path}.exit_code must be null for a skipped step`,
+          path: `${path}.exit_code`,
+        });
+      }
+      if (halting === null) {
+        violations.push({
+          rule_id: RULES.RN13,
+          message: `${path} is skipped but no earlier step halted the pipeline`,
+          path: `${path}.status`,
+        });
+      }
+      continue;
+    }
+
+    if (typeof step.exit_code !== 'number' || !Number.isInteger(step.exit_code)) {
+      violations.push({
+        rule_id: RULES.RN13,
+        message: `${path}.exit_code must be an integer`,
+        path: `${path}.exit_code`,
+      });
+    }
+
+    if (halting !== null) {
+      violations.push({
+        rule_id: RULES.RN13,
+        message: `${path} ran after step "${String(halting.name)}" halted the pipeline`,
+        path: `${path}.status`,
+      });
+    } else if (
+      (step.status === 'failure' || step.status === 'timeout') &&
+      step.continue_on_failure !== true
+    ) {
+      halting = step;
+    }
+  }
+
+  if (
+    halting !== null &&
+    halting.status === 'failure' &&
+    typeof halting.exit_code === 'number' &&
+    isObject(exit) &&
+    typeof exit.code === 'number' &&
+    exit.code !== halting.exit_code
+  ) {
+    violations.push({
+      rule_id: RULES.RN13,
+      message: `exit.code (${exit.code}) does not match exit code of halting step "${String(halting.name)}" (${halting.exit_code})`,
+      path: 'exit.code',
+    });
+  }
+}
+
 /**
  * Verify runner record against RUNNER_SPEC.md invariants.
  */
@@ -853,6 +990,11 @@ export function verifyRunner(
     }
   }
 
+  // RN13: Pipeline steps consistent
+  if (runner.steps !== undefined) {
+    validateSteps(runner.steps, runner.exit, violations);
+  }
+
   // Warnings validation
   if (runner.warnings !== undefined) {
     if (!Array.isArray(runner.warnings)) {
@@ -3,7 +3,7 @@
  * ==================
  *
  * Tests for apply result verification against APPLY_SPEC.md invariants.
- * Covers AS1-AS12 invariants with fixture-based testing.
+ * Covers AS1-AS15 invariants with fixture-based testing.
  */
 
 import { describe, it } from 'node:test';
@@ -14,8 +14,9 @@ import { fileURLToPath } from 'node:url';
 
 import { verifyApplyResult } from '../apply_verify.js';
 import { APPLY_SCHEMA_VERSION } from '../apply_types.js';
-import type { ApplyResult, ApplyOperationResult, ApplySummary } from '../apply_types.js';
-import { canonicalize } from '../../utils/canonical.js';
+import type { ApplyResult, ApplyOperationResult, ApplySummary, RollbackJournal } from '../apply_types.js';
+import { canonicalize, canonicalHash } from '../../utils/canonical.js';
+import { createHash } from 'node:crypto';
 
 // =============================================================================
 // Path Resolution
@@ -286,6 +287,156 @@ describe('Apply Result Verification', () => {
     });
   });
 
+  describe('AS14: Rename and Mode Results', () => {
+    const HASH = 'sha256:' + 'a'.repeat(64);
+    const single = (op: ApplyOperationResult): ApplyResult =>
+      createValidApplyResult({
+        operation_results: [op],
+        summary: { total_operations: 1, succeeded: 1, skipped: 0, failed: 0, total_bytes_written: 0 },
+      });
+
+    it('rename with destination and preserved hash passes', () => {
+      const verify = verifyApplyResult(single({
+        op: 'rename', path: 'src/old.ts', to: 'src/new.ts', status: 'success', before_hash: HASH, after_hash: HASH, bytes_written: 0,
+      }));
+      assert.ok(verify.ok);
+    });
+
+    it('rename without destination fails', () => {
+      const verify = verifyApplyResult(single({
+        op: 'rename', path: 'src/old.ts', status: 'success', before_hash: HASH, after_hash: HASH, bytes_written: 0,
+      }));
+      assert.ok(!verify.ok);
+      assert.ok(verify.violations?.some((v) => v.rule_id === 'AS14'));
+    });
+
+    it('rename that changes content fails', () => {
+      const verify = verifyApplyResult(single({
+        op: 'rename', path: 'src/old.ts', to: 'src/new.ts', status: 'success', before_hash: HASH, after_hash: 'sha256:' + 'b'.repeat(64), bytes_written: 0,
+      }));
+      assert.ok(!verify.ok);
+      assert.ok(verify.violations?.some((v) => v.rule_id === 'AS14'));
+    });
+
+    it('set_mode with modes passes', () => {
+      const verify = verifyApplyResult(single({
+        op: 'set_mode', path: 'run.sh', status: 'success', before_hash: HASH, after_hash: HASH, bytes_written: 0, before_mode: '0644', after_mode: '0755',
+      }));
+      assert.ok(verify.ok);
+    });
+
+    it('set_mode without after_mode fails', () => {
+      const verify = verifyApplyResult(single({
+        op: 'set_mode', path: 'run.sh', status: 'success', before_hash: HASH, after_hash: HASH, bytes_written: 0,
+      }));
+      assert.ok(!verify.ok);
+      assert.ok(verify.violations?.some((v) => v.rule_id === 'AS14'));
+    });
+
+    it('malformed before_mode fails', () => {
+      const verify = verifyApplyResult(single({
+        op: 'set_mode', path: 'run.sh', status: 'success', before_hash: HASH, after_hash: HASH, bytes_written: 0, before_mode: '755', after_mode: '0755',
+      }));
+      assert.ok(!verify.ok);
+      assert.ok(verify.violations?.some((v) => v.rule_id === 'AS14'));
+    });
+  });
+
+  describe('AS15: Rollback Journal', () => {
+    const ORIGINAL = 'old\n';
+    const ORIGINAL_HASH = 'sha256:' + createHash('sha256').update(ORIGINAL).digest('hex');
+    const AFTER_HASH = 'sha256:' + 'a'.repeat(64);
+
+    function journalFor(result: ApplyResult): RollbackJournal {
+      return {
+        rollback_schema_version: '1.0.0',
+        patch_source: result.patch_source,
+        entries: [
+          { path: 'src/test.ts', before_hash: null, before_mode: null, after_hash: AFTER_HASH },
+          {
+            path: 'src/z.ts',
+            before_hash: ORIGINAL_HASH,
+            before_mode: '0644',
+            content_base64: Buffer.from(ORIGINAL).toString('base64'),
+            after_hash: null,
+          },
+        ],
+      };
+    }
+
+    function journaledResult(): { result: ApplyResult; journal: RollbackJournal } {
+      const result = createValidApplyResult({
+        operation_results: [
+          { op: 'create', path: 'src/test.ts', status: 'success', before_hash: null, after_hash: AFTER_HASH, bytes_written: 20 },
+          { op: 'delete', path: 'src/z.ts', status: 'success', before_hash: ORIGINAL_HASH, after_hash: null, bytes_written: 0 },
+        ],
+        summary: { total_operations: 2, succeeded: 2, skipped: 0, failed: 0, total_bytes_written: 20 },
+      });
+      const journal = journalFor(result);
+      result.journal = { file: 'apply.journal.json', sha256: 'sha256:' + canonicalHash(journal) };
+      return { result, journal };
+    }
+
+    it('matching journal passes', () => {
+      const { result, journal } = journaledResult();
+      assert.ok(verifyApplyResult(result).ok);
+      assert.ok(verifyApplyResult(result, { journal }).ok);
+    });
+
+    it('journal reference with a path fails', () => {
+      const { result } = journaledResult();
+      result.journal!.file = 'out/apply.journal.json';
+      const verify = verifyApplyResult(result);
+      assert.ok(!verify.ok);
+      assert.ok(verify.violations.some((v) => v.rule_id === 'AS15' && v.path === '$.journal.file'));
+    });
+
+    it('dry-run result with a journal fails', () => {
+      const { result } = journaledResult();
+      result.dry_run = true;
+      const verify = verifyApplyResult(result);
+      assert.ok(!verify.ok);
+      assert.ok(verify.violations.some((v) => v.rule_id === 'AS15'));
+    });
+
+    it('tampered journal fails the hash check', () => {
+      const { result, journal } = journaledResult();
+      journal.entries[1]!.before_mode = '0755';
+      const verify = verifyApplyResult(result, { journal });
+      assert.ok(!verify.ok);
+      assert.ok(verify.violations.some((v) => v.path === '$.journal.sha256'));
+    });
+
+    it('journal missing a touched path fails', () => {
+      const { result, journal } = journaledResult();
+      journal.entries.pop();
+      result.journal!.sha256 = 'sha256:' + canonicalHash(journal);
+      const verify = verifyApplyResult(result, { journal });
+      assert.ok(!verify.ok);
+      assert.ok(verify.violations.some((v) => v.message === 'touched path missing from journal: src/z.ts'));
+    });
+
+    it('pre-image that does not match before_hash fails', () => {
+      const { result, journal } = journaledResult();
+      journal.entries[1]!.content_base64 = Buffer.from('other\n').toString('base64');
+      result.journal!.sha256 = 'sha256:' + canonicalHash(journal);
+      const verify = verifyApplyResult(result, { journal });
+      assert.ok(!verify.ok);
+      assert.ok(verify.violations.some((v) => v.path === 'journal.entries[1].content_base64'));
+    });
+
+    it('journal entry that escapes the target fails', () => {
+      const { result, journal } = journaledResult();
+      result.operation_results[1]!.path = '../z.ts';
+      journal.entries = [journal.entries[1]!, journal.entries[0]!];
+      journal.entries[0]!.path = '../z.ts';
+      result.journal!.sha256 = 'sha256:' + canonicalHash(journal);
+      const verify = verifyApplyResult(result, { journal });
+      assert.ok(!verify.ok);
+      assert.ok(verify.violations.some((v) => v.message === 'journal entry path escapes target: ../z.ts'));
+    });
+  });
+
   describe('Summary Consistency', () => {
     it('matching summary passes', () => {
       const result = createValidApplyResult();
@@ -0,0 +1,129 @@
+/**
+ * Bundle Diff Tests
+ * =================
+ *
+ * Tests for diffBundles() and formatBundleDiff().
+ * Validates deterministic diff output.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { diffBundles, formatBundleDiff } from '../bundle_diff.js';
+import { transform } from '../../assembler/bundle.js';
+import { canonicalize, canonicalHash } from '../../utils/canonical.js';
+import type { Bundle } from '../../types/artifacts.js';
+
+const GOAL = 'Create a function that adds two numbers';
+
+function bundleFor(goal: string, constraints: string[]): Bundle {
+  return transform({ goal, constraints });
+}
+
+/**
+ * Deep copy a bundle for mutation.
+ */
+function copy(bundle: Bundle): Bundle {
+  return JSON.parse(JSON.stringify(bundle)) as Bundle;
+}
+
+describe('Bundle Diff', () => {
+  describe('Identical Bundles', () => {
+    it('reports no changes', () => {
+      const a = bundleFor(GOAL, ['Must use TypeScript']);
+      const diff = diffBundles(a, copy(a));
+
+      assert.strictEqual(diff.identical, true);
+      assert.strictEqual(diff.from_hash, canonicalHash(a));
+      assert.strictEqual(diff.status, null);
+      assert.deepStrictEqual(diff.nodes, { added: [], removed: [], changed: [] });
+      assert.deepStrictEqual(diff.outputs, { added: [], removed: [], changed: [] });
+      assert.match(formatBundleDiff(diff), /Bundles are identical/);
+    });
+  });
+
+  describe('Constraints and Nodes', () => {
+    it('reports added and removed constraints', () => {
+      const a = bundleFor(GOAL, ['Must use TypeScript', 'Must be pure']);
+      const b = bundleFor(GOAL, ['Must use TypeScript', 'Must handle negative numbers']);
+      const diff = diffBundles(a, b);
+
+      assert.strictEqual(diff.identical, false);
+      assert.deepStrictEqual(diff.constraints.added, ['Must handle negative numbers']);
+      assert.deepStrictEqual(diff.constraints.removed, ['Must be pure']);
+    });
+
+    it('pairs the roots and reports score changes', () => {
+      const a = bundleFor(GOAL, ['Must use TypeScript']);
+      const b = copy(a);
+      b.root_node.entropy.entropy_score += 7;
+
+      const diff = diffBundles(a, b);
+
+      assert.deepStrictEqual(diff.nodes.changed, [{
+        from_id: a.root_node.id,
+        to_id: a.root_node.id,
+        goal: GOAL,
+        entropy_score: { from: a.root_node.entropy.entropy_score, to: b.root_node.entropy.entropy_score, delta: 7 },
+      }]);
+    });
+
+    it('matches renamed nodes by goal', () => {
+      const a = bundleFor(GOAL, ['Must use TypeScript']);
+      const b = bundleFor(GOAL, ['Must use JavaScript']);
+      const diff = diffBundles(a, b);
+
+      assert.deepStrictEqual(diff.nodes.added, []);
+      assert.deepStrictEqual(diff.nodes.removed, []);
+      assert.strictEqual(diff.nodes.changed[0]!.from_id, a.root_node.id);
+      assert.strictEqual(diff.nodes.changed[0]!.to_id, b.root_node.id);
+    });
+
+    it('reports bundle and node status transitions', () => {
+      const a = bundleFor(GOAL, ['Must use TypeScript']);
+      const b = bundleFor('Build a REST API server', ['Must use Node.js']);
+      const diff = diffBundles(a, b);
+
+      assert.deepStrictEqual(diff.status, { from: a.status, to: b.status });
+      assert.ok(diff.questions.added.length > 0);
+      assert.deepStrictEqual(diff.questions.removed, []);
+    });
+  });
+
+  describe('Outputs', () => {
+    it('reports content changes with line counts', () => {
+      const a = bundleFor(GOAL, ['Must use TypeScript']);
+      const b = copy(a);
+      const output = b.outputs[0]!;
+      output.content = output.content + '\nextra line';
+      output.content_hash = canonicalHash(output.content);
+
+      const diff = diffBundles(a, b);
+
+      assert.strictEqual(diff.outputs.changed.length, 1);
+      assert.strictEqual(diff.outputs.changed[0]!.path, output.path);
+      assert.strictEqual(diff.outputs.changed[0]!.lines_added, 1);
+      assert.strictEqual(diff.outputs.changed[0]!.lines_removed, 0);
+      assert.match(formatBundleDiff(diff), /~ context\/.* \(\+1 -0 lines\)/);
+    });
+
+    it('reports added and removed outputs by path', () => {
+      const a = bundleFor(GOAL, ['Must use TypeScript']);
+      const b = bundleFor(GOAL, ['Must use JavaScript']);
+      const diff = diffBundles(a, b);
+
+      assert.deepStrictEqual(diff.outputs.removed.map((o) => o.path), a.outputs.map((o) => o.path));
+      assert.deepStrictEqual(diff.outputs.added.map((o) => o.path), b.outputs.map((o) => o.path));
+    });
+  });
+
+  describe('Determinism', () => {
+    it('produces byte-identical output across runs', () => {
+      const a = bundleFor(GOAL, ['Must use TypeScript']);
+      const b = bundleFor('Build a REST API server', ['Must use Node.js']);
+
+      assert.strictEqual(canonicalize(diffBundles(a, b)), canonicalize(diffBundles(a, b)));
+      assert.strictEqual(formatBundleDiff(diffBundles(a, b)), formatBundleDiff(diffBundles(a, b)));
+    });
+  });
+});
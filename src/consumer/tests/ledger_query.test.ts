@@ -0,0 +1,142 @@
+/**
+ * Ledger Query Tests
+ * ==================
+ *
+ * Tests for ledger filtering, bundle lookup, acceptance aggregation and
+ * CSV rendering.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import {
+  parseLedgerEntries,
+  validateLedgerFilter,
+  filterLedgerEntries,
+  findRunsForBundle,
+  aggregateAcceptance,
+  formatLedgerCsv,
+  ACCEPTANCE_CSV_COLUMNS,
+} from '../ledger_query.js';
+import type { LedgerEntryRecord, ContentHash } from '../ledger_types.js';
+import { canonicalize } from '../../utils/canonical.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const INTENT_A: ContentHash = `sha256:${'a'.repeat(64)}`;
+const INTENT_B: ContentHash = `sha256:${'b'.repeat(64)}`;
+const BUNDLE_X: ContentHash = `sha256:${'c'.repeat(64)}`;
+
+function entry(n: number, timestamp: string, overrides: Partial<LedgerEntryRecord> = {}): LedgerEntryRecord {
+  return {
+    run_id: `hr_${String(n).padStart(3, '0')}`,
+    timestamp,
+    intent_sha256: INTENT_A,
+    bundle_sha256: BUNDLE_X,
+    result_kind: 'BUNDLE',
+    accepted: true,
+    mode: 'plan-only',
+    policy: 'strict',
+    prev_entry_hash: null,
+    entry_hash: `sha256:${String(n % 10).repeat(64)}`,
+    ...overrides,
+  };
+}
+
+const ENTRIES: LedgerEntryRecord[] = [
+  entry(1, '2026-01-05T10:00:00.000Z'),
+  entry(2, '2026-01-05T23:59:59.999Z', { accepted: false, policy: 'dev' }),
+  entry(3, '2026-01-06T09:00:00.000Z', { intent_sha256: INTENT_B, bundle_sha256: null, result_kind: 'REFUSE', accepted: false }),
+  entry(4, '2026-02-01T12:00:00.000Z', { mode: 'execute-sandbox' }),
+];
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Ledger Query', () => {
+  describe('parseLedgerEntries', () => {
+    it('parses entries and skips checkpoints', () => {
+      const content =
+        ENTRIES.map((e) => canonicalize(e) + '\n').join('') +
+        canonicalize({ record_type: 'checkpoint', timestamp: '2026-02-01T12:00:00.000Z' }) + '\n';
+      const result = parseLedgerEntries(content);
+      assert.ok(result.ok);
+      assert.deepEqual(result.entries.map((e) => e.run_id), ['hr_001', 'hr_002', 'hr_003', 'hr_004']);
+    });
+
+    it('reports the first unparseable line', () => {
+      const result = parseLedgerEntries(canonicalize(ENTRIES[0]) + '\n{broken\n');
+      assert.deepEqual(result, { ok: false, line: 2, error: 'invalid JSON' });
+    });
+  });
+
+  describe('filterLedgerEntries', () => {
+    it('date-only bounds cover whole days', () => {
+      const runIds = filterLedgerEntries(ENTRIES, { since: '2026-01-05', until: '2026-01-05' }).map((e) => e.run_id);
+      assert.deepEqual(runIds, ['hr_001', 'hr_002']);
+    });
+
+    it('timestamp bounds are inclusive', () => {
+      const runIds = filterLedgerEntries(ENTRIES, {
+        since: '2026-01-06T09:00:00.000Z',
+        until: '2026-02-01T12:00:00.000Z',
+      }).map((e) => e.run_id);
+      assert.deepEqual(runIds, ['hr_003', 'hr_004']);
+    });
+
+    it('combines field filters', () => {
+      assert.deepEqual(filterLedgerEntries(ENTRIES, { accepted: false, policy: 'strict' }).map((e) => e.run_id), ['hr_003']);
+      assert.deepEqual(filterLedgerEntries(ENTRIES, { result_kind: 'REFUSE' }).map((e) => e.run_id), ['hr_003']);
+      assert.deepEqual(filterLedgerEntries(ENTRIES, { mode: 'execute-sandbox' }).map((e) => e.run_id), ['hr_004']);
+      assert.equal(filterLedgerEntries(ENTRIES, { intent_sha256: INTENT_A }).length, 3);
+    });
+
+    it('rejects invalid date bounds', () => {
+      assert.equal(validateLedgerFilter({ since: '2026-01-05' }), null);
+      assert.equal(validateLedgerFilter({ until: 'yesterday' }), 'Invalid until date: yesterday');
+    });
+  });
+
+  describe('findRunsForBundle', () => {
+    it('finds every run that produced the bundle', () => {
+      assert.deepEqual(findRunsForBundle(ENTRIES, BUNDLE_X).map((e) => e.run_id), ['hr_001', 'hr_002', 'hr_004']);
+      assert.deepEqual(findRunsForBundle(ENTRIES, 'sha256:' + 'f'.repeat(64)), []);
+    });
+  });
+
+  describe('aggregateAcceptance', () => {
+    it('aggregates per intent and day', () => {
+      assert.deepEqual(aggregateAcceptance(ENTRIES, 'day'), [
+        { intent_sha256: INTENT_A, period: '2026-01-05', runs: 2, accepted: 1, acceptance_rate: 0.5 },
+        { intent_sha256: INTENT_A, period: '2026-02-01', runs: 1, accepted: 1, acceptance_rate: 1 },
+        { intent_sha256: INTENT_B, period: '2026-01-06', runs: 1, accepted: 0, acceptance_rate: 0 },
+      ]);
+    });
+
+    it('aggregates per intent over all time with rounded rates', () => {
+      const rows = aggregateAcceptance(ENTRIES, 'all');
+      assert.deepEqual(rows.map((r) => [r.period, r.runs, r.acceptance_rate]), [['all', 3, 0.6667], ['all', 1, 0]]);
+    });
+  });
+
+  describe('formatLedgerCsv', () => {
+    it('renders a header and one line per row', () => {
+      const csv = formatLedgerCsv(aggregateAcceptance(ENTRIES, 'month'), ACCEPTANCE_CSV_COLUMNS);
+      assert.equal(
+        csv,
+        'intent_sha256,period,runs,accepted,acceptance_rate\n' +
+          `${INTENT_A},2026-01,2,1,0.5\n` +
+          `${INTENT_A},2026-02,1,1,1\n` +
+          `${INTENT_B},2026-01,1,0,0\n`
+      );
+    });
+
+    it('quotes fields with separators and renders null as empty', () => {
+      const csv = formatLedgerCsv([{ a: 'x,"y"', b: null }], ['a', 'b']);
+      assert.equal(csv, 'a,b\n"x,""y""",\n');
+    });
+  });
+});
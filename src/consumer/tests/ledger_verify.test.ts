@@ -0,0 +1,270 @@
+/**
+ * Ledger Verification Tests
+ * =========================
+ *
+ * Tests for LEDGER_SPEC.md invariants LD1-LD8 on hash-chained ledgers.
+ */
+
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+
+import { verifyLedger, computeEntryHash, computeMerkleRoot } from '../ledger_verify.js';
+import { canonicalize } from '../../utils/canonical.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+type LedgerLine = Record<string, unknown>;
+
+/**
+ * Seal a record onto the end of a chain.
+ */
+function seal(fields: LedgerLine, prev: LedgerLine | undefined): LedgerLine {
+  const linked = { ...fields, prev_entry_hash: prev ? prev['entry_hash'] : null };
+  return { ...linked, entry_hash: computeEntryHash(linked) };
+}
+
+function entryFields(n: number): LedgerLine {
+  return {
+    run_id: `hr_${String(n).padStart(3, '0')}`,
+    timestamp: `2026-01-05T10:00:${String(n).padStart(2, '0')}.000Z`,
+    intent_sha256: 'sha256:' + 'a'.repeat(64),
+    bundle_sha256: null,
+    result_kind: 'REFUSE',
+    accepted: false,
+    mode: 'plan-only',
+    policy: 'strict',
+    policy_sha256: 'sha256:' + 'e'.repeat(64),
+  };
+}
+
+/**
+ * Build a valid chain of entries, with a checkpoint after every
+ * `interval` entries if given.
+ */
+function buildChain(count: number, interval?: number): LedgerLine[] {
+  const records: LedgerLine[] = [];
+  let pending: string[] = [];
+  for (let n = 1; n <= count; n++) {
+    const entry = seal(entryFields(n), records[records.length - 1]);
+    records.push(entry);
+    pending.push(entry['entry_hash'] as string);
+    if (interval !== undefined && pending.length === interval) {
+      records.push(
+        seal(
+          {
+            record_type: 'checkpoint',
+            timestamp: entry['timestamp'],
+            entry_count: pending.length,
+            entries_total: n,
+            merkle_root: computeMerkleRoot(pending),
+          },
+          entry
+        )
+      );
+      pending = [];
+    }
+  }
+  return records;
+}
+
+function toJsonl(records: LedgerLine[]): string {
+  return records.map((r) => canonicalize(r) + '\n').join('');
+}
+
+function ruleIds(content: string, options = {}): string[] {
+  return verifyLedger(content, options).violations.map((v) => v.rule_id);
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Ledger Verification', () => {
+  describe('Valid Ledgers', () => {
+    it('empty ledger is valid', () => {
+      const result = verifyLedger('');
+      assert.equal(result.valid, true);
+      assert.equal(result.entry_count, 0);
+      assert.equal(result.head_hash, null);
+    });
+
+    it('chained entries are valid', () => {
+      const records = buildChain(3);
+      const result = verifyLedger(toJsonl(records));
+      assert.deepEqual(result.violations, []);
+      assert.equal(result.entry_count, 3);
+      assert.equal(result.head_hash, records[2]!['entry_hash']);
+    });
+
+    it('chained entries with checkpoints are valid', () => {
+      const result = verifyLedger(toJsonl(buildChain(7, 3)));
+      assert.deepEqual(result.violations, []);
+      assert.equal(result.entry_count, 7);
+      assert.equal(result.checkpoint_count, 2);
+    });
+  });
+
+  describe('LD1: One Record Per Line', () => {
+    it('invalid JSON fails', () => {
+      assert.ok(ruleIds('not json\n').includes('LD1'));
+    });
+
+    it('unknown record_type fails', () => {
+      const record = seal({ ...entryFields(1), record_type: 'note' }, undefined);
+      assert.ok(ruleIds(toJsonl([record])).includes('LD1'));
+    });
+
+    it('missing entry field fails', () => {
+      const { accepted: _accepted, ...fields } = entryFields(1);
+      assert.ok(ruleIds(toJsonl([seal(fields, undefined)])).includes('LD1'));
+    });
+  });
+
+  describe('LD2-LD4: Entry Invariants', () => {
+    it('decreasing timestamp fails (LD2)', () => {
+      const first = seal(entryFields(2), undefined);
+      const second = seal(entryFields(1), first);
+      assert.deepEqual(ruleIds(toJsonl([first, second])), ['LD2']);
+    });
+
+    it('duplicate run_id fails (LD3)', () => {
+      const first = seal(entryFields(1), undefined);
+      const second = seal({ ...entryFields(2), run_id: 'hr_001' }, first);
+      assert.deepEqual(ruleIds(toJsonl([first, second])), ['LD3']);
+    });
+
+    it('malformed content hash fails (LD4)', () => {
+      const record = seal({ ...entryFields(1), intent_sha256: 'sha256:abc' }, undefined);
+      assert.deepEqual(ruleIds(toJsonl([record])), ['LD4']);
+    });
+  });
+
+  describe('LD5: Entry Hash Valid', () => {
+    it('edited entry fails', () => {
+      const records = buildChain(3);
+      records[1] = { ...records[1], accepted: true };
+      const result = verifyLedger(toJsonl(records));
+      assert.deepEqual(result.violations.map((v) => [v.rule_id, v.line]), [['LD5', 2]]);
+    });
+
+    it('missing entry_hash fails', () => {
+      const { entry_hash: _hash, ...record } = seal(entryFields(1), undefined);
+      assert.ok(ruleIds(toJsonl([record])).includes('LD5'));
+    });
+
+    it('resealed edit breaks the link from the next record', () => {
+      const records = buildChain(3);
+      records[1] = seal({ ...entryFields(2), accepted: true }, records[0]);
+      const result = verifyLedger(toJsonl(records));
+      assert.deepEqual(result.violations.map((v) => [v.rule_id, v.line]), [['LD6', 3]]);
+    });
+  });
+
+  describe('LD6: Chain Linked', () => {
+    it('deleted entry fails', () => {
+      const records = buildChain(3);
+      records.splice(1, 1);
+      assert.deepEqual(ruleIds(toJsonl(records)), ['LD6']);
+    });
+
+    it('reordered entries fail', () => {
+      const records = buildChain(3);
+      const swapped = [records[0]!, records[2]!, records[1]!];
+      assert.ok(ruleIds(toJsonl(swapped)).includes('LD6'));
+    });
+
+    it('first record must start the chain', () => {
+      const records = buildChain(3).slice(1);
+      assert.deepEqual(ruleIds(toJsonl(records)), ['LD6']);
+    });
+
+    it('segment may start mid-chain with allowSegment', () => {
+      const records = buildChain(3).slice(1);
+      assert.deepEqual(ruleIds(toJsonl(records), { allowSegment: true }), []);
+    });
+  });
+
+  describe('Legacy Prefix', () => {
+    function legacyEntry(n: number): LedgerLine {
+      const { policy_sha256: _policy, ...fields } = entryFields(n);
+      return { ...fields, run_id: `hr_legacy_${n}`, timestamp: `2026-01-04T10:00:0${n}.000Z` };
+    }
+
+    it('accepts unchained entries before the chain and counts them separately', () => {
+      const records = [legacyEntry(1), legacyEntry(2), ...buildChain(2)];
+      const result = verifyLedger(toJsonl(records));
+      assert.deepEqual(result.violations, []);
+      assert.equal(result.legacy_count, 2);
+      assert.equal(result.entry_count, 2);
+      assert.equal(result.head_hash, records[3]!['entry_hash']);
+    });
+
+    it('rejects an unchained entry after the chain starts', () => {
+      const records = [...buildChain(2), { ...legacyEntry(1), timestamp: '2026-01-05T10:00:03.000Z' }];
+      assert.deepEqual(ruleIds(toJsonl(records)), ['LD5', 'LD6']);
+    });
+
+    it('the first chained record must start the chain', () => {
+      const records = [legacyEntry(1), ...buildChain(3).slice(1)];
+      assert.deepEqual(ruleIds(toJsonl(records)), ['LD6']);
+    });
+  });
+
+  describe('LD7: Checkpoints Valid', () => {
+    it('wrong merkle_root fails', () => {
+      const records = buildChain(2, 2);
+      records[2] = seal({ ...records[2], merkle_root: records[0]!['entry_hash'] }, records[1]);
+      assert.deepEqual(ruleIds(toJsonl(records)), ['LD7']);
+    });
+
+    it('wrong entry_count fails', () => {
+      const records = buildChain(2, 2);
+      records[2] = seal({ ...records[2], entry_count: 3 }, records[1]);
+      assert.ok(ruleIds(toJsonl(records)).includes('LD7'));
+    });
+  });
+
+  describe('LD8: Not Truncated', () => {
+    it('unterminated final line fails', () => {
+      const content = toJsonl(buildChain(2));
+      assert.deepEqual(ruleIds(content.slice(0, -1)), ['LD8']);
+    });
+
+    it('partially written final line fails', () => {
+      const content = toJsonl(buildChain(2));
+      assert.ok(ruleIds(content.slice(0, -20)).includes('LD8'));
+    });
+
+    it('truncation at a record boundary fails against expected head', () => {
+      const records = buildChain(3);
+      const head = records[2]!['entry_hash'] as string;
+      assert.deepEqual(ruleIds(toJsonl(records), { expectedHead: head }), []);
+      assert.deepEqual(ruleIds(toJsonl(records.slice(0, 2)), { expectedHead: head }), ['LD8']);
+    });
+
+    it('expected count mismatch fails', () => {
+      assert.deepEqual(ruleIds(toJsonl(buildChain(2)), { expectedCount: 3 }), ['LD8']);
+    });
+  });
+
+  describe('computeMerkleRoot', () => {
+    const h = (c: string): string => 'sha256:' + c.repeat(64);
+    const pair = (a: string, b: string): string =>
+      'sha256:' + createHash('sha256').update(a + b).digest('hex');
+
+    it('single entry root is the entry hash', () => {
+      assert.equal(computeMerkleRoot([h('a')]), h('a'));
+    });
+
+    it('unpaired node is promoted', () => {
+      assert.equal(computeMerkleRoot([h('a'), h('b'), h('c')]), pair(pair(h('a'), h('b')), h('c')));
+    });
+
+    it('throws on zero entries', () => {
+      assert.throws(() => computeMerkleRoot([]), /zero entries/);
+    });
+  });
+});
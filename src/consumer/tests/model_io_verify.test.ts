@@ -3,7 +3,7 @@
  * =====================
  *
  * Tests for model IO verification against MODEL_IO_SPEC.md invariants.
- * Covers MI1-MI12 invariants with fixture-based testing.
+ * Covers MI1-MI13 invariants with fixture-based testing.
  */
 
 import { describe, it } from 'node:test';
@@ -381,6 +381,36 @@ describe('Model IO Verification', () => {
     });
   });
 
+  describe('MI13: Tool Calls Well-Formed', () => {
+    it('valid tool calls pass and are part of the hash', () => {
+      const session = createValidSession();
+      const plain = computeModelIOHash(session);
+      session.interactions[0]!.tool_calls = [{ id: 'call_1', name: 'read_file', input: { path: 'README.md' } }];
+
+      const result = verifyModelIO(session);
+      assert.ok(result.ok, `Expected tool calls to pass: ${JSON.stringify(result)}`);
+      assert.notStrictEqual(result.model_io_hash, plain, 'Hash should cover tool calls');
+    });
+
+    it('malformed and duplicate tool calls fail', () => {
+      const session = createValidSession();
+      session.interactions[0]!.tool_calls = [
+        { id: 'call_1', name: 'read_file', input: {} },
+        { id: 'call_1', name: 'read_file', input: {} },
+        { id: '', name: 'read_file', input: {} },
+      ];
+      const result = verifyModelIO(session);
+      assert.ok(!result.ok);
+      assert.deepStrictEqual(
+        result.violations.map((v: ModelIOViolation) => [v.rule_id, v.path]),
+        [
+          ['MI13', '$.interactions[0].tool_calls[1].id'],
+          ['MI13', '$.interactions[0].tool_calls[2]'],
+        ]
+      );
+    });
+  });
+
   describe('Fixture: Valid Model IO', () => {
     it('valid_model_io.json passes all checks', () => {
       const content = readFileSync(join(FIXTURES_DIR, 'valid_model_io.json'), 'utf-8');
@@ -3,7 +3,7 @@
  * =================
  *
  * Tests for pack verification against PACK_SPEC.md invariants.
- * Covers PK1-PK12 invariants with fixture-based testing.
+ * Covers PK1-PK14 invariants with fixture-based testing.
  */
 
 import { describe, it } from 'node:test';
@@ -12,8 +12,11 @@ import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { mkdirSync, writeFileSync, symlinkSync, rmSync, existsSync, copyFileSync, readFileSync } from 'node:fs';
 import { tmpdir } from 'node:os';
+import { createHash } from 'node:crypto';
 
 import { verifyPack } from '../pack_verify.js';
+import { computeModelIOHash } from '../model_io_verify.js';
+import type { ModelIOSession } from '../model_io_types.js';
 import { canonicalize } from '../../utils/canonical.js';
 import type { PackViolation } from '../pack_types.js';
 
@@ -299,6 +302,26 @@ describe('Pack Verification', () => {
         cleanupTempPack(tempPath);
       }
     });
+
+    it('broken hash chain fails', () => {
+      const tempPath = createTempPack('pk9_broken_chain');
+      try {
+        copyFileSync(join(FIXTURES_DIR, 'valid_pack_bundle', 'run.json'), join(tempPath, 'run.json'));
+        copyFileSync(join(FIXTURES_DIR, 'valid_pack_bundle', 'bundle.json'), join(tempPath, 'bundle.json'));
+        // Edit the fixture entry without resealing it
+        const ledger = readFileSync(join(FIXTURES_DIR, 'valid_pack_full', 'ledger.jsonl'), 'utf-8');
+        writeFileSync(join(tempPath, 'ledger.jsonl'), ledger.replace('"accepted":true', '"accepted":false'));
+
+        const result = verifyPack(tempPath);
+        assert.ok(!result.ok);
+        assert.ok(
+          result.violations?.some((v: PackViolation) => v.rule_id === 'PK9' && v.message.includes('LD5')),
+          'Expected PK9 violation for edited ledger entry'
+        );
+      } finally {
+        cleanupTempPack(tempPath);
+      }
+    });
   });
 
   describe('PK10: Stable Violations', () => {
@@ -349,6 +372,120 @@ describe('Pack Verification', () => {
     // Directory tests would require OS-specific setup
   });
 
+  describe('PK13: Execution Logs Complete', () => {
+    function packWithExecution(name: string, execution: Record<string, unknown>): string {
+      const tempPath = createTempPack(name);
+      const run = JSON.parse(readFileSync(join(FIXTURES_DIR, 'valid_pack_bundle', 'run.json'), 'utf-8'));
+      writeFileSync(join(tempPath, 'run.json'), canonicalize({ ...run, execution }));
+      copyFileSync(join(FIXTURES_DIR, 'valid_pack_bundle', 'bundle.json'), join(tempPath, 'bundle.json'));
+      return tempPath;
+    }
+
+    const logs = {
+      stdout_bytes: 12,
+      stderr_bytes: 0,
+      stdout_truncated: false,
+      stderr_truncated: false,
+    };
+
+    it('complete logs pass', () => {
+      const tempPath = packWithExecution('pk13_complete', logs);
+      try {
+        assert.ok(verifyPack(tempPath).ok);
+      } finally {
+        cleanupTempPack(tempPath);
+      }
+    });
+
+    it('truncated log fails', () => {
+      const tempPath = packWithExecution('pk13_truncated', { ...logs, stderr_bytes: 1024, stderr_truncated: true });
+      try {
+        const result = verifyPack(tempPath);
+        assert.ok(!result.ok);
+        assert.deepStrictEqual(
+          result.violations.filter((v: PackViolation) => v.rule_id === 'PK13'),
+          [{ rule_id: 'PK13', path: 'run.json', message: 'stderr log truncated at 1024 bytes' }]
+        );
+      } finally {
+        cleanupTempPack(tempPath);
+      }
+    });
+
+    it('malformed log fields fail', () => {
+      const tempPath = packWithExecution('pk13_malformed', { ...logs, stdout_bytes: -1, stdout_truncated: 'no' });
+      try {
+        const result = verifyPack(tempPath);
+        assert.ok(!result.ok);
+        assert.strictEqual(result.violations.filter((v: PackViolation) => v.rule_id === 'PK13').length, 2);
+      } finally {
+        cleanupTempPack(tempPath);
+      }
+    });
+  });
+
+  describe('PK14: Step Logs Content-Addressed', () => {
+    const sha = (content: string) => createHash('sha256').update(content).digest('hex');
+
+    function packWithSteps(name: string, logs: Record<string, string>, steps: Record<string, unknown>[]): string {
+      const tempPath = createTempPack(name);
+      const run = JSON.parse(readFileSync(join(FIXTURES_DIR, 'valid_pack_bundle', 'run.json'), 'utf-8'));
+      writeFileSync(join(tempPath, 'run.json'), canonicalize({ ...run, execution: { steps } }));
+      copyFileSync(join(FIXTURES_DIR, 'valid_pack_bundle', 'bundle.json'), join(tempPath, 'bundle.json'));
+      mkdirSync(join(tempPath, 'logs'));
+      for (const [file, content] of Object.entries(logs)) {
+        writeFileSync(join(tempPath, 'logs', file), content);
+      }
+      return tempPath;
+    }
+
+    const step = (name: string, status: string, stdout: string) => ({
+      name,
+      status,
+      stdout_sha256: `sha256:${sha(stdout)}`,
+      stderr_sha256: `sha256:${sha('')}`,
+    });
+
+    it('step logs named by hash pass', () => {
+      const tempPath = packWithSteps(
+        'pk14_complete',
+        { [`${sha('ok\n')}.log`]: 'ok\n', [`${sha('')}.log`]: '' },
+        [step('build', 'success', 'ok\n'), step('test', 'skipped', 'never ran')]
+      );
+      try {
+        const result = verifyPack(tempPath);
+        assert.ok(result.ok, JSON.stringify(result));
+        assert.ok(result.ok && result.files_verified.includes(`logs/${sha('ok\n')}.log`));
+      } finally {
+        cleanupTempPack(tempPath);
+      }
+    });
+
+    it('log whose content does not match its name fails', () => {
+      const tempPath = packWithSteps('pk14_tampered', { [`${sha('ok\n')}.log`]: 'tampered\n', [`${sha('')}.log`]: '' }, []);
+      try {
+        const result = verifyPack(tempPath);
+        assert.ok(!result.ok);
+        assert.deepStrictEqual(
+          result.violations.filter((v: PackViolation) => v.rule_id === 'PK14').map((v) => v.path),
+          [`logs/${sha('ok\n')}.log`]
+        );
+      } finally {
+        cleanupTempPack(tempPath);
+      }
+    });
+
+    it('missing step log fails', () => {
+      const tempPath = packWithSteps('pk14_missing', { [`${sha('')}.log`]: '' }, [step('build', 'failure', 'boom\n')]);
+      try {
+        const result = verifyPack(tempPath);
+        assert.ok(!result.ok);
+        assert.strictEqual(result.violations.filter((v: PackViolation) => v.rule_id === 'PK14').length, 1);
+      } finally {
+        cleanupTempPack(tempPath);
+      }
+    });
+  });
+
   describe('Valid Pack Fixtures', () => {
     it('valid_pack_bundle passes', () => {
       const result = verifyPack(join(FIXTURES_DIR, 'valid_pack_bundle'));
@@ -399,6 +536,62 @@ describe('Pack Verification', () => {
         cleanupTempPack(tempPath);
       }
     });
+
+    function packWithModelIoHash(name: string, hash: (session: ModelIOSession) => string): string {
+      const source = join(FIXTURES_DIR, 'valid_pack_with_model_io');
+      const tempPath = createTempPack(name);
+      copyFileSync(join(source, 'bundle.json'), join(tempPath, 'bundle.json'));
+      copyFileSync(join(source, 'model_io.json'), join(tempPath, 'model_io.json'));
+      const session = JSON.parse(readFileSync(join(source, 'model_io.json'), 'utf-8')) as ModelIOSession;
+      const run = JSON.parse(readFileSync(join(source, 'run.json'), 'utf-8')) as Record<string, unknown>;
+      writeFileSync(join(tempPath, 'run.json'), canonicalize({ ...run, model_io_hash: hash(session) }));
+      return tempPath;
+    }
+
+    it('run.model_io_hash matching model_io.json passes', () => {
+      const tempPath = packWithModelIoHash('model_io_hash', computeModelIOHash);
+      try {
+        const result = verifyPack(tempPath);
+        assert.ok(result.ok, `Expected pack to pass: ${JSON.stringify(result)}`);
+        if (result.ok) {
+          assert.ok(
+            result.reference_checks.some((c) => c.target === 'model_io.json' && c.match),
+            'Expected a matching model_io.json reference check'
+          );
+        }
+      } finally {
+        cleanupTempPack(tempPath);
+      }
+    });
+
+    it('run.model_io_hash mismatch fails', () => {
+      const tempPath = packWithModelIoHash('model_io_hash_mismatch', () => 'sha256:' + '0'.repeat(64));
+      try {
+        const result = verifyPack(tempPath);
+        assert.ok(!result.ok);
+        assert.ok(
+          result.violations?.some((v: PackViolation) => v.rule_id === 'PK5' && v.path === 'model_io.json'),
+          'Expected PK5 violation for model_io.json'
+        );
+      } finally {
+        cleanupTempPack(tempPath);
+      }
+    });
+
+    it('run.model_io_hash without model_io.json fails', () => {
+      const tempPath = packWithModelIoHash('model_io_hash_missing', computeModelIOHash);
+      try {
+        rmSync(join(tempPath, 'model_io.json'));
+        const result = verifyPack(tempPath);
+        assert.ok(!result.ok);
+        assert.ok(
+          result.violations?.some((v: PackViolation) => v.rule_id === 'PK5' && v.path === 'model_io.json'),
+          'Expected PK5 violation for missing model_io.json'
+        );
+      } finally {
+        cleanupTempPack(tempPath);
+      }
+    });
   });
 
   describe('IO Errors', () => {
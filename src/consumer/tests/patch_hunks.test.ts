@@ -0,0 +1,85 @@
+/**
+ * Patch Hunks Tests
+ * =================
+ *
+ * Tests for fuzz-free hunk application (PATCH_SPEC.md section 5.5).
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+
+import { applyHunks, countHunkLines, hunkAddedBytes } from '../patch_hunks.js';
+import type { PatchHunk } from '../patch_types.js';
+
+const BASE = 'line 1\nline 2\nline 3\nline 4\nline 5\n';
+
+describe('Patch Hunks', () => {
+  describe('applyHunks', () => {
+    it('replaces a line with context', () => {
+      const hunks: PatchHunk[] = [
+        { old_start: 2, old_lines: 3, new_start: 2, new_lines: 3, lines: [' line 2', '-line 3', '+LINE 3', ' line 4'] },
+      ];
+      const result = applyHunks(BASE, hunks);
+
+      assert.deepStrictEqual(result, { ok: true, content: 'line 1\nline 2\nLINE 3\nline 4\nline 5\n' });
+    });
+
+    it('applies several hunks with shifted positions', () => {
+      const hunks: PatchHunk[] = [
+        { old_start: 1, old_lines: 1, new_start: 1, new_lines: 3, lines: ['+line 0a', '+line 0b', ' line 1'] },
+        { old_start: 5, old_lines: 2, new_start: 7, new_lines: 1, lines: ['-line 5', ' '] },
+      ];
+      const result = applyHunks(BASE, hunks);
+
+      assert.deepStrictEqual(result, { ok: true, content: 'line 0a\nline 0b\nline 1\nline 2\nline 3\nline 4\n' });
+    });
+
+    it('treats a missing final newline as a line change', () => {
+      const hunks: PatchHunk[] = [
+        { old_start: 5, old_lines: 2, new_start: 5, new_lines: 1, lines: ['-line 5', '-', '+line 5'] },
+      ];
+      const result = applyHunks(BASE, hunks);
+
+      assert.deepStrictEqual(result, { ok: true, content: 'line 1\nline 2\nline 3\nline 4\nline 5' });
+    });
+
+    it('preserves CRLF line endings', () => {
+      const hunks: PatchHunk[] = [
+        { old_start: 1, old_lines: 1, new_start: 1, new_lines: 1, lines: ['-a\r', '+b\r'] },
+      ];
+      const result = applyHunks('a\r\nc\r\n', hunks);
+
+      assert.deepStrictEqual(result, { ok: true, content: 'b\r\nc\r\n' });
+    });
+
+    it('fails on context mismatch without searching nearby lines', () => {
+      const hunks: PatchHunk[] = [
+        { old_start: 3, old_lines: 2, new_start: 3, new_lines: 2, lines: [' line 2', '-line 3', '+x'] },
+      ];
+      const result = applyHunks(BASE, hunks);
+
+      assert.deepStrictEqual(result, { ok: false, error: 'hunk 0 does not match base at line 3' });
+    });
+
+    it('fails on hunks beyond the end of the base', () => {
+      const hunks: PatchHunk[] = [
+        { old_start: 7, old_lines: 1, new_start: 7, new_lines: 1, lines: ['-x', '+y'] },
+      ];
+      const result = applyHunks(BASE, hunks);
+
+      assert.strictEqual(result.ok, false);
+    });
+  });
+
+  describe('line counts', () => {
+    it('counts base and result lines', () => {
+      const hunk: PatchHunk = { old_start: 1, old_lines: 0, new_start: 1, new_lines: 0, lines: [' a', '-b', '+c', '+d'] };
+      assert.deepStrictEqual(countHunkLines(hunk), { old_lines: 2, new_lines: 3 });
+    });
+
+    it('measures added bytes without prefixes', () => {
+      const hunk: PatchHunk = { old_start: 1, old_lines: 1, new_start: 1, new_lines: 2, lines: ['-a', '+bb', '+é'] };
+      assert.strictEqual(hunkAddedBytes([hunk]), 4);
+    });
+  });
+});
@@ -3,7 +3,7 @@
  * ==================
  *
  * Tests for patch verification against PATCH_SPEC.md invariants.
- * Covers PS1-PS10 invariants with fixture-based testing.
+ * Covers PS1-PS14 invariants with fixture-based testing.
  */
 
 import { describe, it } from 'node:test';
@@ -60,6 +60,34 @@ function createValidPatch(overrides: Partial<PatchSet> = {}): PatchSet {
   };
 }
 
+// =============================================================================
+// Helper: Create Hunk Operation
+// =============================================================================
+
+const BASE_HASH = 'sha256:' + 'c'.repeat(64);
+
+function createHunkPatch(opOverrides: Partial<PatchOperation> = {}): PatchSet {
+  return createValidPatch({
+    operations: [
+      {
+        op: 'modify',
+        path: 'src/test.ts',
+        base_hash: BASE_HASH,
+        hunks: [
+          { old_start: 2, old_lines: 2, new_start: 2, new_lines: 2, lines: [' a', '-b', '+c'] },
+        ],
+        order: 0,
+        ...opOverrides,
+      },
+    ],
+    total_bytes: 1,
+  });
+}
+
+function ruleIds(result: ReturnType<typeof verifyPatch>): string[] {
+  return result.ok ? [] : result.violations.map((v) => v.rule_id);
+}
+
 // =============================================================================
 // Tests
 // =============================================================================
@@ -121,7 +149,7 @@ describe('Patch Verification', () => {
     it('invalid op fails', () => {
       const patch = createValidPatch({
         operations: [
-          { op: 'rename' as any, path: 'src/test.ts', content: '', size_bytes: 0, order: 0 },
+          { op: 'copy' as any, path: 'src/test.ts', content: '', size_bytes: 0, order: 0 },
         ],
         total_bytes: 0,
       });
@@ -390,6 +418,198 @@ describe('Patch Verification', () => {
     });
   });
 
+  describe('PS11: Hunk Form', () => {
+    it('modify with hunks and base_hash passes', () => {
+      const result = verifyPatch(createHunkPatch());
+      assert.ok(result.ok, `Expected hunk patch to pass: ${JSON.stringify(result)}`);
+    });
+
+    it('hunks without base_hash fail', () => {
+      const result = verifyPatch(createHunkPatch({ base_hash: undefined as unknown as string }));
+      assert.deepStrictEqual(ruleIds(result), ['PS11']);
+    });
+
+    it('malformed base_hash fails', () => {
+      const result = verifyPatch(createHunkPatch({ base_hash: 'abc' }));
+      assert.deepStrictEqual(ruleIds(result), ['PS11']);
+    });
+
+    it('hunks with content fail', () => {
+      const patch = createHunkPatch({ content: 'x' });
+      patch.total_bytes = 2;
+      assert.deepStrictEqual(ruleIds(verifyPatch(patch)), ['PS11']);
+    });
+
+    it('hunks on create fail', () => {
+      const result = verifyPatch(createHunkPatch({ op: 'create' }));
+      assert.ok(ruleIds(result).includes('PS11'));
+    });
+
+    it('empty hunks fail', () => {
+      const patch = createHunkPatch({ hunks: [] });
+      patch.total_bytes = 0;
+      assert.deepStrictEqual(ruleIds(verifyPatch(patch)), ['PS11']);
+    });
+
+    it('base_hash without hunks fails', () => {
+      const patch = createValidPatch({
+        operations: [
+          { op: 'modify', path: 'src/test.ts', content: 'x', base_hash: BASE_HASH, order: 0 },
+        ],
+        total_bytes: 1,
+      });
+      assert.deepStrictEqual(ruleIds(verifyPatch(patch)), ['PS11']);
+    });
+
+    it('modify without content or hunks fails PS6', () => {
+      const patch = createValidPatch({
+        operations: [{ op: 'modify', path: 'src/test.ts', order: 0 }],
+        total_bytes: 0,
+      });
+      assert.deepStrictEqual(ruleIds(verifyPatch(patch)), ['PS6']);
+    });
+
+    it('counts added hunk lines in total_bytes', () => {
+      const patch = createHunkPatch();
+      patch.total_bytes = 3;
+      assert.deepStrictEqual(ruleIds(verifyPatch(patch)), ['PS7']);
+    });
+  });
+
+  describe('PS12: Hunk Consistency', () => {
+    it('wrong line counts fail', () => {
+      const result = verifyPatch(createHunkPatch({
+        hunks: [{ old_start: 2, old_lines: 3, new_start: 2, new_lines: 2, lines: [' a', '-b', '+c'] }],
+      }));
+      assert.deepStrictEqual(ruleIds(result), ['PS12']);
+    });
+
+    it('unprefixed lines fail', () => {
+      const patch = createHunkPatch({
+        hunks: [{ old_start: 2, old_lines: 2, new_start: 2, new_lines: 2, lines: [' a', '-b', 'c'] }],
+      });
+      patch.total_bytes = 0;
+      assert.deepStrictEqual(ruleIds(verifyPatch(patch)), ['PS12']);
+    });
+
+    it('context-only hunks fail', () => {
+      const patch = createHunkPatch({
+        hunks: [{ old_start: 2, old_lines: 1, new_start: 2, new_lines: 1, lines: [' a'] }],
+      });
+      patch.total_bytes = 0;
+      assert.deepStrictEqual(ruleIds(verifyPatch(patch)), ['PS12']);
+    });
+
+    it('overlapping hunks fail', () => {
+      const patch = createHunkPatch({
+        hunks: [
+          { old_start: 2, old_lines: 2, new_start: 2, new_lines: 2, lines: [' a', '-b', '+c'] },
+          { old_start: 3, old_lines: 1, new_start: 3, new_lines: 1, lines: ['-b', '+d'] },
+        ],
+      });
+      patch.total_bytes = 2;
+      assert.deepStrictEqual(ruleIds(verifyPatch(patch)), ['PS12']);
+    });
+
+    it('new_start must account for earlier hunks', () => {
+      const hunks = [
+        { old_start: 1, old_lines: 1, new_start: 1, new_lines: 2, lines: ['-a', '+b', '+c'] },
+        { old_start: 5, old_lines: 1, new_start: 5, new_lines: 1, lines: ['-e', '+f'] },
+      ];
+      const patch = createHunkPatch({ hunks });
+      patch.total_bytes = 3;
+      assert.deepStrictEqual(ruleIds(verifyPatch(patch)), ['PS12']);
+
+      hunks[1]!.new_start = 6;
+      const fixed = createHunkPatch({ hunks });
+      fixed.total_bytes = 3;
+      assert.ok(verifyPatch(fixed).ok);
+    });
+  });
+
+  describe('PS13: Rename Form', () => {
+    const rename = (overrides: Partial<PatchOperation> = {}): PatchSet =>
+      createValidPatch({
+        operations: [
+          { op: 'rename', path: 'src/old.ts', to: 'src/new.ts', base_hash: BASE_HASH, order: 0, ...overrides },
+        ],
+        total_bytes: 0,
+      });
+
+    it('rename with destination and base_hash passes', () => {
+      assert.ok(verifyPatch(rename()).ok);
+    });
+
+    it('missing destination fails', () => {
+      assert.deepStrictEqual(ruleIds(verifyPatch(rename({ to: undefined as unknown as string }))), ['PS13']);
+    });
+
+    it('destination equal to source fails', () => {
+      assert.deepStrictEqual(ruleIds(verifyPatch(rename({ to: 'src/old.ts' }))), ['PS13', 'PS5']);
+    });
+
+    it('missing base_hash fails', () => {
+      assert.deepStrictEqual(ruleIds(verifyPatch(rename({ base_hash: undefined as unknown as string }))), ['PS13']);
+    });
+
+    it('content on rename fails', () => {
+      assert.ok(ruleIds(verifyPatch(rename({ content: 'x' }))).includes('PS6'));
+    });
+
+    it('to on other operations fails', () => {
+      const patch = createValidPatch();
+      patch.operations[0]!.to = 'src/other.ts';
+      assert.deepStrictEqual(ruleIds(verifyPatch(patch)), ['PS13']);
+    });
+
+    it('destination is checked for traversal and duplicates', () => {
+      assert.deepStrictEqual(ruleIds(verifyPatch(rename({ to: '../escape.ts' }))), ['PS4']);
+
+      const patch = createValidPatch({
+        operations: [
+          { op: 'create', path: 'src/new.ts', content: 'a', size_bytes: 1, order: 0 },
+          { op: 'rename', path: 'src/old.ts', to: 'src/new.ts', base_hash: BASE_HASH, order: 1 },
+        ],
+        total_bytes: 1,
+      });
+      assert.deepStrictEqual(ruleIds(verifyPatch(patch)), ['PS5']);
+    });
+  });
+
+  describe('PS14: Mode Form', () => {
+    const setMode = (mode: unknown): PatchSet =>
+      createValidPatch({
+        operations: [
+          { op: 'set_mode', path: 'scripts/run.sh', mode, order: 0 } as PatchOperation,
+        ],
+        total_bytes: 0,
+      });
+
+    it('set_mode with 0755 or 0644 passes', () => {
+      assert.ok(verifyPatch(setMode('0755')).ok);
+      assert.ok(verifyPatch(setMode('0644')).ok);
+    });
+
+    it('set_mode without mode fails', () => {
+      assert.deepStrictEqual(ruleIds(verifyPatch(setMode(undefined))), ['PS14']);
+    });
+
+    it('other mode values fail', () => {
+      assert.deepStrictEqual(ruleIds(verifyPatch(setMode('0777'))), ['PS14']);
+      assert.deepStrictEqual(ruleIds(verifyPatch(setMode(493))), ['PS14']);
+    });
+
+    it('create may set a mode', () => {
+      const patch = createValidPatch();
+      patch.operations[0]!.mode = '0755';
+      assert.ok(verifyPatch(patch).ok);
+    });
+
+    it('mode on modify fails', () => {
+      assert.deepStrictEqual(ruleIds(verifyPatch(createHunkPatch({ mode: '0755' }))), ['PS14']);
+    });
+  });
+
   describe('Fixture: Valid Patch', () => {
     it('valid fixture passes all checks', async () => {
       const patch = await loadFixture('patch_valid.json');
@@ -2,7 +2,7 @@
  * Runner Verification Tests
  * =========================
  *
- * Tests for RUNNER_SPEC.md invariants RN1-RN12.
+ * Tests for RUNNER_SPEC.md invariants RN1-RN13.
  */
 
 import { describe, it } from 'node:test';
@@ -17,7 +17,7 @@ import {
   computeRunnerHash,
   serializeRunner,
 } from '../runner_verify.js';
-import type { Runner } from '../runner_types.js';
+import type { Runner, RunnerStepStatus } from '../runner_types.js';
 import {
   RUNNER_SCHEMA_VERSION,
   VALID_OS,
@@ -594,6 +594,77 @@ describe('Runner Verification', () => {
     });
   });
 
+  describe('RN13: Pipeline Steps Consistent', () => {
+    const STDOUT = `sha256:${'a'.repeat(64)}`;
+    const STDERR = `sha256:${'b'.repeat(64)}`;
+
+    function step(name: string, status: RunnerStepStatus, exit_code: number | null, continue_on_failure = false) {
+      return { name, status, exit_code, continue_on_failure, stdout_sha256: STDOUT, stderr_sha256: STDERR };
+    }
+
+    it('successful pipeline passes', () => {
+      const runner = createValidRunner({ steps: [step('install', 'success', 0), step('test', 'success', 0)] });
+      const result = verifyRunner(runner);
+      assert.equal(result.valid, true);
+    });
+
+    it('halted pipeline with skipped steps passes', () => {
+      const runner = createValidRunner({
+        steps: [step('install', 'failure', 1), step('build', 'skipped', null), step('test', 'skipped', null)],
+      });
+      runner.exit.code = 1;
+      const result = verifyRunner(runner);
+      assert.equal(result.valid, true);
+    });
+
+    it('continue_on_failure lets later steps run', () => {
+      const runner = createValidRunner({ steps: [step('lint', 'failure', 2, true), step('test', 'success', 0)] });
+      const result = verifyRunner(runner);
+      assert.equal(result.valid, true);
+    });
+
+    it('step run after a halting step fails', () => {
+      const runner = createValidRunner({ steps: [step('install', 'timeout', 124), step('test', 'success', 0)] });
+      const result = verifyRunner(runner);
+      assert.equal(result.valid, false);
+      assert.ok(result.violations.some((v) => v.rule_id === 'RN13' && v.path === 'steps[1].status'));
+    });
+
+    it('skipped step without a halting step fails', () => {
+      const runner = createValidRunner({ steps: [step('install', 'success', 0), step('test', 'skipped', null)] });
+      const result = verifyRunner(runner);
+      assert.equal(result.valid, false);
+      assert.ok(result.violations.some((v) => v.rule_id === 'RN13'));
+    });
+
+    it('duplicate step names fail', () => {
+      const runner = createValidRunner({ steps: [step('test', 'success', 0), step('test', 'success', 0)] });
+      const result = verifyRunner(runner);
+      assert.equal(result.valid, false);
+      assert.ok(result.violations.some((v) => v.rule_id === 'RN13' && v.path === 'steps[1].name'));
+    });
+
+    it('exit code not matching the halting step fails', () => {
+      const runner = createValidRunner({ steps: [step('install', 'failure', 1), step('test', 'skipped', null)] });
+      const result = verifyRunner(runner);
+      assert.equal(result.valid, false);
+      assert.ok(result.violations.some((v) => v.rule_id === 'RN13' && v.path === 'exit.code'));
+    });
+
+    it('malformed log hash fails', () => {
+      const runner = createValidRunner({ steps: [{ ...step('test', 'success', 0), stdout_sha256: 'abc' }] });
+      const result = verifyRunner(runner);
+      assert.equal(result.valid, false);
+      assert.ok(result.violations.some((v) => v.rule_id === 'RN13' && v.path === 'steps[0].stdout_sha256'));
+    });
+
+    it('steps are part of the core hash', () => {
+      const runner1 = createValidRunner({ steps: [step('test', 'success', 0)] });
+      const runner2 = createValidRunner({ steps: [step('check', 'success', 0)] });
+      assert.notEqual(computeRunnerHash(runner1), computeRunnerHash(runner2));
+    });
+  });
+
   describe('Fixture Tests', () => {
     it('valid_basic.json passes', () => {
       const runner = loadFixture('valid_basic.json');
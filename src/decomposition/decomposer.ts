@@ -15,19 +15,31 @@ import {
   measureEntropy,
   measureDensity,
   isTerminal,
-  calculateInformationGain,
+  type EntropyAnalyzer,
   type TerminationConfig,
+  BASE_ENTROPY_ANALYZER,
   DEFAULT_TERMINATION_CONFIG,
 } from '../entropy/measure.js';
+import { createEntropyAnalyzer } from '../entropy/analyzer.js';
+import {
+  BUILTIN_QUESTION_CATALOG,
+  createQuestionCatalog,
+  loadQuestionTemplatePack,
+  type QuestionCatalog,
+} from './templates.js';
 import type {
   ContextNode,
   NodeId,
   Question,
   QuestionId,
+  QuestionScoring,
+  BranchEntropy,
   SplittingQuestion,
   Branch,
   EntropyMeasurement,
   DensityMeasurement,
+  EntropyPackRef,
+  QuestionTemplatePackRef,
   Score,
 } from '../types/artifacts.js';
 import { clampToScore } from '../types/validation.js';
@@ -42,20 +54,42 @@ import { clampToScore } from '../types/validation.js';
  * @param goal - The goal for this node
  * @param constraints - Constraints for this node
  * @param parentId - Parent node ID (null for root)
+ * @param analyzer - Entropy analyzer (default: base tables)
  * @returns New context node
  */
 export function createNode(
   goal: string,
   constraints: string[],
-  parentId: NodeId | null
+  parentId: NodeId | null,
+  analyzer: EntropyAnalyzer = BASE_ENTROPY_ANALYZER
 ): ContextNode {
   // Normalize constraints and sort
   const normalizedConstraints = normalizeConstraints(constraints);
 
   // Measure entropy and density
-  const entropy = measureEntropy(goal, normalizedConstraints);
+  const entropy = measureEntropy(goal, normalizedConstraints, analyzer);
   const density = measureDensity(goal, normalizedConstraints);
 
+  return buildNode(goal, normalizedConstraints, parentId, entropy, density);
+}
+
+/**
+ * Assemble a node from its measurements.
+ *
+ * @param goal - The goal for this node
+ * @param normalizedConstraints - Normalized, sorted constraints
+ * @param parentId - Parent node ID (null for root)
+ * @param entropy - Entropy measurement
+ * @param density - Density measurement
+ * @returns New context node
+ */
+function buildNode(
+  goal: string,
+  normalizedConstraints: string[],
+  parentId: NodeId | null,
+  entropy: EntropyMeasurement,
+  density: DensityMeasurement
+): ContextNode {
   // Derive node ID from content
   const nodeContent = {
     parent_id: parentId,
@@ -86,84 +120,58 @@ export function createNode(
 // =============================================================================
 
 /**
- * Question templates for common ambiguity patterns.
- * Each template targets a specific type of entropy.
+ * Simulate a question's branches and measure the expected entropy.
+ *
+ * Each branch's added_constraints are applied to the node's constraints
+ * and entropy is re-measured. Branches are weighted uniformly.
+ *
+ * @param goal - The goal text
+ * @param constraints - The node's constraints
+ * @param entropy - The node's entropy measurement
+ * @param question - Question to score (scoring fields not yet set)
+ * @param analyzer - Entropy analyzer
+ * @returns Scoring breakdown
  */
-interface QuestionTemplate {
-  pattern: RegExp;
-  generator: (match: RegExpMatchArray, goal: string) => Partial<Question>;
+function scoreQuestion(
+  goal: string,
+  constraints: string[],
+  entropy: EntropyMeasurement,
+  question: Omit<Question, 'information_gain' | 'priority' | 'scoring'>,
+  analyzer: EntropyAnalyzer
+): QuestionScoring {
+  const branch_entropies: BranchEntropy[] = generateBranches(question).map((branch) => ({
+    branch_id: branch.branch_id,
+    entropy_score: measureEntropy(
+      goal,
+      normalizeConstraints([...constraints, ...branch.added_constraints]),
+      analyzer
+    ).entropy_score,
+  }));
+
+  const total = branch_entropies.reduce((sum, b) => sum + b.entropy_score, 0);
+  const expected_entropy = clampToScore(total / branch_entropies.length);
+
+  return {
+    current_entropy: entropy.entropy_score,
+    branch_entropies,
+    expected_entropy,
+    entropy_reduction: entropy.entropy_score - expected_entropy,
+  };
 }
 
-const QUESTION_TEMPLATES: QuestionTemplate[] = [
-  // Technology choice
-  {
-    pattern: /\b(build|create|implement|develop)\b.*\b(system|application|service|tool|platform)\b/i,
-    generator: (_match, goal) => ({
-      text: 'What technology stack should be used?',
-      expected_answer_type: 'choice',
-      why_needed: 'Technology choice affects architecture, performance, and maintainability',
-      options: ['JavaScript/Node.js', 'Python', 'Go', 'Rust', 'Other'],
-    }),
-  },
-  // User type
-  {
-    pattern: /\b(user|customer|client|actor)\b/i,
-    generator: (_match, _goal) => ({
-      text: 'Who are the primary users of this system?',
-      expected_answer_type: 'list',
-      why_needed: 'User types determine access patterns, permissions, and UI requirements',
-    }),
-  },
-  // Data storage
-  {
-    pattern: /\b(store|save|persist|database|data)\b/i,
-    generator: (_match, _goal) => ({
-      text: 'What type of data storage is needed?',
-      expected_answer_type: 'choice',
-      why_needed: 'Data storage choice affects query patterns, scalability, and consistency',
-      options: ['SQL database', 'NoSQL database', 'File storage', 'In-memory', 'Other'],
-    }),
-  },
-  // Authentication
-  {
-    pattern: /\b(auth|login|user|account|permission|access)\b/i,
-    generator: (_match, _goal) => ({
-      text: 'What authentication method is required?',
-      expected_answer_type: 'choice',
-      why_needed: 'Authentication affects security model and integration requirements',
-      options: ['JWT tokens', 'Session-based', 'OAuth', 'API keys', 'None'],
-    }),
-  },
-  // Scale/performance
-  {
-    pattern: /\b(scale|performance|load|concurrent|traffic)\b/i,
-    generator: (_match, _goal) => ({
-      text: 'What are the expected scale requirements?',
-      expected_answer_type: 'structured',
-      why_needed: 'Scale requirements affect architecture, caching, and infrastructure',
-    }),
-  },
-  // API type
-  {
-    pattern: /\b(api|endpoint|interface|integration)\b/i,
-    generator: (_match, _goal) => ({
-      text: 'What API style should be used?',
-      expected_answer_type: 'choice',
-      why_needed: 'API style affects client integration and versioning strategy',
-      options: ['REST', 'GraphQL', 'gRPC', 'WebSocket', 'Other'],
-    }),
-  },
-  // Error handling
-  {
-    pattern: /\b(error|fail|exception|invalid|retry)\b/i,
-    generator: (_match, _goal) => ({
-      text: 'How should errors be handled?',
-      expected_answer_type: 'choice',
-      why_needed: 'Error handling strategy affects reliability and user experience',
-      options: ['Retry with backoff', 'Fail fast', 'Graceful degradation', 'Circuit breaker'],
-    }),
-  },
-];
+/**
+ * Information gain from a scoring breakdown: the share (0-100) of the
+ * node's entropy removed on average. Zero when nothing is removed.
+ *
+ * @param scoring - Scoring breakdown
+ * @returns Information gain score (0-100)
+ */
+function informationGainOf(scoring: QuestionScoring): Score {
+  if (scoring.current_entropy === 0 || scoring.entropy_reduction <= 0) {
+    return 0;
+  }
+  return clampToScore((scoring.entropy_reduction / scoring.current_entropy) * 100);
+}
 
 /**
  * Generate candidate questions from goal and constraints.
@@ -171,54 +179,60 @@ const QUESTION_TEMPLATES: QuestionTemplate[] = [
  * @param goal - The goal text
  * @param constraints - The constraints
  * @param entropy - Entropy measurement
- * @returns Array of candidate questions
+ * @param catalog - Question templates (default: built-in templates)
+ * @param analyzer - Entropy analyzer used to simulate branches (default: base tables)
+ * @returns Array of candidate questions, most valuable first
  */
 export function generateQuestions(
   goal: string,
   constraints: string[],
-  entropy: EntropyMeasurement
+  entropy: EntropyMeasurement,
+  catalog: QuestionCatalog = BUILTIN_QUESTION_CATALOG,
+  analyzer: EntropyAnalyzer = BASE_ENTROPY_ANALYZER
 ): Question[] {
   const combinedText = goal + ' ' + constraints.join(' ');
   const questions: Question[] = [];
+  const seen = new Set<QuestionId>();
 
   // Generate questions from templates
-  for (const template of QUESTION_TEMPLATES) {
-    const match = combinedText.match(template.pattern);
-    if (match) {
-      const partial = template.generator(match, goal);
-
+  for (const template of catalog.templates) {
+    if (template.regex.test(combinedText)) {
       // Derive question ID
       const questionContent = {
-        text: partial.text!,
-        expected_answer_type: partial.expected_answer_type!,
-        why_needed: partial.why_needed!,
+        text: template.text,
+        expected_answer_type: template.expected_answer_type,
+        why_needed: template.why_needed,
       };
       const id = deriveId('q', questionContent) as QuestionId;
 
-      // Calculate information gain based on entropy
-      const information_gain = calculateInformationGain(entropy, {
-        concrete_constraints: 0,
-        specified_outputs: 0,
-        constraint_depth: 0,
-        density_score: 0,
-      });
-
-      // Priority based on information gain and pattern position
-      const priority = clampToScore(information_gain);
+      // A pack template may repeat a built-in question
+      if (seen.has(id)) {
+        continue;
+      }
+      seen.add(id);
 
       // Build question object - conditionally add options
-      const question: Question = {
+      const unscored = {
         id,
-        text: partial.text!,
-        expected_answer_type: partial.expected_answer_type!,
-        why_needed: partial.why_needed!,
-        information_gain,
-        priority,
-        ...(partial.options && {
-          options: [...partial.options].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)),
+        text: template.text,
+        expected_answer_type: template.expected_answer_type,
+        why_needed: template.why_needed,
+        ...(template.options && {
+          options: [...template.options].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)),
         }),
       };
 
+      // Score by simulating the question's branches
+      const scoring = scoreQuestion(goal, constraints, entropy, unscored, analyzer);
+      const information_gain = informationGainOf(scoring);
+
+      const question: Question = {
+        ...unscored,
+        information_gain,
+        priority: information_gain,
+        scoring,
+      };
+
       questions.push(question);
     }
   }
@@ -239,9 +253,11 @@ export function generateQuestions(
 // =============================================================================
 
 /**
- * Minimum information gain to consider a question worth asking.
+ * Minimum information gain to consider a question worth asking: the
+ * question must remove at least a tenth of the node's entropy on average
+ * (see informationGainOf).
  */
-const MIN_INFORMATION_GAIN: Score = 20;
+const MIN_INFORMATION_GAIN: Score = 10;
 
 /**
  * Select the best splitting question from candidates.
@@ -274,13 +290,39 @@ export function selectSplittingQuestion(
   };
 }
 
+/**
+ * Select the branch corresponding to a supplied answer.
+ *
+ * Choice and boolean questions resolve to one of the branches produced by
+ * generateBranches(). Other answer types have no enumerable branches, so a
+ * branch is derived from the answer itself in place of the generic
+ * "[Answer to be provided]" placeholder.
+ *
+ * @param question - The question being answered
+ * @param answer - Answer rendered as a normalized string
+ * @returns Matching branch, or null if the answer matches no branch
+ */
+export function selectBranch(question: Question, answer: string): Branch | null {
+  if ((question.options && question.options.length > 0) || question.expected_answer_type === 'boolean') {
+    return generateBranches(question).find((b) => b.answer === answer) ?? null;
+  }
+
+  return {
+    branch_id: canonicalHash({ question_id: question.id, answer }).slice(0, 8),
+    answer,
+    added_constraints: [`${question.text.replace('?', '')}: ${answer}`],
+  };
+}
+
 /**
  * Generate branches for a question.
  *
  * @param question - The splitting question
  * @returns Array of branches
  */
-function generateBranches(question: Question): Branch[] {
+function generateBranches(
+  question: Pick<Question, 'id' | 'text' | 'expected_answer_type' | 'options'>
+): Branch[] {
   const branches: Branch[] = [];
 
   if (question.options && question.options.length > 0) {
@@ -349,12 +391,24 @@ export interface DecompositionResult {
  *
  * @param node - Node to decompose
  * @param config - Termination configuration
+ * @param catalog - Question templates (default: built-in templates)
  * @returns Decomposition result
  */
 export function decomposeNode(
   node: ContextNode,
-  config: TerminationConfig = DEFAULT_TERMINATION_CONFIG
+  config: TerminationConfig & Pick<DecompositionConfig, 'resolved_question_ids' | 'entropy_packs'> =
+    DEFAULT_TERMINATION_CONFIG,
+  catalog: QuestionCatalog = BUILTIN_QUESTION_CATALOG
 ): DecompositionResult {
+  return expandNode(node, config, createAnalysisContext(config, catalog));
+}
+
+/**
+ * Perform one step of decomposition using an analysis context.
+ * Questions and child measurements come from the context's cache when
+ * present, so the result is identical with or without a warm cache.
+ */
+function expandNode(node: ContextNode, config: TerminationConfig, ctx: AnalysisContext): DecompositionResult {
   // Check if already terminal
   if (node.status === 'terminal') {
     return {
@@ -377,18 +431,16 @@ export function decomposeNode(
     };
   }
 
-  // Generate questions
-  const questions = generateQuestions(node.goal, node.constraints, node.entropy);
-
-  // Select splitting question
-  const splittingQuestion = selectSplittingQuestion(questions);
+  // Generate questions (skipping any already answered through resolution
+  // or by an ancestor's branch) and select the splitting question
+  const { questions, splitting_question: splittingQuestion } = analyzeExpansion(node, ctx);
 
   if (!splittingQuestion) {
     // No viable splitting questions - mark as terminal anyway
     const terminalNode: ContextNode = {
       ...node,
       status: 'terminal',
-      unresolved_questions: questions,
+      unresolved_questions: [...questions],
     };
     return {
       node: terminalNode,
@@ -406,7 +458,7 @@ export function decomposeNode(
     const childConstraints = [...node.constraints, ...branch.added_constraints];
 
     // Create child node
-    const child = createNode(node.goal, childConstraints, node.id);
+    const child = createAnalyzedNode(node.goal, childConstraints, node.id, ctx);
     children.push(child);
     childIds.push(child.id);
   }
@@ -430,6 +482,193 @@ export function decomposeNode(
   };
 }
 
+// =============================================================================
+// Node Analysis Cache
+// =============================================================================
+
+/**
+ * The configuration that a node's analysis depends on.
+ * Termination thresholds and tree limits are not part of the scope: they
+ * are re-applied to cached measurements on every run.
+ */
+export interface AnalysisScope {
+  /**
+   * Entropy packs used for measurement.
+   * ORDERING: Sorted by id ascending.
+   */
+  entropy_packs: EntropyPackRef[];
+
+  /**
+   * SHA-256 of the question template pack (null for built-in templates).
+   */
+  question_templates: string | null;
+
+  /**
+   * Questions excluded as already answered.
+   * ORDERING: Sorted ascending.
+   */
+  resolved_question_ids: QuestionId[];
+}
+
+/**
+ * Questions generated for a node and the splitting decision.
+ */
+export interface NodeExpansion {
+  /**
+   * Candidate questions (resolved questions removed).
+   * ORDERING: Sorted by priority desc, then id asc.
+   */
+  questions: Question[];
+
+  /**
+   * Selected splitting question, or null if none is viable.
+   */
+  splitting_question: SplittingQuestion | null;
+}
+
+/**
+ * Cached analysis of a (goal, constraints) pair.
+ */
+export interface NodeAnalysis {
+  entropy: EntropyMeasurement;
+  density: DensityMeasurement;
+
+  /**
+   * Present once the node has been expanded.
+   */
+  expansion?: NodeExpansion;
+}
+
+/**
+ * Memo of node analyses keyed by nodeCacheKey().
+ */
+export type DecompositionCache = Map<string, NodeAnalysis>;
+
+/**
+ * Build an analysis scope.
+ *
+ * @param entropyPacks - Entropy packs used for measurement
+ * @param questionTemplates - Question template pack (null for built-in templates)
+ * @param resolvedQuestionIds - Questions excluded as already answered
+ * @returns Analysis scope with sorted members
+ */
+export function createAnalysisScope(
+  entropyPacks: EntropyPackRef[],
+  questionTemplates: QuestionTemplatePackRef | null,
+  resolvedQuestionIds: QuestionId[]
+): AnalysisScope {
+  return {
+    entropy_packs: [...entropyPacks].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)),
+    question_templates: questionTemplates?.sha256 ?? null,
+    resolved_question_ids: [...new Set(resolvedQuestionIds)].sort(),
+  };
+}
+
+/**
+ * Cache key of a node's analysis: the canonical hash of its goal, sorted
+ * constraints and analysis scope. Parent and depth are not part of the
+ * key, so identical subtrees under different parents share entries.
+ *
+ * @param goal - Node goal
+ * @param constraints - Node constraints (normalized and sorted here)
+ * @param scope - Analysis scope
+ * @returns Cache key (SHA-256 hex)
+ */
+export function nodeCacheKey(goal: string, constraints: string[], scope: AnalysisScope): string {
+  return canonicalHash({ goal, constraints: normalizeConstraints(constraints), scope });
+}
+
+/**
+ * State shared by all analysis within one decomposition.
+ */
+interface AnalysisContext {
+  analyzer: EntropyAnalyzer;
+  catalog: QuestionCatalog;
+  scope: AnalysisScope;
+  cache: DecompositionCache;
+
+  /**
+   * Nodes whose analysis was computed rather than taken from the cache.
+   */
+  recomputed: Set<NodeId>;
+}
+
+/**
+ * Create an analysis context for a configuration.
+ */
+function createAnalysisContext(
+  config: Pick<DecompositionConfig, 'resolved_question_ids' | 'entropy_packs'>,
+  catalog: QuestionCatalog,
+  cache: DecompositionCache = new Map()
+): AnalysisContext {
+  const analyzer = createEntropyAnalyzer(config.entropy_packs);
+  return {
+    analyzer,
+    catalog,
+    scope: createAnalysisScope(analyzer.packs, catalog.ref, config.resolved_question_ids ?? []),
+    cache,
+    recomputed: new Set(),
+  };
+}
+
+/**
+ * Create a node, measuring it only on a cache miss.
+ */
+function createAnalyzedNode(
+  goal: string,
+  constraints: string[],
+  parentId: NodeId | null,
+  ctx: AnalysisContext
+): ContextNode {
+  const normalizedConstraints = normalizeConstraints(constraints);
+  const key = nodeCacheKey(goal, normalizedConstraints, ctx.scope);
+
+  let analysis = ctx.cache.get(key);
+  const miss = !analysis;
+  if (!analysis) {
+    analysis = {
+      entropy: measureEntropy(goal, normalizedConstraints, ctx.analyzer),
+      density: measureDensity(goal, normalizedConstraints),
+    };
+    ctx.cache.set(key, analysis);
+  }
+
+  const node = buildNode(goal, normalizedConstraints, parentId, analysis.entropy, analysis.density);
+  if (miss) {
+    ctx.recomputed.add(node.id);
+  }
+  return node;
+}
+
+/**
+ * Get a node's questions and splitting decision, generating them only on
+ * a cache miss.
+ */
+function analyzeExpansion(node: ContextNode, ctx: AnalysisContext): NodeExpansion {
+  const key = nodeCacheKey(node.goal, node.constraints, ctx.scope);
+  let analysis = ctx.cache.get(key);
+  if (!analysis) {
+    analysis = { entropy: node.entropy, density: node.density };
+    ctx.cache.set(key, analysis);
+  }
+
+  if (!analysis.expansion) {
+    // Skip questions answered through resolution, and questions a branch
+    // above this node already answered by adding its constraints
+    const resolved = new Set(ctx.scope.resolved_question_ids);
+    const constraints = new Set(node.constraints);
+    const questions = generateQuestions(node.goal, node.constraints, node.entropy, ctx.catalog, ctx.analyzer).filter(
+      (q) =>
+        !resolved.has(q.id) &&
+        !generateBranches(q).some((b) => normalizeConstraints(b.added_constraints).every((c) => constraints.has(c)))
+    );
+    analysis.expansion = { questions, splitting_question: selectSplittingQuestion(questions) };
+    ctx.recomputed.add(node.id);
+  }
+
+  return analysis.expansion;
+}
+
 // =============================================================================
 // Full Decomposition Tree
 // =============================================================================
@@ -449,6 +688,26 @@ export interface DecompositionConfig extends TerminationConfig {
    * Default: 100
    */
   max_nodes: number;
+
+  /**
+   * Questions already answered (see resolveBundle).
+   * These are never asked again during decomposition.
+   * Default: none
+   */
+  resolved_question_ids?: QuestionId[];
+
+  /**
+   * Entropy domain packs to measure with (see entropy/analyzer.ts).
+   * Default: none (base tables only)
+   */
+  entropy_packs?: string[];
+
+  /**
+   * Path to a question template pack file (.json, .yaml or .yml; see
+   * decomposition/templates.ts).
+   * Default: none (built-in templates only)
+   */
+  question_templates?: string;
 }
 
 /**
@@ -484,6 +743,24 @@ export interface FullDecompositionResult {
    */
   unresolved_questions: Question[];
 
+  /**
+   * Entropy domain packs used (empty for base tables only).
+   */
+  entropy_packs: EntropyPackRef[];
+
+  /**
+   * Question template pack used (null for built-in templates only).
+   */
+  question_templates: QuestionTemplatePackRef | null;
+
+  /**
+   * Nodes whose analysis was computed rather than taken from the cache.
+   * In a cold decomposition this is every node except repeats of an
+   * already analyzed (goal, constraints) pair.
+   * ORDERING: Sorted ascending.
+   */
+  recomputed_node_ids: NodeId[];
+
   /**
    * Statistics.
    */
@@ -497,18 +774,30 @@ export interface FullDecompositionResult {
 /**
  * Perform full recursive decomposition from a root.
  *
+ * Node analyses are memoized in the cache (see nodeCacheKey). Passing a
+ * cache populated by an earlier decomposition reuses unchanged subtrees;
+ * the result is identical to a decomposition with an empty cache.
+ *
  * @param goal - Root goal
  * @param constraints - Root constraints
  * @param config - Decomposition configuration
+ * @param cache - Node analysis cache (default: empty)
  * @returns Full decomposition result
  */
 export function decompose(
   goal: string,
   constraints: string[],
-  config: DecompositionConfig = DEFAULT_DECOMPOSITION_CONFIG
+  config: DecompositionConfig = DEFAULT_DECOMPOSITION_CONFIG,
+  cache: DecompositionCache = new Map()
 ): FullDecompositionResult {
+  // Load the question catalog once for the whole tree
+  const catalog = createQuestionCatalog(
+    config.question_templates !== undefined ? loadQuestionTemplatePack(config.question_templates) : undefined
+  );
+  const ctx = createAnalysisContext(config, catalog, cache);
+
   // Create root node
-  const root = createNode(goal, constraints, null);
+  const root = createAnalyzedNode(goal, constraints, null, ctx);
 
   // Track all nodes
   const nodes = new Map<NodeId, ContextNode>();
@@ -540,7 +829,7 @@ export function decompose(
     }
 
     // Decompose the node
-    const result = decomposeNode(currentNode, config);
+    const result = expandNode(currentNode, config, ctx);
 
     // Update node in map
     nodes.set(result.node.id, result.node);
@@ -588,6 +877,9 @@ export function decompose(
     nodes,
     terminal_nodes: terminalNodes,
     unresolved_questions: unresolvedQuestions,
+    entropy_packs: ctx.analyzer.packs,
+    question_templates: catalog.ref,
+    recomputed_node_ids: [...ctx.recomputed].filter((id) => nodes.has(id)).sort(),
     stats: {
       total_nodes: nodes.size,
       max_depth: maxDepth,
@@ -4,3 +4,4 @@
  */
 
 export * from './decomposer.js';
+export * from './templates.js';
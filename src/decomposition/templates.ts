@@ -0,0 +1,402 @@
+/**
+ * Question Template Packs
+ * =======================
+ *
+ * The catalog of question templates the decomposer draws splitting
+ * questions from.
+ *
+ * The built-in templates cover common ambiguity patterns (technology,
+ * users, storage, authentication, scale, API style, error handling).
+ * Additional templates are loaded from a JSON or YAML pack file referenced
+ * by DecompositionConfig.question_templates. A pack either extends the
+ * built-in templates (default) or replaces them.
+ *
+ * Question IDs are derived from (text, expected_answer_type, why_needed)
+ * exactly as for built-in templates, so a pack template that repeats a
+ * built-in question yields the same question ID. The pack's canonical
+ * hash is recorded in the bundle.
+ */
+
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { canonicalHash } from '../utils/canonical.js';
+import { normalizeBytes } from '../utils/normalize.js';
+import { parseYaml } from '../utils/yaml.js';
+import type { AnswerType, QuestionTemplatePackRef } from '../types/artifacts.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A question template.
+ */
+export interface QuestionTemplate {
+  /**
+   * Template identifier, unique within its pack.
+   */
+  id: string;
+
+  /**
+   * Regular expression source matched (case-insensitively) against the
+   * goal and constraints.
+   */
+  pattern: string;
+
+  /**
+   * Question text.
+   */
+  text: string;
+
+  /**
+   * Expected answer type.
+   */
+  expected_answer_type: AnswerType;
+
+  /**
+   * Why the question reduces entropy.
+   */
+  why_needed: string;
+
+  /**
+   * Answer options (choice questions).
+   */
+  options?: string[];
+}
+
+/**
+ * A question template pack, as loaded from a pack file.
+ */
+export interface QuestionTemplatePack {
+  /**
+   * Pack identifier.
+   */
+  id: string;
+
+  /**
+   * Pack version.
+   */
+  version: string;
+
+  /**
+   * Whether the built-in templates are kept (true) or replaced (false).
+   * Default: true
+   */
+  include_builtin: boolean;
+
+  /**
+   * Templates, in file order.
+   */
+  templates: QuestionTemplate[];
+}
+
+/**
+ * A template with its compiled pattern.
+ */
+export interface CompiledQuestionTemplate extends QuestionTemplate {
+  regex: RegExp;
+}
+
+/**
+ * The templates used for question generation.
+ */
+export interface QuestionCatalog {
+  /**
+   * Pack reference (null for the built-in templates only).
+   */
+  ref: QuestionTemplatePackRef | null;
+
+  /**
+   * Templates: built-in first (unless replaced), then pack templates in
+   * file order.
+   */
+  templates: CompiledQuestionTemplate[];
+}
+
+// =============================================================================
+// Built-in Templates
+// =============================================================================
+
+/**
+ * Question templates for common ambiguity patterns.
+ * Each template targets a specific type of entropy.
+ */
+export const BUILTIN_QUESTION_TEMPLATES: readonly QuestionTemplate[] = [
+  // Technology choice
+  {
+    id: 'technology',
+    pattern: '\\b(build|create|implement|develop)\\b.*\\b(system|application|service|tool|platform)\\b',
+    text: 'What technology stack should be used?',
+    expected_answer_type: 'choice',
+    why_needed: 'Technology choice affects architecture, performance, and maintainability',
+    options: ['JavaScript/Node.js', 'Python', 'Go', 'Rust', 'Other'],
+  },
+  // User type
+  {
+    id: 'users',
+    pattern: '\\b(user|customer|client|actor)\\b',
+    text: 'Who are the primary users of this system?',
+    expected_answer_type: 'list',
+    why_needed: 'User types determine access patterns, permissions, and UI requirements',
+  },
+  // Data storage
+  {
+    id: 'storage',
+    pattern: '\\b(store|save|persist|database|data)\\b',
+    text: 'What type of data storage is needed?',
+    expected_answer_type: 'choice',
+    why_needed: 'Data storage choice affects query patterns, scalability, and consistency',
+    options: ['SQL database', 'NoSQL database', 'File storage', 'In-memory', 'Other'],
+  },
+  // Authentication
+  {
+    id: 'authentication',
+    pattern: '\\b(auth|login|user|account|permission|access)\\b',
+    text: 'What authentication method is required?',
+    expected_answer_type: 'choice',
+    why_needed: 'Authentication affects security model and integration requirements',
+    options: ['JWT tokens', 'Session-based', 'OAuth', 'API keys', 'None'],
+  },
+  // Scale/performance
+  {
+    id: 'scale',
+    pattern: '\\b(scale|performance|load|concurrent|traffic)\\b',
+    text: 'What are the expected scale requirements?',
+    expected_answer_type: 'structured',
+    why_needed: 'Scale requirements affect architecture, caching, and infrastructure',
+  },
+  // API type
+  {
+    id: 'api-style',
+    pattern: '\\b(api|endpoint|interface|integration)\\b',
+    text: 'What API style should be used?',
+    expected_answer_type: 'choice',
+    why_needed: 'API style affects client integration and versioning strategy',
+    options: ['REST', 'GraphQL', 'gRPC', 'WebSocket', 'Other'],
+  },
+  // Error handling
+  {
+    id: 'error-handling',
+    pattern: '\\b(error|fail|exception|invalid|retry)\\b',
+    text: 'How should errors be handled?',
+    expected_answer_type: 'choice',
+    why_needed: 'Error handling strategy affects reliability and user experience',
+    options: ['Retry with backoff', 'Fail fast', 'Graceful degradation', 'Circuit breaker'],
+  },
+];
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+const ANSWER_TYPES: readonly AnswerType[] = ['boolean', 'choice', 'text', 'number', 'list', 'structured'];
+
+const PACK_KEYS = new Set(['id', 'version', 'include_builtin', 'templates']);
+const TEMPLATE_KEYS = new Set(['id', 'pattern', 'text', 'expected_answer_type', 'why_needed', 'options']);
+
+/**
+ * Check if value is a plain object.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Check if value is a non-empty string.
+ */
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Compile a template pattern.
+ */
+function compilePattern(template: QuestionTemplate, where: string): RegExp {
+  try {
+    return new RegExp(template.pattern, 'i');
+  } catch (error) {
+    throw new Error(`${where}: invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Validate one template.
+ */
+function parseTemplate(value: unknown, index: number): QuestionTemplate {
+  const where = `Question template ${index}`;
+  if (!isObject(value)) {
+    throw new Error(`${where}: must be an object`);
+  }
+  for (const key of Object.keys(value).sort()) {
+    if (!TEMPLATE_KEYS.has(key)) {
+      throw new Error(`${where}: unknown field: ${key}`);
+    }
+  }
+  for (const key of ['id', 'pattern', 'text', 'why_needed'] as const) {
+    if (!isNonEmptyString(value[key])) {
+      throw new Error(`${where}: ${key} must be a non-empty string`);
+    }
+  }
+
+  const type = value['expected_answer_type'];
+  if (typeof type !== 'string' || !ANSWER_TYPES.includes(type as AnswerType)) {
+    throw new Error(`${where}: expected_answer_type must be one of: ${ANSWER_TYPES.join(', ')}`);
+  }
+
+  const options = value['options'];
+  if (options !== undefined) {
+    if (!Array.isArray(options) || options.length === 0 || !options.every(isNonEmptyString)) {
+      throw new Error(`${where}: options must be a non-empty array of non-empty strings`);
+    }
+    if (new Set(options).size !== options.length) {
+      throw new Error(`${where}: options must be unique`);
+    }
+  }
+  if (type === 'choice' && options === undefined) {
+    throw new Error(`${where}: choice templates require options`);
+  }
+
+  const template: QuestionTemplate = {
+    id: value['id'] as string,
+    pattern: value['pattern'] as string,
+    text: value['text'] as string,
+    expected_answer_type: type as AnswerType,
+    why_needed: value['why_needed'] as string,
+    ...(options !== undefined && { options: [...(options as string[])] }),
+  };
+  compilePattern(template, `${where} (${template.id})`);
+
+  return template;
+}
+
+/**
+ * Validate a parsed pack document.
+ *
+ * @param value - Parsed JSON/YAML document
+ * @returns Validated pack
+ * @throws Error describing the first invalid field
+ */
+export function parseQuestionTemplatePack(value: unknown): QuestionTemplatePack {
+  if (!isObject(value)) {
+    throw new Error('Question template pack must be an object');
+  }
+  for (const key of Object.keys(value).sort()) {
+    if (!PACK_KEYS.has(key)) {
+      throw new Error(`Question template pack: unknown field: ${key}`);
+    }
+  }
+  if (!isNonEmptyString(value['id'])) {
+    throw new Error('Question template pack: id must be a non-empty string');
+  }
+  if (!isNonEmptyString(value['version'])) {
+    throw new Error('Question template pack: version must be a non-empty string');
+  }
+  const includeBuiltin = value['include_builtin'] ?? true;
+  if (typeof includeBuiltin !== 'boolean') {
+    throw new Error('Question template pack: include_builtin must be a boolean');
+  }
+  const rawTemplates = value['templates'];
+  if (!Array.isArray(rawTemplates) || rawTemplates.length === 0) {
+    throw new Error('Question template pack: templates must be a non-empty array');
+  }
+
+  const templates = rawTemplates.map((t, i) => parseTemplate(t, i));
+  const ids = new Set<string>();
+  for (const template of templates) {
+    if (ids.has(template.id)) {
+      throw new Error(`Question template pack: duplicate template id: ${template.id}`);
+    }
+    ids.add(template.id);
+  }
+
+  return {
+    id: value['id'],
+    version: value['version'],
+    include_builtin: includeBuiltin,
+    templates,
+  };
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Load a pack file. The format follows the extension:
+ * `.json`, or `.yaml`/`.yml` (see utils/yaml.ts for the supported subset).
+ *
+ * @param path - Pack file path
+ * @returns Validated pack
+ * @throws Error if the file cannot be read, parsed or validated
+ */
+export function loadQuestionTemplatePack(path: string): QuestionTemplatePack {
+  const ext = extname(path).toLowerCase();
+  if (ext !== '.json' && ext !== '.yaml' && ext !== '.yml') {
+    throw new Error(`Unsupported question template pack format: ${path} (expected .json, .yaml or .yml)`);
+  }
+
+  const source = normalizeBytes(readFileSync(path));
+  let document: unknown;
+  try {
+    document = ext === '.json' ? JSON.parse(source) : parseYaml(source);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse question template pack ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return parseQuestionTemplatePack(document);
+}
+
+/**
+ * Compute a pack's reference (id, version and canonical content hash).
+ *
+ * @param pack - Validated pack
+ * @returns Pack reference
+ */
+export function getQuestionTemplatePackRef(pack: QuestionTemplatePack): QuestionTemplatePackRef {
+  return {
+    id: pack.id,
+    version: pack.version,
+    sha256: canonicalHash(pack),
+  };
+}
+
+// =============================================================================
+// Catalog Construction
+// =============================================================================
+
+/**
+ * Compile templates.
+ */
+function compileTemplates(templates: readonly QuestionTemplate[], source: string): CompiledQuestionTemplate[] {
+  return templates.map((t) => ({ ...t, regex: compilePattern(t, `${source} template ${t.id}`) }));
+}
+
+/**
+ * Catalog of the built-in templates only.
+ */
+export const BUILTIN_QUESTION_CATALOG: QuestionCatalog = {
+  ref: null,
+  templates: compileTemplates(BUILTIN_QUESTION_TEMPLATES, 'Built-in'),
+};
+
+/**
+ * Create the catalog for a pack.
+ *
+ * @param pack - Validated pack (default: none, built-in templates only)
+ * @returns Question catalog
+ */
+export function createQuestionCatalog(pack?: QuestionTemplatePack): QuestionCatalog {
+  if (!pack) {
+    return BUILTIN_QUESTION_CATALOG;
+  }
+
+  return {
+    ref: getQuestionTemplatePackRef(pack),
+    templates: [
+      ...(pack.include_builtin ? BUILTIN_QUESTION_CATALOG.templates : []),
+      ...compileTemplates(pack.templates, pack.id),
+    ],
+  };
+}
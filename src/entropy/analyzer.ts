@@ -0,0 +1,228 @@
+/**
+ * Entropy Domain Packs
+ * ====================
+ *
+ * Registry of domain packs that extend the base entropy tables.
+ *
+ * A pack adds schema-gap categories (or patterns to existing categories),
+ * exclusive terms, contradiction pairs, unresolved patterns and branching keywords for a
+ * domain. Packs are selected by id through DecompositionConfig.entropy_packs
+ * and recorded (id + version) in the bundle, so a bundle's hash is
+ * reproducible from its recorded packs.
+ *
+ * Pack contents are part of the bundle hash domain: any change to a pack's
+ * tables MUST bump its version.
+ */
+
+import type { EntropyPackRef } from '../types/artifacts.js';
+import {
+  BASE_ENTROPY_ANALYZER,
+  BASE_ENTROPY_TABLES,
+  createTableAnalyzer,
+  type EntropyAnalyzer,
+  type EntropyTables,
+} from './measure.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A domain pack extending the base entropy tables.
+ */
+export interface EntropyPack {
+  /**
+   * Unique pack identifier (e.g., "web-api").
+   */
+  id: string;
+
+  /**
+   * Pack version (bump on any table change).
+   */
+  version: string;
+
+  /**
+   * Human-readable description.
+   */
+  description: string;
+
+  /**
+   * Table additions. Patterns for an existing schema-gap category are
+   * appended to that category; new categories are added.
+   */
+  tables: Partial<EntropyTables>;
+}
+
+// =============================================================================
+// Built-in Packs
+// =============================================================================
+
+/**
+ * HTTP API services.
+ */
+const WEB_API_PACK: EntropyPack = {
+  id: 'web-api',
+  version: '1.0.0',
+  description: 'HTTP API services: endpoints, authentication, versioning',
+  tables: {
+    required_elements: {
+      technology: [/\b(express|fastify|koa|nestjs|django|flask|fastapi|rails|spring)\b/i],
+      endpoints: [/\b(endpoints?|routes?|resources?)\b/i, /\b(GET|POST|PUT|PATCH|DELETE)\s+\//],
+      authentication: [/\b(auth\w*|token|api keys?|oauth|jwt|session)\b/i],
+      versioning: [/\b(version(ing|ed)?|v\d+)\b/i],
+    },
+    contradiction_pairs: [
+      [/\bidempotent\b/i, /\bnon-idempotent\b/i],
+      [/\bunauthenticated\b/i, /\brequires? auth\w*\b/i],
+      [/\bcached?\b/i, /\bno-cache\b/i],
+    ],
+  },
+};
+
+/**
+ * Batch and streaming data pipelines.
+ */
+const DATA_PIPELINE_PACK: EntropyPack = {
+  id: 'data-pipeline',
+  version: '1.0.0',
+  description: 'Batch and streaming data pipelines: sources, sinks, scheduling, delivery',
+  tables: {
+    required_elements: {
+      technology: [/\b(spark|kafka|airflow|flink|beam|dbt|snowflake|bigquery)\b/i],
+      sources: [/\b(source|ingest\w*|extract\w*|input)\b/i],
+      sinks: [/\b(sink|destination|warehouse|lake|load)\b/i],
+      schedule: [/\b(batch|stream\w*|schedul\w*|cron|hourly|daily|real-time)\b/i],
+    },
+    contradiction_pairs: [
+      [/\bbatch\b/i, /\breal-time\b/i],
+      [/\bexactly-once\b/i, /\bat-least-once\b/i],
+      [/\bappend-only\b/i, /\b(upsert|overwrite)\b/i],
+    ],
+  },
+};
+
+/**
+ * Embedded and firmware systems.
+ */
+const EMBEDDED_PACK: EntropyPack = {
+  id: 'embedded',
+  version: '1.0.0',
+  description: 'Embedded firmware: hardware target, resource budgets, timing, power',
+  tables: {
+    required_elements: {
+      technology: [/\b(embedded c|rust|arm|cortex-m\d*|esp32|stm32|rtos|zephyr|freertos)\b/i],
+      hardware: [/\b(mcu|microcontroller|board|sensor|peripheral|gpio|uart|spi|i2c)\b/i],
+      resources: [/\b(\d+\s*(kb|kib|mb|mib)|ram|flash)\b/i],
+      timing: [/\b(real-time|latency|deadline|interrupt|isr|\d+\s*(ms|us|hz|khz|mhz))\b/i],
+      power: [/\b(power|battery|sleep|\d+\s*(mw|ma))\b/i],
+    },
+    contradiction_pairs: [
+      [/\b(malloc|heap allocation)\b/i, /\bno heap\b/i],
+      [/\bbare-metal\b/i, /\b(rtos|linux)\b/i],
+      [/\bbattery-powered\b/i, /\balways-on\b/i],
+    ],
+  },
+};
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+/**
+ * Registered packs by id.
+ */
+const ENTROPY_PACKS = new Map<string, EntropyPack>([
+  [WEB_API_PACK.id, WEB_API_PACK],
+  [DATA_PIPELINE_PACK.id, DATA_PIPELINE_PACK],
+  [EMBEDDED_PACK.id, EMBEDDED_PACK],
+]);
+
+/**
+ * Register a domain pack.
+ *
+ * @param pack - Pack to register
+ * @throws Error if a pack with the same id is already registered
+ */
+export function registerEntropyPack(pack: EntropyPack): void {
+  if (ENTROPY_PACKS.has(pack.id)) {
+    throw new Error(`Entropy pack already registered: ${pack.id}`);
+  }
+  ENTROPY_PACKS.set(pack.id, pack);
+}
+
+/**
+ * Get a registered pack by id.
+ *
+ * @param id - Pack id
+ * @returns Pack, or undefined if not registered
+ */
+export function getEntropyPack(id: string): EntropyPack | undefined {
+  return ENTROPY_PACKS.get(id);
+}
+
+/**
+ * List registered pack ids.
+ *
+ * @returns Pack ids sorted ascending
+ */
+export function listEntropyPacks(): string[] {
+  return [...ENTROPY_PACKS.keys()].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+// =============================================================================
+// Analyzer Construction
+// =============================================================================
+
+/**
+ * Merge pack tables onto base tables.
+ * Packs are applied in the given order.
+ */
+function mergeTables(base: EntropyTables, packs: EntropyPack[]): EntropyTables {
+  const merged: EntropyTables = {
+    unresolved_patterns: [...base.unresolved_patterns],
+    required_elements: { ...base.required_elements },
+    exclusive_terms: [...base.exclusive_terms],
+    contradiction_pairs: [...base.contradiction_pairs],
+    branching_keywords: [...base.branching_keywords],
+  };
+
+  for (const pack of packs) {
+    const { tables } = pack;
+    merged.unresolved_patterns.push(...(tables.unresolved_patterns ?? []));
+    merged.exclusive_terms.push(...(tables.exclusive_terms ?? []));
+    merged.contradiction_pairs.push(...(tables.contradiction_pairs ?? []));
+    merged.branching_keywords.push(...(tables.branching_keywords ?? []));
+
+    for (const [category, patterns] of Object.entries(tables.required_elements ?? {})) {
+      merged.required_elements[category] = [...(merged.required_elements[category] ?? []), ...patterns];
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Create an analyzer for a set of packs.
+ * Pack order does not matter: ids are deduplicated and sorted.
+ *
+ * @param packIds - Pack ids (default: none)
+ * @returns Entropy analyzer (the base analyzer when no packs are given)
+ * @throws Error if a pack id is not registered
+ */
+export function createEntropyAnalyzer(packIds: string[] = []): EntropyAnalyzer {
+  if (packIds.length === 0) {
+    return BASE_ENTROPY_ANALYZER;
+  }
+
+  const ids = [...new Set(packIds)].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const packs = ids.map((id) => {
+    const pack = ENTROPY_PACKS.get(id);
+    if (!pack) {
+      throw new Error(`Unknown entropy pack: ${id}`);
+    }
+    return pack;
+  });
+
+  const refs: EntropyPackRef[] = packs.map((p) => ({ id: p.id, version: p.version }));
+  return createTableAnalyzer(mergeTables(BASE_ENTROPY_TABLES, packs), refs);
+}
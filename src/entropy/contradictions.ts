@@ -0,0 +1,406 @@
+/**
+ * Contradiction Detection
+ * =======================
+ *
+ * Pairwise contradiction detection over normalized constraints.
+ * Every detected contradiction names the two constraints that collide
+ * and the rule that fired, so callers can report provenance.
+ *
+ * Rules:
+ * - negation: same statement with opposite polarity ("Must cache" / "Must not cache")
+ * - numeric_range: disjoint bounds on one quantity ("< 100ms" / "> 1s")
+ * - enum_exclusive: mutually exclusive terms applied to the same subject
+ *   ("Endpoint must be public" / "Endpoint must be private")
+ * - pattern_pair: a table pattern pair matched by the two constraints
+ *
+ * All operations are deterministic: constraints are compared in index order
+ * and results are sorted.
+ */
+
+import type { Contradiction } from '../types/artifacts.js';
+
+// =============================================================================
+// Tokenization
+// =============================================================================
+
+/**
+ * Words that never identify a subject.
+ */
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'for', 'to', 'in', 'on', 'at', 'by', 'of',
+  'with', 'as', 'from', 'into', 'per', 'via', 'is', 'are', 'be', 'been', 'being',
+  'it', 'its', 'this', 'that', 'these', 'those', 'than', 'then', 'so', 'only',
+]);
+
+/**
+ * Modal and frequency words (carry strength, not content).
+ */
+const MODALS = new Set([
+  'must', 'should', 'shall', 'will', 'can', 'may', 'might', 'could', 'would', 'always',
+]);
+
+/**
+ * Words that negate the clause they appear in.
+ */
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'without', 'cannot', "can't", "don't", "doesn't", "isn't",
+  "aren't", "won't", "mustn't", "shouldn't",
+]);
+
+/**
+ * Words that quantify over the whole system.
+ */
+const UNIVERSALS = new Set(['all', 'every', 'everything', 'each']);
+
+/**
+ * Number of tokens before a term in which a negation applies to it.
+ */
+const NEGATION_SCOPE = 3;
+
+/**
+ * Split a constraint into lowercase word tokens.
+ * Hyphenated words ("non-blocking") and contractions stay whole.
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9µ%]+(?:['-][a-z0-9]+)*/g) ?? [];
+}
+
+/**
+ * Check if a token is a subject-bearing content word.
+ */
+function isContentWord(token: string, exclude: ReadonlySet<string>): boolean {
+  return (
+    !STOPWORDS.has(token) &&
+    !MODALS.has(token) &&
+    !NEGATIONS.has(token) &&
+    !UNIVERSALS.has(token) &&
+    !exclude.has(token) &&
+    !/^\d/.test(token)
+  );
+}
+
+/**
+ * Content words of a constraint.
+ */
+function contentWords(tokens: string[], exclude: ReadonlySet<string> = new Set()): Set<string> {
+  return new Set(tokens.filter((t) => isContentWord(t, exclude)));
+}
+
+/**
+ * Check if two sets intersect.
+ */
+function intersects(a: ReadonlySet<string>, b: ReadonlySet<string>): boolean {
+  for (const item of a) {
+    if (b.has(item)) return true;
+  }
+  return false;
+}
+
+/**
+ * Check if two sets are equal.
+ */
+function setsEqual(a: ReadonlySet<string>, b: ReadonlySet<string>): boolean {
+  return a.size === b.size && [...a].every((item) => b.has(item));
+}
+
+/**
+ * Check if the token at index is within a negation's scope.
+ */
+function isNegatedAt(tokens: string[], index: number): boolean {
+  for (let i = Math.max(0, index - NEGATION_SCOPE); i < index; i++) {
+    if (NEGATIONS.has(tokens[i]!)) return true;
+  }
+  return false;
+}
+
+// =============================================================================
+// Negation Rule
+// =============================================================================
+
+/**
+ * Detect the same statement asserted with opposite polarity.
+ */
+function checkNegation(a: string[], b: string[]): string | null {
+  const polarityA = a.filter((t) => NEGATIONS.has(t)).length % 2;
+  const polarityB = b.filter((t) => NEGATIONS.has(t)).length % 2;
+  if (polarityA === polarityB) return null;
+
+  const contentA = contentWords(a);
+  const contentB = contentWords(b);
+  if (contentA.size === 0 || !setsEqual(contentA, contentB)) return null;
+
+  return `Same statement with opposite polarity: ${[...contentA].sort().join(' ')}`;
+}
+
+// =============================================================================
+// Numeric Range Rule
+// =============================================================================
+
+type BoundOp = 'lt' | 'le' | 'gt' | 'ge' | 'eq';
+
+/**
+ * A numeric bound parsed from a constraint.
+ */
+interface Bound {
+  op: BoundOp;
+  value: number;
+  dimension: string;
+  text: string;
+}
+
+/**
+ * Operator phrases mapped to bound operators.
+ */
+const BOUND_OPERATORS: Array<[string, BoundOp]> = [
+  ['<=', 'le'], ['>=', 'ge'], ['<', 'lt'], ['>', 'gt'], ['=', 'eq'],
+  ['no more than', 'le'], ['at most', 'le'], ['up to', 'le'], ['within', 'le'],
+  ['maximum', 'le'], ['max', 'le'],
+  ['less than', 'lt'], ['under', 'lt'], ['below', 'lt'],
+  ['no less than', 'ge'], ['at least', 'ge'], ['minimum', 'ge'], ['min', 'ge'],
+  ['more than', 'gt'], ['greater than', 'gt'], ['over', 'gt'], ['above', 'gt'],
+  ['exactly', 'eq'],
+];
+
+/**
+ * Words used by operator phrases (not subject-bearing).
+ */
+const OPERATOR_WORDS = new Set(
+  BOUND_OPERATORS.flatMap(([phrase]) => phrase.split(' ')).filter((w) => /^[a-z]+$/.test(w))
+);
+
+/**
+ * Units mapped to [dimension, factor to base unit].
+ */
+const UNITS: Record<string, [string, number]> = {
+  ns: ['time', 0.000001],
+  us: ['time', 0.001],
+  µs: ['time', 0.001],
+  ms: ['time', 1],
+  s: ['time', 1000], sec: ['time', 1000], secs: ['time', 1000], second: ['time', 1000], seconds: ['time', 1000],
+  min: ['time', 60000], mins: ['time', 60000], minute: ['time', 60000], minutes: ['time', 60000],
+  h: ['time', 3600000], hr: ['time', 3600000], hrs: ['time', 3600000], hour: ['time', 3600000], hours: ['time', 3600000],
+  d: ['time', 86400000], day: ['time', 86400000], days: ['time', 86400000],
+  b: ['size', 1], byte: ['size', 1], bytes: ['size', 1],
+  kb: ['size', 1024], kib: ['size', 1024],
+  mb: ['size', 1048576], mib: ['size', 1048576],
+  gb: ['size', 1073741824], gib: ['size', 1073741824],
+  '%': ['percent', 1], percent: ['percent', 1],
+};
+
+/**
+ * Pattern matching "<operator> <number><unit>".
+ */
+const BOUND_PATTERN = new RegExp(
+  '(' +
+    BOUND_OPERATORS.map(([phrase]) => (/^[a-z ]+$/.test(phrase) ? `\\b${phrase}\\b` : phrase)).join('|') +
+    ')\\s*:?\\s*(\\d+(?:\\.\\d+)?)\\s*([a-zµ%]+)?',
+  'gi'
+);
+
+/**
+ * Parse numeric bounds from a constraint.
+ * A unit that is not a known time/size/percent unit names its own
+ * dimension (e.g., "100 requests").
+ */
+function parseBounds(constraint: string): Bound[] {
+  const bounds: Bound[] = [];
+
+  for (const match of constraint.matchAll(BOUND_PATTERN)) {
+    const phrase = match[1]!.toLowerCase().replace(/\s+/g, ' ');
+    const op = BOUND_OPERATORS.find(([p]) => p === phrase)?.[1];
+    if (!op) continue;
+
+    const unit = (match[3] ?? '').toLowerCase();
+    const known = UNITS[unit];
+    const [dimension, factor] = known ?? [unit === '' ? 'number' : unit, 1];
+
+    bounds.push({ op, value: Number(match[2]) * factor, dimension, text: match[0].trim() });
+  }
+
+  return bounds;
+}
+
+/**
+ * Check if two bounds on the same dimension admit no common value.
+ */
+function boundsDisjoint(a: Bound, b: Bound): boolean {
+  const admits = (bound: Bound, v: number): boolean => {
+    switch (bound.op) {
+      case 'lt': return v < bound.value;
+      case 'le': return v <= bound.value;
+      case 'gt': return v > bound.value;
+      case 'ge': return v >= bound.value;
+      case 'eq': return v === bound.value;
+    }
+  };
+
+  if (a.op === 'eq') return !admits(b, a.value);
+  if (b.op === 'eq') return !admits(a, b.value);
+
+  const upper = a.op === 'lt' || a.op === 'le' ? a : b.op === 'lt' || b.op === 'le' ? b : null;
+  const lower = a.op === 'gt' || a.op === 'ge' ? a : b.op === 'gt' || b.op === 'ge' ? b : null;
+  if (!upper || !lower || upper === lower) return false;
+
+  if (lower.value > upper.value) return true;
+  return lower.value === upper.value && (lower.op === 'gt' || upper.op === 'lt');
+}
+
+/**
+ * Detect disjoint numeric bounds on the same quantity.
+ * Bounds refer to the same quantity if the constraints share a subject,
+ * or if either constraint names no subject.
+ */
+function checkNumericRange(a: string, b: string, tokensA: string[], tokensB: string[]): string | null {
+  const boundsA = parseBounds(a);
+  const boundsB = parseBounds(b);
+  if (boundsA.length === 0 || boundsB.length === 0) return null;
+
+  const exclude = new Set([...OPERATOR_WORDS, ...Object.keys(UNITS)]);
+  const subjectA = contentWords(tokensA, exclude);
+  const subjectB = contentWords(tokensB, exclude);
+  const sameQuantity = subjectA.size === 0 || subjectB.size === 0 || intersects(subjectA, subjectB);
+  if (!sameQuantity) return null;
+
+  for (const x of boundsA) {
+    for (const y of boundsB) {
+      if (x.dimension === y.dimension && boundsDisjoint(x, y)) {
+        return `Disjoint ${x.dimension} bounds: "${x.text}" and "${y.text}"`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// =============================================================================
+// Enum Exclusivity Rule
+// =============================================================================
+
+/**
+ * An occurrence of an exclusive term in a constraint.
+ */
+interface TermUse {
+  term: string;
+  /**
+   * Noun the term modifies ("public API" -> "api"), or null when the
+   * term is used predicatively ("must be public").
+   */
+  head: string | null;
+}
+
+/**
+ * Find affirmed (non-negated) uses of terms in a constraint.
+ */
+function findTermUses(tokens: string[], terms: readonly string[]): TermUse[] {
+  const uses: TermUse[] = [];
+
+  tokens.forEach((token, i) => {
+    if (!terms.includes(token) || isNegatedAt(tokens, i)) return;
+    const next = tokens[i + 1];
+    const head = next !== undefined && isContentWord(next, new Set(terms)) ? next : null;
+    uses.push({ term: token, head });
+  });
+
+  return uses;
+}
+
+/**
+ * Detect mutually exclusive terms applied to the same subject.
+ *
+ * - Both attributive: same head noun ("public API" vs "private API").
+ * - Otherwise: the constraints share a subject word, or one of them names
+ *   no subject or quantifies over everything (it applies system-wide).
+ */
+function checkExclusive(tokensA: string[], tokensB: string[], exclusiveSets: string[][]): string | null {
+  for (const terms of exclusiveSets) {
+    const usesA = findTermUses(tokensA, terms);
+    const usesB = findTermUses(tokensB, terms);
+
+    const excluded = new Set(terms);
+    const subjectA = contentWords(tokensA, excluded);
+    const subjectB = contentWords(tokensB, excluded);
+    const systemWide = (tokens: string[], subject: Set<string>): boolean =>
+      subject.size === 0 || tokens.some((t) => UNIVERSALS.has(t));
+
+    for (const x of usesA) {
+      for (const y of usesB) {
+        if (x.term === y.term) continue;
+
+        const sameSubject = x.head !== null && y.head !== null
+          ? x.head === y.head
+          : intersects(subjectA, subjectB) ||
+            (x.head === null && systemWide(tokensA, subjectA)) ||
+            (y.head === null && systemWide(tokensB, subjectB));
+
+        if (sameSubject) {
+          return `"${x.term}" excludes "${y.term}"`;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+// =============================================================================
+// Pattern Pair Rule
+// =============================================================================
+
+/**
+ * Detect a table pattern pair matched across the two constraints.
+ */
+function checkPatternPairs(a: string, b: string, pairs: Array<[RegExp, RegExp]>): string | null {
+  for (const [p1, p2] of pairs) {
+    if ((p1.test(a) && p2.test(b)) || (p2.test(a) && p1.test(b))) {
+      return `Conflicting patterns ${p1.source} and ${p2.source}`;
+    }
+  }
+  return null;
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Find contradictions between pairs of constraints.
+ * Each rule reports at most one contradiction per constraint pair.
+ *
+ * @param constraints - Normalized constraints
+ * @param exclusiveSets - Sets of mutually exclusive terms (lowercase)
+ * @param pairs - Pattern pairs that conflict across constraints
+ * @returns Contradictions sorted by a_index, b_index, rule_id
+ */
+export function findContradictions(
+  constraints: string[],
+  exclusiveSets: string[][],
+  pairs: Array<[RegExp, RegExp]>
+): Contradiction[] {
+  const tokens = constraints.map(tokenize);
+  const contradictions: Contradiction[] = [];
+
+  for (let i = 0; i < constraints.length; i++) {
+    for (let j = i + 1; j < constraints.length; j++) {
+      const a = constraints[i]!;
+      const b = constraints[j]!;
+      const tokensA = tokens[i]!;
+      const tokensB = tokens[j]!;
+
+      const checks: Array<[Contradiction['rule_id'], string | null]> = [
+        ['enum_exclusive', checkExclusive(tokensA, tokensB, exclusiveSets)],
+        ['negation', checkNegation(tokensA, tokensB)],
+        ['numeric_range', checkNumericRange(a, b, tokensA, tokensB)],
+        ['pattern_pair', checkPatternPairs(a, b, pairs)],
+      ];
+
+      for (const [rule_id, explanation] of checks) {
+        if (explanation !== null) {
+          contradictions.push({ a_index: i, b_index: j, rule_id, explanation });
+        }
+      }
+    }
+  }
+
+  // Already in (a_index, b_index, rule_id) order by construction
+  return contradictions;
+}
@@ -4,3 +4,5 @@
  */
 
 export * from './measure.js';
+export * from './analyzer.js';
+export * from './contradictions.js';
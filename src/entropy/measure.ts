@@ -15,8 +15,15 @@
  * All scores are integers 0-100.
  */
 
-import type { EntropyMeasurement, DensityMeasurement, Score } from '../types/artifacts.js';
+import type {
+  Contradiction,
+  EntropyMeasurement,
+  DensityMeasurement,
+  EntropyPackRef,
+  Score,
+} from '../types/artifacts.js';
 import { clampToScore } from '../types/validation.js';
+import { findContradictions } from './contradictions.js';
 
 // =============================================================================
 // Unresolved Reference Detection
@@ -53,12 +60,13 @@ const UNRESOLVED_PATTERNS: RegExp[] = [
  * Count unresolved references in text.
  *
  * @param text - Text to analyze
+ * @param tables - Pattern tables (default: base tables)
  * @returns Number of unresolved reference matches
  */
-export function countUnresolvedRefs(text: string): number {
+export function countUnresolvedRefs(text: string, tables: EntropyTables = BASE_ENTROPY_TABLES): number {
   let count = 0;
 
-  for (const pattern of UNRESOLVED_PATTERNS) {
+  for (const pattern of tables.unresolved_patterns) {
     const matches = text.match(new RegExp(pattern, 'gi'));
     if (matches) {
       count += matches.length;
@@ -108,12 +116,13 @@ const REQUIRED_ELEMENTS: Record<string, RegExp[]> = {
  * Detect schema gaps (missing required information categories).
  *
  * @param text - Text to analyze
- * @returns Number of missing categories (0-5)
+ * @param tables - Pattern tables (default: base tables)
+ * @returns Number of missing categories (0-5 for the base tables)
  */
-export function detectSchemaGaps(text: string): number {
+export function detectSchemaGaps(text: string, tables: EntropyTables = BASE_ENTROPY_TABLES): number {
   let gaps = 0;
 
-  for (const [_category, patterns] of Object.entries(REQUIRED_ELEMENTS)) {
+  for (const [_category, patterns] of Object.entries(tables.required_elements)) {
     let found = false;
     for (const pattern of patterns) {
       if (pattern.test(text)) {
@@ -134,48 +143,44 @@ export function detectSchemaGaps(text: string): number {
 // =============================================================================
 
 /**
- * Contradiction pattern pairs.
- * Each pair represents potentially conflicting statements.
+ * Mutually exclusive terms.
+ * Two constraints contradict when they apply different terms of one set
+ * to the same subject (see contradictions.ts).
  */
-const CONTRADICTION_PAIRS: Array<[RegExp, RegExp]> = [
-  // Requirement conflicts
-  [/\bmust\b.*\bnot\b/i, /\bmust\b(?!.*\bnot\b)/i],
-  [/\brequired\b/i, /\boptional\b/i],
-  [/\balways\b/i, /\bnever\b/i],
-  [/\ball\b/i, /\bnone\b/i],
-
-  // Technology conflicts (simple heuristic)
-  [/\bsynchronous\b/i, /\basynchronous\b/i],
-  [/\bblocking\b/i, /\bnon-blocking\b/i],
-  [/\bstateful\b/i, /\bstateless\b/i],
-  [/\bmutable\b/i, /\bimmutable\b/i],
+const EXCLUSIVE_TERMS: string[][] = [
+  // Technology conflicts
+  ['synchronous', 'asynchronous'],
+  ['blocking', 'non-blocking'],
+  ['stateful', 'stateless'],
+  ['mutable', 'immutable'],
 
   // Access conflicts
-  [/\bpublic\b/i, /\bprivate\b/i],
-  [/\bread-only\b/i, /\bwritable\b/i],
+  ['public', 'private'],
+  ['read-only', 'writable'],
+
+  // Requirement conflicts
+  ['required', 'optional'],
 ];
 
 /**
- * Detect potential contradictions in constraints.
+ * Contradiction pattern pairs.
+ * Polarity conflicts are handled by the negation rule, so the base table
+ * is empty; domain packs add pairs for their own vocabulary.
+ */
+const CONTRADICTION_PAIRS: Array<[RegExp, RegExp]> = [];
+
+/**
+ * Detect contradictions between constraints, with provenance.
  *
  * @param constraints - Array of constraint strings
- * @returns Number of detected contradictions
+ * @param tables - Pattern tables (default: base tables)
+ * @returns Contradictions sorted by a_index, b_index, rule_id
  */
-export function detectContradictions(constraints: string[]): number {
-  let contradictions = 0;
-  const combinedText = constraints.join(' ');
-
-  for (const [pattern1, pattern2] of CONTRADICTION_PAIRS) {
-    const match1 = pattern1.test(combinedText);
-    const match2 = pattern2.test(combinedText);
-
-    // Both patterns found = potential contradiction
-    if (match1 && match2) {
-      contradictions++;
-    }
-  }
-
-  return contradictions;
+export function detectContradictions(
+  constraints: string[],
+  tables: EntropyTables = BASE_ENTROPY_TABLES
+): Contradiction[] {
+  return findContradictions(constraints, tables.exclusive_terms, tables.contradiction_pairs);
 }
 
 // =============================================================================
@@ -204,12 +209,13 @@ const BRANCHING_KEYWORDS: RegExp[] = [
  * Estimate branching factor (number of distinct outcome classes).
  *
  * @param text - Text to analyze
+ * @param tables - Pattern tables (default: base tables)
  * @returns Estimated branching factor (1-10)
  */
-export function estimateBranchingFactor(text: string): number {
+export function estimateBranchingFactor(text: string, tables: EntropyTables = BASE_ENTROPY_TABLES): number {
   let branches = 1; // Base case: one path
 
-  for (const pattern of BRANCHING_KEYWORDS) {
+  for (const pattern of tables.branching_keywords) {
     const matches = text.match(new RegExp(pattern, 'gi'));
     if (matches) {
       branches += matches.length;
@@ -220,6 +226,53 @@ export function estimateBranchingFactor(text: string): number {
   return Math.min(branches, 10);
 }
 
+// =============================================================================
+// Pattern Tables
+// =============================================================================
+
+/**
+ * The pattern tables behind the entropy proxies.
+ * Domain packs extend these (see analyzer.ts).
+ */
+export interface EntropyTables {
+  /**
+   * Patterns indicating unresolved/placeholder content.
+   */
+  unresolved_patterns: RegExp[];
+
+  /**
+   * Required information categories; a category is a gap if none of its
+   * patterns match.
+   */
+  required_elements: Record<string, RegExp[]>;
+
+  /**
+   * Sets of mutually exclusive terms (lowercase).
+   */
+  exclusive_terms: string[][];
+
+  /**
+   * Pattern pairs that conflict when matched by two different constraints.
+   */
+  contradiction_pairs: Array<[RegExp, RegExp]>;
+
+  /**
+   * Keywords indicating decision points.
+   */
+  branching_keywords: RegExp[];
+}
+
+/**
+ * Base tables used when no domain pack is selected.
+ */
+export const BASE_ENTROPY_TABLES: EntropyTables = {
+  unresolved_patterns: UNRESOLVED_PATTERNS,
+  required_elements: REQUIRED_ELEMENTS,
+  exclusive_terms: EXCLUSIVE_TERMS,
+  contradiction_pairs: CONTRADICTION_PAIRS,
+  branching_keywords: BRANCHING_KEYWORDS,
+};
+
 // =============================================================================
 // Composite Entropy Calculation
 // =============================================================================
@@ -235,28 +288,81 @@ const ENTROPY_WEIGHTS = {
   branching: 20,          // Decision point density
 };
 
+/**
+ * Analyzer computing the raw entropy proxies.
+ * measureEntropy() combines these into the composite score.
+ */
+export interface EntropyAnalyzer {
+  /**
+   * Domain packs applied by this analyzer.
+   * ORDERING: Sorted by id ascending. Empty for the base analyzer.
+   */
+  readonly packs: EntropyPackRef[];
+
+  /**
+   * Number of schema-gap categories checked (normalizes the gap score).
+   */
+  readonly schema_categories: number;
+
+  countUnresolvedRefs(text: string): number;
+  detectSchemaGaps(text: string): number;
+  detectContradictions(constraints: string[]): Contradiction[];
+  estimateBranchingFactor(text: string): number;
+}
+
+/**
+ * Create a table-driven analyzer.
+ *
+ * @param tables - Pattern tables
+ * @param packs - Packs the tables were built from
+ * @returns Entropy analyzer
+ */
+export function createTableAnalyzer(tables: EntropyTables, packs: EntropyPackRef[] = []): EntropyAnalyzer {
+  return {
+    packs,
+    schema_categories: Object.keys(tables.required_elements).length,
+    countUnresolvedRefs: (text) => countUnresolvedRefs(text, tables),
+    detectSchemaGaps: (text) => detectSchemaGaps(text, tables),
+    detectContradictions: (constraints) => detectContradictions(constraints, tables),
+    estimateBranchingFactor: (text) => estimateBranchingFactor(text, tables),
+  };
+}
+
+/**
+ * Analyzer using the base tables only.
+ */
+export const BASE_ENTROPY_ANALYZER: EntropyAnalyzer = createTableAnalyzer(BASE_ENTROPY_TABLES);
+
 /**
  * Measure entropy of a goal with constraints.
  *
  * @param goal - The goal text
  * @param constraints - Array of constraint strings
+ * @param analyzer - Entropy analyzer (default: base tables)
  * @returns Complete entropy measurement
  */
-export function measureEntropy(goal: string, constraints: string[]): EntropyMeasurement {
+export function measureEntropy(
+  goal: string,
+  constraints: string[],
+  analyzer: EntropyAnalyzer = BASE_ENTROPY_ANALYZER
+): EntropyMeasurement {
   const combinedText = goal + ' ' + constraints.join(' ');
 
   // Measure each component
-  const unresolved_refs = countUnresolvedRefs(combinedText);
-  const schema_gaps = detectSchemaGaps(combinedText);
-  const contradiction_count = detectContradictions(constraints);
-  const branching_factor = estimateBranchingFactor(combinedText);
+  const unresolved_refs = analyzer.countUnresolvedRefs(combinedText);
+  const schema_gaps = analyzer.detectSchemaGaps(combinedText);
+  const contradictions = analyzer.detectContradictions(constraints);
+  const contradiction_count = contradictions.length;
+  const branching_factor = analyzer.estimateBranchingFactor(combinedText);
 
   // Normalize to 0-100 scale
   // Unresolved: 0 = 0, 10+ = 100
   const unresolvedNorm = clampToScore((unresolved_refs / 10) * 100);
 
-  // Schema gaps: 0 = 0, 5 = 100 (all categories missing)
-  const schemaGapNorm = clampToScore((schema_gaps / 5) * 100);
+  // Schema gaps: 0 = 0, all categories missing = 100
+  const schemaGapNorm = analyzer.schema_categories > 0
+    ? clampToScore((schema_gaps / analyzer.schema_categories) * 100)
+    : 0;
 
   // Contradictions: 0 = 0, 5+ = 100
   const contradictionNorm = clampToScore((contradiction_count / 5) * 100);
@@ -278,6 +384,7 @@ export function measureEntropy(goal: string, constraints: string[]): EntropyMeas
     contradiction_count,
     branching_factor,
     entropy_score,
+    ...(contradictions.length > 0 && { contradictions }),
   };
 }
 
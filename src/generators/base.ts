@@ -6,7 +6,8 @@
  * Provides common functionality for prompt building, response parsing, and error handling.
  */
 
-import type { ModelAdapter, TransformContext } from '../adapters/model.js';
+import type { ModelAdapter, ResponseFormat, TransformContext, TransformResult } from '../adapters/model.js';
+import { completeStructured, extractJSON, type SchemaViolation } from '../adapters/structured.js';
 import type {
   Generator,
   GeneratorId,
@@ -43,6 +44,15 @@ export abstract class BaseGenerator<TInput, TOutput>
    */
   protected abstract getSystemPrompt(): string;
 
+  /**
+   * Get the schema of the model response, if this generator declares one.
+   * A declared schema is sent as the request's response format, and
+   * responses that do not match it are repaired (see completeStructured).
+   */
+  protected getOutputSchema(): ResponseFormat | undefined {
+    return undefined;
+  }
+
   /**
    * Generate output using the model adapter.
    */
@@ -51,10 +61,9 @@ export abstract class BaseGenerator<TInput, TOutput>
     adapter: ModelAdapter,
     context: GeneratorContext
   ): Promise<GeneratorOutput<TOutput>> {
-    // Build the full prompt
     const systemPrompt = this.getSystemPrompt();
     const userPrompt = this.buildPrompt(input, context);
-    const fullPrompt = `${systemPrompt}\n\n---\n\n${userPrompt}`;
+    const format = this.getOutputSchema();
 
     // Create transform context
     const transformContext: TransformContext = {
@@ -70,22 +79,47 @@ export abstract class BaseGenerator<TInput, TOutput>
     };
 
     // Call the model
-    const result = await adapter.transform(fullPrompt, transformContext);
+    let result: TransformResult;
+    let schemaErrors: SchemaViolation[] = [];
+    if (format) {
+      const structured = await completeStructured(
+        adapter,
+        {
+          system: systemPrompt,
+          messages: [{ role: 'user', content: userPrompt }],
+          response_format: format,
+        },
+        transformContext
+      );
+      result = structured.result;
+      schemaErrors = structured.violations;
+    } else {
+      const fullPrompt = `${systemPrompt}\n\n---\n\n${userPrompt}`;
+      result = await adapter.transform(fullPrompt, transformContext);
+    }
 
     // Parse the response
     let parsedResult: TOutput;
     let parsed = true;
     const parseErrors: string[] = [];
 
-    try {
-      parsedResult = this.parseResponse(result.content);
-    } catch (error) {
+    if (schemaErrors.length > 0) {
       parsed = false;
       parseErrors.push(
-        error instanceof Error ? error.message : String(error)
+        ...schemaErrors.map((v) => `${format?.name}${v.path}: ${v.message}`)
       );
-      // Return a default/empty result
       parsedResult = this.getDefaultOutput();
+    } else {
+      try {
+        parsedResult = this.parseResponse(result.content);
+      } catch (error) {
+        parsed = false;
+        parseErrors.push(
+          error instanceof Error ? error.message : String(error)
+        );
+        // Return a default/empty result
+        parsedResult = this.getDefaultOutput();
+      }
     }
 
     const output: GeneratorOutput<TOutput> = {
@@ -102,6 +136,9 @@ export abstract class BaseGenerator<TInput, TOutput>
     if (parseErrors.length > 0) {
       output.parse_errors = parseErrors;
     }
+    if (schemaErrors.length > 0) {
+      output.schema_errors = schemaErrors;
+    }
     return output;
   }
 
@@ -115,25 +152,7 @@ export abstract class BaseGenerator<TInput, TOutput>
 // Prompt Utilities
 // =============================================================================
 
-/**
- * Extract JSON from a response that may contain markdown code blocks.
- */
-export function extractJSON(response: string): string {
-  // Try to find JSON in code blocks first
-  const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
-  if (codeBlockMatch && codeBlockMatch[1]) {
-    return codeBlockMatch[1].trim();
-  }
-
-  // Try to find raw JSON (object or array)
-  const jsonMatch = response.match(/(\{[\s\S]*\}|\[[\s\S]*\])/);
-  if (jsonMatch && jsonMatch[1]) {
-    return jsonMatch[1].trim();
-  }
-
-  // Return as-is
-  return response.trim();
-}
+export { extractJSON };
 
 /**
  * Parse JSON safely with error handling.
@@ -10,6 +10,7 @@
  * - Output: BlueprintSpec (X artifact)
  */
 
+import type { ResponseFormat } from '../adapters/model.js';
 import { BaseGenerator, parseJSON, buildStructuredPrompt } from './base.js';
 import type {
   GeneratorContext,
@@ -19,6 +20,76 @@ import type {
   BlueprintComponent,
 } from './types.js';
 
+// =============================================================================
+// Output Schema
+// =============================================================================
+
+/**
+ * Schema of the blueprint generator's model response.
+ */
+export const BLUEPRINT_OUTPUT_SCHEMA: ResponseFormat = {
+  type: 'json_schema',
+  name: 'blueprint',
+  schema: {
+    type: 'object',
+    properties: {
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      warnings: { type: ['array', 'null'], items: { type: 'string' } },
+      blueprint: {
+        type: 'object',
+        properties: {
+          version: { type: 'string' },
+          title: { type: 'string', minLength: 1 },
+          description: { type: 'string' },
+          components: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', minLength: 1 },
+                name: { type: 'string' },
+                purpose: { type: 'string' },
+                type: {
+                  type: 'string',
+                  enum: ['file', 'function', 'class', 'module', 'config', 'test', 'doc'],
+                },
+                path: { type: ['string', 'null'] },
+                action: { type: 'string', enum: ['create', 'modify', 'delete'] },
+                details: { type: 'string' },
+              },
+              required: ['id', 'name', 'purpose', 'type', 'path', 'action', 'details'],
+              additionalProperties: false,
+            },
+          },
+          dependencies: {
+            type: 'array',
+            items: { type: 'array', items: { type: 'string' }, minItems: 2, maxItems: 2 },
+          },
+          acceptance_criteria: { type: 'array', items: { type: 'string' } },
+          complexity: {
+            type: 'string',
+            enum: ['trivial', 'simple', 'moderate', 'complex', 'very_complex'],
+          },
+          risks: { type: 'array', items: { type: 'string' } },
+        },
+        required: [
+          'version',
+          'title',
+          'description',
+          'components',
+          'dependencies',
+          'acceptance_criteria',
+          'complexity',
+          'risks',
+        ],
+        additionalProperties: false,
+      },
+    },
+    required: ['confidence', 'warnings', 'blueprint'],
+    additionalProperties: false,
+  },
+};
+
 // =============================================================================
 // Blueprint Generator
 // =============================================================================
@@ -37,6 +108,10 @@ export class BlueprintGenerator extends BaseGenerator<
   readonly description =
     'Generates Blueprint specifications (X artifacts) from clarified intents';
 
+  protected getOutputSchema(): ResponseFormat {
+    return BLUEPRINT_OUTPUT_SCHEMA;
+  }
+
   protected getSystemPrompt(): string {
     return `You are an AI software architect that creates detailed implementation blueprints.
 
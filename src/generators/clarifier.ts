@@ -11,6 +11,7 @@
  * - Output: ClarificationRequest
  */
 
+import type { ResponseFormat } from '../adapters/model.js';
 import { BaseGenerator, parseJSON, buildStructuredPrompt } from './base.js';
 import type {
   GeneratorContext,
@@ -19,6 +20,45 @@ import type {
   ClarificationQuestion,
 } from './types.js';
 
+// =============================================================================
+// Output Schema
+// =============================================================================
+
+/**
+ * Schema of the clarifier's model response.
+ */
+export const CLARIFIER_OUTPUT_SCHEMA: ResponseFormat = {
+  type: 'json_schema',
+  name: 'clarification',
+  schema: {
+    type: 'object',
+    properties: {
+      needs_clarification: { type: 'boolean' },
+      reason: { type: 'string' },
+      questions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            question: { type: 'string', minLength: 1 },
+            category: {
+              type: 'string',
+              enum: ['scope', 'requirements', 'constraints', 'preferences', 'technical'],
+            },
+            options: { type: ['array', 'null'], items: { type: 'string' } },
+            required: { type: 'boolean' },
+            priority: { type: 'integer', minimum: 1 },
+          },
+          required: ['question', 'category', 'options', 'required', 'priority'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['needs_clarification', 'reason', 'questions'],
+    additionalProperties: false,
+  },
+};
+
 // =============================================================================
 // Clarifier Generator
 // =============================================================================
@@ -37,6 +77,10 @@ export class ClarifierGenerator extends BaseGenerator<
   readonly description =
     'Analyzes intents for ambiguity and generates clarifying questions';
 
+  protected getOutputSchema(): ResponseFormat {
+    return CLARIFIER_OUTPUT_SCHEMA;
+  }
+
   protected getSystemPrompt(): string {
     return `You are an AI assistant that helps clarify software development requirements.
 
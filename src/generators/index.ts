@@ -30,10 +30,10 @@ export { BaseGenerator, extractJSON, parseJSON, buildStructuredPrompt } from './
 export type { PromptSection } from './base.js';
 
 // G0: Clarifier
-export { ClarifierGenerator, createClarifierGenerator } from './clarifier.js';
+export { ClarifierGenerator, createClarifierGenerator, CLARIFIER_OUTPUT_SCHEMA } from './clarifier.js';
 
 // G3: Blueprint
-export { BlueprintGenerator, createBlueprintGenerator } from './blueprint.js';
+export { BlueprintGenerator, createBlueprintGenerator, BLUEPRINT_OUTPUT_SCHEMA } from './blueprint.js';
 
 // Orchestrator
 export { GeneratorOrchestrator, createOrchestrator } from './orchestrator.js';
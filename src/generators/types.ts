@@ -18,6 +18,7 @@
  */
 
 import type { ModelAdapter, TransformContext, TransformResult } from '../adapters/model.js';
+import type { SchemaViolation } from '../adapters/structured.js';
 
 // =============================================================================
 // Generator Interface
@@ -143,6 +144,12 @@ export interface GeneratorOutput<T> {
    * Any parsing errors.
    */
   parse_errors?: string[];
+
+  /**
+   * Violations of the generator's output schema by the final response,
+   * after any repair attempts (schema generators only).
+   */
+  schema_errors?: SchemaViolation[];
 }
 
 // =============================================================================
@@ -0,0 +1,387 @@
+/**
+ * Proposal Actions
+ * ================
+ *
+ * Carries out proposal actions and acceptance tests against the sandbox
+ * workspace (out/), producing the per-action and per-test results the
+ * kernel validates.
+ *
+ * Targets are workspace-relative: a leading '/' and the kernel's
+ * 'context/' prefix are stripped, and targets that escape the workspace
+ * fail, as do targets whose path passes through a symlink (which a
+ * command may have created). File hashes use the kernel's convention (canonicalHash of the
+ * file content as a string), so they compare directly with the
+ * proposal's expected_hash values.
+ *
+ * Commands (test and execute_command actions, and command acceptance
+ * tests) are split on whitespace and run without a shell through
+ * runInSandbox, in the workspace, under the policy's allowlist, isolation
+ * and limits. A proposal's command actions form a pipeline: each is a
+ * step with its own logs, and a failed step halts execution (the
+ * remaining actions are skipped) unless it has continue_on_failure.
+ */
+
+import { readFile, writeFile, mkdir, rm, lstat } from 'node:fs/promises';
+import { dirname, join, normalize, isAbsolute } from 'node:path';
+
+import { canonicalHash, canonicalize } from '../utils/canonical.js';
+import { evaluateTestObservation, resolveJsonPath } from '../protocol/proposal.js';
+import type { Proposal, ProposedAction, AcceptanceTest, ActionResult, TestResult } from '../protocol/proposal.js';
+import type { PolicyProfile, SandboxExecutionStep } from './types.js';
+import {
+  runInSandbox,
+  runStep,
+  skipStep,
+  haltsPipeline,
+  type Sandbox,
+  type SandboxRunResult,
+  type SandboxStep,
+} from './sandbox.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Results of carrying out a proposal's actions.
+ */
+export interface ActionExecution {
+  /**
+   * One result per action, in proposal order.
+   */
+  action_results: ActionResult[];
+
+  /**
+   * Results of the commands run by test and execute_command actions, in
+   * order.
+   */
+  command_runs: SandboxRunResult[];
+
+  /**
+   * One pipeline step per test and execute_command action, in order
+   * (skipped steps included).
+   */
+  steps: SandboxExecutionStep[];
+}
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+/**
+ * Map an action or test target to a workspace-relative path.
+ *
+ * @param target - Proposal target
+ * @returns Relative path, or null if the target escapes the workspace
+ */
+export function resolveWorkspacePath(target: string): string | null {
+  const relative = normalize(target.replace(/^\/+/, '').replace(/^context\//, ''));
+  if (relative === '.' || isAbsolute(relative) || relative.split('/').includes('..')) {
+    return null;
+  }
+  return relative;
+}
+
+/**
+ * Whether a workspace path is a regular file (symlinks are not followed).
+ */
+async function isRegularFile(path: string): Promise<boolean> {
+  const stats = await lstat(path).catch(() => null);
+  return stats?.isFile() === true;
+}
+
+/**
+ * Find the first component of a workspace path that is a symlink, so file
+ * actions never follow a link planted by an earlier command out of the
+ * workspace. Components after the first missing one are not checked.
+ *
+ * @returns The symlinked prefix of the path, or null if there is none
+ */
+async function findSymlink(outDir: string, relative: string): Promise<string | null> {
+  const parts = relative.split('/');
+  for (let i = 1; i <= parts.length; i++) {
+    const prefix = parts.slice(0, i).join('/');
+    const stats = await lstat(join(outDir, prefix)).catch(() => null);
+    if (stats === null) {
+      return null;
+    }
+    if (stats.isSymbolicLink()) {
+      return prefix;
+    }
+  }
+  return null;
+}
+
+/**
+ * Hash a workspace file the way the kernel hashes content.
+ */
+async function hashWorkspaceFile(path: string): Promise<string> {
+  return canonicalHash(await readFile(path, 'utf-8'));
+}
+
+// =============================================================================
+// Action Execution
+// =============================================================================
+
+/**
+ * Split a command string into argv.
+ */
+function splitCommand(command: string): string[] {
+  return command.split(/\s+/).filter((part) => part.length > 0);
+}
+
+/**
+ * Whether an action runs a command (and is a pipeline step).
+ */
+function isCommandAction(action: ProposedAction): boolean {
+  return action.type === 'test' || action.type === 'execute_command';
+}
+
+/**
+ * Pipeline step of a command action.
+ */
+function stepOf(action: ProposedAction): SandboxStep {
+  return {
+    name: action.id,
+    cmd: splitCommand(action.target),
+    ...(action.continue_on_failure !== undefined && { continue_on_failure: action.continue_on_failure }),
+  };
+}
+
+/**
+ * Carry out a single action.
+ *
+ * @param action - Action to carry out
+ * @param sandbox - Sandbox whose workspace is the target
+ * @param policy - Policy for commands
+ * @param pipeline - Command runs and steps (appended to)
+ * @returns Result without duration
+ */
+async function runAction(
+  action: ProposedAction,
+  sandbox: Sandbox,
+  policy: PolicyProfile,
+  pipeline: ActionExecution
+): Promise<Omit<ActionResult, 'action_id' | 'duration_ms'>> {
+  if (isCommandAction(action)) {
+    const { step, run } = await runStep(sandbox, stepOf(action), pipeline.steps.length, policy, { cwd: 'out' });
+    pipeline.command_runs.push(run);
+    pipeline.steps.push(step);
+
+    if (run.error) {
+      return { status: 'failure', exit_code: run.exit_code, error: run.error };
+    }
+    if (run.timed_out) {
+      return { status: 'timeout', exit_code: run.exit_code, error: `Command timed out after ${policy.timeout_ms}ms` };
+    }
+    if (run.exit_code !== 0) {
+      return { status: 'failure', exit_code: run.exit_code, error: `Command exited with code ${run.exit_code}` };
+    }
+    return { status: 'success', exit_code: 0 };
+  }
+
+  const relative = resolveWorkspacePath(action.target);
+  if (relative === null) {
+    return { status: 'failure', error: `Target outside workspace: ${action.target}` };
+  }
+  const symlink = await findSymlink(sandbox.outDir, relative);
+  if (symlink !== null) {
+    return { status: 'failure', error: `Target passes through a symlink: ${symlink}` };
+  }
+  const fullPath = join(sandbox.outDir, relative);
+  const exists = await isRegularFile(fullPath);
+
+  switch (action.type) {
+    case 'create_file':
+    case 'modify_file':
+      if (action.content === undefined) {
+        return { status: 'failure', error: `${action.type} action requires content` };
+      }
+      if (action.type === 'modify_file' && !exists) {
+        return { status: 'failure', error: `File does not exist: ${action.target}` };
+      }
+      await mkdir(dirname(fullPath), { recursive: true });
+      await writeFile(fullPath, action.content, 'utf-8');
+      return { status: 'success', actual_hash: await hashWorkspaceFile(fullPath) };
+
+    case 'delete_file':
+      if (!exists) {
+        return { status: 'failure', error: `File does not exist: ${action.target}` };
+      }
+      await rm(fullPath);
+      return { status: 'success' };
+
+    case 'validate':
+      if (!exists) {
+        return { status: 'failure', error: `File does not exist: ${action.target}` };
+      }
+      return { status: 'success', actual_hash: await hashWorkspaceFile(fullPath) };
+
+    default:
+      return { status: 'failure', error: `Unknown action type: ${action.type as string}` };
+  }
+}
+
+/**
+ * Carry out a proposal's actions in order against the sandbox workspace.
+ * Every action runs after a failed file action; the kernel decides which
+ * failures matter. A failed command halts execution unless it has
+ * continue_on_failure: the remaining actions are skipped.
+ *
+ * @param proposal - Proposal to carry out
+ * @param sandbox - Sandbox whose workspace is the target
+ * @param policy - Policy for commands
+ * @returns Action results and command runs
+ */
+export async function executeActions(
+  proposal: Proposal,
+  sandbox: Sandbox,
+  policy: PolicyProfile
+): Promise<ActionExecution> {
+  const actionResults: ActionResult[] = [];
+  const pipeline: ActionExecution = { action_results: actionResults, command_runs: [], steps: [] };
+  let haltedBy: string | null = null;
+
+  for (const action of proposal.actions) {
+    if (haltedBy !== null) {
+      if (isCommandAction(action)) {
+        pipeline.steps.push(skipStep(stepOf(action)));
+      }
+      actionResults.push({
+        action_id: action.id,
+        status: 'skipped',
+        error: `Skipped after failed step: ${haltedBy}`,
+        duration_ms: 0,
+      });
+      continue;
+    }
+
+    const startTime = Date.now();
+    let outcome: Omit<ActionResult, 'action_id' | 'duration_ms'>;
+    try {
+      outcome = await runAction(action, sandbox, policy, pipeline);
+    } catch (error) {
+      outcome = { status: 'failure', error: error instanceof Error ? error.message : String(error) };
+    }
+    actionResults.push({ action_id: action.id, ...outcome, duration_ms: Date.now() - startTime });
+
+    const step = pipeline.steps[pipeline.steps.length - 1];
+    if (step?.name === action.id && haltsPipeline(step)) {
+      haltedBy = step.name;
+    }
+  }
+
+  return pipeline;
+}
+
+// =============================================================================
+// Acceptance Tests
+// =============================================================================
+
+/**
+ * Run a command test and observe its exit code or output.
+ */
+async function observeCommand(
+  test: AcceptanceTest,
+  sandbox: Sandbox,
+  policy: PolicyProfile
+): Promise<Omit<TestResult, 'test_id' | 'passed'>> {
+  const run = await runInSandbox(sandbox, splitCommand(test.target), policy, { cwd: 'out' });
+  if (run.error) {
+    return { actual: 'error', error: run.error };
+  }
+  if (run.timed_out) {
+    return { actual: 'timeout', error: `Command timed out after ${policy.timeout_ms}ms` };
+  }
+
+  if (test.type === 'command_output') {
+    const output = await readFile(test.stream === 'stderr' ? run.stderr_path : run.stdout_path, 'utf-8');
+    return { actual: output, exit_code: run.exit_code };
+  }
+  return { actual: String(run.exit_code), exit_code: run.exit_code };
+}
+
+/**
+ * Observe a file test in the workspace. A path through a symlink fails the
+ * test rather than being read, whatever the test type.
+ */
+async function observeFile(test: AcceptanceTest, sandbox: Sandbox): Promise<Omit<TestResult, 'test_id' | 'passed'>> {
+  const relative = resolveWorkspacePath(test.target);
+  const symlink = relative === null ? null : await findSymlink(sandbox.outDir, relative);
+  if (symlink !== null) {
+    return { actual: '', error: `Target passes through a symlink: ${symlink}` };
+  }
+  const fullPath = relative === null ? null : join(sandbox.outDir, relative);
+  const exists = fullPath !== null && (await isRegularFile(fullPath));
+
+  switch (test.type) {
+    case 'file_exists':
+      return { actual: exists ? 'true' : 'false' };
+
+    case 'file_absent':
+      return { actual: exists ? 'false' : 'true' };
+
+    case 'hash_match':
+    case 'content_match':
+      if (!exists || fullPath === null) {
+        return { actual: '', error: `File not found: ${test.target}` };
+      }
+      return {
+        actual: test.type === 'hash_match' ? await hashWorkspaceFile(fullPath) : await readFile(fullPath, 'utf-8'),
+      };
+
+    case 'json_path': {
+      if (!exists || fullPath === null) {
+        return { actual: '', error: `File not found: ${test.target}` };
+      }
+      let document: unknown;
+      try {
+        document = JSON.parse(await readFile(fullPath, 'utf-8'));
+      } catch {
+        return { actual: '', error: `File is not JSON: ${test.target}` };
+      }
+      const value = resolveJsonPath(document, test.json_path ?? '');
+      return value === undefined
+        ? { actual: '', error: `JSON path not found: ${test.json_path ?? ''}` }
+        : { actual: canonicalize(value) };
+    }
+
+    default:
+      return { actual: '', error: `Test type not supported in harness: ${test.type as string}` };
+  }
+}
+
+/**
+ * Evaluate a proposal's acceptance tests against the sandbox workspace.
+ * Verdicts for command, JSON path and absence tests come from the
+ * kernel's evaluateTestObservation, so they match what validateEvidence
+ * recomputes.
+ *
+ * @param proposal - Proposal whose tests to evaluate
+ * @param sandbox - Sandbox whose workspace is inspected
+ * @param policy - Policy for test commands
+ * @returns Test results, in proposal order
+ */
+export async function evaluateAcceptanceTests(
+  proposal: Proposal,
+  sandbox: Sandbox,
+  policy: PolicyProfile
+): Promise<TestResult[]> {
+  const results: TestResult[] = [];
+
+  for (const test of proposal.acceptance_tests) {
+    const isCommand = test.type === 'command_success' || test.type === 'command_exit' || test.type === 'command_output';
+    let observation: Omit<TestResult, 'test_id' | 'passed'>;
+    try {
+      observation = isCommand ? await observeCommand(test, sandbox, policy) : await observeFile(test, sandbox);
+    } catch (error) {
+      observation = { actual: '', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const passed = observation.error === undefined &&
+      (evaluateTestObservation(test, observation.actual) ?? observation.actual === test.expected);
+    results.push({ test_id: test.id, passed, ...observation });
+  }
+
+  return results;
+}
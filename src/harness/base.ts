@@ -0,0 +1,163 @@
+/**
+ * Sandbox Bases
+ * =============
+ *
+ * Seeds the sandbox workspace (out/) from a base before execution:
+ * - dir: a copy of a directory
+ * - git: the tree of a commit in a local repository (git archive, so the
+ *   repository itself is never touched)
+ * - pack: the files the pack's patch.json creates, applied to an empty
+ *   workspace
+ *
+ * Symlinks never enter the workspace: they are skipped when copying and
+ * removed after extraction, so actions cannot write through them. The
+ * seeded workspace is recorded as a content hash tree, against which
+ * output collection reports only the delta.
+ */
+
+import { createHash } from 'node:crypto';
+import { spawnSync } from 'node:child_process';
+import { mkdir, readdir, lstat, copyFile, readFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { canonicalHash } from '../utils/canonical.js';
+import type { SandboxBase, BaseSnapshot, OutputFile } from './types.js';
+import type { Sandbox } from './sandbox.js';
+import { applyPatch } from './pack_apply.js';
+
+// =============================================================================
+// Hash Tree
+// =============================================================================
+
+/**
+ * Sort comparator (byte order, locale-independent).
+ */
+function byPath(a: OutputFile, b: OutputFile): number {
+  return a.path < b.path ? -1 : a.path > b.path ? 1 : 0;
+}
+
+/**
+ * List the regular files under a directory with their hashes, removing
+ * any symlinks found on the way.
+ *
+ * @param root - Directory to index
+ * @returns Files sorted by path
+ */
+async function indexTree(root: string): Promise<OutputFile[]> {
+  const files: OutputFile[] = [];
+
+  async function walk(dir: string, basePath: string): Promise<void> {
+    const entries = await readdir(dir);
+    entries.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+    for (const entry of entries) {
+      const fullPath = join(dir, entry);
+      const relativePath = basePath ? `${basePath}/${entry}` : entry;
+      const stats = await lstat(fullPath);
+
+      if (stats.isSymbolicLink()) {
+        await rm(fullPath);
+      } else if (stats.isDirectory()) {
+        await walk(fullPath, relativePath);
+      } else if (stats.isFile()) {
+        const content = await readFile(fullPath);
+        files.push({
+          path: relativePath,
+          sha256: `sha256:${createHash('sha256').update(content).digest('hex')}`,
+          size_bytes: content.length,
+        });
+      }
+    }
+  }
+
+  await walk(root, '');
+  return files.sort(byPath);
+}
+
+// =============================================================================
+// Materialization
+// =============================================================================
+
+/**
+ * Copy a directory tree, skipping symlinks.
+ */
+async function copyTree(src: string, dest: string): Promise<void> {
+  const entries = await readdir(src);
+  entries.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  for (const entry of entries) {
+    const srcPath = join(src, entry);
+    const destPath = join(dest, entry);
+    const stats = await lstat(srcPath);
+
+    if (stats.isDirectory()) {
+      await mkdir(destPath, { recursive: true });
+      await copyTree(srcPath, destPath);
+    } else if (stats.isFile()) {
+      await copyFile(srcPath, destPath);
+    }
+  }
+}
+
+/**
+ * Run a command for base extraction.
+ *
+ * @throws Error with the command's first stderr line on failure
+ */
+function run(cmd: string, args: string[], what: string): string {
+  const result = spawnSync(cmd, args, { encoding: 'utf8', timeout: 60000 });
+  if (result.error || result.status !== 0) {
+    const detail = result.error?.message ?? (result.stderr.trim().split('\n')[0] || `exit code ${result.status}`);
+    throw new Error(`Failed to ${what}: ${detail}`);
+  }
+  return result.stdout.trim();
+}
+
+/**
+ * Extract a commit's tree into the workspace.
+ *
+ * @returns Resolved commit hash
+ */
+function extractGitTree(sandbox: Sandbox, repo: string, rev: string): string {
+  const commit = run('git', ['-C', repo, 'rev-parse', '--verify', '--quiet', `${rev}^{commit}`], `resolve git base ${rev}`);
+  const archive = join(sandbox.dir, 'base.tar');
+  run('git', ['-C', repo, 'archive', '--format=tar', '-o', archive, commit], `archive git base ${commit}`);
+  run('tar', ['-xf', archive, '-C', sandbox.outDir], `extract git base ${commit}`);
+  return commit;
+}
+
+/**
+ * Seed the sandbox workspace from a base and record its hash tree.
+ *
+ * @param sandbox - Sandbox with an empty workspace
+ * @param base - Base to seed from
+ * @returns Snapshot of the seeded workspace
+ * @throws Error if the base cannot be read, resolved or applied
+ */
+export async function materializeBase(sandbox: Sandbox, base: SandboxBase): Promise<BaseSnapshot> {
+  let commit: string | undefined;
+
+  if (base.kind === 'dir') {
+    const root = await lstat(base.path).catch(() => null);
+    if (!root?.isDirectory()) {
+      throw new Error(`Base directory not found: ${base.path}`);
+    }
+    await copyTree(base.path, sandbox.outDir);
+  } else if (base.kind === 'git') {
+    commit = extractGitTree(sandbox, base.repo, base.rev);
+    await rm(join(sandbox.dir, 'base.tar'), { force: true });
+  } else {
+    const applied = await applyPatch({ pack_dir: base.path, target_root: sandbox.outDir });
+    if (applied.outcome !== 'SUCCESS') {
+      throw new Error(`Failed to apply pack base: ${applied.error ?? applied.outcome}`);
+    }
+  }
+
+  const files = await indexTree(sandbox.outDir);
+  return {
+    kind: base.kind,
+    ...(commit !== undefined && { commit }),
+    tree_sha256: `sha256:${canonicalHash(files)}`,
+    files,
+  };
+}
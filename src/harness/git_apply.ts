@@ -21,10 +21,10 @@ import { join, resolve, basename, isAbsolute, relative } from 'node:path';
 import { spawnSync } from 'node:child_process';
 import { createHash } from 'node:crypto';
 
-import { applyPatch } from './pack_apply.js';
+import { applyPatch, verifyPatchBases } from './pack_apply.js';
 import { canonicalize, canonicalHash } from '../utils/canonical.js';
 
-import type { ApplyResult } from '../consumer/apply_types.js';
+import type { ApplyResult, ApplyOpType } from '../consumer/apply_types.js';
 
 // =============================================================================
 // Constants
@@ -45,11 +45,15 @@ export type GitApplyOutcome = 'SUCCESS' | 'PARTIAL' | 'FAILED' | 'REFUSED';
  * Changed file with content hash.
  */
 export interface GitChangedFile {
-  /** Relative path from repo root */
+  /** Relative path from repo root (for rename, the source path) */
   path: string;
   /** Operation type */
-  op: 'create' | 'modify' | 'delete';
-  /** SHA-256 hash of final file content (null for delete) */
+  op: ApplyOpType;
+  /** Rename destination (rename only) */
+  to?: string;
+  /** File mode set (set_mode, and create with mode) */
+  mode?: string;
+  /** SHA-256 hash of final file content (null for delete; for rename, the destination) */
   content_hash: string | null;
 }
 
@@ -65,6 +69,10 @@ export interface GitApplySummary {
   modified: number;
   /** Files deleted */
   deleted: number;
+  /** Files renamed */
+  renamed: number;
+  /** Files whose mode was set */
+  mode_changed: number;
   /** Total bytes written */
   total_bytes_written: number;
 }
@@ -259,6 +267,14 @@ function stageAll(repoRoot: string): GitCommandResult {
   return execGit(['add', '-A'], repoRoot);
 }
 
+/**
+ * Record a file's executable bit in the index, so the staged mode does
+ * not depend on core.fileMode.
+ */
+function setIndexMode(repoRoot: string, path: string, mode: string): GitCommandResult {
+  return execGit(['update-index', `--chmod=${mode === '0755' ? '+x' : '-x'}`, '--', path], repoRoot);
+}
+
 /**
  * Create a commit.
  */
@@ -386,7 +402,7 @@ export async function applyPackToGitRepo(args: GitApplyArgs): Promise<GitApplyRe
     pack_source: { run_id: null, bundle_hash: null },
     apply_result_hash: '',
     changed_files: [],
-    summary: { total_files: 0, created: 0, modified: 0, deleted: 0, total_bytes_written: 0 },
+    summary: { total_files: 0, created: 0, modified: 0, deleted: 0, renamed: 0, mode_changed: 0, total_bytes_written: 0 },
     violations: sortViolations([...violations, ...extraViolations]),
     error,
   });
@@ -449,6 +465,15 @@ export async function applyPackToGitRepo(args: GitApplyArgs): Promise<GitApplyRe
     return makeRefused('pack has no patch.json');
   }
 
+  // H) Hunk operations must match their base before any git change (GA13)
+  const baseViolations = verifyPatchBases(args.pack_dir, resolvedRepoRoot);
+  if (baseViolations.length > 0) {
+    for (const v of baseViolations) {
+      violations.push({ rule_id: 'GA13', ...(v.path !== undefined && { path: v.path }), message: v.message });
+    }
+    return makeRefused(`base hash mismatch: ${baseViolations.length} operations`);
+  }
+
   // I) Checkout/create branch (skip in dry-run)
   let branchCreated = false;
   if (!dryRun) {
@@ -479,12 +504,14 @@ export async function applyPackToGitRepo(args: GitApplyArgs): Promise<GitApplyRe
   for (const opResult of applyResult.operation_results) {
     let contentHash: string | null = null;
     if (opResult.op !== 'delete' && opResult.status === 'success') {
-      const filePath = join(resolvedRepoRoot, opResult.path);
+      const filePath = join(resolvedRepoRoot, opResult.to ?? opResult.path);
       contentHash = hashFile(filePath);
     }
     changedFiles.push({
       path: opResult.path,
       op: opResult.op,
+      ...(opResult.to !== undefined && { to: opResult.to }),
+      ...(opResult.after_mode !== undefined && { mode: opResult.after_mode }),
       content_hash: contentHash,
     });
   }
@@ -498,6 +525,8 @@ export async function applyPackToGitRepo(args: GitApplyArgs): Promise<GitApplyRe
     created: changedFiles.filter((f) => f.op === 'create').length,
     modified: changedFiles.filter((f) => f.op === 'modify').length,
     deleted: changedFiles.filter((f) => f.op === 'delete').length,
+    renamed: changedFiles.filter((f) => f.op === 'rename').length,
+    mode_changed: changedFiles.filter((f) => f.op === 'set_mode').length,
     total_bytes_written: applyResult.summary.total_bytes_written,
   };
 
@@ -517,6 +546,16 @@ export async function applyPackToGitRepo(args: GitApplyArgs): Promise<GitApplyRe
       return makeRefused(`GIT_ERROR: add -A failed: ${stageResult.stderr}`);
     }
 
+    // Stage file modes explicitly (renames are staged by add -A)
+    for (const file of changedFiles) {
+      if (file.mode !== undefined) {
+        const modeResult = setIndexMode(resolvedRepoRoot, file.path, file.mode);
+        if (!modeResult.success) {
+          return makeRefused(`GIT_ERROR: update-index --chmod failed: ${modeResult.stderr}`);
+        }
+      }
+    }
+
     // Build commit message
     const commitMessage = args.options?.commitMessage ??
       `Apply patch from pack\n\nPack run_id: ${runInfo.run_id || 'manual'}\nBundle hash: ${runInfo.bundle_hash || 'unknown'}\n\nApplied via git-apply CLI`;
@@ -9,29 +9,81 @@
 export type {
   ExecutionMode,
   PolicyProfileName,
+  PolicyCeiling,
+  CustomPolicyRef,
+  IsolationLevel,
+  SandboxIsolation,
+  SandboxTermination,
   HarnessRunInput,
   HarnessRunResult,
   PolicyProfile,
   SandboxExecution,
+  SandboxExecutionStep,
+  SandboxStepStatus,
   OutputFile,
+  SandboxBase,
+  SandboxBaseKind,
+  BaseSnapshot,
   ContentHash,
   KernelResultKind,
   DecisionRecord,
   LedgerEntry,
+  LedgerCheckpoint,
+  LedgerRecord,
 } from './types.js';
 
 // Policy
-export { loadPolicy, getDefaultPolicy, isCommandAllowed, isWritePathAllowed, listPolicies } from './policy.js';
+export { loadPolicy, getDefaultPolicy, hashPolicy, policyName, isCommandAllowed, isWritePathAllowed, listPolicies } from './policy.js';
+export { loadPolicyFile, resolvePolicyFile, checkCeiling, POLICY_FILE_VERSION } from './policy_file.js';
 
 // Sandbox
-export { createSandbox, cleanupSandbox, runInSandbox, collectOutputs, buildSandboxExecution } from './sandbox.js';
-export type { Sandbox, SandboxRunResult } from './sandbox.js';
+export {
+  createSandbox,
+  cleanupSandbox,
+  runInSandbox,
+  runStep,
+  skipStep,
+  runSteps,
+  haltsPipeline,
+  collectOutputs,
+  buildSandboxExecution,
+  EMPTY_RUN_LOGS,
+} from './sandbox.js';
+export type { Sandbox, SandboxRunOptions, SandboxRunLogs, SandboxRunResult, SandboxStep } from './sandbox.js';
+
+// Bases
+export { materializeBase } from './base.js';
+
+// Actions
+export { executeActions, evaluateAcceptanceTests, resolveWorkspacePath } from './actions.js';
+export type { ActionExecution } from './actions.js';
+
+// Isolation
+export { detectIsolation, resolveIsolation, wrapIsolatedCommand } from './isolation.js';
+export type { IsolationSupport, IsolationResolution } from './isolation.js';
+
+// Limits
+export { buildSandboxEnv, detectLimits, resolveLimits, wrapLimitedCommand, classifyTermination } from './limits.js';
+export type { LimitsSupport, LimitsResolution, ProcessEnd, TerminationClassification } from './limits.js';
+
+// Model record/replay
+export { openModelSession, assistBundle, loadModelIO, toModelIOSession, fromModelIOSession } from './model_assist.js';
+export type { AssistIntent, ModelSession } from './model_assist.js';
 
 // Evidence
 export { buildKernelEvidence, hashFile, hashContent } from './evidence.js';
 
 // Ledger
-export { createLedgerEntry, serializeLedgerEntry, appendToLedger, appendHarnessResult, getDefaultLedgerPath } from './ledger.js';
+export {
+  createLedgerEntry,
+  createLedgerCheckpoint,
+  chainLedgerRecord,
+  serializeLedgerEntry,
+  appendToLedger,
+  appendHarnessResult,
+  getDefaultLedgerPath,
+} from './ledger.js';
+export type { LedgerAppendOptions } from './ledger.js';
 
 // Main runner
 export { runHarness } from './run_intent.js';
@@ -41,8 +93,8 @@ export { exportPack } from './pack_export.js';
 export type { ExportPackArgs, ExportPackResult, PackExportMode } from './pack_export.js';
 
 // Pack apply
-export { applyPatch, applyPatchToDir } from './pack_apply.js';
-export type { ApplyPackArgs } from './pack_apply.js';
+export { applyPatch, applyPatchToDir, verifyPatchBases, undoApply } from './pack_apply.js';
+export type { ApplyPackArgs, UndoApplyArgs } from './pack_apply.js';
 
 // Git apply
 export { applyPackToGitRepo, GIT_APPLY_SCHEMA_VERSION } from './git_apply.js';
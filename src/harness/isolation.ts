@@ -0,0 +1,241 @@
+/**
+ * Sandbox Isolation
+ * =================
+ *
+ * Linux namespace backend for sandbox commands.
+ *
+ * Commands run under `unshare` in fresh user, network and mount
+ * namespaces:
+ * - network: only an unconfigured loopback, so sockets cannot leave the
+ *   sandbox (skipped when the policy allows network)
+ * - mount: the command runs in a minimal root, a read-only tmpfs holding
+ *   read-only binds of the system directories (SYSTEM_DIRS and node's
+ *   install prefix), a few device nodes and the sandbox at its host path.
+ *   The sandbox is read-only except for each allowed write root, bound
+ *   writable on top. Nothing else on the host is visible, not even /proc
+ *   (so process.execPath is not resolved), and the command can neither
+ *   read nor write outside the sandbox and the system directories
+ * - user: the caller maps to root inside the namespace, which is what
+ *   permits the mounts without privileges
+ *
+ * The mounts exist only inside the namespace; nothing changes on the host.
+ */
+
+import { spawnSync } from 'node:child_process';
+import { dirname, isAbsolute } from 'node:path';
+
+import type { PolicyProfile, SandboxIsolation } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Whether the namespace backend works on this host.
+ */
+export interface IsolationSupport {
+  /**
+   * True if user, network and mount namespaces can be created and a
+   * minimal root pivoted into.
+   */
+  available: boolean;
+
+  /**
+   * Why the backend is unavailable.
+   */
+  reason?: string;
+}
+
+/**
+ * Isolation backend chosen for a policy, or why the policy cannot run.
+ */
+export type IsolationResolution =
+  | { ok: true; mode: SandboxIsolation }
+  | { ok: false; error: string };
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/**
+ * Namespace flags for unshare (network added unless allowed).
+ */
+const NAMESPACE_FLAGS = ['--user', '--map-root-user', '--mount'];
+
+/**
+ * Probe: a read-only tmpfs root must be pivotable, with /proc bound in for
+ * the setup's final unmounts.
+ */
+const PROBE_SCRIPT = [
+  'mount -t tmpfs tmpfs /tmp',
+  'mkdir /tmp/proc /tmp/old',
+  'mount --rbind /proc /tmp/proc',
+  'mount -o remount,bind,ro /tmp',
+  'cd /tmp',
+  'pivot_root . old',
+].join(' && ');
+
+/**
+ * Host directories bound read-only into the minimal root. Missing ones are
+ * skipped; symlinks (merged /usr) are recreated as symlinks.
+ */
+const SYSTEM_DIRS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc'];
+
+let cachedSupport: IsolationSupport | undefined;
+
+/**
+ * Detect whether the namespace backend is available. The probe runs once
+ * per process.
+ *
+ * @returns Isolation support
+ */
+export function detectIsolation(): IsolationSupport {
+  if (cachedSupport) {
+    return cachedSupport;
+  }
+
+  if (process.platform !== 'linux') {
+    cachedSupport = { available: false, reason: `namespaces require linux (platform: ${process.platform})` };
+    return cachedSupport;
+  }
+
+  const probe = spawnSync('unshare', [...NAMESPACE_FLAGS, '--net', '--', 'sh', '-c', PROBE_SCRIPT], {
+    stdio: ['ignore', 'ignore', 'pipe'],
+    encoding: 'utf8',
+    timeout: 10_000,
+  });
+
+  if (probe.error) {
+    cachedSupport = { available: false, reason: `unshare failed: ${probe.error.message}` };
+  } else if (probe.status !== 0) {
+    const detail = probe.stderr?.trim().split('\n')[0] || `exit code ${probe.status}`;
+    cachedSupport = { available: false, reason: `unshare failed: ${detail}` };
+  } else {
+    cachedSupport = { available: true };
+  }
+  return cachedSupport;
+}
+
+/**
+ * Choose the isolation backend for a policy.
+ *
+ * - 'none': plain child process
+ * - 'best_effort': namespaces when available, otherwise plain
+ * - 'strict': namespaces, or refuse (PL8)
+ *
+ * @param policy - Policy profile
+ * @param support - Host support (defaults to detectIsolation())
+ * @returns Backend to use, or a POLICY_VIOLATION error
+ */
+export function resolveIsolation(
+  policy: PolicyProfile,
+  support: IsolationSupport = detectIsolation()
+): IsolationResolution {
+  if (policy.isolation === 'none') {
+    return { ok: true, mode: 'none' };
+  }
+  if (support.available) {
+    return { ok: true, mode: 'namespaces' };
+  }
+  if (policy.isolation === 'best_effort') {
+    return { ok: true, mode: 'none' };
+  }
+  return {
+    ok: false,
+    error: `POLICY_VIOLATION: PL8: strict isolation unavailable: ${support.reason ?? 'unknown reason'}`,
+  };
+}
+
+// =============================================================================
+// Command Wrapping
+// =============================================================================
+
+/**
+ * Mount setup run inside the namespaces before exec'ing the command.
+ *
+ * The new root is a tmpfs mounted over the sandbox path; the shell's cwd
+ * still refers to the sandbox underneath, so binding "." (uncanonicalized)
+ * places the sandbox at its host path inside the new root. The host /proc
+ * is bound in only because umount and remount read the mount table; it is
+ * detached with the old root before the exec, leaving /proc empty. The
+ * final cd enters the working directory through the new mounts.
+ *
+ * Arguments: sandbox dir, read-only flag (1/0), working directory
+ * (relative to the sandbox), write roots..., "--", system dirs..., "--",
+ * command...
+ */
+const SETUP_SCRIPT = [
+  'set -e',
+  'sb="$1"; ro="$2"; wd="$3"; shift 3',
+  'cd "$sb"',
+  'mount -t tmpfs -o mode=0755 tmpfs "$sb"',
+  'mkdir -p "$sb$sb"',
+  'mount --no-canonicalize --bind . "$sb$sb"',
+  'while [ "$1" != "--" ]; do',
+  '  mkdir -p "$sb$sb/$1"',
+  '  mount --bind "$sb$sb/$1" "$sb$sb/$1"',
+  '  shift',
+  'done',
+  'shift',
+  'if [ "$ro" = 1 ]; then mount -o remount,bind,ro "$sb$sb"; fi',
+  'while [ "$1" != "--" ]; do',
+  '  if [ -L "$1" ]; then',
+  '    mkdir -p "$sb$(dirname "$1")"; ln -s "$(readlink "$1")" "$sb$1"',
+  '  elif [ -d "$1" ]; then',
+  '    mkdir -p "$sb$1"; mount --bind "$1" "$sb$1"; mount -o remount,bind,ro "$sb$1"',
+  '  fi',
+  '  shift',
+  'done',
+  'shift',
+  'mkdir -p "$sb/dev" "$sb/proc" "$sb/.old"',
+  'for d in null zero random urandom; do touch "$sb/dev/$d"; mount --bind "/dev/$d" "$sb/dev/$d"; done',
+  'mount --rbind /proc "$sb/proc"',
+  'cd "$sb"',
+  'pivot_root . .old',
+  'umount -l /.old',
+  'rmdir /.old',
+  'mount -o remount,bind,ro /',
+  'umount -l /proc',
+  'cd "$sb/$wd"',
+  'exec "$@"',
+].join('\n');
+
+/**
+ * System directories to bind, plus node's install prefix (node and npm)
+ * unless a system directory already covers it.
+ */
+function systemDirs(): string[] {
+  const prefix = dirname(dirname(process.execPath));
+  const covered = prefix === '/' || SYSTEM_DIRS.some((dir) => prefix === dir || prefix.startsWith(dir + '/'));
+  return covered ? SYSTEM_DIRS : [...SYSTEM_DIRS, prefix];
+}
+
+/**
+ * Wrap a command to run in the namespace backend.
+ *
+ * An empty allowed_write_roots list (dev) leaves the whole sandbox
+ * writable. Write roots that are absolute or traverse are dropped.
+ *
+ * @param sandboxDir - Sandbox root directory
+ * @param cmd - Command array (first element is executable)
+ * @param policy - Policy profile
+ * @param workdir - Working directory relative to the sandbox (default: root)
+ * @returns Command array to spawn
+ */
+export function wrapIsolatedCommand(
+  sandboxDir: string,
+  cmd: string[],
+  policy: PolicyProfile,
+  workdir = '.'
+): string[] {
+  const flags = policy.allow_network ? NAMESPACE_FLAGS : [...NAMESPACE_FLAGS, '--net'];
+  const roots = policy.allowed_write_roots.filter(
+    (root) => root.length > 0 && !isAbsolute(root) && !root.split('/').includes('..')
+  );
+  const readOnly = policy.allowed_write_roots.length > 0 ? '1' : '0';
+
+  return [
+    'unshare', ...flags, '--', 'sh', '-c', SETUP_SCRIPT, 'sandbox',
+    sandboxDir, readOnly, workdir, ...roots, '--', ...systemDirs(), '--', ...cmd,
+  ];
+}
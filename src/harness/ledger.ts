@@ -3,21 +3,30 @@
  * ==============
  *
  * Append-only ledger for harness runs.
- * Each entry is one JSON line (JSONL format).
+ * Each record is one JSON line (JSONL format).
  *
  * Ledger entries reference:
  * - intent_sha256
  * - bundle_sha256 (if produced)
  * - decision (accepted/rejected)
  *
+ * Records form a hash chain: each carries the entry_hash of the record
+ * before it (prev_entry_hash) and its own entry_hash, so editing,
+ * deleting or reordering records is detectable (LEDGER_SPEC.md §5).
+ * Optional checkpoint records seal every N entries with a Merkle root.
+ * Entries written before the chain existed are left as an unchained
+ * legacy prefix; the chain starts after them (LEDGER_SPEC.md §6.4).
+ *
  * The ledger is separate from kernel artifacts and is for harness audit only.
  */
 
-import { appendFile, mkdir } from 'node:fs/promises';
-import { join, dirname } from 'node:path';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
 
 import { canonicalize } from '../utils/canonical.js';
-import type { LedgerEntry, HarnessRunResult } from './types.js';
+import { computeEntryHash, computeMerkleRoot } from '../consumer/ledger_verify.js';
+import { policyName } from './policy.js';
+import type { LedgerEntry, LedgerCheckpoint, LedgerRecord, HarnessRunResult, ContentHash } from './types.js';
 
 // =============================================================================
 // Ledger Configuration
@@ -32,55 +41,181 @@ const DEFAULT_LEDGER_PATH = 'artifacts/harness/ledger.jsonl';
 // Ledger Operations
 // =============================================================================
 
+/**
+ * Options for appending to the ledger.
+ */
+export interface LedgerAppendOptions {
+  /**
+   * Append a checkpoint record after every N entries (no checkpoints if
+   * unset).
+   */
+  checkpointInterval?: number;
+}
+
+/**
+ * Link a record to its predecessor and seal it with its entry hash.
+ *
+ * @param record - Record (any existing chain fields are replaced)
+ * @param prevEntryHash - entry_hash of the preceding record (null for the first)
+ * @returns Chained record
+ */
+export function chainLedgerRecord<T extends LedgerRecord>(
+  record: Omit<T, 'prev_entry_hash' | 'entry_hash'> | T,
+  prevEntryHash: ContentHash | null
+): T {
+  const { entry_hash: _entryHash, ...fields } = record as T;
+  const linked = { ...fields, prev_entry_hash: prevEntryHash };
+  return { ...linked, entry_hash: computeEntryHash(linked) } as T;
+}
+
 /**
  * Create a ledger entry from harness run result.
  *
  * @param result - Harness run result
+ * @param prevEntryHash - entry_hash of the preceding record (default: null)
  * @returns Ledger entry
  */
-export function createLedgerEntry(result: HarnessRunResult): LedgerEntry {
-  return {
-    run_id: result.run_id,
-    timestamp: result.completed_at,
-    intent_sha256: result.intent.sha256,
-    bundle_sha256: result.bundle?.sha256 ?? null,
-    result_kind: result.kernel_result_kind,
-    accepted: result.decision.accepted,
-    mode: result.policy.name === 'strict' ? 'execute-sandbox' : 'plan-only', // Simplified
-    policy: result.policy.name,
-  };
+export function createLedgerEntry(result: HarnessRunResult, prevEntryHash: ContentHash | null = null): LedgerEntry {
+  return chainLedgerRecord<LedgerEntry>(
+    {
+      run_id: result.run_id,
+      timestamp: result.completed_at,
+      intent_sha256: result.intent.sha256,
+      bundle_sha256: result.bundle?.sha256 ?? null,
+      result_kind: result.kernel_result_kind,
+      accepted: result.decision.accepted,
+      mode: result.execution ? 'execute-sandbox' : 'plan-only',
+      policy: policyName(result.policy),
+      policy_sha256: result.policy_sha256,
+    },
+    prevEntryHash
+  );
+}
+
+/**
+ * Create a checkpoint record over the entries since the previous
+ * checkpoint.
+ *
+ * @param entryHashes - entry_hash of each covered entry, in ledger order
+ * @param entriesTotal - Number of entries in the ledger up to the checkpoint
+ * @param timestamp - Checkpoint timestamp (ISO 8601 UTC)
+ * @param prevEntryHash - entry_hash of the preceding record
+ * @returns Checkpoint record
+ */
+export function createLedgerCheckpoint(
+  entryHashes: readonly ContentHash[],
+  entriesTotal: number,
+  timestamp: string,
+  prevEntryHash: ContentHash | null
+): LedgerCheckpoint {
+  return chainLedgerRecord<LedgerCheckpoint>(
+    {
+      record_type: 'checkpoint',
+      timestamp,
+      entry_count: entryHashes.length,
+      entries_total: entriesTotal,
+      merkle_root: computeMerkleRoot(entryHashes),
+    },
+    prevEntryHash
+  );
 }
 
 /**
- * Serialize ledger entry to canonical JSON line.
+ * Serialize ledger record to canonical JSON line.
  * Uses canonical JSON for deterministic output.
  *
- * @param entry - Ledger entry
+ * @param entry - Ledger entry or checkpoint
  * @returns JSON line (no trailing newline)
  */
-export function serializeLedgerEntry(entry: LedgerEntry): string {
+export function serializeLedgerEntry(entry: LedgerRecord): string {
   return canonicalize(entry);
 }
 
 /**
- * Append entry to ledger file.
+ * Chain state at the end of an existing ledger file.
+ */
+interface LedgerTail {
+  head: ContentHash | null;
+  entriesTotal: number;
+  sinceCheckpoint: ContentHash[];
+}
+
+/**
+ * Read the chain state at the end of a ledger file. A legacy prefix of
+ * unchained entries is skipped, so the first chained record after it
+ * starts the chain.
+ *
+ * @throws Error if an unchained record follows a chained one
+ */
+async function readLedgerTail(ledgerPath: string): Promise<LedgerTail> {
+  const tail: LedgerTail = { head: null, entriesTotal: 0, sinceCheckpoint: [] };
+
+  let content: string;
+  try {
+    content = await readFile(ledgerPath, 'utf-8');
+  } catch {
+    return tail;
+  }
+
+  for (const line of content.split('\n')) {
+    if (line.trim() === '') continue;
+    let record: Partial<LedgerRecord>;
+    try {
+      record = JSON.parse(line) as Partial<LedgerRecord>;
+    } catch {
+      throw new Error(`Cannot append to ledger ${ledgerPath}: record is not valid JSON`);
+    }
+    if (typeof record.entry_hash !== 'string') {
+      if (tail.head === null && !('prev_entry_hash' in record) && !('record_type' in record)) {
+        continue; // Legacy prefix
+      }
+      throw new Error(`Cannot append to ledger ${ledgerPath}: record has no entry_hash (broken chain)`);
+    }
+    tail.head = record.entry_hash;
+    if ('record_type' in record && record.record_type === 'checkpoint') {
+      tail.sinceCheckpoint = [];
+    } else {
+      tail.entriesTotal++;
+      tail.sinceCheckpoint.push(record.entry_hash);
+    }
+  }
+
+  return tail;
+}
+
+/**
+ * Append entry to ledger file, linking it to the current last record.
  * Creates directories if needed.
  *
- * @param entry - Ledger entry to append
+ * @param entry - Ledger entry to append (re-chained to the file's head)
  * @param ledgerPath - Path to ledger file (default: artifacts/harness/ledger.jsonl)
+ * @param options - Append options
+ * @returns The entry as written
+ * @throws Error if the existing ledger cannot be chained to
  */
 export async function appendToLedger(
   entry: LedgerEntry,
-  ledgerPath: string = DEFAULT_LEDGER_PATH
-): Promise<void> {
+  ledgerPath: string = DEFAULT_LEDGER_PATH,
+  options: LedgerAppendOptions = {}
+): Promise<LedgerEntry> {
   // Ensure directory exists
   await mkdir(dirname(ledgerPath), { recursive: true });
 
-  // Serialize to canonical JSON
-  const line = serializeLedgerEntry(entry);
+  const tail = await readLedgerTail(ledgerPath);
+  const chained = chainLedgerRecord<LedgerEntry>(entry, tail.head);
+  let lines = serializeLedgerEntry(chained) + '\n';
+
+  // Seal the entries since the previous checkpoint
+  const pending = [...tail.sinceCheckpoint, chained.entry_hash];
+  const interval = options.checkpointInterval;
+  if (interval !== undefined && interval > 0 && pending.length >= interval) {
+    const checkpoint = createLedgerCheckpoint(pending, tail.entriesTotal + 1, chained.timestamp, chained.entry_hash);
+    lines += serializeLedgerEntry(checkpoint) + '\n';
+  }
 
-  // Append with newline
-  await appendFile(ledgerPath, line + '\n', 'utf-8');
+  // Append records in one write
+  await appendFile(ledgerPath, lines, 'utf-8');
+  return chained;
 }
 
 /**
@@ -89,13 +224,16 @@ export async function appendToLedger(
  *
  * @param result - Harness run result
  * @param ledgerPath - Path to ledger file (optional)
+ * @param options - Append options
+ * @returns The entry as written
  */
 export async function appendHarnessResult(
   result: HarnessRunResult,
-  ledgerPath?: string
-): Promise<void> {
+  ledgerPath?: string,
+  options?: LedgerAppendOptions
+): Promise<LedgerEntry> {
   const entry = createLedgerEntry(result);
-  await appendToLedger(entry, ledgerPath);
+  return appendToLedger(entry, ledgerPath, options);
 }
 
 /**
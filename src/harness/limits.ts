@@ -0,0 +1,291 @@
+/**
+ * Sandbox Limits
+ * ==============
+ *
+ * Environment allowlisting and resource limits for sandbox commands.
+ *
+ * Commands run under `prlimit` with per-process rlimits from the policy:
+ * - RLIMIT_DATA (max_memory_bytes): RLIMIT_AS is not used because V8
+ *   reserves far more address space than it commits
+ * - RLIMIT_CPU (max_cpu_seconds): SIGXCPU at the limit, SIGKILL one
+ *   second later
+ * - RLIMIT_NPROC (max_processes): counted per UID across every process
+ *   of the user, not per sandbox, and has no effect when the harness runs
+ *   as root
+ * - RLIMIT_NOFILE (max_open_files)
+ *
+ * Limits are inherited, so they bound every process the command spawns.
+ * Without prlimit (or off Linux) commands run unlimited and the run
+ * records the limits as unenforced; a policy with strict isolation
+ * refuses instead.
+ * Exceeding one is reported as a termination reason, classified from the
+ * exit signal or status, or failing that from the failure the runtime
+ * prints to stderr, in which case the reason is marked as inferred.
+ */
+
+import { spawnSync } from 'node:child_process';
+import { constants } from 'node:os';
+
+import type { PolicyProfile, SandboxTermination } from './types.js';
+
+// =============================================================================
+// Environment
+// =============================================================================
+
+/**
+ * Build the environment for a sandbox command.
+ *
+ * Only allowlisted host variables are passed (all of them for dev with an
+ * empty allowlist). HOME and TMPDIR point into the sandbox and proxies are
+ * cleared regardless of the allowlist.
+ *
+ * @param sandboxDir - Sandbox root directory
+ * @param policy - Policy profile
+ * @param hostEnv - Host environment (defaults to process.env)
+ * @returns Environment for spawn
+ */
+export function buildSandboxEnv(
+  sandboxDir: string,
+  policy: PolicyProfile,
+  hostEnv: NodeJS.ProcessEnv = process.env
+): NodeJS.ProcessEnv {
+  const inheritAll = policy.name === 'dev' && policy.env_allowlist.length === 0;
+  const env: NodeJS.ProcessEnv = {};
+
+  for (const name of inheritAll ? Object.keys(hostEnv) : policy.env_allowlist) {
+    const value = hostEnv[name];
+    if (value !== undefined) {
+      env[name] = value;
+    }
+  }
+
+  return {
+    ...env,
+    // Restrict HOME and TMPDIR to sandbox
+    HOME: sandboxDir,
+    TMPDIR: sandboxDir,
+    // Clear network-related env vars
+    http_proxy: '',
+    https_proxy: '',
+    HTTP_PROXY: '',
+    HTTPS_PROXY: '',
+    no_proxy: '*',
+    NO_PROXY: '*',
+  };
+}
+
+// =============================================================================
+// Resource Limits
+// =============================================================================
+
+/**
+ * Whether rlimits can be applied on this host.
+ */
+export interface LimitsSupport {
+  /**
+   * True if prlimit runs.
+   */
+  available: boolean;
+
+  /**
+   * Why limits are unavailable.
+   */
+  reason?: string;
+}
+
+/**
+ * Whether a policy's limits are enforced, or why the policy cannot run.
+ */
+export type LimitsResolution =
+  | { ok: true; enforced: boolean }
+  | { ok: false; error: string };
+
+let cachedSupport: LimitsSupport | undefined;
+
+/**
+ * Detect whether prlimit is available. The probe runs once per process.
+ *
+ * @returns Limits support
+ */
+export function detectLimits(): LimitsSupport {
+  if (cachedSupport) {
+    return cachedSupport;
+  }
+
+  if (process.platform !== 'linux') {
+    cachedSupport = { available: false, reason: `rlimits require linux (platform: ${process.platform})` };
+    return cachedSupport;
+  }
+
+  const probe = spawnSync('prlimit', ['--nofile', '--', 'true'], {
+    stdio: ['ignore', 'ignore', 'pipe'],
+    encoding: 'utf8',
+    timeout: 10_000,
+  });
+
+  if (probe.error) {
+    cachedSupport = { available: false, reason: `prlimit failed: ${probe.error.message}` };
+  } else if (probe.status !== 0) {
+    const detail = probe.stderr?.trim().split('\n')[0] || `exit code ${probe.status}`;
+    cachedSupport = { available: false, reason: `prlimit failed: ${detail}` };
+  } else {
+    cachedSupport = { available: true };
+  }
+  return cachedSupport;
+}
+
+/**
+ * Decide whether a policy's limits are enforced.
+ *
+ * Limits apply whenever prlimit is available. Without it, a policy with
+ * strict isolation refuses (PL6); any other policy runs unlimited.
+ *
+ * @param policy - Policy profile
+ * @param support - Host support (defaults to detectLimits())
+ * @returns Whether limits are enforced, or a POLICY_VIOLATION error
+ */
+export function resolveLimits(
+  policy: PolicyProfile,
+  support: LimitsSupport = detectLimits()
+): LimitsResolution {
+  if (support.available) {
+    return { ok: true, enforced: true };
+  }
+  if (policy.isolation !== 'strict') {
+    return { ok: true, enforced: false };
+  }
+  return {
+    ok: false,
+    error: `POLICY_VIOLATION: PL6: resource limits unavailable: ${support.reason ?? 'unknown reason'}`,
+  };
+}
+
+/**
+ * Wrap a command to run under the policy's rlimits.
+ *
+ * @param cmd - Command array (first element is executable)
+ * @param policy - Policy profile
+ * @returns Command array to spawn
+ */
+export function wrapLimitedCommand(cmd: string[], policy: PolicyProfile): string[] {
+  return [
+    'prlimit',
+    `--data=${policy.max_memory_bytes}`,
+    `--cpu=${policy.max_cpu_seconds}:${policy.max_cpu_seconds + 1}`,
+    `--nproc=${policy.max_processes}`,
+    `--nofile=${policy.max_open_files}`,
+    '--',
+    ...cmd,
+  ];
+}
+
+/**
+ * Exit status of a shell whose child was killed by a signal (128 + signo).
+ */
+const SIGNAL_STATUS_BASE = 128;
+
+/**
+ * Stderr markers of allocation failures (V8, C++ runtimes, libc).
+ */
+const MEMORY_MARKERS = /out of memory|Array buffer allocation failed|std::bad_alloc|Cannot allocate memory|\bENOMEM\b/i;
+
+/**
+ * Stderr markers of fork/spawn failures at the process limit.
+ */
+const PROCESS_MARKERS = /\b(?:fork|spawn)\b[^\n]*(?:\bEAGAIN\b|Resource temporarily unavailable)|Cannot fork/i;
+
+/**
+ * Stderr markers of descriptor exhaustion.
+ */
+const OPEN_FILES_MARKERS = /\bEMFILE\b|Too many open files/i;
+
+/**
+ * How a sandbox process ended.
+ */
+export interface ProcessEnd {
+  /**
+   * Exit code, or null if killed by a signal.
+   */
+  code: number | null;
+
+  /**
+   * Signal that killed the process, or null.
+   */
+  signal: NodeJS.Signals | null;
+
+  /**
+   * Whether the harness killed it at timeout_ms.
+   */
+  timed_out: boolean;
+
+  /**
+   * Whether it ran under the policy's rlimits.
+   */
+  limits_enforced: boolean;
+
+  /**
+   * Captured stderr.
+   */
+  stderr: string;
+}
+
+/**
+ * Why a sandbox process ended, and whether that was inferred from stderr.
+ */
+export interface TerminationClassification {
+  /**
+   * Termination reason.
+   */
+  termination: SandboxTermination;
+
+  /**
+   * True if the reason was inferred from stderr rather than the signal or
+   * exit status.
+   */
+  inferred: boolean;
+}
+
+/**
+ * Whether a process was killed by a signal, directly or as the exit status
+ * of a shell whose child it killed.
+ */
+function killedBy(end: ProcessEnd, signal: NodeJS.Signals): boolean {
+  return end.signal === signal || end.code === SIGNAL_STATUS_BASE + constants.signals[signal];
+}
+
+/**
+ * Classify why a sandbox process ended.
+ *
+ * The signal or exit status decides first: successful exits are always
+ * 'exit', and under enforced limits SIGXCPU, or SIGKILL at the hard CPU
+ * limit, is 'cpu_limit'. Only then, for a failed process under enforced
+ * limits, is the memory, process or open-files limit inferred from the
+ * failure its runtime prints to stderr; such a reason is marked inferred.
+ * Otherwise it is 'signal' or 'exit'.
+ *
+ * @param end - How the process ended
+ * @returns Termination reason and whether it was inferred
+ */
+export function classifyTermination(end: ProcessEnd): TerminationClassification {
+  if (end.timed_out) {
+    return { termination: 'timeout', inferred: false };
+  }
+  if (end.code === 0 && end.signal === null) {
+    return { termination: 'exit', inferred: false };
+  }
+  if (end.limits_enforced && (killedBy(end, 'SIGXCPU') || killedBy(end, 'SIGKILL'))) {
+    return { termination: 'cpu_limit', inferred: false };
+  }
+  if (end.limits_enforced) {
+    if (MEMORY_MARKERS.test(end.stderr)) {
+      return { termination: 'memory_limit', inferred: true };
+    }
+    if (PROCESS_MARKERS.test(end.stderr)) {
+      return { termination: 'process_limit', inferred: true };
+    }
+    if (OPEN_FILES_MARKERS.test(end.stderr)) {
+      return { termination: 'open_files_limit', inferred: true };
+    }
+  }
+  return { termination: end.signal === null ? 'exit' : 'signal', inferred: false };
+}
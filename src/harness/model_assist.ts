@@ -0,0 +1,251 @@
+/**
+ * Model Record/Replay
+ * ===================
+ *
+ * Routes a run's clarification (G0) and blueprint (G1) generation through
+ * a model adapter when the policy allows a model mode (dev only, PL4):
+ * - record: a RecordingModelAdapter wraps the delegate adapter, and the
+ *   session is written to the recording path as MODEL_IO_SPEC model_io.json
+ * - replay: a ReplayModelAdapter serves the responses of a model_io.json in
+ *   recorded order, so the run reproduces the recorded bundle byte for byte
+ *
+ * The model output is attached to the bundle as advisory `model_assist`;
+ * the kernel's decisions never depend on it.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+
+import { withModelAssist } from '../assembler/bundle.js';
+import { createAutoAdapter } from '../adapters/factory.js';
+import { RecordingModelAdapter, ReplayModelAdapter } from '../adapters/recording.js';
+import type { ModelAdapter, RecordingSession } from '../adapters/model.js';
+import { ClarifierGenerator } from '../generators/clarifier.js';
+import { BlueprintGenerator } from '../generators/blueprint.js';
+import type { GeneratorContext } from '../generators/types.js';
+import { verifyModelIO } from '../consumer/model_io_verify.js';
+import { MODEL_IO_SCHEMA_VERSION, type ModelIOSession } from '../consumer/model_io_types.js';
+import type { Bundle, ModelAssist } from '../types/artifacts.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Intent as loaded by the harness.
+ */
+export interface AssistIntent {
+  goal: string;
+  constraints?: string[];
+  context?: Record<string, unknown>;
+}
+
+/**
+ * An open record or replay session.
+ */
+export interface ModelSession {
+  /**
+   * Adapter the generators call.
+   */
+  adapter: ModelAdapter;
+
+  /**
+   * The session as MODEL_IO_SPEC model_io.json: the interactions recorded
+   * so far (record), or the recording being replayed (replay).
+   */
+  toModelIO(): ModelIOSession;
+}
+
+// =============================================================================
+// Sessions
+// =============================================================================
+
+/**
+ * Convert a recording to a MODEL_IO_SPEC session.
+ *
+ * @param recording - Recording exported by RecordingModelAdapter
+ * @param adapterId - ID of the adapter that was recorded
+ * @returns Model IO session (mode 'record')
+ */
+export function toModelIOSession(recording: RecordingSession, adapterId: string): ModelIOSession {
+  return {
+    model_io_schema_version: MODEL_IO_SCHEMA_VERSION,
+    adapter_id: adapterId,
+    model_id: recording.model_id,
+    mode: 'record',
+    interactions: recording.interactions.map((interaction, i) => ({
+      i,
+      prompt_hash: `sha256:${interaction.prompt_hash}`,
+      response_hash: `sha256:${createHash('sha256').update(interaction.result.content, 'utf-8').digest('hex')}`,
+      response_content: interaction.result.content,
+      ...(interaction.result.tool_calls && { tool_calls: interaction.result.tool_calls }),
+      tokens_input: interaction.result.tokens_input,
+      tokens_output: interaction.result.tokens_output,
+      latency_ms: interaction.result.latency_ms,
+    })),
+    created_at_utc: recording.started_at,
+    ended_at_utc: recording.ended_at,
+    stats: recording.stats,
+  };
+}
+
+/**
+ * Convert a MODEL_IO_SPEC session back to a recording for replay.
+ *
+ * @param session - Verified model IO session
+ * @returns Recording (prompts are not part of model_io.json)
+ */
+export function fromModelIOSession(session: ModelIOSession): RecordingSession {
+  const startedAt = session.created_at_utc ?? '1970-01-01T00:00:00.000Z';
+  return {
+    format_version: '1.0',
+    started_at: startedAt,
+    ended_at: session.ended_at_utc ?? startedAt,
+    model_id: session.model_id,
+    interactions: session.interactions.map((interaction) => ({
+      sequence: interaction.i,
+      prompt_hash: interaction.prompt_hash.slice('sha256:'.length),
+      prompt: '',
+      context: { intent_id: '', run_id: '', mode: 'plan-only', constraints: [], metadata: {} },
+      result: {
+        content: interaction.response_content,
+        ...(interaction.tool_calls && { tool_calls: interaction.tool_calls }),
+        tokens_input: interaction.tokens_input ?? 0,
+        tokens_output: interaction.tokens_output ?? 0,
+        latency_ms: interaction.latency_ms ?? 0,
+        model_version: session.model_id,
+        from_cache: true,
+      },
+      recorded_at: startedAt,
+    })),
+    stats: session.stats ?? {
+      total_interactions: session.interactions.length,
+      total_tokens_input: 0,
+      total_tokens_output: 0,
+      total_latency_ms: 0,
+    },
+  };
+}
+
+/**
+ * Load and verify a model_io.json recording.
+ *
+ * @param path - Path to the recording
+ * @returns Verified session
+ * @throws Error if the file is not a valid MODEL_IO_SPEC session
+ */
+export async function loadModelIO(path: string): Promise<ModelIOSession> {
+  const session = JSON.parse(await readFile(path, 'utf-8')) as unknown;
+  const verification = verifyModelIO(session);
+  if (!verification.ok) {
+    const first = verification.violations[0]!;
+    throw new Error(`Invalid model recording: ${first.rule_id}: ${first.message}`);
+  }
+  return session as ModelIOSession;
+}
+
+/**
+ * Open a record or replay session.
+ *
+ * @param mode - Model mode
+ * @param recordingPath - Recording to replay (replay only)
+ * @param delegate - Adapter to record (record only; default: the provider
+ *   configured in the environment, see createAutoAdapter)
+ * @returns Open session
+ */
+export async function openModelSession(
+  mode: 'record' | 'replay',
+  recordingPath: string,
+  delegate?: ModelAdapter
+): Promise<ModelSession> {
+  if (mode === 'replay') {
+    const session = await loadModelIO(recordingPath);
+    return {
+      adapter: new ReplayModelAdapter(fromModelIOSession(session), { sequential: true }),
+      toModelIO: () => session,
+    };
+  }
+
+  const recorded = delegate ?? (await createAutoAdapter());
+  const recorder = new RecordingModelAdapter(recorded);
+  return {
+    adapter: recorder,
+    toModelIO: () => toModelIOSession(recorder.exportSession(), recorded.adapter_id),
+  };
+}
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+/**
+ * Run the clarifier and, for a complete bundle, the blueprint generator
+ * through the adapter, and attach their output to the bundle. Prompts
+ * depend only on the intent and the bundle's answers, so a replay sends
+ * the same prompts in the same order.
+ *
+ * @param bundle - Bundle from the kernel
+ * @param intent - Intent the bundle was transformed from
+ * @param adapter - Adapter of the open session
+ * @param runId - Run ID (for adapter audit context only)
+ * @returns Bundle with model_assist
+ */
+export async function assistBundle(
+  bundle: Bundle,
+  intent: AssistIntent,
+  adapter: ModelAdapter,
+  runId: string
+): Promise<Bundle> {
+  const context = (mode: GeneratorContext['mode']): GeneratorContext => ({
+    run_id: runId,
+    intent_id: bundle.source_intent_hash,
+    mode,
+    constraints: intent.constraints ?? [],
+    working_dir: '.',
+    metadata: {},
+  });
+
+  const clarifier = await new ClarifierGenerator().generate(
+    {
+      goal: intent.goal,
+      ...(intent.constraints && { constraints: intent.constraints }),
+      ...(intent.context && { context: intent.context }),
+    },
+    adapter,
+    context('clarify')
+  );
+
+  const questions = [...clarifier.result.questions].sort((a, b) =>
+    a.priority !== b.priority ? a.priority - b.priority : a.question < b.question ? -1 : a.question > b.question ? 1 : 0
+  );
+  const assist: ModelAssist = {
+    model_id: adapter.model_id,
+    clarification: {
+      needs_clarification: clarifier.result.needs_clarification,
+      questions: questions.map((q) => q.question),
+      parsed: clarifier.parsed,
+    },
+  };
+
+  if (bundle.unresolved_questions.length === 0) {
+    const clarifications = bundle.resolved_answers?.map((r) => [r.question_text, r.answer] as const);
+    const blueprint = await new BlueprintGenerator().generate(
+      {
+        goal: intent.goal,
+        constraints: intent.constraints ?? [],
+        context: intent.context ?? {},
+        ...(clarifications && { clarifications: Object.fromEntries(clarifications) }),
+      },
+      adapter,
+      context('plan-only')
+    );
+    assist.blueprint = {
+      title: blueprint.result.blueprint.title,
+      complexity: blueprint.result.blueprint.complexity,
+      components: blueprint.result.blueprint.components.map((c) => c.name),
+      parsed: blueprint.parsed,
+    };
+  }
+
+  return withModelAssist(bundle, assist);
+}
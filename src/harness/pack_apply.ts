@@ -11,6 +11,9 @@
  * - Deterministic: same inputs → byte-identical report
  * - Auditable: before/after hashes for every operation
  * - Compliant: validates patch before application
+ * - Anchored: hunk and rename operations refuse unless the file matches base_hash
+ * - Reversible: an optional rollback journal holds every touched file's
+ *   pre-image, and undoApply restores them
  * - No absolute paths: reports use relative paths only
  */
 
@@ -21,13 +24,19 @@ import {
   readFileSync,
   writeFileSync,
   unlinkSync,
+  rmSync,
   readdirSync,
+  renameSync,
+  chmodSync,
 } from 'node:fs';
-import { join, resolve, dirname, relative, isAbsolute } from 'node:path';
+import { join, resolve, dirname, relative, isAbsolute, basename, sep } from 'node:path';
 import { createHash } from 'node:crypto';
 
 import { verifyPatch } from '../consumer/patch_verify.js';
-import { canonicalize } from '../utils/canonical.js';
+import { applyHunks } from '../consumer/patch_hunks.js';
+import { verifyApplyResult } from '../consumer/apply_verify.js';
+import { ROLLBACK_SCHEMA_VERSION } from '../consumer/apply_types.js';
+import { canonicalize, canonicalizeToBytes, canonicalHash } from '../utils/canonical.js';
 
 import type {
   ApplyResult,
@@ -36,6 +45,10 @@ import type {
   ApplySummary,
   ApplyViolation,
   ApplyOptions,
+  RollbackEntry,
+  RollbackJournal,
+  UndoFileResult,
+  UndoResult,
 } from '../consumer/apply_types.js';
 import type { PatchSet, PatchOperation } from '../consumer/patch_types.js';
 
@@ -63,6 +76,17 @@ export interface ApplyPackArgs {
   options?: ApplyOptions;
 }
 
+/**
+ * Arguments for undoing an apply.
+ */
+export interface UndoApplyArgs {
+  /** Path to the apply report (its journal sits in the same directory) */
+  report_path: string;
+
+  /** Target root directory the report was applied to */
+  target_root: string;
+}
+
 /**
  * Internal operation context.
  */
@@ -85,12 +109,22 @@ function computeHash(content: string): string {
 }
 
 /**
- * Compute hash of file content, or null if file doesn't exist.
+ * Compute hash of a file's raw bytes, or null if it isn't a regular file.
+ */
+function hashFileBytes(path: string): string | null {
+  if (!isRegularFile(path)) {
+    return null;
+  }
+  return `sha256:${createHash('sha256').update(readFileSync(path)).digest('hex')}`;
+}
+
+/**
+ * Read a file's permission bits as 4 octal digits, or null if it doesn't
+ * exist.
  */
-function hashFile(path: string): string | null {
+function readMode(path: string): string | null {
   try {
-    const content = readFileSync(path, 'utf8');
-    return computeHash(content);
+    return (lstatSync(path).mode & 0o777).toString(8).padStart(4, '0');
   } catch {
     return null;
   }
@@ -157,6 +191,28 @@ function existsAsSymlink(path: string): boolean {
   }
 }
 
+/**
+ * Check that a relative path stays inside root without passing through a
+ * symlink. Returns why it doesn't, or null if it is safe.
+ */
+function unsafeRelativePath(root: string, path: string): string | null {
+  if (isAbsolute(path) || hasPathTraversal(path)) {
+    return `path escapes target: ${path}`;
+  }
+  const fullPath = resolve(root, path);
+  if (!fullPath.startsWith(root + sep)) {
+    return `path escapes target: ${path}`;
+  }
+  let current = root;
+  for (const segment of relative(root, fullPath).split(sep)) {
+    current = join(current, segment);
+    if (existsAsSymlink(current)) {
+      return `path passes through a symbolic link: ${path}`;
+    }
+  }
+  return null;
+}
+
 /**
  * Check if target root has any symlinks in target tree.
  */
@@ -318,6 +374,51 @@ function loadPatch(packDir: string): { ok: true; patch: PatchSet } | { ok: false
   return { ok: true, patch: patch as PatchSet };
 }
 
+// =============================================================================
+// Base Hash Check
+// =============================================================================
+
+/**
+ * Check that every hunk or rename operation's file matches its base_hash
+ * (AS13). Runs before any operation so a stale patch writes nothing.
+ */
+function checkBaseHashes(patch: PatchSet, targetRoot: string): ApplyViolation[] {
+  const violations: ApplyViolation[] = [];
+
+  for (const op of patch.operations) {
+    if (op.base_hash === undefined) continue;
+
+    const targetPath = join(targetRoot, op.path);
+    const actual = hashFileBytes(targetPath);
+    if (actual !== op.base_hash) {
+      violations.push({
+        rule_id: 'AS13',
+        path: op.path,
+        message: `base hash mismatch: expected ${op.base_hash}, found ${actual ?? 'no file'}`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Check a pack's hunk operations against a target directory without
+ * applying anything. Returns no violations if the patch cannot be loaded
+ * (applyPatch reports that).
+ *
+ * @param packDir - Pack directory containing patch.json
+ * @param targetRoot - Target root directory
+ * @returns AS13 violations (sorted by path)
+ */
+export function verifyPatchBases(packDir: string, targetRoot: string): ApplyViolation[] {
+  const patchResult = loadPatch(packDir);
+  if (!patchResult.ok) {
+    return [];
+  }
+  return sortViolations(checkBaseHashes(patchResult.patch, resolve(targetRoot)));
+}
+
 // =============================================================================
 // Operation Execution
 // =============================================================================
@@ -330,7 +431,7 @@ function executeCreate(
   ctx: OperationContext
 ): ApplyOperationResult {
   const targetPath = join(ctx.targetRoot, op.path);
-  const beforeHash = hashFile(targetPath);
+  const beforeHash = hashFileBytes(targetPath);
 
   // File already exists?
   if (existsSync(targetPath)) {
@@ -356,6 +457,9 @@ function executeCreate(
       mkdirSync(parentDir, { recursive: true });
     }
     writeFileSync(targetPath, content, 'utf8');
+    if (op.mode !== undefined) {
+      chmodSync(targetPath, parseInt(op.mode, 8));
+    }
   }
 
   return {
@@ -365,6 +469,7 @@ function executeCreate(
     before_hash: beforeHash,
     after_hash: afterHash,
     bytes_written: bytesWritten,
+    ...(op.mode !== undefined && { after_mode: op.mode }),
   };
 }
 
@@ -376,7 +481,7 @@ function executeModify(
   ctx: OperationContext
 ): ApplyOperationResult {
   const targetPath = join(ctx.targetRoot, op.path);
-  const beforeHash = hashFile(targetPath);
+  const beforeHash = hashFileBytes(targetPath);
 
   // File doesn't exist?
   if (!existsSync(targetPath)) {
@@ -417,7 +522,23 @@ function executeModify(
     };
   }
 
-  const content = op.content ?? '';
+  let content = op.content ?? '';
+  if (op.hunks !== undefined) {
+    const hunkResult = applyHunks(readFileSync(targetPath, 'utf8'), op.hunks);
+    if (!hunkResult.ok) {
+      return {
+        op: 'modify',
+        path: op.path,
+        status: 'error',
+        before_hash: beforeHash,
+        after_hash: null,
+        bytes_written: 0,
+        error: `hunks do not apply: ${op.path}: ${hunkResult.error}`,
+      };
+    }
+    content = hunkResult.content;
+  }
+
   const bytesWritten = Buffer.byteLength(content, 'utf8');
   const afterHash = computeHash(content);
 
@@ -443,7 +564,7 @@ function executeDelete(
   ctx: OperationContext
 ): ApplyOperationResult {
   const targetPath = join(ctx.targetRoot, op.path);
-  const beforeHash = hashFile(targetPath);
+  const beforeHash = hashFileBytes(targetPath);
 
   // File doesn't exist?
   if (!existsSync(targetPath)) {
@@ -498,6 +619,111 @@ function executeDelete(
   };
 }
 
+/**
+ * Execute a single rename operation.
+ * The base_hash guard has already been checked (AS13).
+ */
+function executeRename(
+  op: PatchOperation,
+  ctx: OperationContext
+): ApplyOperationResult {
+  const sourcePath = join(ctx.targetRoot, op.path);
+  const destination = op.to ?? '';
+  const destinationPath = join(ctx.targetRoot, destination);
+  const beforeHash = hashFileBytes(sourcePath);
+
+  const fail = (error: string): ApplyOperationResult => ({
+    op: 'rename',
+    path: op.path,
+    to: destination,
+    status: 'error',
+    before_hash: beforeHash,
+    after_hash: null,
+    bytes_written: 0,
+    error,
+  });
+
+  if (!existsSync(sourcePath)) {
+    return fail(`file does not exist: ${op.path}`);
+  }
+  if (isDirectory(sourcePath)) {
+    return fail(`path is a directory: ${op.path}`);
+  }
+  if (existsAsSymlink(sourcePath)) {
+    return fail(`path is a symbolic link: ${op.path}`);
+  }
+  if (existsSync(destinationPath)) {
+    return fail(`file already exists: ${destination}`);
+  }
+
+  if (!ctx.dryRun) {
+    const parentDir = dirname(destinationPath);
+    if (!existsSync(parentDir)) {
+      mkdirSync(parentDir, { recursive: true });
+    }
+    renameSync(sourcePath, destinationPath);
+  }
+
+  return {
+    op: 'rename',
+    path: op.path,
+    to: destination,
+    status: 'success',
+    before_hash: beforeHash,
+    after_hash: beforeHash,
+    bytes_written: 0,
+  };
+}
+
+/**
+ * Execute a single set_mode operation.
+ */
+function executeSetMode(
+  op: PatchOperation,
+  ctx: OperationContext
+): ApplyOperationResult {
+  const targetPath = join(ctx.targetRoot, op.path);
+  const beforeHash = hashFileBytes(targetPath);
+  const beforeMode = readMode(targetPath);
+  const mode = op.mode ?? '0644';
+
+  const fail = (error: string): ApplyOperationResult => ({
+    op: 'set_mode',
+    path: op.path,
+    status: 'error',
+    before_hash: beforeHash,
+    after_hash: null,
+    bytes_written: 0,
+    before_mode: beforeMode,
+    error,
+  });
+
+  if (!existsSync(targetPath)) {
+    return fail(`file does not exist: ${op.path}`);
+  }
+  if (isDirectory(targetPath)) {
+    return fail(`path is a directory: ${op.path}`);
+  }
+  if (existsAsSymlink(targetPath)) {
+    return fail(`path is a symbolic link: ${op.path}`);
+  }
+
+  if (!ctx.dryRun) {
+    chmodSync(targetPath, parseInt(mode, 8));
+  }
+
+  return {
+    op: 'set_mode',
+    path: op.path,
+    status: 'success',
+    before_hash: beforeHash,
+    after_hash: beforeHash,
+    bytes_written: 0,
+    before_mode: beforeMode,
+    after_mode: mode,
+  };
+}
+
 /**
  * Execute a single operation.
  */
@@ -512,6 +738,10 @@ function executeOperation(
       return executeModify(op, ctx);
     case 'delete':
       return executeDelete(op, ctx);
+    case 'rename':
+      return executeRename(op, ctx);
+    case 'set_mode':
+      return executeSetMode(op, ctx);
     default:
       // Type should prevent this, but handle unknown op
       return {
@@ -526,6 +756,56 @@ function executeOperation(
   }
 }
 
+// =============================================================================
+// Rollback Journal
+// =============================================================================
+
+/**
+ * Paths an operation writes: its path, plus the destination of a rename.
+ */
+function operationPaths(op: PatchOperation): string[] {
+  return op.op === 'rename' && op.to !== undefined ? [op.path, op.to] : [op.path];
+}
+
+/**
+ * Capture the pre-image of a path before an operation touches it.
+ * after_hash is filled in once the operation succeeds.
+ */
+function capturePreImage(targetRoot: string, path: string): RollbackEntry {
+  const targetPath = join(targetRoot, path);
+  if (!isRegularFile(targetPath)) {
+    return { path, before_hash: null, before_mode: null, after_hash: null };
+  }
+  const bytes = readFileSync(targetPath);
+  return {
+    path,
+    before_hash: `sha256:${createHash('sha256').update(bytes).digest('hex')}`,
+    before_mode: readMode(targetPath),
+    content_base64: bytes.toString('base64'),
+    after_hash: null,
+  };
+}
+
+/**
+ * Journal entries for a successful operation: the rename source is left
+ * empty, every other touched path holds the result's after_hash.
+ */
+function journalEntries(preImages: RollbackEntry[], result: ApplyOperationResult): RollbackEntry[] {
+  return preImages.map((entry) => ({
+    ...entry,
+    after_hash: result.op === 'rename' && entry.path === result.path ? null : result.after_hash,
+  }));
+}
+
+/**
+ * Write a rollback journal as canonical JSON and return its reference.
+ */
+function writeJournal(journalPath: string, journal: RollbackJournal): { file: string; sha256: string } {
+  mkdirSync(dirname(journalPath), { recursive: true });
+  writeFileSync(journalPath, canonicalizeToBytes(journal));
+  return { file: basename(journalPath), sha256: `sha256:${canonicalHash(journal)}` };
+}
+
 // =============================================================================
 // Result Building
 // =============================================================================
@@ -665,6 +945,31 @@ export async function applyPatch(args: ApplyPackArgs): Promise<ApplyResult> {
   const patch = patchResult.patch;
   const resolvedTarget = resolve(args.target_root);
 
+  // B2) Hunk operations must match their base (AS13)
+  const baseViolations = checkBaseHashes(patch, resolvedTarget);
+  if (baseViolations.length > 0) {
+    return {
+      apply_schema_version: APPLY_SCHEMA_VERSION,
+      outcome: 'REFUSED',
+      dry_run: dryRun,
+      target_root: sanitizedTarget,
+      patch_source: {
+        proposal_id: patch.source_proposal_id,
+        proposal_hash: patch.source_proposal_hash,
+      },
+      operation_results: [],
+      summary: {
+        total_operations: 0,
+        succeeded: 0,
+        skipped: 0,
+        failed: 0,
+        total_bytes_written: 0,
+      },
+      violations: sortViolations(baseViolations),
+      error: `base hash mismatch: ${baseViolations.length} operations`,
+    };
+  }
+
   // C) Sort operations by path for deterministic ordering (AS2)
   const sortedOps = [...patch.operations].sort((a, b) => a.path.localeCompare(b.path));
 
@@ -674,10 +979,19 @@ export async function applyPatch(args: ApplyPackArgs): Promise<ApplyResult> {
     dryRun,
   };
 
+  const journalPath = dryRun ? undefined : args.options?.journalPath;
+  const journalEntriesList: RollbackEntry[] = [];
+
   const opResults: ApplyOperationResult[] = [];
   for (const op of sortedOps) {
+    const preImages = journalPath === undefined
+      ? []
+      : operationPaths(op).map((path) => capturePreImage(resolvedTarget, path));
     const result = executeOperation(op, ctx);
     opResults.push(result);
+    if (result.status === 'success') {
+      journalEntriesList.push(...journalEntries(preImages, result));
+    }
   }
 
   // E) Results are already sorted by path since we sorted ops
@@ -700,6 +1014,15 @@ export async function applyPatch(args: ApplyPackArgs): Promise<ApplyResult> {
     summary,
   };
 
+  // H) Write the rollback journal next to the report
+  if (journalPath !== undefined) {
+    result.journal = writeJournal(resolve(journalPath), {
+      rollback_schema_version: ROLLBACK_SCHEMA_VERSION,
+      patch_source: result.patch_source,
+      entries: journalEntriesList.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0)),
+    });
+  }
+
   // Add error message if not success
   if (outcome === 'FAILED' || outcome === 'PARTIAL') {
     const failedOps = opResults.filter((r) => r.status === 'error');
@@ -709,6 +1032,173 @@ export async function applyPatch(args: ApplyPackArgs): Promise<ApplyResult> {
   return result;
 }
 
+/**
+ * Build a REFUSED or FAILED undo result.
+ */
+function undoFailure(
+  outcome: 'FAILED' | 'REFUSED',
+  targetRoot: string,
+  patchSource: ApplyResult['patch_source'],
+  error: string,
+  violations: ApplyViolation[] = []
+): UndoResult {
+  return {
+    apply_schema_version: APPLY_SCHEMA_VERSION,
+    outcome,
+    target_root: targetRoot,
+    patch_source: patchSource,
+    restored: [],
+    ...(violations.length > 0 && { violations: sortViolations(violations) }),
+    error,
+  };
+}
+
+/**
+ * Undo an apply from its report and rollback journal.
+ *
+ * Refuses unless the journal matches the report (AS15), every path stays
+ * inside the target, and every touched file still has the hash the apply
+ * left. Pre-images are staged next to
+ * their targets first, so a failure while staging changes nothing; the
+ * staged files are then renamed into place and files the apply created
+ * are removed. Directories the apply created are left in place.
+ *
+ * @param args - Undo arguments
+ * @returns UndoResult with the restored files
+ */
+export async function undoApply(args: UndoApplyArgs): Promise<UndoResult> {
+  const sanitizedTarget = sanitizeTargetRoot(args.target_root);
+  const noSource = { proposal_id: '', proposal_hash: '' };
+
+  // A) Validate target root
+  const targetValidation = validateTargetRoot(args.target_root);
+  if (!targetValidation.ok) {
+    return undoFailure('REFUSED', sanitizedTarget, noSource, targetValidation.error, targetValidation.violations);
+  }
+
+  // B) Load report
+  let report: ApplyResult;
+  try {
+    report = JSON.parse(readFileSync(args.report_path, 'utf8')) as ApplyResult;
+  } catch (err) {
+    return undoFailure('REFUSED', sanitizedTarget, noSource, `failed to read report: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const reportSource = report.patch_source ?? noSource;
+  if (report.journal === undefined || typeof report.journal.file !== 'string') {
+    return undoFailure('REFUSED', sanitizedTarget, reportSource, 'report has no rollback journal', [
+      { rule_id: 'AS15', message: 'report has no rollback journal' },
+    ]);
+  }
+
+  // C) Load journal and check it against the report
+  let journal: RollbackJournal;
+  try {
+    const bytes = readFileSync(join(dirname(args.report_path), basename(report.journal.file)));
+    if (`sha256:${createHash('sha256').update(bytes).digest('hex')}` !== report.journal.sha256) {
+      return undoFailure('REFUSED', sanitizedTarget, reportSource, 'rollback journal hash mismatch', [
+        { rule_id: 'AS15', message: 'rollback journal hash mismatch' },
+      ]);
+    }
+    journal = JSON.parse(bytes.toString('utf8')) as RollbackJournal;
+  } catch (err) {
+    return undoFailure('REFUSED', sanitizedTarget, reportSource, `failed to read rollback journal: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const verify = verifyApplyResult(report, { journal });
+  if (!verify.ok) {
+    return undoFailure(
+      'REFUSED',
+      sanitizedTarget,
+      reportSource,
+      `journal verification failed: ${verify.violations.length} violations`,
+      verify.violations
+    );
+  }
+
+  // D) Every report and journal path must stay inside the target
+  const resolvedTarget = resolve(args.target_root);
+  const paths = new Set([
+    ...report.operation_results.flatMap((r) => (r.to !== undefined ? [r.path, r.to] : [r.path])),
+    ...journal.entries.map((entry) => entry.path),
+  ]);
+  const unsafe: ApplyViolation[] = [];
+  for (const path of paths) {
+    const reason = unsafeRelativePath(resolvedTarget, path);
+    if (reason !== null) {
+      unsafe.push({ rule_id: 'AS15', path, message: reason });
+    }
+  }
+  if (unsafe.length > 0) {
+    return undoFailure('REFUSED', sanitizedTarget, reportSource, `unsafe undo path: ${unsafe.length} paths`, unsafe);
+  }
+
+  // E) Every touched file must still be as the apply left it
+  const stale: ApplyViolation[] = [];
+  for (const entry of journal.entries) {
+    const targetPath = join(resolvedTarget, entry.path);
+    const current = hashFileBytes(targetPath);
+    if (current !== entry.after_hash || (current === null && existsSync(targetPath))) {
+      stale.push({
+        rule_id: 'AS15',
+        path: entry.path,
+        message: `file changed since apply: expected ${entry.after_hash ?? 'no file'}, found ${current ?? 'no file'}`,
+      });
+    }
+  }
+  if (stale.length > 0) {
+    return undoFailure('REFUSED', sanitizedTarget, reportSource, `file changed since apply: ${stale.length} files`, stale);
+  }
+
+  // F) Stage pre-images next to their targets
+  const staged: Array<{ from: string; to: string }> = [];
+  try {
+    for (const entry of journal.entries) {
+      if (entry.content_base64 === undefined) continue;
+      const targetPath = join(resolvedTarget, entry.path);
+      const stagePath = join(dirname(targetPath), `.${basename(targetPath)}.undo`);
+      mkdirSync(dirname(targetPath), { recursive: true });
+      writeFileSync(stagePath, Buffer.from(entry.content_base64, 'base64'));
+      staged.push({ from: stagePath, to: targetPath });
+      if (entry.before_mode !== null) {
+        chmodSync(stagePath, parseInt(entry.before_mode, 8));
+      }
+    }
+  } catch (err) {
+    for (const { from } of staged) {
+      rmSync(from, { force: true });
+    }
+    return undoFailure('FAILED', sanitizedTarget, reportSource, `undo staging failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  // G) Swap pre-images in and remove created files
+  try {
+    for (const { from, to } of staged) {
+      renameSync(from, to);
+    }
+    for (const entry of journal.entries) {
+      if (entry.before_hash === null) {
+        rmSync(join(resolvedTarget, entry.path), { force: true });
+      }
+    }
+  } catch (err) {
+    return undoFailure('FAILED', sanitizedTarget, reportSource, `undo failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const restored: UndoFileResult[] = journal.entries.map((entry) => ({
+    path: entry.path,
+    from_hash: entry.after_hash,
+    to_hash: entry.before_hash,
+  }));
+
+  return {
+    apply_schema_version: APPLY_SCHEMA_VERSION,
+    outcome: 'RESTORED',
+    target_root: sanitizedTarget,
+    patch_source: reportSource,
+    restored,
+  };
+}
+
 /**
  * Export the function for direct use.
  */
@@ -12,19 +12,25 @@
  * - Compliant: exported packs pass pack-verify
  * - No symlinks: only regular files
  * - Canonical JSON: all JSON files use canonicalize()
+ * - Content-addressed step logs: logs/<sha256>.log per pipeline step log
+ * - Model runs: bundle.json is rebuilt by replaying the run's model_io.json
  */
 
-import { existsSync, readdirSync, lstatSync, mkdirSync, writeFileSync, statSync } from 'node:fs';
-import { readFile } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { existsSync, readdirSync, lstatSync, mkdirSync, writeFileSync, statSync, readFileSync } from 'node:fs';
+import { readFile, rm } from 'node:fs/promises';
 import { join, resolve, dirname, basename, normalize, isAbsolute, relative } from 'node:path';
 
 import { runHarness } from './run_intent.js';
+import { EMPTY_RUN_LOGS } from './sandbox.js';
 import { createLedgerEntry, serializeLedgerEntry } from './ledger.js';
-import { loadPolicy } from './policy.js';
 import { canonicalize, canonicalHash } from '../utils/canonical.js';
 import { verifyPack } from '../consumer/pack_verify.js';
 import { generateProposal } from '../protocol/proposal.js';
 import { transform, getBundleHash } from '../assembler/bundle.js';
+import { ReplayModelAdapter } from '../adapters/recording.js';
+import type { ModelAdapter } from '../adapters/model.js';
+import { loadModelIO, fromModelIOSession, assistBundle } from './model_assist.js';
 
 import type {
   HarnessRunInput,
@@ -32,6 +38,7 @@ import type {
   PolicyProfileName,
   ModelMode,
   KernelResultKind,
+  SandboxExecutionStep,
 } from './types.js';
 import type { PackVerifyResult, PackViolation } from '../consumer/pack_types.js';
 
@@ -59,6 +66,9 @@ export interface ExportPackArgs {
   /** Policy profile name */
   policy_name: PolicyProfileName;
 
+  /** Path to a custom policy file (takes precedence over policy_name) */
+  policy_file?: string;
+
   /** Export mode: 'plan' or 'exec' */
   mode: PackExportMode;
 
@@ -67,6 +77,9 @@ export interface ExportPackArgs {
 
   /** Path to model recording file (for record/replay) */
   model_recording_path?: string;
+
+  /** Adapter to record in record mode (default: from environment) */
+  model_adapter?: ModelAdapter;
 }
 
 /**
@@ -205,6 +218,46 @@ function writePlainText(path: string, content: string): void {
   writeFileSync(path, content, 'utf-8');
 }
 
+/**
+ * Copy the logs of every pipeline step that ran from the preserved
+ * sandbox into logs/, named by content hash. Steps share a file when
+ * their logs are identical; empty logs are written as empty files.
+ *
+ * @param steps - Steps of the harness run
+ * @param sandboxPath - Preserved sandbox of the run
+ * @param outDir - Resolved pack directory
+ * @returns Pack-relative paths written
+ */
+export function exportStepLogs(steps: SandboxExecutionStep[], sandboxPath: string | undefined, outDir: string): string[] {
+  if (sandboxPath === undefined || steps.length === 0) {
+    return [];
+  }
+
+  // A refused or unspawned step records empty logs without writing a file
+  const logsDir = join(sandboxPath, 'logs');
+  const byHash = new Map<string, Buffer>([[EMPTY_RUN_LOGS.stdout_sha256, Buffer.alloc(0)]]);
+  for (const name of readdirSync(logsDir).sort()) {
+    const content = readFileSync(join(logsDir, name));
+    byHash.set(`sha256:${createHash('sha256').update(content).digest('hex')}`, content);
+  }
+
+  const written = new Set<string>();
+  for (const step of steps) {
+    if (step.status === 'skipped') continue;
+    for (const hash of [step.stdout_sha256, step.stderr_sha256]) {
+      const content = byHash.get(hash);
+      if (content === undefined) continue;
+      const path = `logs/${hash.slice('sha256:'.length)}.log`;
+      if (!written.has(path)) {
+        mkdirSync(join(outDir, 'logs'), { recursive: true });
+        writeFileSync(join(outDir, path), content);
+        written.add(path);
+      }
+    }
+  }
+  return [...written];
+}
+
 // =============================================================================
 // Pack Export Implementation
 // =============================================================================
@@ -261,6 +314,8 @@ export async function exportPack(args: ExportPackArgs): Promise<ExportPackResult
     intent_path: args.intent_path,
     mode: args.mode === 'exec' ? 'execute-sandbox' : 'plan-only',
     policy: args.policy_name,
+    // Keep the sandbox so step logs can be copied into the pack
+    preserve_sandbox: args.mode === 'exec',
   };
   if (args.model_mode !== undefined) {
     harnessInput.model_mode = args.model_mode;
@@ -268,6 +323,12 @@ export async function exportPack(args: ExportPackArgs): Promise<ExportPackResult
   if (args.model_recording_path !== undefined) {
     harnessInput.model_recording_path = args.model_recording_path;
   }
+  if (args.model_adapter !== undefined) {
+    harnessInput.model_adapter = args.model_adapter;
+  }
+  if (args.policy_file !== undefined) {
+    harnessInput.policy_file = args.policy_file;
+  }
 
   let runResult: HarnessRunResult;
   try {
@@ -298,13 +359,33 @@ export async function exportPack(args: ExportPackArgs): Promise<ExportPackResult
   writeCanonicalJson(join(resolvedOutDir, 'run.json'), runForPack);
   filesWritten.push('run.json');
 
+  // logs/ - content-addressed step logs (exec mode)
+  try {
+    filesWritten.push(...exportStepLogs(runResult.execution?.steps ?? [], runResult.sandbox_path, resolvedOutDir));
+  } finally {
+    if (runResult.sandbox_path !== undefined) {
+      await rm(runResult.sandbox_path, { recursive: true, force: true });
+    }
+  }
+
+  // The recording the run wrote (record) or replayed (replay)
+  const modelIo =
+    runResult.model_io_hash !== undefined && args.model_recording_path !== undefined
+      ? await loadModelIO(args.model_recording_path)
+      : null;
+
   // bundle.json - required for BUNDLE/CLARIFY, absent for REFUSE
   if (runResult.kernel_result_kind !== 'REFUSE' && runResult.bundle !== null) {
     // Re-generate bundle from intent to get full bundle data
     try {
       const intentContent = await readFile(args.intent_path, 'utf-8');
       const intent = JSON.parse(intentContent) as { goal: string; constraints?: string[]; context?: Record<string, unknown> };
-      const bundle = transform(intent);
+      let bundle = transform(intent);
+      // With a model, replay the run's recording to reproduce its bundle
+      if (modelIo !== null) {
+        const replay = new ReplayModelAdapter(fromModelIOSession(modelIo), { sequential: true });
+        bundle = await assistBundle(bundle, intent, replay, runResult.run_id);
+      }
       writeCanonicalJson(join(resolvedOutDir, 'bundle.json'), bundle);
       filesWritten.push('bundle.json');
 
@@ -364,9 +445,8 @@ export async function exportPack(args: ExportPackArgs): Promise<ExportPackResult
     }
   }
 
-  // policy.json - always recommended
-  const policy = loadPolicy(args.policy_name);
-  writeCanonicalJson(join(resolvedOutDir, 'policy.json'), policy);
+  // policy.json - always recommended (the resolved policy the run used)
+  writeCanonicalJson(join(resolvedOutDir, 'policy.json'), runResult.policy);
   filesWritten.push('policy.json');
 
   // ledger.jsonl - single entry for this run
@@ -394,9 +474,11 @@ export async function exportPack(args: ExportPackArgs): Promise<ExportPackResult
     filesWritten.push('evidence.json');
   }
 
-  // model_io.json - only if model_mode is record/replay and we have session
-  // Currently model IO is not fully integrated, so skip for now
-  // This will be added when model adapter integration is complete
+  // model_io.json - the recording, if model_mode was record/replay
+  if (modelIo !== null) {
+    writeCanonicalJson(join(resolvedOutDir, 'model_io.json'), modelIo);
+    filesWritten.push('model_io.json');
+  }
 
   // F) Sort files_written
   filesWritten.sort();
@@ -6,7 +6,8 @@
  * Policies are JSON-serializable and included in execution evidence.
  */
 
-import type { PolicyProfile, PolicyProfileName, ModelMode } from './types.js';
+import { canonicalHash } from '../utils/canonical.js';
+import type { PolicyProfile, PolicyProfileName, ModelMode, ContentHash } from './types.js';
 
 // =============================================================================
 // Policy Definitions
@@ -24,6 +25,12 @@ const STRICT_POLICY: PolicyProfile = {
   max_total_output_bytes: 10 * 1024 * 1024, // 10 MB
   allowed_commands: ['node', 'npm'],
   allowed_write_roots: ['out', 'dist', 'build'],
+  isolation: 'strict',
+  env_allowlist: ['PATH', 'LANG', 'LC_ALL', 'TZ'],
+  max_memory_bytes: 512 * 1024 * 1024, // 512 MB
+  max_cpu_seconds: 30,
+  max_processes: 256,
+  max_open_files: 256,
 };
 
 /**
@@ -38,6 +45,12 @@ const DEFAULT_POLICY: PolicyProfile = {
   max_total_output_bytes: 50 * 1024 * 1024, // 50 MB
   allowed_commands: ['node', 'npm', 'npx'],
   allowed_write_roots: ['out', 'dist', 'build', 'tmp'],
+  isolation: 'best_effort',
+  env_allowlist: ['PATH', 'LANG', 'LC_ALL', 'TZ', 'TERM', 'NODE_ENV'],
+  max_memory_bytes: 1024 * 1024 * 1024, // 1 GB
+  max_cpu_seconds: 60,
+  max_processes: 512,
+  max_open_files: 1024,
 };
 
 /**
@@ -52,6 +65,12 @@ const DEV_POLICY: PolicyProfile = {
   max_total_output_bytes: 100 * 1024 * 1024, // 100 MB
   allowed_commands: [], // Empty = all allowed in dev
   allowed_write_roots: [], // Empty = all allowed in dev
+  isolation: 'none',
+  env_allowlist: [], // Empty = all inherited in dev
+  max_memory_bytes: 4 * 1024 * 1024 * 1024, // 4 GB
+  max_cpu_seconds: 300,
+  max_processes: 4096,
+  max_open_files: 4096,
 };
 
 /**
@@ -80,7 +99,33 @@ export function loadPolicy(name: PolicyProfileName): PolicyProfile {
     throw new Error(`Unknown policy profile: ${name}`);
   }
   // Return a copy to prevent mutation
-  return { ...policy, allowed_commands: [...policy.allowed_commands], allowed_write_roots: [...policy.allowed_write_roots] };
+  return {
+    ...policy,
+    allowed_commands: [...policy.allowed_commands],
+    allowed_write_roots: [...policy.allowed_write_roots],
+    env_allowlist: [...policy.env_allowlist],
+  };
+}
+
+/**
+ * Compute the canonical hash of a resolved policy.
+ *
+ * @param policy - Policy profile
+ * @returns "sha256:{hex}" of the canonical policy
+ */
+export function hashPolicy(policy: PolicyProfile): ContentHash {
+  return `sha256:${canonicalHash(policy)}`;
+}
+
+/**
+ * Name a resolved policy is reported under: the custom profile's name for
+ * policy files, else the built-in profile's name.
+ *
+ * @param policy - Policy profile
+ * @returns Profile name
+ */
+export function policyName(policy: PolicyProfile): string {
+  return policy.custom?.name ?? policy.name;
 }
 
 /**
@@ -0,0 +1,287 @@
+/**
+ * Policy Files
+ * ============
+ *
+ * Loads user-defined policy profiles (POLICY_SPEC.md section 8).
+ *
+ * A policy file extends a built-in profile with overrides and declares a
+ * ceiling: the most permissive value each field may take. Fields the
+ * ceiling does not declare are capped at the base profile's value, so a
+ * custom profile can only loosen what its ceiling explicitly raises.
+ *
+ * The declared ceiling comes from the same file it bounds, so it is itself
+ * bounded by a fixed ceiling per base profile (BASE_CEILINGS). No file can
+ * enable the network, weaken isolation or pass more environment variables
+ * than its base allows.
+ *
+ * The resolved profile keeps the base profile's name (model mode and
+ * empty-list semantics follow the base) and records the custom name and
+ * declared ceiling, so both are covered by the policy hash.
+ */
+
+import { readFile } from 'node:fs/promises';
+
+import type { PolicyProfile, PolicyProfileName, IsolationLevel, CustomPolicyRef, PolicyCeiling } from './types.js';
+import { loadPolicy, listPolicies } from './policy.js';
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+/**
+ * Current policy file version.
+ */
+export const POLICY_FILE_VERSION = '1.0.0';
+
+/**
+ * Policy fields a file may override or cap.
+ */
+const POLICY_FIELDS = [
+  'allow_network',
+  'timeout_ms',
+  'max_output_files',
+  'max_total_output_bytes',
+  'allowed_commands',
+  'allowed_write_roots',
+  'isolation',
+  'env_allowlist',
+  'max_memory_bytes',
+  'max_cpu_seconds',
+  'max_processes',
+  'max_open_files',
+] as const;
+
+/**
+ * Numeric limits and their POLICY_SPEC bounds (PL3).
+ */
+const LIMIT_BOUNDS = {
+  timeout_ms: { min: 1000, max: 600000 },
+  max_output_files: { min: 1, max: 10000 },
+  max_total_output_bytes: { min: 1024, max: 1073741824 },
+  max_memory_bytes: { min: 67108864, max: 17179869184 },
+  max_cpu_seconds: { min: 1, max: 600 },
+  max_processes: { min: 1, max: 65536 },
+  max_open_files: { min: 16, max: 65536 },
+} as const;
+
+type LimitField = keyof typeof LIMIT_BOUNDS;
+type ListField = 'allowed_commands' | 'allowed_write_roots' | 'env_allowlist';
+
+/**
+ * Isolation levels from most to least permissive.
+ */
+const ISOLATION_ORDER: readonly IsolationLevel[] = ['none', 'best_effort', 'strict'];
+
+/**
+ * Build and test commands a strict or default based file may allow.
+ * Shells and network clients are only available through dev.
+ */
+const TOOL_COMMANDS = ['node', 'npm', 'npx', 'tsc', 'python3', 'pytest', 'make'];
+
+/**
+ * Most permissive declared ceiling for each base profile (POLICY_SPEC.md
+ * section 8.3). Fields not listed are capped at the base profile's value.
+ */
+const BASE_CEILINGS: Record<PolicyProfileName, PolicyCeiling> = {
+  strict: {
+    allowed_commands: TOOL_COMMANDS,
+    timeout_ms: 600_000,
+    max_cpu_seconds: 600,
+  },
+  default: {
+    allowed_commands: TOOL_COMMANDS,
+    timeout_ms: 600_000,
+    max_cpu_seconds: 600,
+    max_output_files: 1000,
+    max_total_output_bytes: 100 * 1024 * 1024, // 100 MB
+    max_memory_bytes: 4 * 1024 * 1024 * 1024, // 4 GB
+  },
+  dev: {
+    timeout_ms: 600_000,
+    max_cpu_seconds: 600,
+  },
+};
+
+/**
+ * Custom profile names: lowercase, digits, '-' and '_'.
+ */
+const CUSTOM_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a block of policy fields (overrides or ceiling).
+ *
+ * @throws Error naming the first invalid field
+ */
+function parseFields(value: unknown, where: string): PolicyCeiling {
+  if (!isRecord(value)) {
+    throw new Error(`Invalid policy file: ${where} must be an object`);
+  }
+
+  const fields: Record<string, unknown> = {};
+  for (const key of Object.keys(value).sort()) {
+    const field = value[key];
+    const path = `${where}.${key}`;
+
+    if (!(POLICY_FIELDS as readonly string[]).includes(key)) {
+      throw new Error(`Invalid policy file: unknown field ${path}`);
+    }
+    if (key === 'allow_network') {
+      if (typeof field !== 'boolean') {
+        throw new Error(`Invalid policy file: ${path} must be a boolean`);
+      }
+    } else if (key === 'isolation') {
+      if (!ISOLATION_ORDER.includes(field as IsolationLevel)) {
+        throw new Error(`Invalid policy file: ${path} must be one of ${ISOLATION_ORDER.join(', ')}`);
+      }
+    } else if (key in LIMIT_BOUNDS) {
+      const { min, max } = LIMIT_BOUNDS[key as LimitField];
+      if (typeof field !== 'number' || !Number.isInteger(field)) {
+        throw new Error(`Invalid policy file: ${path} must be an integer`);
+      }
+      if (field < min || field > max) {
+        throw new Error(`POLICY_VIOLATION: PL3: ${path} ${field} outside [${min}, ${max}]`);
+      }
+    } else if (!Array.isArray(field) || !field.every((item) => typeof item === 'string' && item.length > 0)) {
+      throw new Error(`Invalid policy file: ${path} must be an array of non-empty strings`);
+    }
+    fields[key] = field;
+  }
+  return fields as PolicyCeiling;
+}
+
+// =============================================================================
+// Ceiling
+// =============================================================================
+
+/**
+ * Whether an empty list means "all" (dev-based profiles only).
+ */
+function allowsAll(policy: PolicyProfile, field: ListField): boolean {
+  return policy.name === 'dev' && policy[field].length === 0;
+}
+
+/**
+ * Whether a write root lies within one of the ceiling's roots.
+ */
+function isWithinRoots(root: string, roots: readonly string[]): boolean {
+  return roots.some((r) => root === r || root.startsWith(r + '/'));
+}
+
+/**
+ * Check that a profile is no more permissive than its ceiling (PL9).
+ *
+ * @param policy - Resolved profile
+ * @param ceiling - Ceiling profile (base with the declared ceiling applied)
+ * @param where - Prefix for field names in errors (e.g. 'ceiling.')
+ * @throws Error on the first field that exceeds the ceiling
+ */
+export function checkCeiling(policy: PolicyProfile, ceiling: PolicyProfile, where: string = ''): void {
+  const exceeds = (field: string, detail: string): never => {
+    throw new Error(`POLICY_VIOLATION: PL9: ${where}${field} exceeds ceiling: ${detail}`);
+  };
+
+  if (policy.allow_network && !ceiling.allow_network) {
+    exceeds('allow_network', 'network not allowed');
+  }
+
+  for (const field of Object.keys(LIMIT_BOUNDS) as LimitField[]) {
+    if (policy[field] > ceiling[field]) {
+      exceeds(field, `${policy[field]} > ${ceiling[field]}`);
+    }
+  }
+
+  if (ISOLATION_ORDER.indexOf(policy.isolation) < ISOLATION_ORDER.indexOf(ceiling.isolation)) {
+    exceeds('isolation', `${policy.isolation} weaker than ${ceiling.isolation}`);
+  }
+
+  for (const field of ['allowed_commands', 'env_allowlist', 'allowed_write_roots'] as const) {
+    if (allowsAll(ceiling, field)) {
+      continue;
+    }
+    if (allowsAll(policy, field)) {
+      exceeds(field, 'all allowed');
+    }
+    const extra = field === 'allowed_write_roots'
+      ? policy[field].filter((root) => !isWithinRoots(root, ceiling[field]))
+      : policy[field].filter((item) => !ceiling[field].includes(item));
+    if (extra.length > 0) {
+      exceeds(field, extra.join(', '));
+    }
+  }
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Resolve a parsed policy file into a policy profile.
+ *
+ * The declared ceiling is checked against the base's fixed ceiling, then
+ * the profile against the declared ceiling.
+ *
+ * @param data - Parsed policy file JSON
+ * @returns Resolved profile
+ * @throws Error if the file is invalid or exceeds its ceiling
+ */
+export function resolvePolicyFile(data: unknown): PolicyProfile {
+  if (!isRecord(data)) {
+    throw new Error('Invalid policy file: must be a JSON object');
+  }
+
+  for (const key of Object.keys(data)) {
+    if (!['policy_file_version', 'name', 'extends', 'overrides', 'ceiling'].includes(key)) {
+      throw new Error(`Invalid policy file: unknown field ${key}`);
+    }
+  }
+
+  if (data['policy_file_version'] !== POLICY_FILE_VERSION) {
+    throw new Error(`Invalid policy file: policy_file_version must be "${POLICY_FILE_VERSION}"`);
+  }
+
+  const name = data['name'];
+  if (typeof name !== 'string' || !CUSTOM_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid policy file: name must match ${CUSTOM_NAME_PATTERN}`);
+  }
+  if ((listPolicies() as string[]).includes(name)) {
+    throw new Error(`Invalid policy file: name "${name}" is a built-in profile`);
+  }
+
+  const base = data['extends'];
+  if (typeof base !== 'string' || !(listPolicies() as string[]).includes(base)) {
+    throw new Error(`Invalid policy file: extends must be one of ${listPolicies().join(', ')}`);
+  }
+
+  const overrides = parseFields(data['overrides'] ?? {}, 'overrides');
+  const declaredCeiling = parseFields(data['ceiling'], 'ceiling');
+
+  const baseProfile = loadPolicy(base as PolicyProfileName);
+  const custom: CustomPolicyRef = { name, ceiling: declaredCeiling };
+  const policy: PolicyProfile = { ...baseProfile, ...overrides, custom };
+  const ceiling: PolicyProfile = { ...baseProfile, ...declaredCeiling };
+
+  checkCeiling(ceiling, { ...baseProfile, ...BASE_CEILINGS[baseProfile.name] }, 'ceiling.');
+  checkCeiling(policy, ceiling);
+  return policy;
+}
+
+/**
+ * Load and resolve a policy file.
+ *
+ * @param path - Path to policy file
+ * @returns Resolved profile
+ * @throws Error if the file cannot be read, is invalid or exceeds its ceiling
+ */
+export async function loadPolicyFile(path: string): Promise<PolicyProfile> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Failed to load policy file ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return resolvePolicyFile(data);
+}
@@ -4,10 +4,15 @@
  *
  * Usage:
  *   node dist/harness/run_intent.js <intent_path> --mode plan-only|execute-sandbox --policy default|strict|dev
+ *     [--policy-file policy.json] [--answers answers.json]
+ *     [--base-dir dir | --base-git repo [--base-rev rev] | --base-pack pack_dir]
+ *     [--model-mode none|record|replay --model-recording model_io.json]
+ *     [--ledger-checkpoint n]
  *
  * The harness is NON-AUTHORITATIVE. It:
  * 1. Loads intent
- * 2. Calls kernel to transform → bundle
+ * 2. Calls kernel to transform → bundle (with model output attached in
+ *    record/replay mode)
  * 3. Calls kernel to generate proposal
  * 4. Optionally executes in sandbox
  * 5. Calls kernel to validate evidence
@@ -16,10 +21,11 @@
 
 import { randomBytes } from 'node:crypto';
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
-import { join, dirname, resolve, basename, relative } from 'node:path';
+import { join, basename } from 'node:path';
 
 // Kernel imports (authoritative)
 import { transform, KERNEL_VERSION, getBundleHash } from '../assembler/bundle.js';
+import { resolveBundle, type AnswerMap } from '../assembler/resolve.js';
 import { generateProposal, validateEvidence } from '../protocol/proposal.js';
 
 // Utils (determinism)
@@ -36,11 +42,19 @@ import {
   type KernelResultKind,
   type DecisionRecord,
   type SandboxExecution,
+  type SandboxBase,
 } from './types.js';
-import { loadPolicy, validateModelMode, getDefaultModelMode } from './policy.js';
-import { createSandbox, cleanupSandbox, runInSandbox, buildSandboxExecution } from './sandbox.js';
+import { loadPolicy, hashPolicy, policyName, validateModelMode, getDefaultModelMode } from './policy.js';
+import { loadPolicyFile } from './policy_file.js';
+import { createSandbox, cleanupSandbox, buildSandboxExecution, EMPTY_RUN_LOGS } from './sandbox.js';
+import { materializeBase } from './base.js';
+import { resolveIsolation } from './isolation.js';
+import { resolveLimits } from './limits.js';
+import { executeActions, evaluateAcceptanceTests } from './actions.js';
 import { buildKernelEvidence, hashFile } from './evidence.js';
-import { appendHarnessResult } from './ledger.js';
+import { appendHarnessResult, type LedgerAppendOptions } from './ledger.js';
+import { openModelSession, assistBundle } from './model_assist.js';
+import { computeModelIOHash } from '../consumer/model_io_verify.js';
 
 // =============================================================================
 // Run ID Generation
@@ -101,37 +115,22 @@ async function loadIntent(
   return { intent, sha256 };
 }
 
-// =============================================================================
-// Executor (Simple File Writer)
-// =============================================================================
-
 /**
- * Simple executor that writes proposal files to sandbox.
- * This is a minimal "apply proposal" implementation for v0.2.0.
+ * Load and parse answers file.
  *
- * @param proposal - Proposal to apply
- * @param sandboxDir - Sandbox directory
+ * @param answersPath - Path to answers JSON file
+ * @returns Parsed answers and their hash
  */
-async function applyProposal(
-  proposal: import('../protocol/proposal.js').Proposal,
-  sandboxDir: string
-): Promise<void> {
-  const outDir = join(sandboxDir, 'out');
-  await mkdir(outDir, { recursive: true });
-
-  for (const action of proposal.actions) {
-    if (action.type === 'create_file' && action.content) {
-      // Normalize target path - remove context/ prefix and put in out/
-      const targetPath = action.target.replace(/^context\//, '');
-      const fullPath = join(outDir, targetPath);
-
-      // Create parent directories
-      await mkdir(dirname(fullPath), { recursive: true });
+async function loadAnswers(answersPath: string): Promise<{ answers: AnswerMap; sha256: string }> {
+  const content = await readFile(answersPath, 'utf-8');
+  const sha256 = await hashFile(answersPath);
+  const answers = JSON.parse(content) as unknown;
 
-      // Write content
-      await writeFile(fullPath, action.content, 'utf-8');
-    }
+  if (answers === null || typeof answers !== 'object' || Array.isArray(answers)) {
+    throw new Error('Answers must be a JSON object keyed by question ID');
   }
+
+  return { answers: answers as AnswerMap, sha256 };
 }
 
 // =============================================================================
@@ -147,20 +146,37 @@ async function applyProposal(
 export async function runHarness(input: HarnessRunInput): Promise<HarnessRunResult> {
   const runId = generateRunId();
   const startedAt = new Date().toISOString();
-  const policy = loadPolicy(input.policy);
+  const policy = input.policy_file ? await loadPolicyFile(input.policy_file) : loadPolicy(input.policy);
+  const policySha256 = hashPolicy(policy);
 
   // Validate and set model mode (default: 'none')
   const modelMode: ModelMode = input.model_mode ?? getDefaultModelMode();
   validateModelMode(modelMode, policy, input.model_recording_path);
 
-  // Note: Model adapters are not yet integrated into kernel processing.
-  // Currently the kernel is rule-based and doesn't make model calls.
-  // When model integration is added, record/replay will be handled here.
-  // For now, model_mode is validated but has no effect on processing.
+  // PL8: strict isolation refuses to execute without namespaces
+  const isolation = resolveIsolation(policy);
+  if (input.mode === 'execute-sandbox' && !isolation.ok) {
+    throw new Error(isolation.error);
+  }
+
+  // PL6: strict isolation also refuses to execute without rlimits
+  const limits = resolveLimits(policy);
+  if (input.mode === 'execute-sandbox' && !limits.ok) {
+    throw new Error(limits.error);
+  }
 
   // Load intent
   const { intent, sha256: intentSha256 } = await loadIntent(input.intent_path);
 
+  // Load answers (resolves the intent's CLARIFY questions)
+  let answers: AnswerMap | undefined;
+  let answersRef: HarnessRunResult['answers'];
+  if (input.answers_path) {
+    const loaded = await loadAnswers(input.answers_path);
+    answers = loaded.answers;
+    answersRef = { path: sanitizeIntentPath(input.answers_path), sha256: loaded.sha256 };
+  }
+
   // Transform intent to bundle (KERNEL AUTHORITY)
   let bundle: import('../types/artifacts.js').Bundle;
   let kernelResultKind: KernelResultKind;
@@ -169,6 +185,9 @@ export async function runHarness(input: HarnessRunInput): Promise<HarnessRunResu
 
   try {
     bundle = transform(intent);
+    if (answers) {
+      bundle = resolveBundle(bundle, answers);
+    }
 
     // Determine result kind based on bundle status
     if (bundle.unresolved_questions.length > 0) {
@@ -190,6 +209,8 @@ export async function runHarness(input: HarnessRunInput): Promise<HarnessRunResu
       completed_at: completedAt,
       kernel_version: KERNEL_VERSION,
       policy,
+      policy_name: policyName(policy),
+      policy_sha256: policySha256,
       intent: { path: sanitizeIntentPath(input.intent_path), sha256: intentSha256 },
       bundle: null,
       kernel_result_kind: kernelResultKind,
@@ -201,9 +222,27 @@ export async function runHarness(input: HarnessRunInput): Promise<HarnessRunResu
         validated_by_kernel: true,
       },
       model_mode: modelMode,
+      ...(answersRef && { answers: answersRef }),
     };
   }
 
+  // Route clarification and blueprint generation through the model
+  // (record/replay); the recording is written as model_io.json
+  let modelIoHash: string | undefined;
+  if (modelMode !== 'none') {
+    const recordingPath = input.model_recording_path;
+    if (recordingPath === undefined) {
+      throw new Error(`${modelMode} mode requires recording path`);
+    }
+    const session = await openModelSession(modelMode, recordingPath, input.model_adapter);
+    bundle = await assistBundle(bundle, intent, session.adapter, runId);
+    const modelIo = session.toModelIO();
+    if (modelMode === 'record') {
+      await writeFile(recordingPath, canonicalize(modelIo) + '\n', 'utf-8');
+    }
+    modelIoHash = computeModelIOHash(modelIo);
+  }
+
   const bundleHash = getBundleHash(bundle);
 
   // If CLARIFY or plan-only mode, don't execute
@@ -216,6 +255,8 @@ export async function runHarness(input: HarnessRunInput): Promise<HarnessRunResu
       completed_at: completedAt,
       kernel_version: KERNEL_VERSION,
       policy,
+      policy_name: policyName(policy),
+      policy_sha256: policySha256,
       intent: { path: sanitizeIntentPath(input.intent_path), sha256: intentSha256 },
       bundle: { bundle_id: bundle.id, sha256: `sha256:${bundleHash}` },
       kernel_result_kind: kernelResultKind,
@@ -228,6 +269,8 @@ export async function runHarness(input: HarnessRunInput): Promise<HarnessRunResu
         validated_by_kernel: true,
       },
       model_mode: modelMode,
+      ...(modelIoHash && { model_io_hash: modelIoHash }),
+      ...(answersRef && { answers: answersRef }),
     };
     if (clarifyQuestions) {
       result.clarify_questions = clarifyQuestions;
@@ -245,27 +288,52 @@ export async function runHarness(input: HarnessRunInput): Promise<HarnessRunResu
   let sandboxPreserved = false;
 
   try {
-    // Apply proposal (write files to sandbox)
-    await applyProposal(proposal, sandbox.dir);
+    const base = input.base ? await materializeBase(sandbox, input.base) : undefined;
+
+    // Carry out actions and acceptance tests against the workspace
+    const executionStarted = new Date().toISOString();
+    const { action_results: actionResults, command_runs: commandRuns, steps } = await executeActions(
+      proposal,
+      sandbox,
+      policy
+    );
+    const testResults = await evaluateAcceptanceTests(proposal, sandbox, policy);
+    const executionCompleted = new Date().toISOString();
 
-    // Build sandbox execution evidence
-    // We use a simple "apply" model - no shell commands needed
+    // Build sandbox execution evidence for the whole proposal: it fails if
+    // any action failed, reports the first command that did not exit, and
+    // carries the last command's logs, flagged truncated if any command's
+    // were; every command's own exit code, logs and timing are in steps
+    const failedCommand = commandRuns.find((run) => run.termination !== 'exit');
+    const lastCommand = commandRuns[commandRuns.length - 1];
     sandboxExecution = await buildSandboxExecution(
       sandbox,
       ['apply', 'proposal'],
-      { exit_code: 0, stdout_path: '', stderr_path: '', timed_out: false },
-      policy
+      {
+        ...(lastCommand ?? EMPTY_RUN_LOGS),
+        stdout_truncated: commandRuns.some((run) => run.stdout_truncated),
+        stderr_truncated: commandRuns.some((run) => run.stderr_truncated),
+        exit_code: actionResults.every((r) => r.status === 'success') ? 0 : 1,
+        timed_out: commandRuns.some((run) => run.timed_out),
+        isolation: isolation.ok ? isolation.mode : 'none',
+        limits_enforced: limits.ok && limits.enforced,
+        termination: failedCommand?.termination ?? 'exit',
+        termination_inferred: failedCommand?.termination_inferred === true,
+      },
+      policy,
+      base,
+      steps
     );
 
-    // Build kernel evidence from sandbox execution
-    const executionStarted = new Date().toISOString();
-    const executionCompleted = new Date().toISOString();
+    // Build kernel evidence from action and test results
     const kernelEvidence = buildKernelEvidence(
       proposal,
       sandbox,
-      sandboxExecution,
+      actionResults,
+      testResults,
       executionStarted,
-      executionCompleted
+      executionCompleted,
+      steps
     );
 
     // Validate evidence (KERNEL AUTHORITY)
@@ -300,12 +368,16 @@ export async function runHarness(input: HarnessRunInput): Promise<HarnessRunResu
     completed_at: completedAt,
     kernel_version: KERNEL_VERSION,
     policy,
+    policy_name: policyName(policy),
+    policy_sha256: policySha256,
     intent: { path: sanitizeIntentPath(input.intent_path), sha256: intentSha256 },
     bundle: { bundle_id: bundle.id, sha256: `sha256:${bundleHash}` },
     kernel_result_kind: kernelResultKind,
     execution: sandboxExecution,
     decision,
     model_mode: modelMode,
+    ...(modelIoHash && { model_io_hash: modelIoHash }),
+    ...(answersRef && { answers: answersRef }),
   };
 
   // Add sandbox path if preserved (internal/debug use only, not for public output)
@@ -329,8 +401,14 @@ function parseArgs(args: string[]): HarnessRunInput {
     console.error('Options:');
     console.error('  --mode plan-only|execute-sandbox');
     console.error('  --policy default|strict|dev');
+    console.error('  --policy-file <path>');
     console.error('  --model-mode none|record|replay');
     console.error('  --model-recording <path>');
+    console.error('  --answers <path>');
+    console.error('  --base-dir <dir>');
+    console.error('  --base-git <repo> [--base-rev <rev>]');
+    console.error('  --base-pack <pack_dir>');
+    console.error('  --ledger-checkpoint <n>');
     process.exit(1);
   }
 
@@ -339,6 +417,10 @@ function parseArgs(args: string[]): HarnessRunInput {
   let policy: PolicyProfileName = 'default';
   let modelMode: ModelMode | undefined;
   let modelRecordingPath: string | undefined;
+  let answersPath: string | undefined;
+  let policyFile: string | undefined;
+  let base: SandboxBase | undefined;
+  let baseRev = 'HEAD';
 
   for (let i = 1; i < args.length; i++) {
     if (args[i] === '--mode' && args[i + 1]) {
@@ -371,6 +453,24 @@ function parseArgs(args: string[]): HarnessRunInput {
     } else if (args[i] === '--model-recording' && args[i + 1]) {
       modelRecordingPath = args[i + 1];
       i++;
+    } else if (args[i] === '--policy-file' && args[i + 1]) {
+      policyFile = args[i + 1];
+      i++;
+    } else if (args[i] === '--answers' && args[i + 1]) {
+      answersPath = args[i + 1];
+      i++;
+    } else if (args[i] === '--base-dir' && args[i + 1]) {
+      base = { kind: 'dir', path: args[i + 1]! };
+      i++;
+    } else if (args[i] === '--base-git' && args[i + 1]) {
+      base = { kind: 'git', repo: args[i + 1]!, rev: baseRev };
+      i++;
+    } else if (args[i] === '--base-rev' && args[i + 1]) {
+      baseRev = args[i + 1]!;
+      i++;
+    } else if (args[i] === '--base-pack' && args[i + 1]) {
+      base = { kind: 'pack', path: args[i + 1]! };
+      i++;
     }
   }
 
@@ -381,9 +481,34 @@ function parseArgs(args: string[]): HarnessRunInput {
   if (modelRecordingPath) {
     input.model_recording_path = modelRecordingPath;
   }
+  if (answersPath) {
+    input.answers_path = answersPath;
+  }
+  if (policyFile) {
+    input.policy_file = policyFile;
+  }
+  if (base) {
+    input.base = base.kind === 'git' ? { ...base, rev: baseRev } : base;
+  }
   return input;
 }
 
+/**
+ * Parse ledger options (--ledger-checkpoint n: checkpoint every n entries).
+ */
+function parseLedgerOptions(args: string[]): LedgerAppendOptions {
+  const index = args.indexOf('--ledger-checkpoint');
+  if (index === -1) {
+    return {};
+  }
+  const interval = Number(args[index + 1]);
+  if (!Number.isInteger(interval) || interval < 1) {
+    console.error(`Invalid ledger-checkpoint: ${args[index + 1] ?? ''}`);
+    process.exit(1);
+  }
+  return { checkpointInterval: interval };
+}
+
 /**
  * Write result to output directory.
  * Uses canonical JSON for determinism (per RUN_SPEC.md RS7).
@@ -405,6 +530,7 @@ async function writeResult(result: HarnessRunResult): Promise<string> {
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
   const input = parseArgs(args);
+  const ledgerOptions = parseLedgerOptions(args);
 
   try {
     const result = await runHarness(input);
@@ -413,7 +539,7 @@ async function main(): Promise<void> {
     const resultPath = await writeResult(result);
 
     // Append to ledger
-    await appendHarnessResult(result);
+    await appendHarnessResult(result, undefined, ledgerOptions);
 
     // Output to stdout (canonical JSON per RUN_SPEC.md RS7)
     console.log(canonicalize(result));
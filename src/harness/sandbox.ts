@@ -6,19 +6,38 @@
  *
  * Key guarantees:
  * - Execution in temp directory only
- * - No network access (default)
- * - Timeout enforcement
+ * - No network access (default; enforced by namespaces when isolated)
+ * - Writes limited to allowed_write_roots when isolated
+ * - Allowlisted environment only
+ * - Timeout and rlimit enforcement (memory, CPU, processes, open files)
  * - Deterministic output collection
+ * - stdout/stderr streamed to log files with incremental SHA-256, capped
+ *   at max_total_output_bytes on a UTF-8 character boundary
+ * - Ordered command pipelines (steps) with per-step exit code, logs and
+ *   timing; a failed step halts the pipeline unless continue_on_failure
  */
 
 import { createHash, randomBytes } from 'node:crypto';
 import { spawn } from 'node:child_process';
-import { mkdir, writeFile, readFile, readdir, lstat, rm } from 'node:fs/promises';
+import { createWriteStream } from 'node:fs';
+import { mkdir, readFile, readdir, lstat, rm } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
 import { join, normalize, isAbsolute } from 'node:path';
 import { tmpdir } from 'node:os';
 
-import type { PolicyProfile, SandboxExecution, OutputFile, ContentHash } from './types.js';
+import type {
+  PolicyProfile,
+  SandboxExecution,
+  SandboxIsolation,
+  SandboxTermination,
+  SandboxExecutionStep,
+  OutputFile,
+  BaseSnapshot,
+  ContentHash,
+} from './types.js';
 import { isCommandAllowed } from './policy.js';
+import { resolveIsolation, wrapIsolatedCommand } from './isolation.js';
+import { buildSandboxEnv, resolveLimits, wrapLimitedCommand, classifyTermination } from './limits.js';
 
 // =============================================================================
 // Sandbox Types
@@ -50,35 +69,145 @@ export interface Sandbox {
 }
 
 /**
- * Result of running a command in sandbox.
+ * Options for running a command in sandbox.
  */
-export interface SandboxRunResult {
+export interface SandboxRunOptions {
   /**
-   * Exit code.
+   * Working directory relative to the sandbox root (default: root).
    */
-  exit_code: number;
+  cwd?: string;
+
+  /**
+   * Log file name prefix: logs go to `<logName>.stdout.txt` and
+   * `<logName>.stderr.txt` (default: `stdout.txt` and `stderr.txt`).
+   */
+  logName?: string;
+}
+
+/**
+ * A step of a command pipeline.
+ */
+export interface SandboxStep {
+  /**
+   * Step name (unique within the pipeline).
+   */
+  name: string;
+
+  /**
+   * Command array (first element is executable).
+   */
+  cmd: string[];
 
   /**
-   * Path to stdout file.
+   * Whether later steps run even if this one fails (default: false).
+   */
+  continue_on_failure?: boolean;
+}
+
+/**
+ * Logs of a sandbox command.
+ */
+export interface SandboxRunLogs {
+  /**
+   * Path to stdout file ('' if the command never ran).
    */
   stdout_path: string;
 
   /**
-   * Path to stderr file.
+   * Path to stderr file ('' if the command never ran).
    */
   stderr_path: string;
 
+  /**
+   * SHA-256 of the stdout file, computed while streaming.
+   */
+  stdout_sha256: ContentHash;
+
+  /**
+   * SHA-256 of the stderr file, computed while streaming.
+   */
+  stderr_sha256: ContentHash;
+
+  /**
+   * Bytes written to the stdout file.
+   */
+  stdout_bytes: number;
+
+  /**
+   * Bytes written to the stderr file.
+   */
+  stderr_bytes: number;
+
+  /**
+   * Whether stdout exceeded max_total_output_bytes and was cut.
+   */
+  stdout_truncated: boolean;
+
+  /**
+   * Whether stderr exceeded max_total_output_bytes and was cut.
+   */
+  stderr_truncated: boolean;
+}
+
+/**
+ * Result of running a command in sandbox.
+ */
+export interface SandboxRunResult extends SandboxRunLogs {
+  /**
+   * Exit code.
+   */
+  exit_code: number;
+
   /**
    * Whether process was killed due to timeout.
    */
   timed_out: boolean;
 
+  /**
+   * Isolation backend the command ran under.
+   */
+  isolation: SandboxIsolation;
+
+  /**
+   * Whether the policy's rlimits were applied.
+   */
+  limits_enforced: boolean;
+
+  /**
+   * Why the command stopped.
+   */
+  termination: SandboxTermination;
+
+  /**
+   * True if termination was inferred from stderr.
+   */
+  termination_inferred?: boolean;
+
   /**
    * Error message if spawn failed.
    */
   error?: string;
 }
 
+/**
+ * SHA-256 of empty content.
+ */
+const EMPTY_SHA256: ContentHash = 'sha256:e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+/**
+ * Logs of a command that never ran.
+ */
+export const EMPTY_RUN_LOGS: Readonly<SandboxRunLogs> = {
+  stdout_path: '',
+  stderr_path: '',
+  stdout_sha256: EMPTY_SHA256,
+  stderr_sha256: EMPTY_SHA256,
+  stdout_bytes: 0,
+  stderr_bytes: 0,
+  stdout_truncated: false,
+  stderr_truncated: false,
+};
+
 // =============================================================================
 // Sandbox Management
 // =============================================================================
@@ -128,20 +257,24 @@ export async function cleanupSandbox(sandbox: Sandbox): Promise<void> {
  * @param sandbox - Sandbox to run in
  * @param cmd - Command array (first element is executable)
  * @param policy - Policy profile
+ * @param options - Run options
  * @returns Run result
  */
 export async function runInSandbox(
   sandbox: Sandbox,
   cmd: string[],
-  policy: PolicyProfile
+  policy: PolicyProfile,
+  options: SandboxRunOptions = {}
 ): Promise<SandboxRunResult> {
   const executable = cmd[0];
   if (!executable) {
     return {
+      ...EMPTY_RUN_LOGS,
       exit_code: 1,
-      stdout_path: '',
-      stderr_path: '',
       timed_out: false,
+      isolation: 'none',
+      limits_enforced: false,
+      termination: 'error',
       error: 'Empty command',
     };
   }
@@ -149,57 +282,83 @@ export async function runInSandbox(
   // Check if command is allowed
   if (!isCommandAllowed(executable, policy)) {
     return {
+      ...EMPTY_RUN_LOGS,
       exit_code: 1,
-      stdout_path: '',
-      stderr_path: '',
       timed_out: false,
+      isolation: 'none',
+      limits_enforced: false,
+      termination: 'error',
       error: `Command not allowed by policy: ${executable}`,
     };
   }
 
-  const stdoutPath = join(sandbox.logsDir, 'stdout.txt');
-  const stderrPath = join(sandbox.logsDir, 'stderr.txt');
+  // Choose isolation backend; strict isolation refuses without namespaces
+  const isolation = resolveIsolation(policy);
+  if (!isolation.ok) {
+    return {
+      ...EMPTY_RUN_LOGS,
+      exit_code: 1,
+      timed_out: false,
+      isolation: 'none',
+      limits_enforced: false,
+      termination: 'error',
+      error: isolation.error,
+    };
+  }
+  // Apply rlimits where prlimit exists; strict isolation refuses without
+  const limits = resolveLimits(policy);
+  if (!limits.ok) {
+    return {
+      ...EMPTY_RUN_LOGS,
+      exit_code: 1,
+      timed_out: false,
+      isolation: 'none',
+      limits_enforced: false,
+      termination: 'error',
+      error: limits.error,
+    };
+  }
+  const workdir = options.cwd ?? '.';
+  if (!isPathSafe(workdir)) {
+    return {
+      ...EMPTY_RUN_LOGS,
+      exit_code: 1,
+      timed_out: false,
+      isolation: 'none',
+      limits_enforced: false,
+      termination: 'error',
+      error: `Working directory outside sandbox: ${workdir}`,
+    };
+  }
+
+  const limited = limits.enforced ? wrapLimitedCommand(cmd, policy) : cmd;
+  const argv = isolation.mode === 'namespaces'
+    ? wrapIsolatedCommand(sandbox.dir, limited, policy, workdir)
+    : limited;
+
+  const logPrefix = options.logName !== undefined ? `${options.logName}.` : '';
+  const stdoutPath = join(sandbox.logsDir, `${logPrefix}stdout.txt`);
+  const stderrPath = join(sandbox.logsDir, `${logPrefix}stderr.txt`);
+
+  const stdoutLog = openLogFile(stdoutPath, policy.max_total_output_bytes);
+  const stderrLog = openLogFile(stderrPath, policy.max_total_output_bytes);
 
   return new Promise((resolve) => {
-    let stdoutData = '';
-    let stderrData = '';
+    // Tail of stderr (uncapped by the log limit) for termination markers
+    let stderrTail = '';
     let timedOut = false;
     let resolved = false;
 
-    const proc = spawn(executable, cmd.slice(1), {
-      cwd: sandbox.dir,
-      env: {
-        ...process.env,
-        // Restrict HOME and TMPDIR to sandbox
-        HOME: sandbox.dir,
-        TMPDIR: sandbox.dir,
-        // Clear network-related env vars
-        http_proxy: '',
-        https_proxy: '',
-        HTTP_PROXY: '',
-        HTTPS_PROXY: '',
-        no_proxy: '*',
-        NO_PROXY: '*',
-      },
+    const proc = spawn(argv[0]!, argv.slice(1), {
+      cwd: join(sandbox.dir, workdir),
+      env: buildSandboxEnv(sandbox.dir, policy),
       stdio: ['ignore', 'pipe', 'pipe'],
     });
 
-    // Collect stdout
-    proc.stdout?.on('data', (data: Buffer) => {
-      stdoutData += data.toString();
-      // Enforce max size
-      if (stdoutData.length > policy.max_total_output_bytes) {
-        stdoutData = stdoutData.slice(0, policy.max_total_output_bytes);
-      }
-    });
-
-    // Collect stderr
+    pipeToLog(proc.stdout, stdoutLog);
+    pipeToLog(proc.stderr, stderrLog);
     proc.stderr?.on('data', (data: Buffer) => {
-      stderrData += data.toString();
-      // Enforce max size
-      if (stderrData.length > policy.max_total_output_bytes) {
-        stderrData = stderrData.slice(0, policy.max_total_output_bytes);
-      }
+      stderrTail = (stderrTail + data.toString()).slice(-STDERR_TAIL_CHARS);
     });
 
     // Timeout handler
@@ -209,25 +368,37 @@ export async function runInSandbox(
     }, policy.timeout_ms);
 
     // Process exit handler
-    proc.on('close', async (code) => {
+    proc.on('close', async (code, signal) => {
       clearTimeout(timeout);
 
       if (resolved) return;
       resolved = true;
 
-      // Write stdout/stderr to files
-      try {
-        await writeFile(stdoutPath, stdoutData, 'utf-8');
-        await writeFile(stderrPath, stderrData, 'utf-8');
-      } catch {
-        // Ignore write errors
-      }
+      const stdout = await stdoutLog.close();
+      const stderr = await stderrLog.close();
+      const { termination, inferred } = classifyTermination({
+        code,
+        signal,
+        timed_out: timedOut,
+        limits_enforced: limits.enforced,
+        stderr: stderrTail,
+      });
 
       resolve({
         exit_code: code ?? 1,
         stdout_path: stdoutPath,
         stderr_path: stderrPath,
+        stdout_sha256: stdout.sha256,
+        stderr_sha256: stderr.sha256,
+        stdout_bytes: stdout.bytes,
+        stderr_bytes: stderr.bytes,
+        stdout_truncated: stdout.truncated,
+        stderr_truncated: stderr.truncated,
         timed_out: timedOut,
+        isolation: isolation.mode,
+        limits_enforced: limits.enforced,
+        termination,
+        ...(inferred && { termination_inferred: true }),
       });
     });
 
@@ -238,17 +409,278 @@ export async function runInSandbox(
       if (resolved) return;
       resolved = true;
 
+      await stdoutLog.close();
+      await stderrLog.close();
+
       resolve({
+        ...EMPTY_RUN_LOGS,
         exit_code: 1,
-        stdout_path: '',
-        stderr_path: '',
         timed_out: false,
+        isolation: isolation.mode,
+        limits_enforced: limits.enforced,
+        termination: 'error',
         error: err.message,
       });
     });
   });
 }
 
+// =============================================================================
+// Pipelines
+// =============================================================================
+
+/**
+ * Run one pipeline step. Its logs are named after its position, so every
+ * step of a pipeline keeps its own.
+ *
+ * @param sandbox - Sandbox to run in
+ * @param step - Step to run
+ * @param index - Position of the step in its pipeline
+ * @param policy - Policy profile
+ * @param options - Run options (logName is set from index)
+ * @returns Step record and the underlying run
+ */
+export async function runStep(
+  sandbox: Sandbox,
+  step: SandboxStep,
+  index: number,
+  policy: PolicyProfile,
+  options: SandboxRunOptions = {}
+): Promise<{ step: SandboxExecutionStep; run: SandboxRunResult }> {
+  const startedAt = new Date();
+  const run = await runInSandbox(sandbox, step.cmd, policy, { ...options, logName: `step_${index}` });
+
+  let status: SandboxExecutionStep['status'] = 'success';
+  if (run.timed_out) {
+    status = 'timeout';
+  } else if (run.error !== undefined || run.exit_code !== 0) {
+    status = 'failure';
+  }
+
+  return {
+    step: {
+      name: step.name,
+      cmd: step.cmd,
+      status,
+      continue_on_failure: step.continue_on_failure === true,
+      exit_code: run.exit_code,
+      termination: run.termination,
+      ...(run.termination_inferred && { termination_inferred: true }),
+      started_at: startedAt.toISOString(),
+      duration_ms: Date.now() - startedAt.getTime(),
+      stdout_sha256: run.stdout_sha256,
+      stderr_sha256: run.stderr_sha256,
+      stdout_bytes: run.stdout_bytes,
+      stderr_bytes: run.stderr_bytes,
+      stdout_truncated: run.stdout_truncated,
+      stderr_truncated: run.stderr_truncated,
+    },
+    run,
+  };
+}
+
+/**
+ * Record a step that was not run because an earlier step failed.
+ *
+ * @param step - Skipped step
+ * @returns Step record (no exit code, empty logs)
+ */
+export function skipStep(step: SandboxStep): SandboxExecutionStep {
+  return {
+    name: step.name,
+    cmd: step.cmd,
+    status: 'skipped',
+    continue_on_failure: step.continue_on_failure === true,
+    exit_code: null,
+    termination: null,
+    started_at: new Date().toISOString(),
+    duration_ms: 0,
+    stdout_sha256: EMPTY_SHA256,
+    stderr_sha256: EMPTY_SHA256,
+    stdout_bytes: 0,
+    stderr_bytes: 0,
+    stdout_truncated: false,
+    stderr_truncated: false,
+  };
+}
+
+/**
+ * Whether a step halts its pipeline.
+ */
+export function haltsPipeline(step: SandboxExecutionStep): boolean {
+  return step.status !== 'success' && step.status !== 'skipped' && !step.continue_on_failure;
+}
+
+/**
+ * Run steps in order in one sandbox. A step that fails (non-zero exit,
+ * timeout, refusal) halts the pipeline unless it has continue_on_failure;
+ * the steps after it are recorded as skipped.
+ *
+ * @param sandbox - Sandbox to run in
+ * @param steps - Steps, in order
+ * @param policy - Policy profile
+ * @param options - Run options shared by every step
+ * @returns Step records and the runs of the steps that ran
+ */
+export async function runSteps(
+  sandbox: Sandbox,
+  steps: SandboxStep[],
+  policy: PolicyProfile,
+  options: SandboxRunOptions = {}
+): Promise<{ steps: SandboxExecutionStep[]; runs: SandboxRunResult[] }> {
+  const records: SandboxExecutionStep[] = [];
+  const runs: SandboxRunResult[] = [];
+  let halted = false;
+
+  for (const [index, step] of steps.entries()) {
+    if (halted) {
+      records.push(skipStep(step));
+      continue;
+    }
+    const result = await runStep(sandbox, step, index, policy, options);
+    records.push(result.step);
+    runs.push(result.run);
+    halted = haltsPipeline(result.step);
+  }
+
+  return { steps: records, runs };
+}
+
+// =============================================================================
+// Log Streaming
+// =============================================================================
+
+/**
+ * Characters of stderr kept in memory for termination classification.
+ */
+const STDERR_TAIL_CHARS = 64 * 1024;
+
+/**
+ * Summary of a closed log file.
+ */
+interface LogSummary {
+  sha256: ContentHash;
+  bytes: number;
+  truncated: boolean;
+}
+
+/**
+ * Capped log file being written.
+ */
+interface LogFile {
+  /**
+   * Append a chunk; returns false when the caller should wait for 'drain'.
+   */
+  write(chunk: Buffer): boolean;
+
+  /**
+   * Resolve once the caller may write again.
+   */
+  drain(): Promise<void>;
+
+  /**
+   * Flush and close the file.
+   */
+  close(): Promise<LogSummary>;
+}
+
+/**
+ * Length of the longest prefix of a buffer that does not end inside a
+ * UTF-8 sequence.
+ */
+function completeUtf8Length(buf: Buffer): number {
+  for (let i = buf.length - 1; i >= 0 && i >= buf.length - 4; i--) {
+    const byte = buf[i]!;
+    if ((byte & 0xc0) === 0x80) continue;
+    const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return i + length > buf.length ? i : buf.length;
+  }
+  return buf.length;
+}
+
+/**
+ * Largest cut point at or before limit that does not split a UTF-8
+ * sequence (buf starts on a character boundary).
+ */
+function utf8CutPoint(buf: Buffer, limit: number): number {
+  let cut = limit;
+  while (cut > 0 && cut > limit - 3 && (buf[cut]! & 0xc0) === 0x80) {
+    cut--;
+  }
+  return (buf[cut]! & 0xc0) === 0x80 ? limit : cut;
+}
+
+/**
+ * Open a log file that hashes what it writes and stops at maxBytes.
+ * Bytes of an incomplete UTF-8 sequence are held back until the rest
+ * arrives, so the cut never splits a character; output past the cap is
+ * discarded and the log is marked truncated.
+ *
+ * @param path - Log file path
+ * @param maxBytes - Maximum bytes to write
+ * @returns Log file
+ */
+function openLogFile(path: string, maxBytes: number): LogFile {
+  const stream = createWriteStream(path);
+  const hash = createHash('sha256');
+  let pending: Buffer = Buffer.alloc(0);
+  let bytes = 0;
+  let truncated = false;
+  let failed = false;
+  stream.on('error', () => {
+    failed = true;
+  });
+
+  function emit(buf: Buffer): boolean {
+    let data = buf;
+    if (data.length > maxBytes - bytes) {
+      data = data.subarray(0, utf8CutPoint(data, maxBytes - bytes));
+      truncated = true;
+      pending = Buffer.alloc(0);
+    }
+    if (data.length === 0 || failed) return true;
+    hash.update(data);
+    bytes += data.length;
+    return stream.write(data);
+  }
+
+  return {
+    write(chunk) {
+      if (truncated) return true;
+      const data = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+      const complete = completeUtf8Length(data);
+      pending = data.subarray(complete);
+      return emit(data.subarray(0, complete));
+    },
+
+    drain() {
+      return failed ? Promise.resolve() : new Promise((resolve) => stream.once('drain', resolve));
+    },
+
+    close() {
+      if (!truncated && pending.length > 0) {
+        emit(pending);
+      }
+      return new Promise((resolve) => {
+        stream.end(() => resolve({ sha256: `sha256:${hash.digest('hex')}`, bytes, truncated }));
+      });
+    },
+  };
+}
+
+/**
+ * Stream a child's output into a log file, pausing the child's pipe
+ * while the file catches up.
+ */
+function pipeToLog(source: Readable | null, log: LogFile): void {
+  source?.on('data', (data: Buffer) => {
+    if (!log.write(data)) {
+      source.pause();
+      void log.drain().then(() => source.resume());
+    }
+  });
+}
+
 // =============================================================================
 // Output Collection
 // =============================================================================
@@ -296,6 +728,10 @@ function isPathSafe(relativePath: string): boolean {
  * Collect outputs from sandbox directory.
  * Walks directory deterministically (sorted).
  *
+ * With a base, only files added or changed relative to it are outputs
+ * (and count toward the limits); base files no longer present are
+ * reported as deleted.
+ *
  * Security hardening:
  * - Uses lstat (no symlink following)
  * - Skips symlinks entirely
@@ -304,17 +740,21 @@ function isPathSafe(relativePath: string): boolean {
  *
  * @param sandbox - Sandbox to collect from
  * @param policy - Policy for limits
- * @returns Output files, total bytes, and security violations
+ * @param base - Base the workspace was seeded from
+ * @returns Output files, deleted base files, total bytes, and security violations
  */
 export async function collectOutputs(
   sandbox: Sandbox,
-  policy: PolicyProfile
+  policy: PolicyProfile,
+  base?: BaseSnapshot
 ): Promise<{
   outputs: OutputFile[];
+  deleted: string[];
   total_bytes: number;
   truncated: boolean;
   security_violations: string[];
 }> {
+  const baseHashes = new Map((base?.files ?? []).map((file) => [file.path, file.sha256]));
   const outputs: OutputFile[] = [];
   let totalBytes = 0;
   let truncated = false;
@@ -377,9 +817,13 @@ export async function collectOutputs(
       } else if (stats.isFile()) {
         try {
           const content = await readFile(fullPath);
+          const hash = sha256(content);
+          if (baseHashes.get(relativePath) === hash) {
+            continue;
+          }
           outputs.push({
             path: relativePath,
-            sha256: sha256(content),
+            sha256: hash,
             size_bytes: content.length,
           });
           totalBytes += content.length;
@@ -392,8 +836,17 @@ export async function collectOutputs(
 
   await walkDir(sandbox.outDir, '', 0);
 
+  const deleted: string[] = [];
+  for (const path of baseHashes.keys()) {
+    const stats = await lstat(join(sandbox.outDir, path)).catch(() => null);
+    if (!stats?.isFile()) {
+      deleted.push(path);
+    }
+  }
+
   return {
     outputs,
+    deleted,
     total_bytes: totalBytes,
     truncated,
     security_violations: securityViolations,
@@ -407,38 +860,20 @@ export async function collectOutputs(
  * @param cmd - Command executed
  * @param runResult - Result of running command
  * @param policy - Policy used
+ * @param base - Base the workspace was seeded from
+ * @param steps - Pipeline steps the execution ran
  * @returns Sandbox execution evidence
  */
 export async function buildSandboxExecution(
   sandbox: Sandbox,
   cmd: string[],
   runResult: SandboxRunResult,
-  policy: PolicyProfile
+  policy: PolicyProfile,
+  base?: BaseSnapshot,
+  steps?: SandboxExecutionStep[]
 ): Promise<SandboxExecution> {
-  // Hash stdout/stderr
-  let stdoutSha256: ContentHash = 'sha256:e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'; // empty
-  let stderrSha256: ContentHash = 'sha256:e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'; // empty
-
-  if (runResult.stdout_path) {
-    try {
-      const content = await readFile(runResult.stdout_path);
-      stdoutSha256 = sha256(content);
-    } catch {
-      // Use empty hash
-    }
-  }
-
-  if (runResult.stderr_path) {
-    try {
-      const content = await readFile(runResult.stderr_path);
-      stderrSha256 = sha256(content);
-    } catch {
-      // Use empty hash
-    }
-  }
-
   // Collect outputs
-  const { outputs, total_bytes, truncated, security_violations } = await collectOutputs(sandbox, policy);
+  const { outputs, deleted, total_bytes, truncated, security_violations } = await collectOutputs(sandbox, policy, base);
 
   // Log security violations if any (for audit trail)
   if (security_violations.length > 0) {
@@ -450,10 +885,20 @@ export async function buildSandboxExecution(
     sandbox_id: sandbox.id,
     cmd,
     exit_code: runResult.exit_code,
-    stdout_sha256: stdoutSha256,
-    stderr_sha256: stderrSha256,
+    stdout_sha256: runResult.stdout_sha256,
+    stderr_sha256: runResult.stderr_sha256,
+    stdout_bytes: runResult.stdout_bytes,
+    stderr_bytes: runResult.stderr_bytes,
+    stdout_truncated: runResult.stdout_truncated,
+    stderr_truncated: runResult.stderr_truncated,
     outputs,
     total_output_bytes: total_bytes,
     output_truncated: truncated || security_violations.length > 0,
+    isolation: runResult.isolation,
+    limits_enforced: runResult.limits_enforced,
+    termination: runResult.termination,
+    ...(runResult.termination_inferred && { termination_inferred: true }),
+    ...(base && { base, deleted }),
+    ...(steps && { steps }),
   };
 }
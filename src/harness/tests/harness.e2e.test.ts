@@ -7,19 +7,39 @@
  * Tests verify:
  * - Plan-only path works
  * - Execute-sandbox path works
+ * - Proposal actions run against a seeded workspace
+ * - Bases (directory, git commit, pack) seed the workspace
  * - Evidence is properly captured
  * - Kernel validation is called
  * - Decision is based on kernel recommendation
+ * - Model record/replay reproduces the bundle
  */
 
 import { describe, it, before, after } from 'node:test';
+import { spawnSync } from 'node:child_process';
 import * as assert from 'node:assert/strict';
 import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
 import { runHarness } from '../run_intent.js';
+import { transform } from '../../assembler/bundle.js';
+import {
+  validateEvidence,
+  type Proposal,
+  type ProposedAction,
+  type AcceptanceTest,
+} from '../../protocol/proposal.js';
+import { SCHEMA_VERSION } from '../../types/artifacts.js';
+import { canonicalHash } from '../../utils/canonical.js';
 import { loadPolicy } from '../policy.js';
+import { createSandbox, cleanupSandbox, buildSandboxExecution, EMPTY_RUN_LOGS } from '../sandbox.js';
+import { materializeBase } from '../base.js';
+import { executeActions, evaluateAcceptanceTests } from '../actions.js';
+import { buildKernelEvidence } from '../evidence.js';
+import { createFixedAdapter } from '../../adapters/mock.js';
+import { verifyModelIO } from '../../consumer/model_io_verify.js';
 import type { HarnessRunInput, HarnessRunResult } from '../types.js';
 
 // =============================================================================
@@ -53,7 +73,7 @@ describe('Harness: Plan-Only Mode', () => {
     assert.ok(result.run_id.startsWith('hr_'), 'Run ID should have hr_ prefix');
     assert.ok(result.started_at, 'Should have started_at');
     assert.ok(result.completed_at, 'Should have completed_at');
-    assert.strictEqual(result.kernel_version, '0.1.0', 'Should use kernel version');
+    assert.strictEqual(result.kernel_version, '0.3.0', 'Should use kernel version');
 
     // Verify intent was processed
     assert.ok(result.intent.path, 'Should have intent path');
@@ -297,3 +317,570 @@ describe('Harness: Result Structure', () => {
     assert.ok(completed >= started, 'completed_at should be >= started_at');
   });
 });
+
+// =============================================================================
+// Answer Resolution Tests
+// =============================================================================
+
+describe('Harness: Answers', () => {
+  let tmpDir: string;
+
+  before(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'harness-answers-'));
+  });
+
+  after(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('resolves questions from an answers file', async () => {
+    const intentPath = path.join(fixturesDir, 'intent_harness_003_clarify.json');
+    const intent = JSON.parse(await fs.readFile(intentPath, 'utf-8')) as { goal: string; constraints: string[] };
+    const question = transform(intent).root_node.splitting_question!.question;
+
+    const answersPath = path.join(tmpDir, 'answers.json');
+    await fs.writeFile(answersPath, JSON.stringify({ [question.id]: 'Go' }));
+
+    const plain = await runHarness({ intent_path: intentPath, mode: 'plan-only', policy: 'default' });
+    const result = await runHarness({
+      intent_path: intentPath,
+      mode: 'plan-only',
+      policy: 'default',
+      answers_path: answersPath,
+    });
+
+    assert.ok(result.bundle, 'Should produce bundle');
+    assert.notStrictEqual(result.bundle.sha256, plain.bundle?.sha256, 'Answers should change the bundle');
+    assert.strictEqual(result.answers?.path, 'answers.json', 'Answers path should be sanitized');
+    assert.ok(result.answers?.sha256.startsWith('sha256:'), 'Answers should have sha256');
+  });
+
+  it('refuses invalid answers', async () => {
+    const answersPath = path.join(tmpDir, 'bad_answers.json');
+    await fs.writeFile(answersPath, JSON.stringify({ q_ffffffffffffffff: 'Go' }));
+
+    const result = await runHarness({
+      intent_path: path.join(fixturesDir, 'intent_harness_003_clarify.json'),
+      mode: 'plan-only',
+      policy: 'default',
+      answers_path: answersPath,
+    });
+
+    assert.strictEqual(result.kernel_result_kind, 'REFUSE');
+    assert.match(result.refuse_reason ?? '', /Unknown question/);
+  });
+});
+
+// =============================================================================
+// Model Record/Replay Tests
+// =============================================================================
+
+describe('Harness: Model Record/Replay', () => {
+  let tmpDir: string;
+
+  const clarifierResponse = JSON.stringify({
+    needs_clarification: true,
+    reason: 'Output format is open',
+    questions: [
+      { question: 'Which format?', category: 'requirements', options: null, required: true, priority: 2 },
+      { question: 'Which audience?', category: 'scope', options: null, required: false, priority: 1 },
+    ],
+  });
+  const blueprintResponse = JSON.stringify({
+    confidence: 0.8,
+    warnings: null,
+    blueprint: {
+      version: '1.0',
+      title: 'Greeting script',
+      description: 'Prints a greeting',
+      components: [
+        { id: 'main', name: 'main script', purpose: 'prints', type: 'file', path: 'hello.js', action: 'create', details: '' },
+      ],
+      dependencies: [],
+      acceptance_criteria: ['prints hello'],
+      complexity: 'trivial',
+      risks: [],
+    },
+  });
+
+  const createModel = () => {
+    const model = createFixedAdapter(clarifierResponse, { model_id: 'test-model' });
+    model.addSubstringMatch('implementation blueprints', { content: blueprintResponse });
+    return model;
+  };
+
+  before(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'harness-model-'));
+  });
+
+  after(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('records the model session and attaches its output to the bundle', async () => {
+    const recordingPath = path.join(tmpDir, 'record.json');
+    const input: HarnessRunInput = {
+      intent_path: path.join(fixturesDir, 'intent_harness_001_plan_only.json'),
+      mode: 'plan-only',
+      policy: 'dev',
+      model_mode: 'record',
+      model_recording_path: recordingPath,
+      model_adapter: createModel(),
+    };
+
+    const result = await runHarness(input);
+    const plain = await runHarness({ ...input, model_mode: 'none' });
+
+    const recording = JSON.parse(await fs.readFile(recordingPath, 'utf-8')) as unknown;
+    const verification = verifyModelIO(recording);
+    assert.ok(verification.ok, 'Recording should be valid model_io.json');
+    assert.strictEqual(result.model_io_hash, verification.model_io_hash);
+    assert.notStrictEqual(result.bundle?.sha256, plain.bundle?.sha256, 'Model output should be part of the bundle');
+    assert.strictEqual(plain.model_io_hash, undefined);
+  });
+
+  it('replays a recording to a byte-identical bundle', async () => {
+    const recordingPath = path.join(tmpDir, 'replay.json');
+    const input: HarnessRunInput = {
+      intent_path: path.join(fixturesDir, 'intent_harness_001_plan_only.json'),
+      mode: 'plan-only',
+      policy: 'dev',
+      model_mode: 'record',
+      model_recording_path: recordingPath,
+      model_adapter: createModel(),
+    };
+
+    const recorded = await runHarness(input);
+    const { model_adapter: _recordedModel, ...replayInput } = input;
+    const replayed = await runHarness({ ...replayInput, model_mode: 'replay' });
+
+    assert.deepStrictEqual(replayed.bundle, recorded.bundle);
+    assert.strictEqual(replayed.model_io_hash, recorded.model_io_hash);
+    assert.strictEqual(replayed.model_mode, 'replay');
+  });
+
+  it('refuses to replay a recording for a different intent', async () => {
+    const recordingPath = path.join(tmpDir, 'other.json');
+    await runHarness({
+      intent_path: path.join(fixturesDir, 'intent_harness_001_plan_only.json'),
+      mode: 'plan-only',
+      policy: 'dev',
+      model_mode: 'record',
+      model_recording_path: recordingPath,
+      model_adapter: createModel(),
+    });
+
+    await assert.rejects(
+      runHarness({
+        intent_path: path.join(fixturesDir, 'intent_harness_003_clarify.json'),
+        mode: 'plan-only',
+        policy: 'dev',
+        model_mode: 'replay',
+        model_recording_path: recordingPath,
+      }),
+      /mismatch/i
+    );
+  });
+});
+
+// =============================================================================
+// Proposal Action Tests
+// =============================================================================
+
+describe('Harness: Proposal Actions', () => {
+  let seedDir: string;
+
+  before(async () => {
+    seedDir = await fs.mkdtemp(path.join(os.tmpdir(), 'harness-seed-'));
+    await fs.mkdir(path.join(seedDir, 'src'));
+    await fs.writeFile(path.join(seedDir, 'src', 'app.ts'), 'export const x = 1;\n');
+    await fs.writeFile(path.join(seedDir, 'src', 'old.ts'), 'export const y = 2;\n');
+    await fs.writeFile(path.join(seedDir, 'README.md'), '# Seed\n');
+    await fs.writeFile(path.join(seedDir, 'package.json'), JSON.stringify({ name: 'seed', scripts: { test: 'node check.js' } }));
+    await fs.writeFile(
+      path.join(seedDir, 'check.js'),
+      "process.exit(require('fs').existsSync('src/old.ts') ? 1 : 0);\n"
+    );
+    await fs.writeFile(path.join(seedDir, 'link.js'), "require('fs').symlinkSync(process.argv[2], process.argv[3]);\n");
+  });
+
+  after(async () => {
+    await fs.rm(seedDir, { recursive: true, force: true });
+  });
+
+  function action(order: number, fields: Pick<ProposedAction, 'type' | 'target'> & Partial<ProposedAction>): ProposedAction {
+    return {
+      id: `act_${String(order).padStart(16, '0')}`,
+      required: true,
+      description: `${fields.type} ${fields.target}`,
+      order,
+      ...fields,
+    };
+  }
+
+  function proposalOf(actions: ProposedAction[], acceptanceTests: AcceptanceTest[] = []): Proposal {
+    return {
+      id: 'prop_0000000000000001',
+      schema_version: SCHEMA_VERSION,
+      source_bundle_id: 'bundle_0000000000000001',
+      source_bundle_hash: 'a'.repeat(64),
+      actions,
+      acceptance_tests: acceptanceTests,
+      summary: 'Change existing files',
+      requires_approval: false,
+      confidence: 90,
+    };
+  }
+
+  async function execute(proposal: Proposal) {
+    const sandbox = await createSandbox();
+    try {
+      await materializeBase(sandbox, { kind: 'dir', path: seedDir });
+      const { action_results, steps } = await executeActions(proposal, sandbox, loadPolicy('default'));
+      const testResults = await evaluateAcceptanceTests(proposal, sandbox, loadPolicy('default'));
+      const at = new Date().toISOString();
+      const evidence = buildKernelEvidence(proposal, sandbox, action_results, testResults, at, at, steps);
+      const files = (await fs.readdir(path.join(sandbox.outDir, 'src'))).sort();
+      return { evidence, files, steps };
+    } finally {
+      await cleanupSandbox(sandbox);
+    }
+  }
+
+  it('modifies, deletes, validates and tests existing files', async () => {
+    const content = 'export const x = 2;\n';
+    const proposal = proposalOf([
+      action(0, { type: 'modify_file', target: 'src/app.ts', content, expected_hash: canonicalHash(content) }),
+      action(1, { type: 'delete_file', target: 'src/old.ts' }),
+      action(2, { type: 'validate', target: 'README.md', expected_hash: canonicalHash('# Seed\n') }),
+      action(3, { type: 'test', target: 'node check.js' }),
+    ]);
+
+    const { evidence, files } = await execute(proposal);
+
+    assert.deepStrictEqual(evidence.action_results.map((r) => r.status), ['success', 'success', 'success', 'success']);
+    assert.strictEqual(evidence.action_results[3]!.exit_code, 0);
+    for (const result of evidence.action_results) {
+      assert.ok(Number.isInteger(result.duration_ms) && result.duration_ms >= 0, 'duration_ms should be measured');
+    }
+    assert.deepStrictEqual(files, ['app.ts']);
+    assert.strictEqual(evidence.status, 'complete');
+    assert.strictEqual(validateEvidence(proposal, evidence).recommendation, 'accept');
+  });
+
+  it('fails actions on files that do not exist', async () => {
+    const proposal = proposalOf([
+      action(0, { type: 'modify_file', target: 'src/missing.ts', content: 'x\n' }),
+      action(1, { type: 'delete_file', target: 'src/missing.ts' }),
+      action(2, { type: 'validate', target: 'src/missing.ts' }),
+      action(3, { type: 'modify_file', target: '../escape.ts', content: 'x\n' }),
+    ]);
+
+    const { evidence } = await execute(proposal);
+
+    assert.deepStrictEqual(evidence.action_results.map((r) => r.status), ['failure', 'failure', 'failure', 'failure']);
+    assert.match(evidence.action_results[3]!.error ?? '', /outside workspace/);
+    assert.strictEqual(evidence.status, 'failed');
+    assert.strictEqual(validateEvidence(proposal, evidence).recommendation, 'reject');
+  });
+
+  it('refuses file actions through a symlink a command created', async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'harness-outside-'));
+    try {
+      await fs.writeFile(path.join(outside, 'secret.txt'), 'secret\n');
+      const proposal = proposalOf([
+        action(0, { type: 'execute_command', target: `node link.js ${outside} d` }),
+        action(1, { type: 'create_file', target: 'd/x.txt', content: 'x\n' }),
+        action(2, { type: 'modify_file', target: 'd/secret.txt', content: 'x\n' }),
+        action(3, { type: 'validate', target: 'd/secret.txt' }),
+        action(4, { type: 'delete_file', target: 'd/secret.txt' }),
+      ]);
+
+      const { evidence } = await execute(proposal);
+
+      assert.deepStrictEqual(
+        evidence.action_results.map((r) => r.status),
+        ['success', 'failure', 'failure', 'failure', 'failure']
+      );
+      assert.match(evidence.action_results[1]!.error ?? '', /symlink: d$/);
+      assert.deepStrictEqual(await fs.readdir(outside), ['secret.txt']);
+      assert.strictEqual(await fs.readFile(path.join(outside, 'secret.txt'), 'utf-8'), 'secret\n');
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('reports failing test commands with their exit code', async () => {
+    const proposal = proposalOf([action(0, { type: 'test', target: 'node check.js' })]);
+
+    const { evidence } = await execute(proposal);
+
+    assert.strictEqual(evidence.action_results[0]!.status, 'failure');
+    assert.strictEqual(evidence.action_results[0]!.exit_code, 1);
+    assert.strictEqual(validateEvidence(proposal, evidence).recommendation, 'reject');
+  });
+
+  it('halts at a failed command and skips the remaining actions', async () => {
+    const proposal = proposalOf([
+      action(0, { type: 'execute_command', target: 'node --version' }),
+      action(1, { type: 'test', target: 'node check.js' }),
+      action(2, { type: 'delete_file', target: 'src/old.ts' }),
+      action(3, { type: 'test', target: 'node check.js' }),
+    ]);
+
+    const { evidence, files, steps } = await execute(proposal);
+
+    assert.deepStrictEqual(evidence.action_results.map((r) => r.status), ['success', 'failure', 'skipped', 'skipped']);
+    assert.match(evidence.action_results[2]!.error ?? '', /act_0000000000000001/);
+    assert.deepStrictEqual(files, ['app.ts', 'old.ts'], 'Skipped file actions should not run');
+    assert.deepStrictEqual(steps.map((s) => [s.name, s.status, s.exit_code]), [
+      ['act_0000000000000000', 'success', 0],
+      ['act_0000000000000001', 'failure', 1],
+      ['act_0000000000000003', 'skipped', null],
+    ]);
+    assert.ok(steps[0]!.stdout_bytes > 0, 'Each step should keep its own stdout');
+    assert.notStrictEqual(steps[0]!.stdout_sha256, steps[1]!.stdout_sha256);
+    assert.strictEqual(evidence.status, 'failed');
+  });
+
+  it('continues past a failed command with continue_on_failure', async () => {
+    const proposal = proposalOf([
+      action(0, { type: 'test', target: 'node check.js', continue_on_failure: true }),
+      action(1, { type: 'delete_file', target: 'src/old.ts' }),
+      action(2, { type: 'test', target: 'node check.js' }),
+    ]);
+
+    const { evidence, steps } = await execute(proposal);
+
+    assert.deepStrictEqual(evidence.action_results.map((r) => r.status), ['failure', 'success', 'success']);
+    assert.deepStrictEqual(steps.map((s) => [s.status, s.continue_on_failure]), [
+      ['failure', true],
+      ['success', false],
+    ]);
+    assert.strictEqual(evidence.status, 'partial');
+  });
+
+  it('evaluates command, JSON path and file-absent acceptance tests', async () => {
+    const test = (n: number, fields: Omit<AcceptanceTest, 'id' | 'name' | 'required'>): AcceptanceTest => ({
+      id: `test_${String(n).padStart(16, '0')}`,
+      name: `${fields.type} ${fields.target}`,
+      required: true,
+      ...fields,
+    });
+    const proposal = proposalOf(
+      [action(0, { type: 'delete_file', target: 'src/old.ts' })],
+      [
+        test(0, { type: 'command_exit', target: 'node check.js', expected: '0' }),
+        test(1, { type: 'command_output', target: 'node --version', expected: '^v\\d+\\.', match: 'regex' }),
+        test(2, { type: 'json_path', target: 'package.json', json_path: '$.scripts.test', expected: '"node check.js"' }),
+        test(3, { type: 'file_absent', target: 'src/old.ts', expected: 'true' }),
+      ]
+    );
+
+    const { evidence } = await execute(proposal);
+
+    assert.deepStrictEqual(evidence.test_results.map((r) => r.passed), [true, true, true, true]);
+    assert.strictEqual(evidence.test_results[0]!.exit_code, 0);
+    assert.strictEqual(validateEvidence(proposal, evidence).recommendation, 'accept');
+  });
+
+  it('fails command acceptance tests with an unexpected exit code', async () => {
+    const proposal = proposalOf([], [
+      {
+        id: 'test_0000000000000000',
+        name: 'check passes',
+        type: 'command_exit',
+        target: 'node check.js',
+        expected: '0',
+        required: true,
+      },
+    ]);
+
+    const { evidence } = await execute(proposal);
+
+    assert.deepStrictEqual(evidence.test_results[0], { test_id: 'test_0000000000000000', passed: false, actual: '1', exit_code: 1 });
+    assert.strictEqual(validateEvidence(proposal, evidence).recommendation, 'reject');
+  });
+
+  it('fails file acceptance tests through a symlinked directory', async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'harness-outside-'));
+    try {
+      await fs.writeFile(path.join(outside, 'secret.txt'), 'secret\n');
+      await fs.writeFile(path.join(outside, 'data.json'), '{"key":"value"}\n');
+      const test = (n: number, fields: Omit<AcceptanceTest, 'id' | 'name' | 'required'>): AcceptanceTest => ({
+        id: `test_${String(n).padStart(16, '0')}`,
+        name: `${fields.type} ${fields.target}`,
+        required: true,
+        ...fields,
+      });
+      const proposal = proposalOf(
+        [action(0, { type: 'execute_command', target: `node link.js ${outside} d` })],
+        [
+          test(0, { type: 'file_exists', target: 'd/secret.txt', expected: 'true' }),
+          test(1, { type: 'file_absent', target: 'd/missing.txt', expected: 'true' }),
+          test(2, { type: 'content_match', target: 'd/secret.txt', expected: 'secret\n' }),
+          test(3, { type: 'hash_match', target: 'd/secret.txt', expected: canonicalHash('secret\n') }),
+          test(4, { type: 'json_path', target: 'd/data.json', json_path: '$.key', expected: '"value"' }),
+        ]
+      );
+
+      const { evidence } = await execute(proposal);
+
+      assert.deepStrictEqual(evidence.test_results.map((r) => r.passed), [false, false, false, false, false]);
+      for (const result of evidence.test_results) {
+        assert.strictEqual(result.error, 'Target passes through a symlink: d');
+      }
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('runs proposals against a base directory', async () => {
+    const result = await runHarness({
+      intent_path: path.join(fixturesDir, 'intent_harness_002_execute.json'),
+      mode: 'execute-sandbox',
+      policy: 'default',
+      base: { kind: 'dir', path: seedDir },
+    });
+
+    assert.ok(result.execution, 'Should have execution');
+    assert.ok(result.execution.base?.files.some((f) => f.path === 'src/app.ts'), 'Base should be recorded');
+    assert.ok(result.execution.outputs.length > 0, 'Created files should be outputs');
+    assert.ok(!result.execution.outputs.some((o) => o.path.startsWith('src/')), 'Unchanged base files are not outputs');
+    assert.strictEqual(result.execution.exit_code, 0, 'Every action should succeed');
+    assert.ok(
+      !result.decision.reasons.some((r) => r.startsWith('Required action failed') || r.startsWith('Hash mismatch')),
+      'Kernel should find no failed actions'
+    );
+  });
+});
+
+// =============================================================================
+// Sandbox Base Tests
+// =============================================================================
+
+describe('Harness: Sandbox Bases', () => {
+  let tmpDir: string;
+
+  before(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'harness-base-'));
+  });
+
+  after(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  async function withSandbox<T>(fn: (sandbox: Awaited<ReturnType<typeof createSandbox>>) => Promise<T>): Promise<T> {
+    const sandbox = await createSandbox();
+    try {
+      return await fn(sandbox);
+    } finally {
+      await cleanupSandbox(sandbox);
+    }
+  }
+
+  it('records a hash tree for a directory base and skips symlinks', async () => {
+    const dir = path.join(tmpDir, 'dir');
+    await fs.mkdir(path.join(dir, 'b'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'b', 'x.txt'), 'x');
+    await fs.writeFile(path.join(dir, 'a-c.txt'), 'ac');
+    await fs.symlink('/etc/hostname', path.join(dir, 'link'));
+
+    const first = await withSandbox((sandbox) => materializeBase(sandbox, { kind: 'dir', path: dir }));
+    const second = await withSandbox((sandbox) => materializeBase(sandbox, { kind: 'dir', path: dir }));
+
+    assert.deepStrictEqual(first.files.map((f) => f.path), ['a-c.txt', 'b/x.txt']);
+    assert.match(first.tree_sha256, /^sha256:[a-f0-9]{64}$/);
+    assert.strictEqual(first.tree_sha256, second.tree_sha256, 'Tree hash should be deterministic');
+    assert.strictEqual(first.commit, undefined);
+  });
+
+  it('reports only the delta against the base', async () => {
+    const dir = path.join(tmpDir, 'delta');
+    await fs.mkdir(dir);
+    await fs.writeFile(path.join(dir, 'keep.txt'), 'keep');
+    await fs.writeFile(path.join(dir, 'change.txt'), 'old');
+    await fs.writeFile(path.join(dir, 'remove.txt'), 'gone');
+
+    const execution = await withSandbox(async (sandbox) => {
+      const base = await materializeBase(sandbox, { kind: 'dir', path: dir });
+      await fs.writeFile(path.join(sandbox.outDir, 'change.txt'), 'new');
+      await fs.writeFile(path.join(sandbox.outDir, 'added.txt'), 'added');
+      await fs.rm(path.join(sandbox.outDir, 'remove.txt'));
+      const runResult = {
+        ...EMPTY_RUN_LOGS,
+        exit_code: 0,
+        timed_out: false,
+        isolation: 'none' as const,
+        limits_enforced: false,
+        termination: 'exit' as const,
+      };
+      return buildSandboxExecution(sandbox, ['apply', 'proposal'], runResult, loadPolicy('default'), base);
+    });
+
+    assert.deepStrictEqual(execution.outputs.map((o) => o.path), ['added.txt', 'change.txt']);
+    assert.deepStrictEqual(execution.deleted, ['remove.txt']);
+    assert.strictEqual(execution.base?.files.length, 3);
+  });
+
+  it('checks out a commit from a local git repository', async () => {
+    const repo = path.join(tmpDir, 'repo');
+    await fs.mkdir(repo);
+    const git = (...args: string[]) => spawnSync('git', args, { cwd: repo, encoding: 'utf8' }).stdout.trim();
+    git('init');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    await fs.writeFile(path.join(repo, 'v.txt'), 'one');
+    git('add', '-A');
+    git('commit', '-m', 'one');
+    const first = git('rev-parse', 'HEAD');
+    await fs.writeFile(path.join(repo, 'v.txt'), 'two');
+    git('commit', '-am', 'two');
+
+    const snapshot = await withSandbox(async (sandbox) => {
+      const base = await materializeBase(sandbox, { kind: 'git', repo, rev: 'HEAD~1' });
+      assert.strictEqual(await fs.readFile(path.join(sandbox.outDir, 'v.txt'), 'utf-8'), 'one');
+      return base;
+    });
+
+    assert.strictEqual(snapshot.kind, 'git');
+    assert.strictEqual(snapshot.commit, first);
+    assert.deepStrictEqual(snapshot.files.map((f) => f.path), ['v.txt']);
+    assert.strictEqual(await fs.readFile(path.join(repo, 'v.txt'), 'utf-8'), 'two', 'Repository should be untouched');
+
+    await assert.rejects(
+      withSandbox((sandbox) => materializeBase(sandbox, { kind: 'git', repo, rev: 'no-such-rev' })),
+      /Failed to resolve git base no-such-rev/
+    );
+  });
+
+  it('applies a pack patch as the base', async () => {
+    const pack = path.join(tmpDir, 'pack');
+    await fs.mkdir(pack);
+    const content = 'from pack\n';
+    await fs.writeFile(path.join(pack, 'patch.json'), JSON.stringify({
+      patch_schema_version: '1.0.0',
+      source_proposal_id: 'prop_0000000000000001',
+      source_proposal_hash: 'sha256:' + 'b'.repeat(64),
+      operations: [{ op: 'create', path: 'docs/p.md', content, size_bytes: Buffer.byteLength(content), order: 0 }],
+      total_bytes: Buffer.byteLength(content),
+    }));
+
+    const snapshot = await withSandbox((sandbox) => materializeBase(sandbox, { kind: 'pack', path: pack }));
+
+    assert.strictEqual(snapshot.kind, 'pack');
+    assert.deepStrictEqual(snapshot.files.map((f) => f.path), ['docs/p.md']);
+  });
+
+  it('refuses a missing base directory', async () => {
+    await assert.rejects(
+      runHarness({
+        intent_path: path.join(fixturesDir, 'intent_harness_002_execute.json'),
+        mode: 'execute-sandbox',
+        policy: 'default',
+        base: { kind: 'dir', path: path.join(tmpDir, 'missing') },
+      }),
+      /Base directory not found/
+    );
+  });
+});
@@ -9,17 +9,21 @@
  * Failures use stable error prefixes for deterministic testing.
  */
 
-import { describe, it } from 'node:test';
+import { describe, it, beforeEach, afterEach } from 'node:test';
 import assert from 'node:assert';
+import { appendFile, mkdtemp, readFile, writeFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 
 import { canonicalize } from '../../utils/canonical.js';
-import { serializeLedgerEntry, createLedgerEntry } from '../ledger.js';
+import { serializeLedgerEntry, createLedgerEntry, appendHarnessResult, appendToLedger } from '../ledger.js';
+import { verifyLedger, computeEntryHash } from '../../consumer/ledger_verify.js';
+import { hashPolicy } from '../policy.js';
 import type {
   LedgerEntry,
   ContentHash,
   KernelResultKind,
   ExecutionMode,
-  PolicyProfileName,
   HarnessRunResult,
   PolicyProfile,
 } from '../types.js';
@@ -136,8 +140,8 @@ function checkOneEntryPerLine(ledgerContent: string): LedgerEntry[] {
         );
       }
 
-      const validPolicies: PolicyProfileName[] = ['strict', 'default', 'dev'];
-      if (!validPolicies.includes(parsed.policy)) {
+      // Built-in profile or custom profile name (POLICY_SPEC.md section 8.1)
+      if (typeof parsed.policy !== 'string' || !/^[a-z0-9][a-z0-9_-]{0,63}$/.test(parsed.policy)) {
         specViolation(
           RULES.LD1_ONE_ENTRY_PER_LINE,
           `Line ${i + 1}: invalid policy '${parsed.policy}'`
@@ -251,6 +255,9 @@ function createValidEntry(overrides: Partial<LedgerEntry> = {}): LedgerEntry {
     accepted: true,
     mode: 'execute-sandbox',
     policy: 'strict',
+    policy_sha256: 'sha256:' + 'e'.repeat(64),
+    prev_entry_hash: null,
+    entry_hash: 'sha256:' + 'f'.repeat(64),
     ...overrides,
   };
 }
@@ -270,6 +277,12 @@ function createMockHarnessResult(
     max_total_output_bytes: 10485760,
     allowed_commands: [],
     allowed_write_roots: ['.'],
+    isolation: 'strict',
+    env_allowlist: ['PATH'],
+    max_memory_bytes: 536870912,
+    max_cpu_seconds: 30,
+    max_processes: 256,
+    max_open_files: 256,
   };
 
   return {
@@ -279,6 +292,8 @@ function createMockHarnessResult(
     completed_at: '2026-01-05T10:00:05.000Z',
     kernel_version: '0.3.3',
     policy,
+    policy_name: 'strict',
+    policy_sha256: hashPolicy(policy),
     intent: {
       path: 'intents/test.json',
       sha256: 'sha256:' + 'c'.repeat(64),
@@ -358,7 +373,7 @@ describe('Ledger Spec Invariants', () => {
     });
 
     it('rejects invalid policy', () => {
-      const entry = createValidEntry({ policy: 'invalid-policy' as any });
+      const entry = createValidEntry({ policy: 'Invalid Policy' });
       const ledger = JSON.stringify(entry);
       assert.throws(
         () => checkOneEntryPerLine(ledger),
@@ -390,7 +405,7 @@ describe('Ledger Spec Invariants', () => {
     });
 
     it('accepts all valid policy values', () => {
-      const policies: PolicyProfileName[] = ['strict', 'default', 'dev'];
+      const policies: string[] = ['strict', 'default', 'dev', 'python-ci'];
       for (const policy of policies) {
         const entry = createValidEntry({ policy });
         const ledger = canonicalize(entry);
@@ -605,6 +620,141 @@ describe('Ledger Spec Invariants', () => {
       const entry = createLedgerEntry(result);
       assert.strictEqual(entry.bundle_sha256, null);
     });
+
+    it('seals the entry with its hash and links it to prev_entry_hash', () => {
+      const result = createMockHarnessResult();
+      const genesis = createLedgerEntry(result);
+      const linked = createLedgerEntry(result, genesis.entry_hash);
+
+      assert.strictEqual(genesis.prev_entry_hash, null);
+      assert.strictEqual(genesis.entry_hash, computeEntryHash(genesis));
+      assert.strictEqual(linked.prev_entry_hash, genesis.entry_hash);
+      assert.notStrictEqual(linked.entry_hash, genesis.entry_hash);
+    });
+  });
+
+  describe('LD5-LD8: Hash Chain', () => {
+    let tempDir: string;
+    let ledgerPath: string;
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), 'ledger-chain-'));
+      ledgerPath = join(tempDir, 'ledger.jsonl');
+    });
+
+    afterEach(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    async function appendRuns(count: number, checkpointInterval?: number): Promise<void> {
+      for (let i = 1; i <= count; i++) {
+        const result = createMockHarnessResult({
+          run_id: `hr_${String(i).padStart(3, '0')}`,
+          completed_at: `2026-01-05T10:00:${String(i).padStart(2, '0')}.000Z`,
+        });
+        await appendHarnessResult(result, ledgerPath, checkpointInterval ? { checkpointInterval } : {});
+      }
+    }
+
+    it('appended entries form a verifiable chain', async () => {
+      await appendRuns(3);
+      const content = await readFile(ledgerPath, 'utf-8');
+      const result = verifyLedger(content);
+
+      assert.deepStrictEqual(result.violations, []);
+      assert.strictEqual(result.entry_count, 3);
+      assert.strictEqual(result.checkpoint_count, 0);
+      checkAllInvariants(content);
+    });
+
+    it('appendToLedger re-links an entry to the head of the file', async () => {
+      await appendRuns(1);
+      const written = await appendToLedger(createLedgerEntry(createMockHarnessResult()), ledgerPath);
+      const head = JSON.parse((await readFile(ledgerPath, 'utf-8')).split('\n')[0]!) as LedgerEntry;
+
+      assert.strictEqual(written.prev_entry_hash, head.entry_hash);
+      assert.strictEqual(verifyLedger(await readFile(ledgerPath, 'utf-8')).head_hash, written.entry_hash);
+    });
+
+    it('appends a checkpoint every N entries', async () => {
+      await appendRuns(5, 2);
+      const content = await readFile(ledgerPath, 'utf-8');
+      const records = content.trim().split('\n').map((line) => JSON.parse(line) as Record<string, unknown>);
+      const result = verifyLedger(content);
+
+      assert.deepStrictEqual(result.violations, []);
+      assert.strictEqual(result.entry_count, 5);
+      assert.strictEqual(result.checkpoint_count, 2);
+      assert.deepStrictEqual(
+        records.map((r) => r['record_type'] ?? 'entry'),
+        ['entry', 'entry', 'checkpoint', 'entry', 'entry', 'checkpoint', 'entry']
+      );
+      assert.strictEqual(records[5]!['entries_total'], 4);
+    });
+
+    it('detects an edited entry (LD5)', async () => {
+      await appendRuns(3);
+      const content = await readFile(ledgerPath, 'utf-8');
+      const result = verifyLedger(content.replace('"accepted":true', '"accepted":false'));
+
+      assert.ok(result.violations.some((v) => v.rule_id === 'LD5' && v.line === 1));
+    });
+
+    it('detects a deleted entry (LD6)', async () => {
+      await appendRuns(3);
+      const lines = (await readFile(ledgerPath, 'utf-8')).split('\n');
+      lines.splice(1, 1);
+      const result = verifyLedger(lines.join('\n'));
+
+      assert.ok(result.violations.some((v) => v.rule_id === 'LD6' && v.line === 2));
+    });
+
+    it('detects truncation (LD8)', async () => {
+      await appendRuns(3);
+      const content = await readFile(ledgerPath, 'utf-8');
+      const head = verifyLedger(content).head_hash!;
+      const lines = content.split('\n');
+      const truncated = lines.slice(0, 2).join('\n') + '\n';
+
+      assert.ok(verifyLedger(truncated, { expectedHead: head }).violations.some((v) => v.rule_id === 'LD8'));
+      assert.ok(verifyLedger(content.slice(0, -10)).violations.some((v) => v.rule_id === 'LD8'));
+    });
+
+    it('chains new entries after a baseline-format ledger', async () => {
+      const legacy = {
+        run_id: 'hr_legacy',
+        timestamp: '2026-01-04T10:00:00.000Z',
+        intent_sha256: 'sha256:' + 'a'.repeat(64),
+        bundle_sha256: null,
+        result_kind: 'CLARIFY',
+        accepted: true,
+        mode: 'plan-only',
+        policy: 'strict',
+      };
+      await writeFile(ledgerPath, canonicalize(legacy) + '\n');
+
+      await appendRuns(2);
+      const content = await readFile(ledgerPath, 'utf-8');
+      const records = content.trim().split('\n').map((line) => JSON.parse(line) as LedgerEntry);
+      const result = verifyLedger(content);
+
+      assert.deepStrictEqual(result.violations, []);
+      assert.strictEqual(result.legacy_count, 1);
+      assert.strictEqual(result.entry_count, 2);
+      assert.deepStrictEqual(records[0], legacy, 'Legacy records are kept as written');
+      assert.strictEqual(records[1]!.prev_entry_hash, null);
+      assert.strictEqual(records[2]!.prev_entry_hash, records[1]!.entry_hash);
+    });
+
+    it('refuses to append after an unchained record that follows the chain', async () => {
+      await appendRuns(1);
+      await appendFile(ledgerPath, canonicalize({ run_id: 'hr_legacy' }) + '\n');
+
+      await assert.rejects(
+        appendToLedger(createLedgerEntry(createMockHarnessResult()), ledgerPath),
+        /broken chain/
+      );
+    });
   });
 
   describe('Content Hash Validation', () => {
@@ -7,6 +7,7 @@
  * - Export is deterministic (byte-identical across runs)
  * - Output directory safety (traversal, non-empty rejection)
  * - Outcome-specific file requirements (REFUSE = no bundle.json)
+ * - Step logs, including empty ones, are exported content-addressed
  */
 
 import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
@@ -17,9 +18,13 @@ import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { createHash } from 'node:crypto';
 
-import { exportPack } from '../pack_export.js';
+import { exportPack, exportStepLogs } from '../pack_export.js';
+import { createSandbox, cleanupSandbox, runSteps } from '../sandbox.js';
+import { loadPolicy } from '../policy.js';
 import { verifyPack } from '../../consumer/pack_verify.js';
+import { canonicalize } from '../../utils/canonical.js';
 import type { ExportPackArgs } from '../pack_export.js';
+import { createFixedAdapter } from '../../adapters/mock.js';
 
 // =============================================================================
 // Test Setup
@@ -339,6 +344,37 @@ describe('Pack Export Invariants', () => {
       assert.strictEqual(result.ok, true, 'Export should succeed');
       assert.ok(!result.files_written.includes('model_io.json'), 'model_io.json should not exist for mode=none');
     });
+
+    it('model_mode record includes the recording and passes pack-verify', async () => {
+      const recordingPath = path.join(tempDir, 'model_io.json');
+      const args: ExportPackArgs = {
+        intent_path: path.join(fixturesDir, 'intent_harness_001_plan_only.json'),
+        out_dir: path.join(tempDir, 'pack_record'),
+        policy_name: 'dev',
+        mode: 'plan',
+        model_mode: 'record',
+        model_recording_path: recordingPath,
+        model_adapter: createFixedAdapter('{"needs_clarification": false, "questions": []}'),
+      };
+
+      const recorded = await exportPack(args);
+
+      assert.strictEqual(recorded.ok, true, `Export should succeed: ${recorded.error}`);
+      assert.ok(recorded.files_written.includes('model_io.json'), 'Should write model_io.json');
+      assert.strictEqual(verifyPack(args.out_dir).ok, true, 'Consumer pack-verify should pass');
+
+      const { model_adapter: _recordedModel, ...replayArgs } = args;
+      const replayed = await exportPack({
+        ...replayArgs,
+        out_dir: path.join(tempDir, 'pack_replay'),
+        model_mode: 'replay',
+      });
+
+      assert.strictEqual(replayed.ok, true, `Replay export should succeed: ${replayed.error}`);
+      const recordedBundle = await fs.readFile(path.join(args.out_dir, 'bundle.json'), 'utf-8');
+      const replayedBundle = await fs.readFile(path.join(replayed.out_dir, 'bundle.json'), 'utf-8');
+      assert.strictEqual(replayedBundle, recordedBundle, 'Replay should reproduce bundle.json');
+    });
   });
 
   // =============================================================================
@@ -543,4 +579,48 @@ describe('Pack Export Invariants', () => {
       }
     });
   });
+
+  // =============================================================================
+  // T6: Step logs
+  // =============================================================================
+
+  describe('T6: Step Logs', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await createTempDir('t6');
+    });
+
+    afterEach(async () => {
+      await cleanupTempDir(tempDir);
+    });
+
+    it('exports the empty log of a refused step and passes pack-verify', async () => {
+      const sandbox = await createSandbox();
+      const outDir = path.join(tempDir, 'pack');
+      try {
+        const { steps } = await runSteps(
+          sandbox,
+          [{ name: 'fetch', cmd: ['curl', 'https://example.com'] }],
+          loadPolicy('default')
+        );
+        assert.deepStrictEqual(steps.map((s) => s.status), ['failure']);
+
+        mkdirSync(outDir);
+        const written = exportStepLogs(steps, sandbox.dir, outDir);
+
+        const empty = `logs/${createHash('sha256').update('').digest('hex')}.log`;
+        assert.deepStrictEqual(written, [empty]);
+        const packFixture = path.resolve(__dirname, '../../../src/consumer/tests/fixtures/packs/valid_pack_bundle');
+        const run = JSON.parse(await fs.readFile(path.join(packFixture, 'run.json'), 'utf-8'));
+        writeFileSync(path.join(outDir, 'run.json'), canonicalize({ ...run, execution: { steps } }) + '\n');
+        await fs.copyFile(path.join(packFixture, 'bundle.json'), path.join(outDir, 'bundle.json'));
+
+        const result = verifyPack(outDir);
+        assert.ok(result.ok, JSON.stringify(result));
+      } finally {
+        await cleanupSandbox(sandbox);
+      }
+    });
+  });
 });
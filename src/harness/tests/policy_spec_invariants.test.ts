@@ -11,12 +11,15 @@
 
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
 import { join, dirname, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
-import { canonicalize } from '../../utils/canonical.js';
+import { canonicalize, canonicalHash } from '../../utils/canonical.js';
 import {
   loadPolicy,
+  hashPolicy,
   listPolicies,
   isModelModeAllowed,
   isCommandAllowed,
@@ -24,6 +27,9 @@ import {
   validateModelMode,
 } from '../policy.js';
 import { runHarness } from '../run_intent.js';
+import { createLedgerEntry } from '../ledger.js';
+import { resolveIsolation } from '../isolation.js';
+import { resolvePolicyFile, loadPolicyFile } from '../policy_file.js';
 import type { PolicyProfile, PolicyProfileName, ModelMode, HarnessRunInput } from '../types.js';
 
 // =============================================================================
@@ -50,6 +56,8 @@ const RULES = {
   PL5_MODEL_MODE_DEV: 'PL5_MODEL_MODE_DEV',
   PL6_SANDBOX_CONSTRAINTS: 'PL6_SANDBOX_CONSTRAINTS',
   PL7_EVIDENCE_POLICY_BINDING: 'PL7_EVIDENCE_POLICY_BINDING',
+  PL8_ISOLATION: 'PL8_ISOLATION',
+  PL9_CEILING: 'PL9_CEILING',
 } as const;
 
 type RuleId = (typeof RULES)[keyof typeof RULES];
@@ -69,6 +77,10 @@ const LIMIT_BOUNDS = {
   timeout_ms: { min: 1000, max: 600000 },
   max_output_files: { min: 1, max: 10000 },
   max_total_output_bytes: { min: 1024, max: 1073741824 },
+  max_memory_bytes: { min: 67108864, max: 17179869184 },
+  max_cpu_seconds: { min: 1, max: 600 },
+  max_processes: { min: 1, max: 65536 },
+  max_open_files: { min: 16, max: 65536 },
 } as const;
 
 // =============================================================================
@@ -84,6 +96,12 @@ const EXPECTED_PROFILES: Record<PolicyProfileName, PolicyProfile> = {
     max_total_output_bytes: 10 * 1024 * 1024, // 10 MB
     allowed_commands: ['node', 'npm'],
     allowed_write_roots: ['out', 'dist', 'build'],
+    isolation: 'strict',
+    env_allowlist: ['PATH', 'LANG', 'LC_ALL', 'TZ'],
+    max_memory_bytes: 512 * 1024 * 1024, // 512 MB
+    max_cpu_seconds: 30,
+    max_processes: 256,
+    max_open_files: 256,
   },
   default: {
     name: 'default',
@@ -93,6 +111,12 @@ const EXPECTED_PROFILES: Record<PolicyProfileName, PolicyProfile> = {
     max_total_output_bytes: 50 * 1024 * 1024, // 50 MB
     allowed_commands: ['node', 'npm', 'npx'],
     allowed_write_roots: ['out', 'dist', 'build', 'tmp'],
+    isolation: 'best_effort',
+    env_allowlist: ['PATH', 'LANG', 'LC_ALL', 'TZ', 'TERM', 'NODE_ENV'],
+    max_memory_bytes: 1024 * 1024 * 1024, // 1 GB
+    max_cpu_seconds: 60,
+    max_processes: 512,
+    max_open_files: 1024,
   },
   dev: {
     name: 'dev',
@@ -102,6 +126,12 @@ const EXPECTED_PROFILES: Record<PolicyProfileName, PolicyProfile> = {
     max_total_output_bytes: 100 * 1024 * 1024, // 100 MB
     allowed_commands: [],
     allowed_write_roots: [],
+    isolation: 'none',
+    env_allowlist: [],
+    max_memory_bytes: 4 * 1024 * 1024 * 1024, // 4 GB
+    max_cpu_seconds: 300,
+    max_processes: 4096,
+    max_open_files: 4096,
   },
 };
 
@@ -131,6 +161,12 @@ function checkResolvedComplete(policy: PolicyProfile): void {
     'max_total_output_bytes',
     'allowed_commands',
     'allowed_write_roots',
+    'isolation',
+    'env_allowlist',
+    'max_memory_bytes',
+    'max_cpu_seconds',
+    'max_processes',
+    'max_open_files',
   ];
 
   for (const field of requiredFields) {
@@ -147,6 +183,9 @@ function checkResolvedComplete(policy: PolicyProfile): void {
   if (!Array.isArray(policy.allowed_write_roots)) {
     specViolation(RULES.PL2_RESOLVED_COMPLETE, 'allowed_write_roots must be array');
   }
+  if (!Array.isArray(policy.env_allowlist)) {
+    specViolation(RULES.PL2_RESOLVED_COMPLETE, 'env_allowlist must be array');
+  }
 }
 
 /**
@@ -194,6 +233,15 @@ function checkLimitsWithinBounds(policy: PolicyProfile): void {
       `max_total_output_bytes ${policy.max_total_output_bytes} above max ${LIMIT_BOUNDS.max_total_output_bytes.max}`
     );
   }
+
+  // Resource limits
+  const resourceLimits = ['max_memory_bytes', 'max_cpu_seconds', 'max_processes', 'max_open_files'] as const;
+  for (const field of resourceLimits) {
+    const { min, max } = LIMIT_BOUNDS[field];
+    if (!Number.isInteger(policy[field]) || policy[field] < min || policy[field] > max) {
+      specViolation(RULES.PL3_LIMITS_WITHIN_BOUNDS, `${field} ${policy[field]} outside [${min}, ${max}]`);
+    }
+  }
 }
 
 /**
@@ -549,6 +597,222 @@ describe('Policy Spec Invariants', () => {
     });
   });
 
+  describe('PL8: Isolation', () => {
+    const unavailable = { available: false, reason: 'unshare failed: test' };
+    const available = { available: true };
+
+    it('strict isolation refuses without namespaces', () => {
+      const resolution = resolveIsolation(loadPolicy('strict'), unavailable);
+      assert.deepStrictEqual(resolution, {
+        ok: false,
+        error: 'POLICY_VIOLATION: PL8: strict isolation unavailable: unshare failed: test',
+      });
+    });
+
+    it('best_effort isolation falls back to a plain process', () => {
+      assert.deepStrictEqual(resolveIsolation(loadPolicy('default'), unavailable), { ok: true, mode: 'none' });
+      assert.deepStrictEqual(resolveIsolation(loadPolicy('default'), available), { ok: true, mode: 'namespaces' });
+    });
+
+    it('dev never isolates', () => {
+      assert.deepStrictEqual(resolveIsolation(loadPolicy('dev'), available), { ok: true, mode: 'none' });
+    });
+
+    it('execution evidence records the isolation backend', async () => {
+      const resolution = resolveIsolation(loadPolicy('strict'));
+      const input: HarnessRunInput = {
+        intent_path: TEST_INTENT_PATH,
+        mode: 'execute-sandbox',
+        policy: 'strict',
+      };
+
+      if (!resolution.ok) {
+        await assert.rejects(runHarness(input), /^Error: POLICY_VIOLATION: PL8:/);
+        return;
+      }
+      const result = await runHarness(input);
+      if (result.execution === null) {
+        specViolation(RULES.PL8_ISOLATION, 'execute-sandbox run has no execution evidence');
+      }
+      assert.strictEqual(result.execution.isolation, resolution.mode);
+    });
+  });
+
+  describe('PL9: Ceiling', () => {
+    /**
+     * Policy file from the POLICY_SPEC.md section 8.1 example.
+     */
+    function pythonPolicyFile(): Record<string, unknown> {
+      return {
+        policy_file_version: '1.0.0',
+        name: 'python-ci',
+        extends: 'default',
+        overrides: { allowed_commands: ['python3', 'pytest'], timeout_ms: 600000 },
+        ceiling: { allowed_commands: ['node', 'npm', 'npx', 'python3', 'pytest'], timeout_ms: 600000 },
+      };
+    }
+
+    it('resolves overrides onto the base profile', () => {
+      const policy = resolvePolicyFile(pythonPolicyFile());
+
+      assert.deepStrictEqual(policy, {
+        ...loadPolicy('default'),
+        allowed_commands: ['python3', 'pytest'],
+        timeout_ms: 600000,
+        custom: {
+          name: 'python-ci',
+          ceiling: { allowed_commands: ['node', 'npm', 'npx', 'python3', 'pytest'], timeout_ms: 600000 },
+        },
+      });
+      checkAllInvariants(policy);
+      assert.ok(isCommandAllowed('pytest', policy));
+      assert.ok(!isCommandAllowed('node', policy));
+    });
+
+    it('caps undeclared ceiling fields at the base profile', () => {
+      const file = pythonPolicyFile();
+      file['ceiling'] = { allowed_commands: ['python3', 'pytest'] };
+
+      assert.throws(
+        () => resolvePolicyFile(file),
+        /^Error: POLICY_VIOLATION: PL9: timeout_ms exceeds ceiling: 600000 > 60000$/
+      );
+    });
+
+    it('rejects overrides outside the declared ceiling', () => {
+      const cases: Array<[Record<string, unknown>, RegExp]> = [
+        [{ allowed_commands: ['python3', 'curl'] }, /PL9: allowed_commands exceeds ceiling: curl$/],
+        [{ allow_network: true }, /PL9: allow_network exceeds ceiling/],
+        [{ isolation: 'none' }, /PL9: isolation exceeds ceiling: none weaker than best_effort$/],
+        [{ allowed_write_roots: ['out', 'src'] }, /PL9: allowed_write_roots exceeds ceiling: src$/],
+        [{ env_allowlist: ['PATH', 'AWS_SECRET_ACCESS_KEY'] }, /PL9: env_allowlist exceeds ceiling: AWS_SECRET_ACCESS_KEY$/],
+        [{ max_memory_bytes: 2 * 1024 * 1024 * 1024 }, /PL9: max_memory_bytes exceeds ceiling/],
+      ];
+
+      for (const [overrides, expected] of cases) {
+        const file = { ...pythonPolicyFile(), overrides };
+        assert.throws(() => resolvePolicyFile(file), expected);
+      }
+    });
+
+    it('allows nested write roots and tighter overrides', () => {
+      const file = {
+        ...pythonPolicyFile(),
+        overrides: { allowed_write_roots: ['out/reports'], isolation: 'strict', max_cpu_seconds: 10 },
+      };
+      const policy = resolvePolicyFile(file);
+
+      assert.deepStrictEqual(policy.allowed_write_roots, ['out/reports']);
+      assert.strictEqual(policy.isolation, 'strict');
+    });
+
+    it('rejects a declared ceiling above the base profile\'s fixed ceiling', () => {
+      const cases: Array<[Record<string, unknown>, RegExp]> = [
+        [{ allow_network: true }, /^Error: POLICY_VIOLATION: PL9: ceiling\.allow_network exceeds ceiling/],
+        [{ isolation: 'none' }, /PL9: ceiling\.isolation exceeds ceiling: none weaker than strict$/],
+        [{ allowed_commands: ['node', 'bash', 'curl'] }, /PL9: ceiling\.allowed_commands exceeds ceiling: bash, curl$/],
+        [{ env_allowlist: ['PATH', 'ANTHROPIC_API_KEY'] }, /PL9: ceiling\.env_allowlist exceeds ceiling: ANTHROPIC_API_KEY$/],
+        [{ allowed_write_roots: ['out', 'src'] }, /PL9: ceiling\.allowed_write_roots exceeds ceiling: src$/],
+        [{ max_memory_bytes: 2 * 1024 * 1024 * 1024 }, /PL9: ceiling\.max_memory_bytes exceeds ceiling/],
+      ];
+
+      for (const [ceiling, expected] of cases) {
+        const file = {
+          policy_file_version: '1.0.0',
+          name: 'escape',
+          extends: 'strict',
+          overrides: ceiling,
+          ceiling,
+        };
+        assert.throws(() => resolvePolicyFile(file), expected);
+      }
+
+      // Within the fixed ceiling, a strict-based file may still allow toolchain commands
+      const policy = resolvePolicyFile({
+        policy_file_version: '1.0.0',
+        name: 'strict-python',
+        extends: 'strict',
+        overrides: { allowed_commands: ['python3'], timeout_ms: 600000 },
+        ceiling: { allowed_commands: ['python3'], timeout_ms: 600000 },
+      });
+      assert.strictEqual(policy.isolation, 'strict');
+      assert.strictEqual(policy.allow_network, false);
+    });
+
+    it('treats an empty dev list as exceeding a non-empty ceiling', () => {
+      const file = {
+        policy_file_version: '1.0.0',
+        name: 'dev-node',
+        extends: 'dev',
+        ceiling: { allowed_commands: ['node'] },
+      };
+
+      assert.throws(() => resolvePolicyFile(file), /PL9: allowed_commands exceeds ceiling: all allowed$/);
+      assert.strictEqual(
+        resolvePolicyFile({ ...file, overrides: { allowed_commands: ['node'] } }).name,
+        'dev'
+      );
+    });
+
+    it('rejects invalid policy files', () => {
+      const cases: Array<[Record<string, unknown>, RegExp]> = [
+        [{ policy_file_version: '2.0.0' }, /policy_file_version must be "1.0.0"/],
+        [{ name: 'strict' }, /name "strict" is a built-in profile/],
+        [{ name: 'Python CI' }, /name must match/],
+        [{ extends: 'custom' }, /extends must be one of strict, default, dev/],
+        [{ ceiling: undefined }, /ceiling must be an object/],
+        [{ overrides: { name: 'dev' } }, /unknown field overrides.name/],
+        [{ overrides: { timeout_ms: '600000' } }, /overrides.timeout_ms must be an integer/],
+        [{ overrides: { timeout_ms: 900000 } }, /POLICY_VIOLATION: PL3: overrides.timeout_ms 900000 outside/],
+        [{ overrides: { allowed_commands: 'python3' } }, /must be an array of non-empty strings/],
+        [{ description: 'x' }, /unknown field description/],
+      ];
+
+      for (const [patch, expected] of cases) {
+        const file = { ...pythonPolicyFile(), ...patch };
+        assert.throws(() => resolvePolicyFile(file), expected);
+      }
+    });
+
+    it('binds the custom policy hash into run results and ledger entries', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'policy_file_'));
+      const policyPath = join(dir, 'policy.json');
+      await writeFile(policyPath, JSON.stringify(pythonPolicyFile()));
+
+      try {
+        const policy = await loadPolicyFile(policyPath);
+        const result = await runHarness({
+          intent_path: TEST_INTENT_PATH,
+          mode: 'plan-only',
+          policy: 'strict',
+          policy_file: policyPath,
+        });
+
+        if (result.policy.custom?.name !== 'python-ci') {
+          specViolation(RULES.PL9_CEILING, 'run result does not carry the custom profile');
+        }
+        assert.deepStrictEqual(result.policy, policy);
+        assert.strictEqual(result.policy_sha256, `sha256:${canonicalHash(policy)}`);
+        assert.notStrictEqual(result.policy_sha256, hashPolicy(loadPolicy('default')));
+        assert.strictEqual(result.policy_name, 'python-ci');
+
+        const entry = createLedgerEntry(result);
+        assert.strictEqual(entry.policy, 'python-ci');
+        assert.strictEqual(entry.policy_sha256, result.policy_sha256);
+        assert.strictEqual(entry.mode, 'plan-only');
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('reports unreadable policy files', async () => {
+      await assert.rejects(
+        loadPolicyFile(join(tmpdir(), 'no_such_policy_file.json')),
+        /^Error: Failed to load policy file .*no_such_policy_file\.json: /
+      );
+    });
+  });
+
   describe('Deterministic Resolution', () => {
     it('loadPolicy returns identical object for same profile', () => {
       const policy1 = loadPolicy('strict');
@@ -582,6 +846,7 @@ describe('Policy Spec Invariants', () => {
         assert.strictEqual(actual.max_total_output_bytes, expected.max_total_output_bytes);
         assert.deepStrictEqual(actual.allowed_commands, expected.allowed_commands);
         assert.deepStrictEqual(actual.allowed_write_roots, expected.allowed_write_roots);
+        assert.deepStrictEqual(actual, expected);
       }
     });
   });
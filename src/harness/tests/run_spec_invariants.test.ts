@@ -15,7 +15,7 @@ import { join, dirname, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
 import { canonicalize } from '../../utils/canonical.js';
-import { loadPolicy } from '../policy.js';
+import { loadPolicy, hashPolicy } from '../policy.js';
 import { runHarness } from '../run_intent.js';
 import { RUN_SCHEMA_VERSION, type HarnessRunResult, type PolicyProfile, type HarnessRunInput } from '../types.js';
 
@@ -164,9 +164,19 @@ function checkReferenceIntegrity(result: HarnessRunResult): void {
 
 /**
  * RS5: Policy Binding
- * canonicalize(result.policy) === canonicalize(loadPolicy(policyName))
+ * result.policy_sha256 === hashPolicy(result.policy)
+ * canonicalize(result.policy) === canonicalize(loadPolicy(policyName)) (built-in profiles)
  */
 function checkPolicyBinding(result: HarnessRunResult): void {
+  if (result.policy_sha256 !== hashPolicy(result.policy)) {
+    specViolation(RULES.RS5_POLICY_BINDING, `policy_sha256 does not match policy: ${result.policy_sha256}`);
+  }
+
+  // Custom profiles are bound by hash only
+  if (result.policy.custom) {
+    return;
+  }
+
   const expectedPolicy = loadPolicy(result.policy.name);
   const resultPolicyCanonical = canonicalize(result.policy);
   const expectedPolicyCanonical = canonicalize(expectedPolicy);
@@ -275,6 +285,8 @@ function createMockRunResult(overrides: Partial<HarnessRunResult> = {}): Harness
     completed_at: '2026-01-05T10:00:05.000Z',
     kernel_version: '0.3.6',
     policy,
+    policy_name: 'strict',
+    policy_sha256: hashPolicy(policy),
     intent: {
       path: 'intents/test.json',
       sha256: 'sha256:' + 'a'.repeat(64),
@@ -481,6 +493,26 @@ describe('Run Spec Invariants', () => {
         /RUN_SPEC_VIOLATION: RS5_POLICY_BINDING/
       );
     });
+
+    it('modified policy with matching hash still fails for built-in profiles', () => {
+      const result = createMockRunResult();
+      result.policy.timeout_ms = 999999;
+      result.policy_sha256 = hashPolicy(result.policy);
+      assert.throws(
+        () => checkPolicyBinding(result),
+        /RUN_SPEC_VIOLATION: RS5_POLICY_BINDING: Policy mismatch/
+      );
+    });
+
+    it('custom policy is bound by hash', () => {
+      const result = createMockRunResult();
+      result.policy.custom = { name: 'ci', ceiling: {} };
+      result.policy.timeout_ms = 10000;
+      assert.throws(() => checkPolicyBinding(result), /RS5_POLICY_BINDING: policy_sha256/);
+
+      result.policy_sha256 = hashPolicy(result.policy);
+      checkPolicyBinding(result);
+    });
   });
 
   describe('RS6: No Leak', () => {
@@ -7,16 +7,22 @@
  * - Path traversal attempts
  * - Huge file spam
  * - Deep directory recursion
+ * - Network, read and write escapes under namespace isolation
+ * - Environment leaks and resource limit exhaustion
+ * - Output floods (streamed, capped logs)
  */
 
 import { describe, it, before, after } from 'node:test';
 import * as assert from 'node:assert/strict';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
+import { createHash } from 'node:crypto';
 import { tmpdir } from 'node:os';
 
-import { createSandbox, cleanupSandbox, collectOutputs } from '../sandbox.js';
+import { createSandbox, cleanupSandbox, collectOutputs, runInSandbox, buildSandboxExecution } from '../sandbox.js';
 import { loadPolicy } from '../policy.js';
+import { detectIsolation } from '../isolation.js';
+import { buildSandboxEnv, classifyTermination, detectLimits, resolveLimits } from '../limits.js';
 
 // =============================================================================
 // Symlink Escape Tests
@@ -320,3 +326,314 @@ describe('Security: Combined Attacks', () => {
     }
   });
 });
+
+// =============================================================================
+// Namespace Isolation Tests
+// =============================================================================
+
+describe('Security: Namespace Isolation', { skip: !detectIsolation().available && 'namespaces unavailable' }, () => {
+  it('limits writes to allowed write roots', async () => {
+    const sandbox = await createSandbox();
+    const policy = loadPolicy('strict');
+
+    try {
+      await fs.writeFile(path.join(sandbox.dir, 'input.txt'), 'input');
+      const script = [
+        "const fs = require('fs');",
+        "fs.writeFileSync('out/result.txt', fs.readFileSync('input.txt'));",
+        "try { fs.writeFileSync('input.txt', 'tampered'); process.exit(3); } catch { process.exit(0); }",
+      ].join(' ');
+
+      const result = await runInSandbox(sandbox, ['node', '-e', script], policy);
+
+      assert.strictEqual(result.isolation, 'namespaces');
+      assert.strictEqual(result.exit_code, 0, 'Write outside write roots should fail');
+      assert.strictEqual(await fs.readFile(path.join(sandbox.outDir, 'result.txt'), 'utf8'), 'input');
+      assert.strictEqual(await fs.readFile(path.join(sandbox.dir, 'input.txt'), 'utf8'), 'input');
+
+      const execution = await buildSandboxExecution(sandbox, ['node', '-e', script], result, policy);
+      assert.strictEqual(execution.isolation, 'namespaces');
+    } finally {
+      await cleanupSandbox(sandbox);
+    }
+  });
+
+  it('hides host paths outside the sandbox', async () => {
+    const sandbox = await createSandbox();
+    const probeDir = await fs.mkdtemp(path.join(tmpdir(), 'isolation_probe_'));
+    const policy = loadPolicy('strict');
+
+    try {
+      await fs.writeFile(path.join(probeDir, 'secret.txt'), 'secret');
+      const script = [
+        "const fs = require('fs'); const dir = process.argv[1];",
+        "try { fs.readFileSync(dir + '/secret.txt'); process.exit(3); } catch {}",
+        "try { fs.writeFileSync(dir + '/planted.txt', 'x'); process.exit(4); } catch {}",
+        "process.exit(0);",
+      ].join(' ');
+
+      const result = await runInSandbox(sandbox, ['node', '-e', script, probeDir], policy);
+
+      assert.strictEqual(result.isolation, 'namespaces');
+      assert.strictEqual(result.exit_code, 0, `Host path reachable (exit ${result.exit_code})`);
+      assert.deepStrictEqual(await fs.readdir(probeDir), ['secret.txt']);
+    } finally {
+      await cleanupSandbox(sandbox);
+      await fs.rm(probeDir, { recursive: true, force: true });
+    }
+  });
+
+  it('blocks outbound connections when network is disallowed', async () => {
+    const sandbox = await createSandbox();
+    const policy = loadPolicy('strict');
+
+    try {
+      const script = [
+        "const socket = require('net').connect(80, '1.1.1.1');",
+        'socket.on(\'connect\', () => process.exit(4));',
+        'socket.on(\'error\', () => process.exit(0));',
+        'setTimeout(() => process.exit(5), 5000);',
+      ].join(' ');
+
+      const result = await runInSandbox(sandbox, ['node', '-e', script], policy);
+
+      assert.strictEqual(result.exit_code, 0, 'Connection should fail immediately');
+    } finally {
+      await cleanupSandbox(sandbox);
+    }
+  });
+
+  it('runs dev policy commands without isolation', async () => {
+    const sandbox = await createSandbox();
+
+    try {
+      const result = await runInSandbox(sandbox, ['node', '-e', '0'], loadPolicy('dev'));
+      assert.strictEqual(result.isolation, 'none');
+      assert.strictEqual(result.exit_code, 0);
+    } finally {
+      await cleanupSandbox(sandbox);
+    }
+  });
+});
+
+// =============================================================================
+// Environment and Resource Limit Tests
+// =============================================================================
+
+describe('Security: Environment and Resource Limits', () => {
+  it('passes only allowlisted host variables', async () => {
+    const sandbox = await createSandbox();
+    const policy = loadPolicy('default');
+    process.env['HARNESS_TEST_SECRET'] = 'sk-secret';
+
+    try {
+      const script = "process.exit(process.env.HARNESS_TEST_SECRET === undefined && process.env.PATH ? 0 : 3)";
+      const result = await runInSandbox(sandbox, ['node', '-e', script], policy);
+
+      assert.strictEqual(result.exit_code, 0, 'Secret should not reach the command');
+      assert.strictEqual(result.termination, 'exit');
+
+      const devEnv = buildSandboxEnv(sandbox.dir, loadPolicy('dev'));
+      assert.strictEqual(devEnv['HARNESS_TEST_SECRET'], 'sk-secret');
+      assert.strictEqual(devEnv['HOME'], sandbox.dir);
+    } finally {
+      delete process.env['HARNESS_TEST_SECRET'];
+      await cleanupSandbox(sandbox);
+    }
+  });
+
+  it('enforces limits only where prlimit is available', async () => {
+    const unavailable = { available: false, reason: 'prlimit failed: spawn prlimit ENOENT' };
+
+    assert.deepStrictEqual(resolveLimits(loadPolicy('default'), { available: true }), { ok: true, enforced: true });
+    assert.deepStrictEqual(resolveLimits(loadPolicy('default'), unavailable), { ok: true, enforced: false });
+    assert.deepStrictEqual(resolveLimits(loadPolicy('dev'), unavailable), { ok: true, enforced: false });
+    assert.deepStrictEqual(resolveLimits(loadPolicy('strict'), unavailable), {
+      ok: false,
+      error: 'POLICY_VIOLATION: PL6: resource limits unavailable: prlimit failed: spawn prlimit ENOENT',
+    });
+
+    const sandbox = await createSandbox();
+    try {
+      const result = await runInSandbox(sandbox, ['node', '-e', '0'], loadPolicy('dev'));
+      assert.strictEqual(result.exit_code, 0);
+      assert.strictEqual(result.limits_enforced, detectLimits().available);
+    } finally {
+      await cleanupSandbox(sandbox);
+    }
+  });
+
+  it('reports the CPU limit', { skip: !detectLimits().available && 'prlimit unavailable' }, async () => {
+    const sandbox = await createSandbox();
+    const policy = { ...loadPolicy('default'), max_cpu_seconds: 1 };
+
+    try {
+      const result = await runInSandbox(sandbox, ['node', '-e', 'for (;;);'], policy);
+
+      assert.strictEqual(result.termination, 'cpu_limit');
+      assert.strictEqual(result.termination_inferred, undefined);
+      assert.strictEqual(result.timed_out, false);
+
+      const execution = await buildSandboxExecution(sandbox, ['node', '-e', 'for (;;);'], result, policy);
+      assert.strictEqual(execution.termination, 'cpu_limit');
+    } finally {
+      await cleanupSandbox(sandbox);
+    }
+  });
+
+  it('reports the memory limit', { skip: !detectLimits().available && 'prlimit unavailable' }, async () => {
+    const sandbox = await createSandbox();
+    const policy = { ...loadPolicy('default'), max_memory_bytes: 128 * 1024 * 1024 };
+
+    try {
+      const script = 'const held = []; for (;;) held.push(Buffer.alloc(16 << 20, 1));';
+      const result = await runInSandbox(sandbox, ['node', '-e', script], policy);
+
+      assert.notStrictEqual(result.exit_code, 0);
+      assert.strictEqual(result.termination, 'memory_limit');
+    } finally {
+      await cleanupSandbox(sandbox);
+    }
+  });
+
+  it('reports the open files limit', { skip: !detectLimits().available && 'prlimit unavailable' }, async () => {
+    const sandbox = await createSandbox();
+    const policy = { ...loadPolicy('default'), max_open_files: 64 };
+
+    try {
+      const script = "const fs = require('fs'); for (let i = 0; i < 128; i++) fs.openSync('/dev/null', 'r');";
+      const result = await runInSandbox(sandbox, ['node', '-e', script], policy);
+
+      assert.notStrictEqual(result.exit_code, 0);
+      assert.strictEqual(result.termination, 'open_files_limit');
+    } finally {
+      await cleanupSandbox(sandbox);
+    }
+  });
+
+  it('classifies process limit failures from stderr', () => {
+    const end = { code: 1, signal: null, timed_out: false, limits_enforced: true };
+
+    assert.deepStrictEqual(
+      classifyTermination({ ...end, stderr: 'Error: spawn sh EAGAIN' }),
+      { termination: 'process_limit', inferred: true }
+    );
+    assert.deepStrictEqual(
+      classifyTermination({ ...end, stderr: 'sh: 1: Cannot fork' }),
+      { termination: 'process_limit', inferred: true }
+    );
+    assert.deepStrictEqual(classifyTermination({ ...end, stderr: 'Error: failed' }), { termination: 'exit', inferred: false });
+    assert.deepStrictEqual(
+      classifyTermination({ ...end, code: 0, stderr: 'Error: spawn sh EAGAIN' }),
+      { termination: 'exit', inferred: false }
+    );
+    assert.deepStrictEqual(
+      classifyTermination({ code: null, signal: 'SIGKILL', timed_out: true, limits_enforced: true, stderr: '' }),
+      { termination: 'timeout', inferred: false }
+    );
+    assert.deepStrictEqual(
+      classifyTermination({ code: null, signal: 'SIGTERM', timed_out: false, limits_enforced: true, stderr: '' }),
+      { termination: 'signal', inferred: false }
+    );
+  });
+
+  it('classifies from the signal or exit status before stderr', () => {
+    const end = { code: null, timed_out: false, limits_enforced: true };
+
+    assert.deepStrictEqual(
+      classifyTermination({ ...end, signal: 'SIGXCPU', stderr: 'Too many open files' }),
+      { termination: 'cpu_limit', inferred: false }
+    );
+    assert.deepStrictEqual(
+      classifyTermination({ ...end, signal: 'SIGKILL', stderr: '' }),
+      { termination: 'cpu_limit', inferred: false }
+    );
+    assert.deepStrictEqual(
+      classifyTermination({ ...end, code: 152, signal: null, stderr: '' }),
+      { termination: 'cpu_limit', inferred: false }
+    );
+
+    // Without enforced limits no failure is attributed to one
+    const unlimited = { code: 1, signal: null, timed_out: false, limits_enforced: false };
+    assert.deepStrictEqual(
+      classifyTermination({ ...unlimited, stderr: 'cp: cannot create regular file: Cannot allocate memory' }),
+      { termination: 'exit', inferred: false }
+    );
+    assert.deepStrictEqual(
+      classifyTermination({ ...unlimited, stderr: 'Error: EMFILE: Too many open files' }),
+      { termination: 'exit', inferred: false }
+    );
+    assert.deepStrictEqual(
+      classifyTermination({ ...unlimited, code: null, signal: 'SIGKILL', stderr: '' }),
+      { termination: 'signal', inferred: false }
+    );
+  });
+
+  it('records a termination inferred from stderr', async () => {
+    const sandbox = await createSandbox();
+    const policy = loadPolicy('default');
+
+    try {
+      const script = "console.error('Error: EMFILE: Too many open files'); process.exit(1)";
+      const result = await runInSandbox(sandbox, ['node', '-e', script], policy);
+      const execution = await buildSandboxExecution(sandbox, ['node', '-e', script], result, policy);
+
+      if (result.limits_enforced) {
+        assert.strictEqual(result.termination, 'open_files_limit');
+        assert.strictEqual(result.termination_inferred, true);
+        assert.strictEqual(execution.termination_inferred, true);
+      } else {
+        assert.strictEqual(result.termination, 'exit');
+        assert.strictEqual(execution.termination_inferred, undefined);
+      }
+    } finally {
+      await cleanupSandbox(sandbox);
+    }
+  });
+});
+
+// =============================================================================
+// Output Capture Tests
+// =============================================================================
+
+describe('Security: Output Capture', () => {
+  async function capture(script: string, maxBytes: number) {
+    const sandbox = await createSandbox();
+    const policy = { ...loadPolicy('default'), max_total_output_bytes: maxBytes };
+    try {
+      const result = await runInSandbox(sandbox, ['node', '-e', script], policy);
+      const stdout = await fs.readFile(result.stdout_path);
+      const execution = await buildSandboxExecution(sandbox, ['node', '-e', script], result, policy);
+      return { result, stdout, execution };
+    } finally {
+      await cleanupSandbox(sandbox);
+    }
+  }
+
+  it('hashes and counts complete logs', async () => {
+    const { result, stdout, execution } = await capture("process.stdout.write('héllo\\n')", 1024);
+
+    assert.strictEqual(stdout.toString('utf-8'), 'héllo\n');
+    assert.strictEqual(result.stdout_bytes, 7);
+    assert.strictEqual(result.stdout_truncated, false);
+    assert.strictEqual(result.stdout_sha256, `sha256:${createHash('sha256').update(stdout).digest('hex')}`);
+    assert.strictEqual(execution.stdout_sha256, result.stdout_sha256);
+    assert.strictEqual(execution.stdout_bytes, 7);
+    assert.strictEqual(execution.stderr_truncated, false);
+  });
+
+  it('cuts a flood at the limit on a character boundary and flags it', async () => {
+    // 3-byte characters: a 1000-byte cap falls inside the 334th
+    const script = "for (let i = 0; i < 64; i++) process.stdout.write('€'.repeat(1000)); console.error('done');";
+    const { result, stdout, execution } = await capture(script, 1000);
+
+    assert.strictEqual(result.exit_code, 0);
+    assert.strictEqual(stdout.length, 999);
+    assert.strictEqual(stdout.toString('utf-8'), '€'.repeat(333));
+    assert.strictEqual(result.stdout_bytes, 999);
+    assert.strictEqual(result.stdout_truncated, true);
+    assert.strictEqual(result.stdout_sha256, `sha256:${createHash('sha256').update(stdout).digest('hex')}`);
+    assert.strictEqual(result.stderr_truncated, false);
+    assert.strictEqual(execution.stdout_truncated, true);
+  });
+});
@@ -7,6 +7,9 @@
  * All decisions come from the kernel.
  */
 
+import type { ModelAdapter } from '../adapters/model.js';
+import type { RunnerStepStatus } from '../consumer/runner_types.js';
+
 // =============================================================================
 // Input Types
 // =============================================================================
@@ -35,6 +38,42 @@ export type ModelMode = 'none' | 'record' | 'replay';
  */
 export type PolicyProfileName = 'strict' | 'default' | 'dev';
 
+/**
+ * Isolation a policy requires for sandbox commands.
+ *
+ * - 'none': plain child process
+ * - 'best_effort': Linux namespaces when available, otherwise plain
+ * - 'strict': Linux namespaces; commands are refused without them
+ */
+export type IsolationLevel = 'none' | 'best_effort' | 'strict';
+
+/**
+ * Isolation backend sandbox commands actually ran under.
+ */
+export type SandboxIsolation = 'none' | 'namespaces';
+
+/**
+ * Why a sandbox command stopped.
+ *
+ * - 'exit': exited on its own (any exit code)
+ * - 'timeout': killed after timeout_ms
+ * - 'cpu_limit': exceeded max_cpu_seconds
+ * - 'memory_limit': exceeded max_memory_bytes
+ * - 'process_limit': exceeded max_processes
+ * - 'open_files_limit': exceeded max_open_files
+ * - 'signal': killed by another signal
+ * - 'error': refused or failed to spawn
+ */
+export type SandboxTermination =
+  | 'exit'
+  | 'timeout'
+  | 'cpu_limit'
+  | 'memory_limit'
+  | 'process_limit'
+  | 'open_files_limit'
+  | 'signal'
+  | 'error';
+
 /**
  * Input to the harness run.
  */
@@ -54,6 +93,12 @@ export interface HarnessRunInput {
    */
   policy: PolicyProfileName;
 
+  /**
+   * Path to a custom policy file (POLICY_SPEC.md section 8).
+   * When set, takes precedence over `policy`.
+   */
+  policy_file?: string;
+
   /**
    * Model mode (default: 'none').
    * Enforced by policy: strict/default MUST use 'none'.
@@ -66,6 +111,24 @@ export interface HarnessRunInput {
    */
   model_recording_path?: string;
 
+  /**
+   * Adapter to record in 'record' mode (default: the provider configured
+   * in the environment, see createAutoAdapter).
+   */
+  model_adapter?: ModelAdapter;
+
+  /**
+   * Path to an answers file (JSON object keyed by question ID).
+   * When set, the bundle's questions are resolved with these answers.
+   */
+  answers_path?: string;
+
+  /**
+   * Base the sandbox workspace starts from, so proposals can modify,
+   * delete and validate existing files. Default: empty workspace.
+   */
+  base?: SandboxBase;
+
   /**
    * If true, preserve the sandbox directory after execution.
    * The sandbox path will be returned in the result.
@@ -84,7 +147,7 @@ export interface HarnessRunInput {
  */
 export interface PolicyProfile {
   /**
-   * Profile name.
+   * Profile name (the base profile's name for custom profiles).
    */
   name: PolicyProfileName;
 
@@ -117,6 +180,63 @@ export interface PolicyProfile {
    * Allowed write roots (relative to sandbox).
    */
   allowed_write_roots: string[];
+
+  /**
+   * Isolation required for sandbox commands.
+   */
+  isolation: IsolationLevel;
+
+  /**
+   * Host environment variables passed to sandbox commands (if empty, all
+   * are passed in dev mode).
+   */
+  env_allowlist: string[];
+
+  /**
+   * Maximum data segment size per process in bytes (RLIMIT_DATA).
+   */
+  max_memory_bytes: number;
+
+  /**
+   * Maximum CPU time per process in seconds (RLIMIT_CPU).
+   */
+  max_cpu_seconds: number;
+
+  /**
+   * Maximum processes for the sandbox user (RLIMIT_NPROC). Counted per UID
+   * across the host; no effect when running as root.
+   */
+  max_processes: number;
+
+  /**
+   * Maximum open file descriptors per process (RLIMIT_NOFILE).
+   */
+  max_open_files: number;
+
+  /**
+   * Custom profile this policy was resolved from (only for policy files).
+   */
+  custom?: CustomPolicyRef;
+}
+
+/**
+ * Policy fields a policy file may override or cap.
+ */
+export type PolicyCeiling = Partial<Omit<PolicyProfile, 'name' | 'custom'>>;
+
+/**
+ * Custom profile recorded in a resolved policy.
+ */
+export interface CustomPolicyRef {
+  /**
+   * Custom profile name.
+   */
+  name: string;
+
+  /**
+   * Declared ceiling (fields not declared are capped at the base profile).
+   */
+  ceiling: PolicyCeiling;
 }
 
 // =============================================================================
@@ -149,6 +269,121 @@ export interface OutputFile {
   size_bytes: number;
 }
 
+/**
+ * Kind of sandbox base.
+ */
+export type SandboxBaseKind = 'dir' | 'git' | 'pack';
+
+/**
+ * Source the sandbox workspace is seeded from.
+ * - dir: a copy of a directory
+ * - git: the tree of a commit in a local repository
+ * - pack: the files a pack's patch.json creates
+ */
+export type SandboxBase =
+  | { kind: 'dir'; path: string }
+  | { kind: 'git'; repo: string; rev: string }
+  | { kind: 'pack'; path: string };
+
+/**
+ * Content hash tree of the workspace as seeded.
+ */
+export interface BaseSnapshot {
+  /**
+   * Kind of base.
+   */
+  kind: SandboxBaseKind;
+
+  /**
+   * Resolved commit hash (git bases only).
+   */
+  commit?: string;
+
+  /**
+   * Hash of the canonical files list.
+   */
+  tree_sha256: ContentHash;
+
+  /**
+   * Files in the base (sorted by path).
+   */
+  files: OutputFile[];
+}
+
+/**
+ * Outcome of a pipeline step.
+ * - success: exited with code 0
+ * - failure: non-zero exit, refused or failed to spawn
+ * - timeout: killed after timeout_ms
+ * - skipped: not run because an earlier step failed
+ */
+export type SandboxStepStatus = RunnerStepStatus;
+
+/**
+ * One step of a command pipeline run in the sandbox.
+ */
+export interface SandboxExecutionStep {
+  /**
+   * Step name (the action ID for proposal steps).
+   */
+  name: string;
+
+  /**
+   * Command argv.
+   */
+  cmd: string[];
+
+  /**
+   * Step outcome.
+   */
+  status: SandboxStepStatus;
+
+  /**
+   * Whether later steps run even if this one fails.
+   */
+  continue_on_failure: boolean;
+
+  /**
+   * Exit code (null if skipped).
+   */
+  exit_code: number | null;
+
+  /**
+   * Why the command stopped (null if skipped).
+   */
+  termination: SandboxTermination | null;
+
+  /**
+   * True if termination was inferred from stderr (section 3.8 of RUN_SPEC).
+   */
+  termination_inferred?: boolean;
+
+  /**
+   * Start time (ISO 8601, ephemeral).
+   */
+  started_at: string;
+
+  /**
+   * Duration in milliseconds (ephemeral).
+   */
+  duration_ms: number;
+
+  /**
+   * SHA-256 of the step's stdout log (its name in the pack's logs/).
+   */
+  stdout_sha256: ContentHash;
+
+  /**
+   * SHA-256 of the step's stderr log (its name in the pack's logs/).
+   */
+  stderr_sha256: ContentHash;
+
+  stdout_bytes: number;
+  stderr_bytes: number;
+  stdout_truncated: boolean;
+  stderr_truncated: boolean;
+}
+
 /**
  * Execution details captured by sandbox.
  */
@@ -179,10 +414,41 @@ export interface SandboxExecution {
   stderr_sha256: ContentHash;
 
   /**
-   * Output files collected (sorted by path).
+   * Bytes of stdout captured in the log.
+   */
+  stdout_bytes: number;
+
+  /**
+   * Bytes of stderr captured in the log.
+   */
+  stderr_bytes: number;
+
+  /**
+   * Whether stdout exceeded max_total_output_bytes and the log was cut.
+   */
+  stdout_truncated: boolean;
+
+  /**
+   * Whether stderr exceeded max_total_output_bytes and the log was cut.
+   */
+  stderr_truncated: boolean;
+
+  /**
+   * Output files collected (sorted by path). With a base, only files
+   * added or changed relative to it.
    */
   outputs: OutputFile[];
 
+  /**
+   * Base the workspace was seeded from (absent for an empty workspace).
+   */
+  base?: BaseSnapshot;
+
+  /**
+   * Base files no longer in the workspace (sorted; present with a base).
+   */
+  deleted?: string[];
+
   /**
    * Total output bytes.
    */
@@ -192,6 +458,31 @@ export interface SandboxExecution {
    * Whether output was truncated due to limits.
    */
   output_truncated: boolean;
+
+  /**
+   * Isolation backend the sandbox's commands ran under.
+   */
+  isolation: SandboxIsolation;
+
+  /**
+   * Whether the policy's rlimits were applied to the sandbox's commands.
+   */
+  limits_enforced: boolean;
+
+  /**
+   * Why the command stopped.
+   */
+  termination: SandboxTermination;
+
+  /**
+   * True if termination was inferred from stderr (section 3.8 of RUN_SPEC).
+   */
+  termination_inferred?: boolean;
+
+  /**
+   * Command pipeline steps, in order (present for proposal execution).
+   */
+  steps?: SandboxExecutionStep[];
 }
 
 // =============================================================================
@@ -227,7 +518,7 @@ export interface DecisionRecord {
  * Current run schema version.
  * Bump this when RunResult schema changes.
  */
-export const RUN_SCHEMA_VERSION = '1.0.0';
+export const RUN_SCHEMA_VERSION = '1.2.0';
 
 /**
  * Complete result of a harness run.
@@ -266,6 +557,17 @@ export interface HarnessRunResult {
    */
   policy: PolicyProfile;
 
+  /**
+   * Name of the policy profile used (the custom profile's name for policy
+   * files; see policyName).
+   */
+  policy_name: string;
+
+  /**
+   * SHA-256 hash of the canonical policy.
+   */
+  policy_sha256: ContentHash;
+
   /**
    * Intent information.
    */
@@ -306,6 +608,21 @@ export interface HarnessRunResult {
    */
   clarify_questions?: string[];
 
+  /**
+   * Answers file applied to the bundle (only if answers_path was set).
+   */
+  answers?: {
+    /**
+     * Path to answers file.
+     */
+    path: string;
+
+    /**
+     * SHA-256 hash of answers file content.
+     */
+    sha256: ContentHash;
+  };
+
   /**
    * Refusal reason (if REFUSE).
    */
@@ -337,6 +654,12 @@ export interface HarnessRunResult {
    * Format: JSONL with one entry per model interaction.
    */
   model_io_path?: string;
+
+  /**
+   * ModelIOHash of the model_io.json the run recorded or replayed
+   * (only if model_mode was 'record' or 'replay').
+   */
+  model_io_hash?: ContentHash;
 }
 
 // =============================================================================
@@ -445,7 +768,68 @@ export interface LedgerEntry {
   mode: ExecutionMode;
 
   /**
-   * Policy used.
+   * Policy used (the custom profile's name for policy files).
    */
-  policy: PolicyProfileName;
+  policy: string;
+
+  /**
+   * SHA-256 hash of the canonical policy.
+   */
+  policy_sha256: ContentHash;
+
+  /**
+   * entry_hash of the preceding ledger record (null for the first record).
+   */
+  prev_entry_hash: ContentHash | null;
+
+  /**
+   * SHA-256 hash of this record's canonical JSON without entry_hash.
+   */
+  entry_hash: ContentHash;
 }
+
+/**
+ * Checkpoint record in the harness ledger, sealing the entries appended
+ * since the previous checkpoint with a Merkle root.
+ */
+export interface LedgerCheckpoint {
+  /**
+   * Record discriminator.
+   */
+  record_type: 'checkpoint';
+
+  /**
+   * Timestamp (ISO 8601 UTC).
+   */
+  timestamp: string;
+
+  /**
+   * Number of entries covered (since the previous checkpoint).
+   */
+  entry_count: number;
+
+  /**
+   * Number of entries in the ledger up to this checkpoint.
+   */
+  entries_total: number;
+
+  /**
+   * Merkle root over the covered entries' entry_hash values.
+   */
+  merkle_root: ContentHash;
+
+  /**
+   * entry_hash of the preceding ledger record.
+   */
+  prev_entry_hash: ContentHash | null;
+
+  /**
+   * SHA-256 hash of this record's canonical JSON without entry_hash.
+   */
+  entry_hash: ContentHash;
+}
+
+/**
+ * Any record in the harness ledger.
+ */
+export type LedgerRecord = LedgerEntry | LedgerCheckpoint;
@@ -17,8 +17,12 @@
  */
 
 // Core transform function
-export { transform, getBundleCanonical, getBundleHash, KERNEL_VERSION } from './assembler/bundle.js';
+export { transform, withModelAssist, getBundleCanonical, getBundleHash, KERNEL_VERSION } from './assembler/bundle.js';
 export type { TransformConfig } from './assembler/bundle.js';
+export { resolveBundle, formatAnswer } from './assembler/resolve.js';
+export { incrementalTransform, seedDecompositionCache } from './assembler/incremental.js';
+export type { IncrementalTransformResult } from './assembler/incremental.js';
+export type { AnswerMap } from './assembler/resolve.js';
 
 // Schema version
 export { SCHEMA_VERSION } from './types/artifacts.js';
@@ -37,9 +41,15 @@ export type {
   // Measurement types
   EntropyMeasurement,
   DensityMeasurement,
+  EntropyPackRef,
+  Contradiction,
+  ContradictionRule,
   // Decomposition types
+  QuestionTemplatePackRef,
   AnswerType,
   Question,
+  QuestionScoring,
+  BranchEntropy,
   SplittingQuestion,
   Branch,
   NodeStatus,
@@ -51,6 +61,8 @@ export type {
   BundleStatus,
   Bundle,
   BundleStats,
+  ResolvedAnswer,
+  ModelAssist,
   // Evidence types
   EvidenceEntry,
 } from './types/artifacts.js';
@@ -90,6 +102,7 @@ export {
   parseAndNormalize,
 } from './utils/normalize.js';
 export type { RawIntent, NormalizedIntent } from './utils/normalize.js';
+export { parseYaml } from './utils/yaml.js';
 
 // Entropy measurement
 export {
@@ -104,24 +117,56 @@ export {
   measureDensity,
   isTerminal,
   calculateInformationGain,
+  createTableAnalyzer,
+  BASE_ENTROPY_TABLES,
+  BASE_ENTROPY_ANALYZER,
   DEFAULT_TERMINATION_CONFIG,
 } from './entropy/measure.js';
-export type { TerminationConfig } from './entropy/measure.js';
+export type { TerminationConfig, EntropyTables, EntropyAnalyzer } from './entropy/measure.js';
+export {
+  registerEntropyPack,
+  getEntropyPack,
+  listEntropyPacks,
+  createEntropyAnalyzer,
+} from './entropy/analyzer.js';
+export type { EntropyPack } from './entropy/analyzer.js';
+export { findContradictions } from './entropy/contradictions.js';
 
 // Decomposition
 export {
   createNode,
   generateQuestions,
   selectSplittingQuestion,
+  selectBranch,
   decomposeNode,
   decompose,
+  createAnalysisScope,
+  nodeCacheKey,
   DEFAULT_DECOMPOSITION_CONFIG,
 } from './decomposition/decomposer.js';
 export type {
   DecompositionResult,
   DecompositionConfig,
   FullDecompositionResult,
+  AnalysisScope,
+  NodeExpansion,
+  NodeAnalysis,
+  DecompositionCache,
 } from './decomposition/decomposer.js';
+export {
+  BUILTIN_QUESTION_TEMPLATES,
+  BUILTIN_QUESTION_CATALOG,
+  parseQuestionTemplatePack,
+  loadQuestionTemplatePack,
+  getQuestionTemplatePackRef,
+  createQuestionCatalog,
+} from './decomposition/templates.js';
+export type {
+  QuestionTemplate,
+  QuestionTemplatePack,
+  CompiledQuestionTemplate,
+  QuestionCatalog,
+} from './decomposition/templates.js';
 
 // Validation gates
 export {
@@ -135,12 +180,15 @@ export {
 export type { GateResult, ValidationGateResult } from './validation/gates.js';
 
 // Proposal protocol
-export { generateProposal, validateEvidence } from './protocol/proposal.js';
+export { generateProposal, validateEvidence, evaluateTestObservation, resolveJsonPath } from './protocol/proposal.js';
 export type {
   ProposalId,
   ActionId,
   ActionType,
   ProposedAction,
+  TestType,
+  TestStream,
+  TestMatch,
   AcceptanceTest,
   Proposal,
   ActionResultStatus,
@@ -164,6 +212,37 @@ export type {
   AdapterErrorCode,
   RecordedInteraction,
   RecordingSession,
+  // Request types
+  ModelRequest,
+  ModelMessage,
+  ModelMessageRole,
+  ContentBlock,
+  TextBlock,
+  ImageBlock,
+  ImageMediaType,
+  ToolDefinition,
+  ToolCall,
+  ToolResult,
+  ToolUseBlock,
+  ToolResultBlock,
+  ResponseFormat,
+  // Tool loop
+  ToolHandler,
+  ToolHandlers,
+  ToolLoopResult,
+  // Structured output
+  SchemaKeyword,
+  SchemaViolation,
+  StructuredOptions,
+  StructuredResult,
+  // Middleware
+  ModelCall,
+  AdapterMiddleware,
+  CacheMiddlewareOptions,
+  RateLimitMiddlewareOptions,
+  BudgetMiddlewareOptions,
+  MetricsMiddlewareOptions,
+  RetryMiddlewareOptions,
   MockResponse,
   MockDefaultBehavior,
   MockModelAdapterOptions,
@@ -185,6 +264,21 @@ export type {
 
 export {
   AdapterError,
+  // Tool loop
+  runToolLoop,
+  DEFAULT_MAX_TOOL_STEPS,
+  // Structured output
+  completeStructured,
+  parseStructured,
+  validateSchema,
+  DEFAULT_MAX_REPAIRS,
+  // Middleware
+  withMiddleware,
+  cache,
+  rateLimit,
+  budget,
+  metrics,
+  retry,
   MockModelAdapter,
   RecordingModelAdapter,
   ReplayModelAdapter,
@@ -202,6 +296,10 @@ export {
   createRetryExecutor,
   createResilientExecutor,
   createAPIResilientExecutor,
+  // Request canonicalization
+  promptRequest,
+  canonicalizeRequest,
+  hashRequest,
   // Streaming utilities
   isStreamingAdapter,
   collectStream,
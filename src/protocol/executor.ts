@@ -13,14 +13,14 @@
  * This is the "execution" side of the authority/execution separation.
  */
 
-import { createHash } from 'node:crypto';
-import { mkdir, writeFile, readFile, rm, stat } from 'node:fs/promises';
+import { mkdir, writeFile, readFile, rm, stat, lstat, cp } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
 
-import { canonicalHash } from '../utils/canonical.js';
+import { canonicalHash, canonicalize } from '../utils/canonical.js';
+import { evaluateTestObservation, resolveJsonPath } from './proposal.js';
 import type {
   Proposal,
   ProposedAction,
@@ -70,12 +70,19 @@ export interface ExecutorConfig {
    * Default: 'executor_default'
    */
   executorId?: string;
+
+  /**
+   * Directory copied into the sandbox before execution, so proposals can
+   * modify, delete and validate existing files.
+   * Default: none (empty sandbox)
+   */
+  seedDir?: string;
 }
 
 /**
  * Default executor configuration.
  */
-const DEFAULT_CONFIG: Required<ExecutorConfig> = {
+const DEFAULT_CONFIG: Required<Omit<ExecutorConfig, 'seedDir'>> = {
   baseDir: tmpdir(),
   actionTimeout: 30000,
   maxOutputSize: 10000,
@@ -83,6 +90,11 @@ const DEFAULT_CONFIG: Required<ExecutorConfig> = {
   executorId: 'executor_default',
 };
 
+/**
+ * Resolved executor configuration.
+ */
+type ResolvedConfig = typeof DEFAULT_CONFIG & Pick<ExecutorConfig, 'seedDir'>;
+
 // =============================================================================
 // Sandbox Management
 // =============================================================================
@@ -132,7 +144,7 @@ async function cleanupSandbox(sandboxDir: string): Promise<void> {
 async function executeAction(
   action: ProposedAction,
   sandboxDir: string,
-  config: Required<ExecutorConfig>
+  config: ResolvedConfig
 ): Promise<ActionResult> {
   const startTime = Date.now();
 
@@ -148,16 +160,11 @@ async function executeAction(
         return await executeDeleteFile(action, sandboxDir, startTime);
 
       case 'execute_command':
+      case 'test':
         return await executeCommand(action, sandboxDir, config, startTime);
 
       case 'validate':
-      case 'test':
-        // Validation/test actions are handled separately
-        return {
-          action_id: action.id,
-          status: 'skipped',
-          duration_ms: Date.now() - startTime,
-        };
+        return await executeValidate(action, sandboxDir, startTime);
 
       default:
         return {
@@ -206,9 +213,7 @@ async function executeCreateFile(
   await writeFile(targetPath, action.content, 'utf-8');
 
   // Compute hash
-  const actualHash = createHash('sha256')
-    .update(action.content + '\n', 'utf-8')
-    .digest('hex');
+  const actualHash = canonicalHash(action.content);
 
   return {
     action_id: action.id,
@@ -253,9 +258,7 @@ async function executeModifyFile(
   await writeFile(targetPath, action.content, 'utf-8');
 
   // Compute hash
-  const actualHash = createHash('sha256')
-    .update(action.content + '\n', 'utf-8')
-    .digest('hex');
+  const actualHash = canonicalHash(action.content);
 
   return {
     action_id: action.id,
@@ -293,12 +296,43 @@ async function executeDeleteFile(
 }
 
 /**
- * Execute command action.
+ * Execute validate action: the target must exist, and its hash is
+ * reported for comparison with expected_hash.
+ */
+async function executeValidate(
+  action: ProposedAction,
+  sandboxDir: string,
+  startTime: number
+): Promise<ActionResult> {
+  const targetPath = join(sandboxDir, action.target);
+
+  let content: string;
+  try {
+    content = await readFile(targetPath, 'utf-8');
+  } catch {
+    return {
+      action_id: action.id,
+      status: 'failure',
+      error: `File does not exist: ${action.target}`,
+      duration_ms: Date.now() - startTime,
+    };
+  }
+
+  return {
+    action_id: action.id,
+    status: 'success',
+    actual_hash: canonicalHash(content),
+    duration_ms: Date.now() - startTime,
+  };
+}
+
+/**
+ * Execute command action (execute_command and test).
  */
 async function executeCommand(
   action: ProposedAction,
   sandboxDir: string,
-  config: Required<ExecutorConfig>,
+  config: ResolvedConfig,
   startTime: number
 ): Promise<ActionResult> {
   try {
@@ -389,11 +423,19 @@ async function executeTest(
         return await testFileExists(test, sandboxDir);
 
       case 'command_success':
-        return await testCommandSuccess(test, sandboxDir);
+      case 'command_exit':
+      case 'command_output':
+        return await testCommand(test, sandboxDir);
 
       case 'content_match':
         return await testContentMatch(test, sandboxDir);
 
+      case 'json_path':
+        return await testJsonPath(test, sandboxDir);
+
+      case 'file_absent':
+        return await testFileAbsent(test, sandboxDir);
+
       default:
         return {
           test_id: test.id,
@@ -423,9 +465,7 @@ async function testHashMatch(
 
   try {
     const content = await readFile(targetPath, 'utf-8');
-    const actualHash = createHash('sha256')
-      .update(content + '\n', 'utf-8')
-      .digest('hex');
+    const actualHash = canonicalHash(content);
 
     return {
       test_id: test.id,
@@ -468,28 +508,86 @@ async function testFileExists(
 }
 
 /**
- * Test that command succeeds.
+ * Test a command's exit code or output. The kernel decides the verdict
+ * from the observation (evaluateTestObservation).
  */
-async function testCommandSuccess(
+async function testCommand(
   test: AcceptanceTest,
   sandboxDir: string
 ): Promise<TestResult> {
+  let exitCode: number | null = 0;
+  let stdout = '';
+  let stderr = '';
+
   try {
-    await execAsync(test.target, { cwd: sandboxDir, timeout: 10000 });
-    return {
-      test_id: test.id,
-      passed: test.expected === '0',
-      actual: '0',
-    };
+    ({ stdout, stderr } = await execAsync(test.target, { cwd: sandboxDir, timeout: 10000 }));
   } catch (error: unknown) {
-    const execError = error as { code?: number };
-    const actual = String(execError.code ?? 'error');
+    const execError = error as { code?: number | string; stdout?: string; stderr?: string };
+    exitCode = typeof execError.code === 'number' ? execError.code : null;
+    stdout = execError.stdout ?? '';
+    stderr = execError.stderr ?? '';
+  }
+
+  let actual: string;
+  if (test.type === 'command_output') {
+    actual = test.stream === 'stderr' ? stderr : stdout;
+  } else {
+    actual = exitCode === null ? 'error' : String(exitCode);
+  }
+
+  return {
+    test_id: test.id,
+    passed: evaluateTestObservation(test, actual) === true,
+    actual,
+    ...(exitCode !== null && { exit_code: exitCode }),
+  };
+}
+
+/**
+ * Test the value at a JSON path in a file.
+ */
+async function testJsonPath(
+  test: AcceptanceTest,
+  sandboxDir: string
+): Promise<TestResult> {
+  const targetPath = join(sandboxDir, test.target);
+
+  let document: unknown;
+  try {
+    document = JSON.parse(await readFile(targetPath, 'utf-8'));
+  } catch {
     return {
       test_id: test.id,
-      passed: actual === test.expected,
-      actual,
+      passed: false,
+      actual: '',
+      error: `File not found or not JSON: ${test.target}`,
     };
   }
+
+  const value = resolveJsonPath(document, test.json_path ?? '');
+  const actual = value === undefined ? '' : canonicalize(value);
+  return {
+    test_id: test.id,
+    passed: evaluateTestObservation(test, actual) === true,
+    actual,
+    ...(value === undefined && { error: `JSON path not found: ${test.json_path ?? ''}` }),
+  };
+}
+
+/**
+ * Test that file does not exist.
+ */
+async function testFileAbsent(
+  test: AcceptanceTest,
+  sandboxDir: string
+): Promise<TestResult> {
+  const exists = await lstat(join(sandboxDir, test.target)).then(() => true, () => false);
+  const actual = exists ? 'false' : 'true';
+  return {
+    test_id: test.id,
+    passed: evaluateTestObservation(test, actual) === true,
+    actual,
+  };
 }
 
 /**
@@ -533,7 +631,7 @@ export async function executeProposal(
   proposal: Proposal,
   config: ExecutorConfig = {}
 ): Promise<ExecutionEvidence> {
-  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const fullConfig: ResolvedConfig = { ...DEFAULT_CONFIG, ...config };
 
   const startedAt = new Date().toISOString();
   const startTime = Date.now();
@@ -542,6 +640,14 @@ export async function executeProposal(
   const sandboxDir = await createSandbox(fullConfig.baseDir);
 
   try {
+    if (fullConfig.seedDir) {
+      // Symlinks are not copied: they could point writes outside the sandbox
+      await cp(fullConfig.seedDir, sandboxDir, {
+        recursive: true,
+        filter: async (src) => !(await lstat(src)).isSymbolicLink(),
+      });
+    }
+
     // Execute all actions
     const actionResults: ActionResult[] = [];
     for (const action of proposal.actions) {
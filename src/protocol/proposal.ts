@@ -13,7 +13,7 @@
  * The proposal protocol enforces authority/execution separation.
  */
 
-import { deriveId, canonicalHash } from '../utils/canonical.js';
+import { deriveId, canonicalHash, canonicalize } from '../utils/canonical.js';
 import type { Bundle, BundleId, Output, Score } from '../types/artifacts.js';
 import { SCHEMA_VERSION } from '../types/artifacts.js';
 
@@ -87,8 +87,38 @@ export interface ProposedAction {
    * Ordering priority (lower = earlier).
    */
   order: number;
+
+  /**
+   * Whether later actions run even if this command fails (test and
+   * execute_command only; default: false, a failed command halts
+   * execution).
+   */
+  continue_on_failure?: boolean;
 }
 
+/**
+ * Type of acceptance test.
+ */
+export type TestType =
+  | 'hash_match'       // File hash equals expected
+  | 'command_success'  // Command exit code equals expected ("0")
+  | 'file_exists'      // File existence equals expected ("true"/"false")
+  | 'content_match'    // File content equals expected
+  | 'command_exit'     // Command exit code equals expected
+  | 'command_output'   // Command stdout/stderr equals or matches expected
+  | 'json_path'        // Value at a JSON path in a file equals expected JSON
+  | 'file_absent';     // File does not exist
+
+/**
+ * Output stream checked by a command_output test.
+ */
+export type TestStream = 'stdout' | 'stderr';
+
+/**
+ * Comparison used by a command_output test.
+ */
+export type TestMatch = 'exact' | 'regex';
+
 /**
  * An acceptance test that must pass for proposal to be accepted.
  */
@@ -106,15 +136,15 @@ export interface AcceptanceTest {
   /**
    * Type of test.
    */
-  type: 'hash_match' | 'command_success' | 'file_exists' | 'content_match';
+  type: TestType;
 
   /**
-   * Target to test.
+   * Target to test (file path, or command for command tests).
    */
   target: string;
 
   /**
-   * Expected value (hash, exit code, etc.).
+   * Expected value (hash, exit code, output, JSON, etc.).
    */
   expected: string;
 
@@ -122,6 +152,21 @@ export interface AcceptanceTest {
    * Whether this test is required.
    */
   required: boolean;
+
+  /**
+   * Stream to check (command_output only, default: stdout).
+   */
+  stream?: TestStream;
+
+  /**
+   * Comparison (command_output only, default: exact).
+   */
+  match?: TestMatch;
+
+  /**
+   * Path into the target file's JSON (json_path only), e.g. `$.scripts.test`.
+   */
+  json_path?: string;
 }
 
 /**
@@ -254,6 +299,11 @@ export interface TestResult {
    */
   actual: string;
 
+  /**
+   * Exit code of the test command (command tests only).
+   */
+  exit_code?: number;
+
   /**
    * Error message if failed.
    */
@@ -427,6 +477,115 @@ function generateProposalSummary(bundle: Bundle, actions: ProposedAction[]): str
   return lines.join('\n');
 }
 
+// =============================================================================
+// Test Evaluation
+// =============================================================================
+
+/**
+ * Test types whose verdict the kernel derives from the observed value
+ * instead of trusting the executor's `passed` flag.
+ */
+export const VERIFIED_TEST_TYPES: ReadonlySet<TestType> = new Set([
+  'command_success',
+  'command_exit',
+  'command_output',
+  'json_path',
+  'file_absent',
+]);
+
+/**
+ * JSON path grammar: `$` followed by `.key` or `[index]` segments.
+ */
+const JSON_PATH_PATTERN = /^\$((\.[A-Za-z_][A-Za-z0-9_-]*)|(\[\d+\]))*$/;
+
+/**
+ * Parse a JSON path into its segments.
+ *
+ * @param path - Path such as `$.scripts.test` or `$.items[0].name`
+ * @returns Keys and indices, or null if the path is malformed
+ */
+export function parseJsonPath(path: string): Array<string | number> | null {
+  if (!JSON_PATH_PATTERN.test(path)) {
+    return null;
+  }
+  const segments: Array<string | number> = [];
+  for (const match of path.slice(1).matchAll(/\.([^.[]+)|\[(\d+)\]/g)) {
+    segments.push(match[1] !== undefined ? match[1] : Number(match[2]));
+  }
+  return segments;
+}
+
+/**
+ * Resolve a JSON path against a parsed document.
+ *
+ * @param document - Parsed JSON
+ * @param path - JSON path
+ * @returns The value, or undefined if the path is malformed or absent
+ */
+export function resolveJsonPath(document: unknown, path: string): unknown {
+  const segments = parseJsonPath(path);
+  if (segments === null) {
+    return undefined;
+  }
+
+  let current: unknown = document;
+  for (const segment of segments) {
+    if (typeof segment === 'number') {
+      if (!Array.isArray(current) || segment >= current.length) return undefined;
+      current = current[segment];
+    } else {
+      if (current === null || typeof current !== 'object' || Array.isArray(current)) return undefined;
+      if (!Object.prototype.hasOwnProperty.call(current, segment)) return undefined;
+      current = (current as Record<string, unknown>)[segment];
+    }
+  }
+  return current;
+}
+
+/**
+ * Decide a test from its observed value. Observations are defined per
+ * type (PROPOSAL_INTERNAL_SPEC.md section 3.7):
+ * - command_success, command_exit: exit code as a decimal string
+ * - command_output: the captured stream
+ * - json_path: canonical JSON of the value at the path ('' if absent)
+ * - file_absent: 'true' if the file does not exist
+ *
+ * @param test - Acceptance test
+ * @param actual - Observed value
+ * @returns Whether the test passes, or null for types the kernel does
+ *   not verify (the executor's verdict stands)
+ */
+export function evaluateTestObservation(test: AcceptanceTest, actual: string): boolean | null {
+  switch (test.type) {
+    case 'command_success':
+    case 'command_exit':
+      return actual === test.expected;
+
+    case 'command_output':
+      if (test.match === 'regex') {
+        try {
+          return new RegExp(test.expected).test(actual);
+        } catch {
+          return false;
+        }
+      }
+      return actual === test.expected;
+
+    case 'json_path':
+      try {
+        return actual !== '' && actual === canonicalize(JSON.parse(test.expected));
+      } catch {
+        return false;
+      }
+
+    case 'file_absent':
+      return actual === 'true';
+
+    default:
+      return null;
+  }
+}
+
 // =============================================================================
 // Evidence Validation
 // =============================================================================
@@ -524,9 +683,17 @@ export function validateEvidence(
     if (!result) {
       errors.push(`Missing result for required test: ${test.id}`);
       testsPass = false;
-    } else if (!result.passed) {
+      continue;
+    }
+
+    // The kernel decides verified types from the observation itself
+    const verdict = evaluateTestObservation(test, result.actual);
+    if (!(verdict ?? result.passed)) {
       errors.push(`Required test failed: ${test.name}`);
       testsPass = false;
+    } else if (!result.passed) {
+      errors.push(`Test result inconsistent with observation: ${test.name}`);
+      testsPass = false;
     }
   }
 
@@ -2,14 +2,15 @@
  * Proposal Verifier (Internal)
  * ============================
  *
- * Internal verification of Proposal objects against PR1-PR12 invariants.
+ * Internal verification of Proposal objects against PR1-PR14 invariants.
  * This is for kernel self-consistency checks, not consumer verification.
  *
  * See PROPOSAL_INTERNAL_SPEC.md for the internal contract.
  */
 
 import { canonicalize } from '../utils/canonical.js';
-import type { Proposal, ProposedAction, AcceptanceTest, ActionType } from './proposal.js';
+import type { Proposal, ProposedAction, AcceptanceTest, ActionType, TestType } from './proposal.js';
+import { parseJsonPath } from './proposal.js';
 
 // =============================================================================
 // Verification Types (Internal)
@@ -30,15 +31,22 @@ const ACTION_TYPES: ReadonlySet<ActionType> = new Set([
 /**
  * Valid test types.
  */
-type TestType = 'hash_match' | 'command_success' | 'file_exists' | 'content_match';
-
 const TEST_TYPES: ReadonlySet<TestType> = new Set([
   'hash_match',
   'command_success',
   'file_exists',
   'content_match',
+  'command_exit',
+  'command_output',
+  'json_path',
+  'file_absent',
 ]);
 
+/**
+ * Exit code expectation: decimal 0-255.
+ */
+const EXIT_CODE_PATTERN = /^(0|[1-9]\d{0,2})$/;
+
 /**
  * A single violation of the proposal spec.
  */
@@ -207,6 +215,59 @@ function checkTestTypesValid(tests: AcceptanceTest[]): ProposalViolation[] {
   return violations;
 }
 
+function checkCommandTestsWellFormed(tests: AcceptanceTest[]): ProposalViolation[] {
+  const violations: ProposalViolation[] = [];
+
+  for (const test of tests) {
+    if (test.type !== 'command_success' && test.type !== 'command_exit' && test.type !== 'command_output') {
+      continue;
+    }
+
+    if (typeof test.target !== 'string' || test.target.trim() === '') {
+      violations.push({ rule_id: 'PR13', path: test.id, message: `${test.type} test must have a command target` });
+    }
+
+    if (test.type === 'command_output') {
+      if (test.stream !== undefined && test.stream !== 'stdout' && test.stream !== 'stderr') {
+        violations.push({ rule_id: 'PR13', path: test.id, message: `Invalid stream: ${String(test.stream)}` });
+      }
+      if (test.match !== undefined && test.match !== 'exact' && test.match !== 'regex') {
+        violations.push({ rule_id: 'PR13', path: test.id, message: `Invalid match: ${String(test.match)}` });
+      }
+      if (test.match === 'regex') {
+        try {
+          new RegExp(test.expected);
+        } catch {
+          violations.push({ rule_id: 'PR13', path: test.id, message: `Invalid regex: ${test.expected}` });
+        }
+      }
+    } else if (!EXIT_CODE_PATTERN.test(test.expected) || Number(test.expected) > 255) {
+      violations.push({ rule_id: 'PR13', path: test.id, message: `Expected exit code must be 0-255, got ${test.expected}` });
+    }
+  }
+
+  return violations;
+}
+
+function checkJsonPathTestsWellFormed(tests: AcceptanceTest[]): ProposalViolation[] {
+  const violations: ProposalViolation[] = [];
+
+  for (const test of tests) {
+    if (test.type !== 'json_path') continue;
+
+    if (typeof test.json_path !== 'string' || parseJsonPath(test.json_path) === null) {
+      violations.push({ rule_id: 'PR14', path: test.id, message: `Invalid json_path: ${String(test.json_path)}` });
+    }
+    try {
+      JSON.parse(test.expected);
+    } catch {
+      violations.push({ rule_id: 'PR14', path: test.id, message: 'Expected value must be JSON' });
+    }
+  }
+
+  return violations;
+}
+
 function checkConfidenceRange(proposal: Record<string, unknown>): ProposalViolation[] {
   const violations: ProposalViolation[] = [];
   const confidence = proposal.confidence;
@@ -360,7 +421,7 @@ function sortViolations(violations: ProposalViolation[]): ProposalViolation[] {
 // =============================================================================
 
 /**
- * Verify a proposal against PROPOSAL_INTERNAL_SPEC.md invariants (PR1-PR12).
+ * Verify a proposal against PROPOSAL_INTERNAL_SPEC.md invariants (PR1-PR14).
  *
  * This is for kernel self-consistency, not consumer verification.
  *
@@ -403,6 +464,8 @@ export function verifyProposal(
   violations.push(...checkSummaryNonEmpty(proposal));
   violations.push(...checkSortingCanonical(actions, tests));
   violations.push(...checkFileActionsHaveContent(actions));
+  violations.push(...checkCommandTestsWellFormed(tests));
+  violations.push(...checkJsonPathTestsWellFormed(tests));
 
   if (violations.length === 0) {
     return { ok: true };
@@ -0,0 +1,188 @@
+/**
+ * Executor Tests (Internal)
+ * =========================
+ *
+ * Tests for proposal execution against a seeded sandbox and kernel
+ * validation of the resulting evidence.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { executeProposal } from '../executor.js';
+import { validateEvidence } from '../proposal.js';
+import type { Proposal, ProposedAction, AcceptanceTest } from '../proposal.js';
+import { SCHEMA_VERSION } from '../../types/artifacts.js';
+import { canonicalHash } from '../../utils/canonical.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function action(order: number, fields: Pick<ProposedAction, 'type' | 'target'> & Partial<ProposedAction>): ProposedAction {
+  return {
+    id: `act_${String(order).padStart(16, '0')}`,
+    required: true,
+    description: `${fields.type} ${fields.target}`,
+    order,
+    ...fields,
+  };
+}
+
+function proposalOf(actions: ProposedAction[], overrides: Partial<Proposal> = {}): Proposal {
+  return {
+    id: 'prop_0000000000000001',
+    schema_version: SCHEMA_VERSION,
+    source_bundle_id: 'bundle_0000000000000001',
+    source_bundle_hash: 'a'.repeat(64),
+    actions,
+    acceptance_tests: [],
+    summary: 'Change existing files',
+    requires_approval: false,
+    confidence: 90,
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('Executor', () => {
+  let seedDir: string;
+
+  before(async () => {
+    seedDir = await mkdtemp(join(tmpdir(), 'executor-seed-'));
+    await mkdir(join(seedDir, 'src'));
+    await writeFile(join(seedDir, 'src', 'app.ts'), 'export const x = 1;\n');
+    await writeFile(join(seedDir, 'src', 'old.ts'), 'export const y = 2;\n');
+    await writeFile(join(seedDir, 'package.json'), JSON.stringify({ name: 'seed', version: '1.0.0', files: ['src'] }));
+  });
+
+  after(async () => {
+    await rm(seedDir, { recursive: true, force: true });
+  });
+
+  it('executes modify, delete, validate and test actions against the seed', async () => {
+    const content = 'export const x = 2;\n';
+    const proposal = proposalOf(
+      [
+        action(0, { type: 'modify_file', target: 'src/app.ts', content, expected_hash: canonicalHash(content) }),
+        action(1, { type: 'delete_file', target: 'src/old.ts' }),
+        action(2, { type: 'validate', target: 'src/app.ts', expected_hash: canonicalHash(content) }),
+        action(3, { type: 'test', target: 'test ! -e src/old.ts' }),
+      ],
+      {
+        acceptance_tests: [
+          { id: 'test_1', name: 'app exists', type: 'file_exists', target: 'src/app.ts', expected: 'true', required: true },
+          { id: 'test_2', name: 'app hash', type: 'hash_match', target: 'src/app.ts', expected: canonicalHash(content), required: true },
+        ],
+      }
+    );
+
+    const evidence = await executeProposal(proposal, { seedDir });
+
+    assert.deepStrictEqual(evidence.action_results.map((r) => r.status), ['success', 'success', 'success', 'success']);
+    assert.ok(evidence.test_results.every((r) => r.passed));
+    assert.strictEqual(evidence.status, 'complete');
+    assert.strictEqual(validateEvidence(proposal, evidence).recommendation, 'accept');
+  });
+
+  it('fails existing-file actions without a seed', async () => {
+    const proposal = proposalOf([
+      action(0, { type: 'modify_file', target: 'src/app.ts', content: 'x\n' }),
+      action(1, { type: 'validate', target: 'src/app.ts' }),
+    ]);
+
+    const evidence = await executeProposal(proposal);
+
+    assert.deepStrictEqual(evidence.action_results.map((r) => r.status), ['failure', 'failure']);
+    assert.strictEqual(validateEvidence(proposal, evidence).recommendation, 'reject');
+  });
+
+  it('rejects a validate action whose file does not match expected_hash', async () => {
+    const proposal = proposalOf([
+      action(0, { type: 'validate', target: 'src/app.ts', expected_hash: canonicalHash('other\n') }),
+    ]);
+
+    const evidence = await executeProposal(proposal, { seedDir });
+    const validation = validateEvidence(proposal, evidence);
+
+    assert.strictEqual(evidence.action_results[0]!.status, 'success');
+    assert.strictEqual(validation.recommendation, 'reject');
+    assert.ok(validation.errors.some((e) => e.startsWith('Hash mismatch')));
+  });
+
+  it('evaluates command, JSON path and file-absent tests', async () => {
+    const tests: AcceptanceTest[] = [
+      { id: 'test_1', name: 'exit', type: 'command_exit', target: 'test -e src/app.ts', expected: '0', required: true },
+      { id: 'test_2', name: 'stdout', type: 'command_output', target: 'echo ok', expected: 'ok\n', required: true },
+      {
+        id: 'test_3',
+        name: 'stderr',
+        type: 'command_output',
+        target: 'echo warning: x >&2',
+        expected: '^warning:',
+        stream: 'stderr',
+        match: 'regex',
+        required: true,
+      },
+      {
+        id: 'test_4',
+        name: 'files',
+        type: 'json_path',
+        target: 'package.json',
+        json_path: '$.files[0]',
+        expected: '"src"',
+        required: true,
+      },
+      { id: 'test_5', name: 'old gone', type: 'file_absent', target: 'src/old.ts', expected: 'true', required: true },
+    ];
+    const proposal = proposalOf([action(0, { type: 'delete_file', target: 'src/old.ts' })], { acceptance_tests: tests });
+
+    const evidence = await executeProposal(proposal, { seedDir });
+
+    assert.deepStrictEqual(evidence.test_results.map((r) => r.passed), [true, true, true, true, true]);
+    assert.strictEqual(evidence.test_results[0]!.exit_code, 0);
+    assert.strictEqual(evidence.test_results[3]!.actual, '"src"');
+    assert.strictEqual(validateEvidence(proposal, evidence).recommendation, 'accept');
+  });
+
+  it('fails a command_exit test on a different exit code', async () => {
+    const proposal = proposalOf([], {
+      acceptance_tests: [
+        { id: 'test_1', name: 'missing', type: 'command_exit', target: 'test -e src/none.ts', expected: '0', required: true },
+      ],
+    });
+
+    const evidence = await executeProposal(proposal, { seedDir });
+
+    assert.deepStrictEqual(evidence.test_results[0], { test_id: 'test_1', passed: false, actual: '1', exit_code: 1 });
+    assert.strictEqual(validateEvidence(proposal, evidence).recommendation, 'reject');
+  });
+
+  it('decides verified test types from the observation, not the passed flag', async () => {
+    const proposal = proposalOf([], {
+      acceptance_tests: [
+        { id: 'test_1', name: 'npm test passes', type: 'command_exit', target: 'npm test', expected: '0', required: true },
+      ],
+    });
+    const evidence = await executeProposal(proposalOf([]), { seedDir });
+
+    const forged = validateEvidence(proposal, {
+      ...evidence,
+      test_results: [{ test_id: 'test_1', passed: true, actual: '1', exit_code: 1 }],
+    });
+    assert.strictEqual(forged.recommendation, 'reject');
+    assert.ok(forged.errors.includes('Required test failed: npm test passes'));
+
+    const inconsistent = validateEvidence(proposal, {
+      ...evidence,
+      test_results: [{ test_id: 'test_1', passed: false, actual: '0', exit_code: 0 }],
+    });
+    assert.ok(inconsistent.errors.includes('Test result inconsistent with observation: npm test passes'));
+  });
+});
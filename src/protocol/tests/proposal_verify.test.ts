@@ -2,7 +2,7 @@
  * Proposal Verify Tests (Internal)
  * =================================
  *
- * Internal tests for proposal verification against PR1-PR12 invariants.
+ * Internal tests for proposal verification against PR1-PR14 invariants.
  * These tests validate the internal Proposal type, not external artifacts.
  */
 
@@ -270,6 +270,19 @@ describe('Proposal Verification (Internal)', () => {
       assert.ok(!result.ok);
       assert.ok(result.violations?.some((v) => v.rule_id === 'PR8'));
     });
+
+    it('command, JSON path and file-absent test types pass', () => {
+      const proposal = createValidProposal({
+        acceptance_tests: [
+          { id: 'test_1', name: 'Tests pass', type: 'command_exit', target: 'npm test', expected: '0', required: true },
+          { id: 'test_2', name: 'Version', type: 'command_output', target: 'node --version', expected: '^v', match: 'regex', required: true },
+          { id: 'test_3', name: 'Script', type: 'json_path', target: 'package.json', json_path: '$.scripts.test', expected: '"node --test"', required: true },
+          { id: 'test_4', name: 'Removed', type: 'file_absent', target: 'src/old.ts', expected: 'true', required: true },
+        ],
+      });
+      const result = verifyProposal(proposal);
+      assert.ok(result.ok);
+    });
   });
 
   describe('PR9: Confidence Range Valid', () => {
@@ -394,6 +407,68 @@ describe('Proposal Verification (Internal)', () => {
     });
   });
 
+  describe('PR13: Command Tests Well-Formed', () => {
+    function commandTest(fields: Partial<AcceptanceTest>): Proposal {
+      return createValidProposal({
+        acceptance_tests: [{ id: 'test_1', name: 'Command', type: 'command_exit', target: 'npm test', expected: '0', required: true, ...fields }],
+      });
+    }
+
+    it('exit code outside 0-255 fails', () => {
+      for (const expected of ['256', '-1', 'ok', '01']) {
+        const result = verifyProposal(commandTest({ expected }));
+        assert.ok(!result.ok);
+        assert.ok(result.violations?.some((v) => v.rule_id === 'PR13'), expected);
+      }
+    });
+
+    it('empty command fails', () => {
+      const result = verifyProposal(commandTest({ target: '  ' }));
+      assert.ok(!result.ok);
+      assert.ok(result.violations?.some((v) => v.rule_id === 'PR13'));
+    });
+
+    it('invalid stream, match or regex fails', () => {
+      for (const fields of [
+        { stream: 'stdin' as any },
+        { match: 'glob' as any },
+        { match: 'regex' as const, expected: '(' },
+      ]) {
+        const result = verifyProposal(commandTest({ type: 'command_output', expected: 'x', ...fields }));
+        assert.ok(!result.ok);
+        assert.ok(result.violations?.some((v) => v.rule_id === 'PR13'), JSON.stringify(fields));
+      }
+    });
+  });
+
+  describe('PR14: JSON Path Tests Well-Formed', () => {
+    function jsonPathTest(fields: Partial<AcceptanceTest>): Proposal {
+      return createValidProposal({
+        acceptance_tests: [
+          { id: 'test_1', name: 'Path', type: 'json_path', target: 'package.json', json_path: '$.name', expected: '"app"', required: true, ...fields },
+        ],
+      });
+    }
+
+    it('well-formed path and JSON expected value pass', () => {
+      assert.ok(verifyProposal(jsonPathTest({ json_path: '$.items[0].name' })).ok);
+    });
+
+    it('missing or malformed path fails', () => {
+      for (const json_path of [undefined, 'name', '$..name', '$[x]']) {
+        const result = verifyProposal(jsonPathTest({ json_path: json_path as string }));
+        assert.ok(!result.ok);
+        assert.ok(result.violations?.some((v) => v.rule_id === 'PR14'), String(json_path));
+      }
+    });
+
+    it('non-JSON expected value fails', () => {
+      const result = verifyProposal(jsonPathTest({ expected: 'app' }));
+      assert.ok(!result.ok);
+      assert.ok(result.violations?.some((v) => v.rule_id === 'PR14'));
+    });
+  });
+
   describe('Fixture: Valid Proposal', () => {
     it('valid fixture passes all checks', async () => {
       const proposal = await loadFixture('proposal_valid_embedded.json');
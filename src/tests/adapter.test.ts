@@ -6,6 +6,10 @@
  * - MockModelAdapter
  * - RecordingModelAdapter
  * - ReplayModelAdapter
+ * - Structured requests and request canonicalization
+ * - Tool loops
+ * - Structured output and repair
+ * - Middleware
  */
 
 import { describe, it } from 'node:test';
@@ -20,11 +24,36 @@ import {
   createEchoAdapter,
   createFixedAdapter,
   createAdapterFromRecording,
+  promptRequest,
+  requestPrompt,
+  canonicalizeRequest,
+  hashRequest,
+  runToolLoop,
+  completeStructured,
+  parseStructured,
+  validateSchema,
+  withMiddleware,
+  cache,
+  rateLimit,
+  budget,
+  metrics,
+  retry,
+  collectStream,
+  isStreamingAdapter,
+  createProductionAdapter,
 } from '../adapters/index.js';
+import { createCostTracker, createMetricsCollector, createRateLimiter } from '../infra/index.js';
+import { ClarifierGenerator } from '../generators/clarifier.js';
+import { fromModelIOSession, toModelIOSession } from '../harness/model_assist.js';
+import { verifyModelIO } from '../consumer/model_io_verify.js';
 import type {
   TransformContext,
   MockResponse,
+  ModelRequest,
   RecordingSession,
+  ResponseFormat,
+  ToolDefinition,
+  AdapterMiddleware,
 } from '../adapters/index.js';
 
 // =============================================================================
@@ -467,3 +496,518 @@ describe('Adapter Determinism', () => {
     assert.equal(result1.content, result2.content);
   });
 });
+
+// =============================================================================
+// Structured Request Tests
+// =============================================================================
+
+describe('Structured Requests', () => {
+  const request: ModelRequest = {
+    system: 'You are terse.',
+    messages: [
+      { role: 'user', content: 'hello' },
+      { role: 'assistant', content: [{ type: 'text', text: 'hi' }] },
+      { role: 'user', content: [{ type: 'image', media_type: 'image/png', data: 'iVBORw0KGgo=' }] },
+    ],
+    response_format: { type: 'json_schema', name: 'reply', schema: { type: 'object' } },
+  };
+
+  it('should hash a single-prompt request like the bare prompt', () => {
+    assert.equal(hashRequest(promptRequest('hello')), hashString('hello'));
+    assert.equal(
+      hashRequest({ messages: [{ role: 'user', content: [{ type: 'text', text: 'hello' }] }] }),
+      hashString('hello')
+    );
+    assert.equal(requestPrompt({ system: 's', messages: [{ role: 'user', content: 'hello' }] }), undefined);
+  });
+
+  it('should canonicalize string content as a text block', () => {
+    const blocks: ModelRequest = {
+      ...request,
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'hello' }] },
+        { role: 'assistant', content: 'hi' },
+        request.messages[2]!,
+      ],
+    };
+
+    assert.equal(canonicalizeRequest(blocks), canonicalizeRequest(request));
+    assert.equal(hashRequest(blocks), hashString(canonicalizeRequest(request)));
+  });
+
+  it('should distinguish requests by system prompt and response format', () => {
+    const { system: _system, ...noSystem } = request;
+    const { response_format: _format, ...noFormat } = request;
+
+    assert.notEqual(hashRequest(noSystem), hashRequest(request));
+    assert.notEqual(hashRequest(noFormat), hashRequest(request));
+  });
+
+  it('should answer transform and complete alike', async () => {
+    const adapter = createEchoAdapter();
+
+    const viaTransform = await adapter.transform('same prompt', createTestContext());
+    const viaComplete = await adapter.complete(promptRequest('same prompt'), createTestContext());
+
+    assert.deepEqual(viaComplete, viaTransform);
+  });
+
+  it('should match mock responses by request hash', async () => {
+    const adapter = new MockModelAdapter();
+    adapter.addResponse(hashRequest(request), { content: '{"ok":true}' });
+
+    const result = await adapter.complete(request, createTestContext());
+
+    assert.equal(result.content, '{"ok":true}');
+  });
+
+  it('should reject requests without messages', async () => {
+    const adapter = createEchoAdapter();
+
+    await assert.rejects(
+      adapter.complete({ messages: [] }, createTestContext()),
+      (error: unknown) => error instanceof AdapterError && error.code === 'INVALID_REQUEST'
+    );
+  });
+
+  it('should reject tools on an adapter without tool use', async () => {
+    const adapter = createEchoAdapter();
+    const withTools: ModelRequest = {
+      messages: [{ role: 'user', content: 'read a file' }],
+      tools: [{ name: 'read_file', description: 'Read a file', input_schema: { type: 'object' } }],
+    };
+
+    await assert.rejects(
+      adapter.complete(withTools, createTestContext()),
+      (error: unknown) => error instanceof AdapterError && error.code === 'INVALID_REQUEST'
+    );
+  });
+
+  it('should record and replay structured requests', async () => {
+    const delegate = createFixedAdapter('recorded');
+    const recorder = new RecordingModelAdapter(delegate);
+
+    await recorder.complete(request, createTestContext());
+    const session = recorder.exportSession();
+
+    assert.equal(session.interactions[0]?.prompt_hash, hashRequest(request));
+    assert.equal(session.interactions[0]?.prompt, canonicalizeRequest(request));
+
+    const replay = new ReplayModelAdapter(session, { sequential: true });
+    const result = await replay.complete(request, createTestContext());
+
+    assert.equal(result.content, 'recorded');
+  });
+
+  it('should replay transform recordings through complete', async () => {
+    const recorder = new RecordingModelAdapter(createFixedAdapter('answer'));
+    await recorder.transform('question', createTestContext());
+
+    const replay = new ReplayModelAdapter(recorder.exportSession());
+    const result = await replay.complete(promptRequest('question'), createTestContext());
+
+    assert.equal(result.content, 'answer');
+  });
+});
+
+// =============================================================================
+// Tool Loop Tests
+// =============================================================================
+
+describe('Tool Loop', () => {
+  const tools: ToolDefinition[] = [
+    { name: 'read_file', description: 'Read a file', input_schema: { type: 'object' } },
+  ];
+  const request = promptRequest('What does README.md say?');
+
+  function createToolAdapter(call: MockResponse = {
+    content: '',
+    tool_calls: [{ id: 'call_1', name: 'read_file', input: { path: 'README.md' } }],
+  }): MockModelAdapter {
+    const adapter = new MockModelAdapter(new Map(), { capabilities: { supports_tool_use: true } });
+    adapter.addSubstringMatch('"tool_result"', { content: 'It says hello.' });
+    adapter.addSubstringMatch('"read_file"', call);
+    return adapter;
+  }
+
+  it('should answer tool calls until the model responds', async () => {
+    const reads: unknown[] = [];
+    const loop = await runToolLoop(createToolAdapter(), request, tools, {
+      read_file: (input) => {
+        reads.push(input['path']);
+        return 'hello';
+      },
+    }, createTestContext());
+
+    assert.equal(loop.result.content, 'It says hello.');
+    assert.equal(loop.steps, 2);
+    assert.deepEqual(reads, ['README.md']);
+    assert.deepEqual(loop.messages.slice(1), [
+      {
+        role: 'assistant',
+        content: [{ type: 'tool_use', id: 'call_1', name: 'read_file', input: { path: 'README.md' } }],
+      },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'hello' }] },
+    ]);
+  });
+
+  it('should report unknown tools and handler failures as error results', async () => {
+    const adapter = createToolAdapter({
+      content: '',
+      tool_calls: [
+        { id: 'call_1', name: 'read_file', input: { path: 'missing.md' } },
+        { id: 'call_2', name: 'delete_file', input: {} },
+      ],
+    });
+
+    const loop = await runToolLoop(adapter, request, tools, {
+      read_file: () => {
+        throw new Error('ENOENT: missing.md');
+      },
+    }, createTestContext());
+
+    assert.deepEqual(loop.messages[2], {
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'call_1', content: 'ENOENT: missing.md', is_error: true },
+        { type: 'tool_result', tool_use_id: 'call_2', content: 'Unknown tool: delete_file', is_error: true },
+      ],
+    });
+  });
+
+  it('should replay a recorded tool loop step by step', async () => {
+    const handlers = { read_file: () => 'hello' };
+    const recorder = new RecordingModelAdapter(createToolAdapter());
+    const recorded = await runToolLoop(recorder, request, tools, handlers, createTestContext());
+
+    const session = recorder.exportSession();
+    assert.equal(session.interactions.length, 2);
+
+    const replay = new ReplayModelAdapter(session, { sequential: true });
+    const replayed = await runToolLoop(replay, request, tools, handlers, createTestContext());
+
+    assert.equal(replayed.result.content, recorded.result.content);
+    assert.deepEqual(replayed.messages, recorded.messages);
+  });
+
+  it('should replay a recorded tool loop through model_io.json', async () => {
+    const handlers = { read_file: () => 'hello' };
+    const recorder = new RecordingModelAdapter(createToolAdapter());
+    const recorded = await runToolLoop(recorder, request, tools, handlers, createTestContext());
+
+    const modelIO = JSON.parse(JSON.stringify(toModelIOSession(recorder.exportSession(), 'mock_tools')));
+    assert.ok(verifyModelIO(modelIO).ok);
+    assert.deepEqual(modelIO.interactions[0].tool_calls, [
+      { id: 'call_1', name: 'read_file', input: { path: 'README.md' } },
+    ]);
+
+    const replay = new ReplayModelAdapter(fromModelIOSession(modelIO), { sequential: true });
+    const replayed = await runToolLoop(replay, request, tools, handlers, createTestContext());
+
+    assert.equal(replayed.steps, recorded.steps);
+    assert.equal(replayed.result.content, recorded.result.content);
+    assert.deepEqual(replayed.messages, recorded.messages);
+  });
+
+  it('should fail when the model keeps calling tools', async () => {
+    const adapter = new MockModelAdapter(new Map(), { capabilities: { supports_tool_use: true } });
+    adapter.addSubstringMatch('"read_file"', {
+      content: '',
+      tool_calls: [{ id: 'call_1', name: 'read_file', input: { path: 'README.md' } }],
+    });
+
+    await assert.rejects(
+      runToolLoop(adapter, request, tools, { read_file: () => 'hello' }, createTestContext(), 3),
+      (error: unknown) => error instanceof AdapterError && error.code === 'TOOL_LOOP_LIMIT'
+    );
+  });
+});
+
+// =============================================================================
+// Structured Output Tests
+// =============================================================================
+
+describe('Structured Output', () => {
+  const format: ResponseFormat = {
+    type: 'json_schema',
+    name: 'colors',
+    schema: {
+      type: 'object',
+      properties: {
+        colors: { type: 'array', items: { type: 'string', enum: ['red', 'green', 'blue'] }, minItems: 1 },
+      },
+      required: ['colors'],
+      additionalProperties: false,
+    },
+  };
+  const request: ModelRequest = {
+    messages: [{ role: 'user', content: 'List some colors.' }],
+    response_format: format,
+  };
+
+  function createRepairAdapter(first: string): MockModelAdapter {
+    const adapter = createFixedAdapter(first);
+    adapter.addSubstringMatch('does not match the required JSON Schema', {
+      content: '{"colors":["red"]}',
+      tokens_output: 10,
+    });
+    return adapter;
+  }
+
+  it('should report typed violations with JSON Pointer paths', () => {
+    assert.deepEqual(validateSchema(format.schema, { colors: ['red', 'pink', 3], extra: true }), [
+      { path: '/colors/1', keyword: 'enum', message: 'must be one of "red", "green", "blue"' },
+      { path: '/colors/2', keyword: 'type', message: 'must be string' },
+      { path: '/extra', keyword: 'additionalProperties', message: 'is not allowed' },
+    ]);
+    assert.deepEqual(validateSchema(format.schema, { colors: [] }), [
+      { path: '/colors', keyword: 'minItems', message: 'must have at least 1 items' },
+    ]);
+    assert.deepEqual(validateSchema(format.schema, {}), [
+      { path: '/colors', keyword: 'required', message: 'is required' },
+    ]);
+  });
+
+  it('should parse fenced JSON and reject non-JSON responses', () => {
+    assert.deepEqual(parseStructured('```json\n{"colors":["blue"]}\n```', format), {
+      value: { colors: ['blue'] },
+      violations: [],
+    });
+
+    const { value, violations } = parseStructured('Sure! Here are some colors.', format);
+    assert.equal(value, undefined);
+    assert.equal(violations[0]?.keyword, 'json');
+  });
+
+  it('should re-prompt with the violations until the response is valid', async () => {
+    const adapter = createRepairAdapter('{"colors":["pink"]}');
+
+    const structured = await completeStructured(adapter, request, createTestContext());
+
+    assert.deepEqual(structured.value, { colors: ['red'] });
+    assert.deepEqual(structured.violations, []);
+    assert.equal(structured.attempts, 2);
+    assert.equal(structured.result.tokens_output, Math.ceil('{"colors":["pink"]}'.length / 4) + 10);
+  });
+
+  it('should accept valid JSON inside prose without a repair', async () => {
+    const adapter = createRepairAdapter('Here you go:\n```json\n{"colors":["green"]}\n```\nAnything else?');
+
+    const structured = await completeStructured(adapter, request, createTestContext());
+
+    assert.deepEqual(structured.value, { colors: ['green'] });
+    assert.equal(structured.attempts, 1);
+    assert.deepEqual(parseStructured('The colors are {"colors":["red","blue"]}.', format).value, {
+      colors: ['red', 'blue'],
+    });
+  });
+
+  it('should stop after the repair limit', async () => {
+    const adapter = createFixedAdapter('not json');
+
+    const structured = await completeStructured(adapter, request, createTestContext(), { max_repairs: 1 });
+
+    assert.equal(structured.attempts, 2);
+    assert.equal(structured.value, undefined);
+    assert.equal(structured.violations[0]?.keyword, 'json');
+  });
+
+  it('should record repairs so they replay', async () => {
+    const recorder = new RecordingModelAdapter(createRepairAdapter('{"colors":[]}'));
+    const recorded = await completeStructured(recorder, request, createTestContext());
+
+    const session = recorder.exportSession();
+    assert.equal(session.interactions.length, 2);
+
+    const replay = new ReplayModelAdapter(session, { sequential: true });
+    const replayed = await completeStructured(replay, request, createTestContext());
+
+    assert.deepEqual(replayed.value, recorded.value);
+    assert.equal(replayed.attempts, recorded.attempts);
+  });
+
+  it('should report schema errors from a generator with a declared schema', async () => {
+    const generatorContext = {
+      run_id: 'run_001',
+      intent_id: 'test_intent_001',
+      mode: 'clarify' as const,
+      constraints: [],
+      working_dir: '.',
+      metadata: {},
+    };
+    const invalid = '{"needs_clarification":false,"reason":"clear","questions":[{"question":"Why?"}]}';
+
+    const output = await new ClarifierGenerator().generate(
+      { goal: 'Add a greeting' },
+      createFixedAdapter(invalid),
+      generatorContext
+    );
+
+    assert.equal(output.parsed, false);
+    assert.deepEqual(output.schema_errors?.map((v) => [v.path, v.keyword]), [
+      ['/questions/0/category', 'required'],
+      ['/questions/0/options', 'required'],
+      ['/questions/0/required', 'required'],
+      ['/questions/0/priority', 'required'],
+    ]);
+
+    const valid = await new ClarifierGenerator().generate(
+      { goal: 'Add a greeting' },
+      createFixedAdapter('{"needs_clarification":false,"reason":"clear","questions":[]}'),
+      generatorContext
+    );
+
+    assert.equal(valid.parsed, true);
+    assert.equal(valid.schema_errors, undefined);
+  });
+});
+
+// =============================================================================
+// Middleware Tests
+// =============================================================================
+
+describe('Middleware', () => {
+  function trace(name: string, calls: string[]): AdapterMiddleware {
+    return {
+      name,
+      wrap: (next) => async (request, context) => {
+        calls.push(`${name}:before`);
+        const result = await next(request, context);
+        calls.push(`${name}:after`);
+        return result;
+      },
+    };
+  }
+
+  it('should run middleware outermost first', async () => {
+    const calls: string[] = [];
+    const adapter = withMiddleware(createEchoAdapter(), [trace('a', calls), trace('b', calls)]);
+
+    await adapter.transform('hello', createTestContext());
+
+    assert.deepEqual(calls, ['a:before', 'b:before', 'b:after', 'a:after']);
+  });
+
+  it('should serve repeated requests from the cache', async () => {
+    const inner = createEchoAdapter({ record: true });
+    const adapter = withMiddleware(inner, [cache()]);
+
+    await adapter.transform('hello', createTestContext());
+    const cached = await adapter.complete(promptRequest('hello'), createTestContext());
+
+    assert.equal(cached.content, 'hello');
+    assert.equal(cached.from_cache, true);
+    assert.equal(inner.getRecordedInteractions().length, 1);
+  });
+
+  it('should fail with RATE_LIMITED when the limiter refuses a call', async () => {
+    const limiter = createRateLimiter({ maxRequests: 1, enableQueue: false });
+    const adapter = withMiddleware(createEchoAdapter(), [rateLimit({ limiter })]);
+
+    await adapter.transform('first', createTestContext());
+
+    await assert.rejects(
+      adapter.transform('second', createTestContext()),
+      (error: unknown) => error instanceof AdapterError && error.code === 'RATE_LIMITED' && error.retryable
+    );
+  });
+
+  it('should fail with BUDGET_EXCEEDED once the budget is spent', async () => {
+    const inner = new MockModelAdapter(new Map(), { default_behavior: { type: 'echo' } });
+    inner.addSubstringMatch('expensive', { content: 'done', tokens_output: 100_000 });
+    const tracker = createCostTracker({ max_spend: 0.5, period_ms: 60_000, on_exceed: 'block' });
+    const adapter = withMiddleware(inner, [budget({ tracker })]);
+
+    const result = await adapter.transform('expensive', createTestContext());
+    assert.equal(result.content, 'done', 'The call that exhausts the budget still returns');
+
+    await assert.rejects(
+      adapter.transform('cheap', createTestContext()),
+      (error: unknown) => error instanceof AdapterError && error.code === 'BUDGET_EXCEEDED' && !error.retryable
+    );
+  });
+
+  it('should count the output allowance against the budget', async () => {
+    const inner = new MockModelAdapter(new Map(), { default_behavior: { type: 'fixed', content: 'done' } });
+    const tracker = createCostTracker({ max_spend: 0.01, period_ms: 60_000, on_exceed: 'block' });
+    const adapter = withMiddleware(inner, [budget({ tracker })]);
+
+    await assert.rejects(
+      adapter.complete({ messages: [{ role: 'user', content: 'long' }], max_tokens: 4096 }, createTestContext()),
+      (error: unknown) => error instanceof AdapterError && error.code === 'BUDGET_EXCEEDED'
+    );
+
+    const result = await adapter.complete(
+      { messages: [{ role: 'user', content: 'short' }], max_tokens: 100 },
+      createTestContext()
+    );
+    assert.equal(result.content, 'done');
+  });
+
+  it('should retry retryable errors', async () => {
+    let failures = 1;
+    const flaky: AdapterMiddleware = {
+      name: 'flaky',
+      wrap: (next) => async (request, context) => {
+        if (failures-- > 0) {
+          throw new AdapterError('NETWORK_ERROR', 'connection reset', true);
+        }
+        return next(request, context);
+      },
+    };
+    const adapter = withMiddleware(createEchoAdapter(), [
+      retry({ retry: { initialDelay: 1, jitter: 0 } }),
+      flaky,
+    ]);
+
+    const result = await adapter.transform('hello', createTestContext());
+
+    assert.equal(result.content, 'hello');
+  });
+
+  it('should record metrics only for calls that reach them', async () => {
+    const collector = createMetricsCollector('test');
+    const adapter = withMiddleware(createEchoAdapter(), [cache(), metrics({ collector })]);
+
+    await adapter.transform('hello', createTestContext());
+    await adapter.transform('hello', createTestContext());
+    await adapter.transform('world', createTestContext());
+
+    const labels = { model: 'mock' };
+    assert.equal(collector.getCounter('model_requests', labels), 2);
+    assert.equal(collector.getCounter('model_tokens_output', labels), 4);
+  });
+
+  it('should count cache hits that never reach metrics', async () => {
+    const collector = createMetricsCollector('test');
+    const adapter = withMiddleware(createEchoAdapter(), [cache({ collector }), metrics({ collector })]);
+
+    await adapter.transform('hello', createTestContext());
+    await adapter.transform('hello', createTestContext());
+    await adapter.transform('hello', createTestContext());
+
+    const labels = { model: 'mock' };
+    assert.equal(collector.getCounter('model_cache_hits', labels), 2);
+    assert.equal(collector.getCounter('model_requests', labels), 1);
+  });
+
+  it('should stream through the pipeline', async () => {
+    const calls: string[] = [];
+    const adapter = withMiddleware(createEchoAdapter(), [trace('a', calls)]);
+
+    const result = await collectStream(adapter.transformStream('hello', createTestContext()));
+
+    assert.equal(result.content, 'hello');
+    assert.deepEqual(calls, ['a:before', 'a:after']);
+  });
+
+  it('should build the production adapter on middleware', async () => {
+    const calls: string[] = [];
+    const adapter = createProductionAdapter({ provider: 'mock' }, [trace('a', calls)]);
+
+    await adapter.transform('hello', createTestContext());
+
+    assert.ok(isStreamingAdapter(adapter));
+    assert.deepEqual(calls, ['a:before', 'a:after']);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Contradiction Detection Tests
+ * =============================
+ *
+ * Tests for rule-based contradiction detection with per-constraint
+ * provenance (BUNDLE_SPEC.md section 5.6).
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+
+import {
+  transform,
+  measureEntropy,
+  createEntropyAnalyzer,
+  normalizeConstraints,
+  type Contradiction,
+} from '../index.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function contradictionsOf(constraints: string[]): Contradiction[] {
+  return measureEntropy('Build a service', constraints).contradictions ?? [];
+}
+
+function rulesOf(constraints: string[]): string[] {
+  return contradictionsOf(constraints).map((c) => c.rule_id);
+}
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+describe('Contradiction Rules', () => {
+  it('detects negation', () => {
+    assert.deepStrictEqual(rulesOf(['Must cache responses', 'Must not cache responses']), ['negation']);
+  });
+
+  it('detects disjoint numeric ranges across units', () => {
+    const found = contradictionsOf(['Latency must be < 100ms', 'Latency must be > 1s']);
+
+    assert.strictEqual(found.length, 1);
+    assert.strictEqual(found[0]!.rule_id, 'numeric_range');
+    assert.match(found[0]!.explanation, /time/);
+  });
+
+  it('accepts overlapping numeric ranges', () => {
+    assert.deepStrictEqual(rulesOf(['Latency must be under 2s', 'Latency must be at least 500ms']), []);
+  });
+
+  it('ignores bounds on different quantities', () => {
+    assert.deepStrictEqual(rulesOf(['Response time < 100ms', 'Batch window > 1s']), []);
+  });
+
+  it('detects exclusive terms on the same subject', () => {
+    assert.deepStrictEqual(
+      rulesOf(['Endpoint must be public', 'Endpoint must be private']),
+      ['enum_exclusive']
+    );
+  });
+
+  it('does not flag exclusive terms on different subjects', () => {
+    assert.deepStrictEqual(rulesOf(['Must be public API', 'Private key storage']), []);
+  });
+
+  it('does not flag a negated exclusive term', () => {
+    assert.deepStrictEqual(rulesOf(['Handler is stateless', 'Handler is not stateful']), []);
+  });
+
+  it('detects domain pack pattern pairs', () => {
+    const constraints = ['Process in batch every night', 'Results must be real-time'];
+    const found = measureEntropy('Build a pipeline', constraints, createEntropyAnalyzer(['data-pipeline']));
+
+    assert.deepStrictEqual(found.contradictions?.map((c) => c.rule_id), ['pattern_pair']);
+  });
+});
+
+// =============================================================================
+// Provenance
+// =============================================================================
+
+describe('Contradiction Provenance', () => {
+  it('names both constraints by index', () => {
+    const constraints = normalizeConstraints([
+      'Use PostgreSQL',
+      'Must not log requests',
+      'Cache must be shared',
+      'Must log requests',
+    ]);
+    const found = contradictionsOf(constraints);
+
+    assert.strictEqual(found.length, 1);
+    const { a_index, b_index } = found[0]!;
+    assert.ok(a_index < b_index);
+    assert.deepStrictEqual(
+      [constraints[a_index], constraints[b_index]].sort(),
+      ['Must log requests', 'Must not log requests']
+    );
+  });
+
+  it('keeps contradiction_count equal to the list length', () => {
+    const constraints = ['Must be fast', 'Must never be fast', 'Field is required', 'Field is optional'];
+    const entropy = measureEntropy('Build something', constraints);
+
+    assert.strictEqual(entropy.contradiction_count, entropy.contradictions?.length);
+  });
+
+  it('omits the list when there are no contradictions', () => {
+    const entropy = measureEntropy('Build something', ['Use TypeScript', 'Deploy to AWS']);
+
+    assert.strictEqual(entropy.contradiction_count, 0);
+    assert.ok(!('contradictions' in entropy));
+  });
+
+  it('reports contradictions in the constraint summary output', () => {
+    const bundle = transform({
+      goal: 'Create a function that adds two numbers',
+      constraints: [
+        'Must use TypeScript',
+        'Must return a number',
+        'Must cache results',
+        'Must not cache results',
+        'Must be exported as add',
+        'Input must be two number parameters',
+      ],
+    });
+
+    assert.strictEqual(bundle.outputs.length, 1);
+    const content = bundle.outputs[0]!.content;
+    assert.ok(content.includes('## Contradictions'));
+    assert.ok(content.includes('- [negation] "Must cache results" vs "Must not cache results"'));
+  });
+});
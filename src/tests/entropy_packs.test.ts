@@ -0,0 +1,111 @@
+/**
+ * Entropy Domain Pack Tests
+ * =========================
+ *
+ * Tests for pluggable entropy analyzers and the domain pack registry
+ * (BUNDLE_SPEC.md section 5.5).
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+
+import {
+  transform,
+  getBundleHash,
+  measureEntropy,
+  createEntropyAnalyzer,
+  registerEntropyPack,
+  getEntropyPack,
+  listEntropyPacks,
+  BASE_ENTROPY_ANALYZER,
+  DEFAULT_DECOMPOSITION_CONFIG,
+} from '../index.js';
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+describe('Entropy Pack Registry', () => {
+  it('includes the built-in packs', () => {
+    const ids = listEntropyPacks();
+    for (const id of ['data-pipeline', 'embedded', 'web-api']) {
+      assert.ok(ids.includes(id), `Expected built-in pack: ${id}`);
+    }
+  });
+
+  it('rejects duplicate registration', () => {
+    assert.throws(
+      () => registerEntropyPack({ id: 'web-api', version: '9.9.9', description: 'dup', tables: {} }),
+      /already registered/
+    );
+  });
+
+  it('rejects unknown pack ids', () => {
+    assert.throws(() => createEntropyAnalyzer(['no-such-pack']), /Unknown entropy pack/);
+  });
+
+  it('returns the base analyzer when no packs are selected', () => {
+    assert.strictEqual(createEntropyAnalyzer([]), BASE_ENTROPY_ANALYZER);
+  });
+
+  it('ignores pack order', () => {
+    const a = createEntropyAnalyzer(['web-api', 'embedded']);
+    const b = createEntropyAnalyzer(['embedded', 'web-api', 'embedded']);
+    assert.deepStrictEqual(a.packs, b.packs);
+    assert.deepStrictEqual(a.packs.map((p) => p.id), ['embedded', 'web-api']);
+  });
+});
+
+// =============================================================================
+// Measurement
+// =============================================================================
+
+describe('Entropy Pack Measurement', () => {
+  it('lets a pack satisfy an existing category', () => {
+    registerEntropyPack({
+      id: 'test-inhouse',
+      version: '1.0.0',
+      description: 'In-house stack',
+      tables: { required_elements: { technology: [/\bacmestack\b/i] } },
+    });
+    assert.ok(getEntropyPack('test-inhouse'));
+
+    const goal = 'Build billing on acmestack';
+    const base = measureEntropy(goal, []);
+    const packed = measureEntropy(goal, [], createEntropyAnalyzer(['test-inhouse']));
+
+    assert.strictEqual(packed.schema_gaps, base.schema_gaps - 1);
+  });
+
+  it('adds domain categories and contradiction pairs', () => {
+    const constraints = ['Process in batch every night', 'Results must be real-time'];
+    const base = measureEntropy('Build a pipeline', constraints);
+    const packed = measureEntropy('Build a pipeline', constraints, createEntropyAnalyzer(['data-pipeline']));
+
+    assert.ok(packed.contradiction_count > base.contradiction_count);
+  });
+});
+
+// =============================================================================
+// Bundles
+// =============================================================================
+
+describe('Entropy Pack Bundles', () => {
+  const intent = { goal: 'Build a REST API server', constraints: ['Must use Node.js'] };
+
+  it('records selected packs in the bundle', () => {
+    const bundle = transform(intent, { ...DEFAULT_DECOMPOSITION_CONFIG, entropy_packs: ['web-api'] });
+
+    assert.deepStrictEqual(bundle.entropy_packs, [{ id: 'web-api', version: '1.0.0' }]);
+  });
+
+  it('omits entropy_packs without packs', () => {
+    const bundle = transform(intent);
+    assert.ok(!('entropy_packs' in bundle));
+  });
+
+  it('is deterministic with packs', () => {
+    const config = { ...DEFAULT_DECOMPOSITION_CONFIG, entropy_packs: ['web-api'] };
+    assert.strictEqual(getBundleHash(transform(intent, config)), getBundleHash(transform(intent, config)));
+  });
+});
@@ -70,6 +70,12 @@ const GOLDEN_HASHES: Record<string, Record<string, string>> = {
     'intent_002': '8e34b3624a73b89a6f3c6bb16457afbbb6223ea3a61c8f0534d8f45f8940db0f',
     'intent_003': 'db8e245374daa508e1e2712eef34a26937d8fa978d58ce83c8ddcfe8c120c100',
   },
+  // v0.3.0 with per-pair contradictions and simulated information gain
+  '0.3.0': {
+    'intent_001': '0cb4d6c09e70e5623e4cf21db15595680a41bf546812962b3bdc3b487f189470',
+    'intent_002': '5950963744ed3bbd3654463036d8f3d60584e93dff3ad6b29c2d13bab90507e5',
+    'intent_003': '283c75cf8426c09e1dd3f4f5d3610b57e5f021ed3f41aecbbdf658269add44c8',
+  },
 };
 
 // =============================================================================
@@ -0,0 +1,115 @@
+/**
+ * Incremental Transform Tests
+ * ===========================
+ *
+ * Tests for incrementalTransform: reusing node analyses from a previous
+ * bundle must produce the same bytes as a cold transform
+ * (BUNDLE_SPEC.md section 6.5).
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+
+import {
+  transform,
+  incrementalTransform,
+  seedDecompositionCache,
+  decompose,
+  getBundleCanonical,
+  normalizeConstraints,
+  DEFAULT_DECOMPOSITION_CONFIG,
+  type Bundle,
+} from '../index.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const INTENT = {
+  goal: 'Build a REST API server',
+  constraints: [
+    'Must use Node.js',
+    'Database: PostgreSQL',
+    'Authentication: API keys',
+    'Rate limiting: 100 requests per minute',
+    'Must return JSON responses',
+  ],
+};
+
+function assertSameAsCold(bundle: Bundle, intent: { goal: string; constraints: string[] }): void {
+  assert.strictEqual(getBundleCanonical(bundle), getBundleCanonical(transform(intent)));
+}
+
+// =============================================================================
+// Equivalence
+// =============================================================================
+
+describe('Incremental Transform', () => {
+  it('reuses every node for an unchanged intent', () => {
+    const previous = transform(INTENT);
+    const result = incrementalTransform(previous, INTENT);
+
+    assertSameAsCold(result.bundle, INTENT);
+    assert.deepStrictEqual(result.recomputed_node_ids, []);
+    assert.strictEqual(result.reused_node_ids.length, previous.stats.total_nodes);
+  });
+
+  it('matches a cold transform after a constraint changes', () => {
+    const previous = transform(INTENT);
+    const changed = { ...INTENT, constraints: [...INTENT.constraints.slice(0, 4), 'Must return XML responses'] };
+
+    const result = incrementalTransform(previous, changed);
+
+    assertSameAsCold(result.bundle, changed);
+    assert.ok(result.recomputed_node_ids.includes(result.bundle.root_node.id));
+  });
+
+  it('reuses a subtree that moved to the root', () => {
+    const previous = transform(INTENT);
+    const child = previous.terminal_nodes[0]!;
+    const moved = { goal: child.goal, constraints: child.constraints };
+
+    const result = incrementalTransform(previous, moved);
+
+    assertSameAsCold(result.bundle, moved);
+    assert.ok(result.reused_node_ids.includes(result.bundle.root_node.id));
+    assert.notStrictEqual(result.bundle.root_node.id, child.id);
+  });
+
+  it('reports each node exactly once', () => {
+    const previous = transform(INTENT);
+    const changed = { ...INTENT, constraints: [...INTENT.constraints, 'Must log requests'] };
+
+    const result = incrementalTransform(previous, changed);
+    const all = [...result.recomputed_node_ids, ...result.reused_node_ids];
+
+    assert.strictEqual(new Set(all).size, all.length);
+    assert.strictEqual(all.length, result.bundle.stats.total_nodes);
+  });
+});
+
+// =============================================================================
+// Cache Scope
+// =============================================================================
+
+describe('Incremental Transform Cache Scope', () => {
+  it('does not reuse analyses across entropy packs', () => {
+    const previous = transform(INTENT);
+    const config = { ...DEFAULT_DECOMPOSITION_CONFIG, entropy_packs: ['web-api'] };
+
+    const result = incrementalTransform(previous, INTENT, config);
+
+    assert.strictEqual(getBundleCanonical(result.bundle), getBundleCanonical(transform(INTENT, config)));
+    assert.deepStrictEqual(result.reused_node_ids, []);
+  });
+
+  it('does not seed from another kernel version', () => {
+    const previous = { ...transform(INTENT), kernel_version: '0.0.1' };
+    assert.strictEqual(seedDecompositionCache(previous).size, 0);
+  });
+
+  it('recomputes every node in a cold decomposition', () => {
+    const result = decompose(INTENT.goal, normalizeConstraints(INTENT.constraints));
+    assert.deepStrictEqual(result.recomputed_node_ids, [...result.nodes.keys()].sort());
+  });
+});
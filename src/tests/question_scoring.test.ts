@@ -0,0 +1,136 @@
+/**
+ * Question Scoring Tests
+ * ======================
+ *
+ * Tests for simulated information-gain scoring of generated questions
+ * (BUNDLE_SPEC.md section 5.8).
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+
+import {
+  transform,
+  generateQuestions,
+  measureEntropy,
+  normalizeConstraints,
+  validateQuestion,
+  type Question,
+} from '../index.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const GOAL = 'Build a REST API server';
+const CONSTRAINTS = normalizeConstraints([
+  'Must use Node.js',
+  'Database: PostgreSQL',
+  'Authentication: API keys',
+  'Rate limiting: 100 requests per minute',
+  'Must return JSON responses',
+]);
+
+function questions(): Question[] {
+  return generateQuestions(GOAL, CONSTRAINTS, measureEntropy(GOAL, CONSTRAINTS));
+}
+
+function byText(list: Question[], text: string): Question {
+  const question = list.find((q) => q.text === text);
+  assert.ok(question, `Expected question: ${text}`);
+  return question;
+}
+
+// =============================================================================
+// Scoring Breakdown
+// =============================================================================
+
+describe('Question Scoring', () => {
+  it('records a breakdown for every question', () => {
+    const current = measureEntropy(GOAL, CONSTRAINTS).entropy_score;
+
+    for (const q of questions()) {
+      assert.ok(q.scoring);
+      assert.strictEqual(q.scoring.current_entropy, current);
+      assert.strictEqual(q.scoring.entropy_reduction, current - q.scoring.expected_entropy);
+      assert.ok(validateQuestion(q).valid);
+    }
+  });
+
+  it('simulates one branch per option', () => {
+    const storage = byText(questions(), 'What type of data storage is needed?');
+    const ids = storage.scoring!.branch_entropies.map((b) => b.branch_id);
+
+    assert.strictEqual(ids.length, storage.options!.length);
+    assert.deepStrictEqual(ids, [...ids].sort());
+  });
+
+  it('averages branch entropies', () => {
+    for (const q of questions()) {
+      const entropies = q.scoring!.branch_entropies.map((b) => b.entropy_score);
+      const mean = entropies.reduce((a, b) => a + b, 0) / entropies.length;
+      assert.strictEqual(q.scoring!.expected_entropy, Math.round(mean));
+    }
+  });
+
+  it('gives different questions different gains', () => {
+    const list = questions();
+    const storage = byText(list, 'What type of data storage is needed?');
+    const apiStyle = byText(list, 'What API style should be used?');
+
+    assert.ok(storage.information_gain > apiStyle.information_gain);
+    assert.strictEqual(apiStyle.information_gain, 0);
+  });
+
+  it('orders questions by gain', () => {
+    const list = questions();
+
+    assert.strictEqual(list[0]!.text, 'What type of data storage is needed?');
+    for (const q of list) {
+      assert.strictEqual(q.priority, q.information_gain);
+    }
+  });
+});
+
+// =============================================================================
+// Decomposition
+// =============================================================================
+
+describe('Question Scoring in Decomposition', () => {
+  it('splits on the most valuable question', () => {
+    const bundle = transform({ goal: GOAL, constraints: CONSTRAINTS });
+
+    assert.strictEqual(bundle.root_node.splitting_question?.question.text, 'What type of data storage is needed?');
+    assert.ok(bundle.root_node.splitting_question.question.scoring);
+  });
+
+  it('does not ask the splitting question again below it', () => {
+    const bundle = transform({ goal: GOAL, constraints: CONSTRAINTS });
+
+    assert.strictEqual(bundle.terminal_nodes.length, bundle.root_node.children.length);
+    assert.ok(bundle.terminal_nodes.every((n) => n.splitting_question === undefined));
+    assert.ok(!bundle.unresolved_questions.some((q) => q.text === 'What type of data storage is needed?'));
+  });
+
+  it('splits on a question that removes a tenth of the entropy', () => {
+    const bundle = transform({
+      goal: 'Define a TypeScript data model for the intent validation pipeline',
+      constraints: ['Must define ValidationRule type for custom validators'],
+    });
+    const question = bundle.root_node.splitting_question?.question;
+
+    assert.strictEqual(question?.text, 'What type of data storage is needed?');
+    assert.ok(question.information_gain >= 10 && question.information_gain < 20);
+  });
+
+  it('does not split on questions that remove no entropy', () => {
+    const bundle = transform({
+      goal: 'Create a user authentication system',
+      constraints: ['Must use JWT', 'Session timeout 24h'],
+    });
+
+    assert.strictEqual(bundle.root_node.splitting_question, undefined);
+    assert.ok(bundle.unresolved_questions.length > 0);
+    assert.ok(bundle.unresolved_questions.every((q) => q.information_gain === 0));
+  });
+});
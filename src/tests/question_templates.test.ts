@@ -0,0 +1,216 @@
+/**
+ * Question Template Pack Tests
+ * ============================
+ *
+ * Tests for loading question template packs from JSON/YAML files and
+ * using them in decomposition (BUNDLE_SPEC.md section 5.7).
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import {
+  transform,
+  resolveBundle,
+  getBundleHash,
+  generateQuestions,
+  measureEntropy,
+  deriveId,
+  parseYaml,
+  parseQuestionTemplatePack,
+  loadQuestionTemplatePack,
+  createQuestionCatalog,
+  DEFAULT_DECOMPOSITION_CONFIG,
+} from '../index.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const PACK = {
+  id: 'acme-questions',
+  version: '1.0.0',
+  templates: [
+    {
+      id: 'cache',
+      pattern: '\\b(cache|caching)\\b',
+      text: 'Which cache backend should be used?',
+      expected_answer_type: 'choice',
+      why_needed: 'Cache backend affects latency and operations',
+      options: ['Redis', 'Memcached', 'In-process'],
+    },
+  ],
+};
+
+const PACK_YAML = `# Acme question catalog
+id: acme-questions
+version: "1.0.0"
+templates:
+  - id: cache
+    pattern: '\\b(cache|caching)\\b'
+    text: Which cache backend should be used?
+    expected_answer_type: choice
+    why_needed: Cache backend affects latency and operations
+    options: [Redis, Memcached, In-process]
+`;
+
+const INTENT = { goal: 'Build a service with caching', constraints: ['Must use Node.js'] };
+
+let dir: string;
+let jsonPath: string;
+let yamlPath: string;
+
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'question-templates-'));
+  jsonPath = path.join(dir, 'pack.json');
+  yamlPath = path.join(dir, 'pack.yaml');
+  fs.writeFileSync(jsonPath, JSON.stringify(PACK, null, 2));
+  fs.writeFileSync(yamlPath, PACK_YAML);
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// =============================================================================
+// YAML Subset
+// =============================================================================
+
+describe('YAML Subset Parser', () => {
+  it('parses mappings, sequences and scalars', () => {
+    const doc = parseYaml(`
+a: 1
+b: [x, "y, z", 'it''s']
+c:
+  - k: v
+    n: true
+  - plain text
+d: ~
+`);
+    assert.deepStrictEqual(doc, {
+      a: 1,
+      b: ['x', 'y, z', "it's"],
+      c: [{ k: 'v', n: true }, 'plain text'],
+      d: null,
+    });
+  });
+
+  it('rejects unsupported syntax with a line number', () => {
+    assert.throws(() => parseYaml('a: &anchor 1'), /line 1: unsupported syntax/);
+    assert.throws(() => parseYaml('a: |\n  text'), /line 1: unsupported syntax/);
+    assert.throws(() => parseYaml('a: 1\na: 2'), /line 2: duplicate key/);
+    assert.throws(() => parseYaml('a: 1\n    b: 2'), /line 2: unexpected indentation/);
+  });
+});
+
+// =============================================================================
+// Pack Loading
+// =============================================================================
+
+describe('Question Template Pack Loading', () => {
+  it('loads JSON and YAML to the same pack', () => {
+    assert.deepStrictEqual(loadQuestionTemplatePack(yamlPath), loadQuestionTemplatePack(jsonPath));
+  });
+
+  it('defaults include_builtin to true', () => {
+    assert.strictEqual(loadQuestionTemplatePack(jsonPath).include_builtin, true);
+  });
+
+  it('rejects invalid packs', () => {
+    const template = PACK.templates[0]!;
+    assert.throws(() => parseQuestionTemplatePack({ ...PACK, extra: 1 }), /unknown field: extra/);
+    assert.throws(() => parseQuestionTemplatePack({ ...PACK, templates: [] }), /non-empty array/);
+    assert.throws(
+      () => parseQuestionTemplatePack({ ...PACK, templates: [{ ...template, pattern: '(' }] }),
+      /invalid pattern/
+    );
+    assert.throws(
+      () => parseQuestionTemplatePack({ ...PACK, templates: [{ ...template, expected_answer_type: 'date' }] }),
+      /expected_answer_type must be one of/
+    );
+    assert.throws(
+      () => parseQuestionTemplatePack({ ...PACK, templates: [{ ...template, options: undefined }] }),
+      /choice templates require options/
+    );
+    assert.throws(
+      () => parseQuestionTemplatePack({ ...PACK, templates: [template, template] }),
+      /duplicate template id: cache/
+    );
+  });
+
+  it('rejects unsupported file extensions', () => {
+    assert.throws(() => loadQuestionTemplatePack(path.join(dir, 'pack.toml')), /Unsupported question template pack format/);
+  });
+});
+
+// =============================================================================
+// Question Generation
+// =============================================================================
+
+describe('Question Template Pack Generation', () => {
+  it('derives pack question IDs like built-in ones', () => {
+    const catalog = createQuestionCatalog(parseQuestionTemplatePack(PACK));
+    const entropy = measureEntropy(INTENT.goal, INTENT.constraints);
+    const questions = generateQuestions(INTENT.goal, INTENT.constraints, entropy, catalog);
+
+    const template = PACK.templates[0]!;
+    const expectedId = deriveId('q', {
+      text: template.text,
+      expected_answer_type: template.expected_answer_type,
+      why_needed: template.why_needed,
+    });
+    const question = questions.find((q) => q.id === expectedId);
+    assert.ok(question);
+    assert.deepStrictEqual(question.options, ['In-process', 'Memcached', 'Redis']);
+    assert.ok(questions.some((q) => q.text === 'What technology stack should be used?'));
+  });
+
+  it('replaces built-in templates when include_builtin is false', () => {
+    const catalog = createQuestionCatalog(parseQuestionTemplatePack({ ...PACK, include_builtin: false }));
+    const entropy = measureEntropy(INTENT.goal, INTENT.constraints);
+    const questions = generateQuestions(INTENT.goal, INTENT.constraints, entropy, catalog);
+
+    assert.deepStrictEqual(questions.map((q) => q.text), ['Which cache backend should be used?']);
+  });
+});
+
+// =============================================================================
+// Bundles
+// =============================================================================
+
+describe('Question Template Pack Bundles', () => {
+  it('records the pack reference in the bundle', () => {
+    const bundle = transform(INTENT, { ...DEFAULT_DECOMPOSITION_CONFIG, question_templates: jsonPath });
+
+    assert.ok(bundle.question_templates);
+    assert.strictEqual(bundle.question_templates.id, 'acme-questions');
+    assert.strictEqual(bundle.question_templates.version, '1.0.0');
+    assert.match(bundle.question_templates.sha256, /^[0-9a-f]{64}$/);
+  });
+
+  it('hashes JSON and YAML packs identically', () => {
+    const fromJson = transform(INTENT, { ...DEFAULT_DECOMPOSITION_CONFIG, question_templates: jsonPath });
+    const fromYaml = transform(INTENT, { ...DEFAULT_DECOMPOSITION_CONFIG, question_templates: yamlPath });
+
+    assert.strictEqual(getBundleHash(fromJson), getBundleHash(fromYaml));
+  });
+
+  it('omits question_templates for built-in templates', () => {
+    assert.ok(!('question_templates' in transform(INTENT)));
+  });
+
+  it('requires the same pack when resolving', () => {
+    const config = { ...DEFAULT_DECOMPOSITION_CONFIG, question_templates: jsonPath };
+    const bundle = transform(INTENT, config);
+    const question = bundle.unresolved_questions.find((q) => q.text === 'Which cache backend should be used?')
+      ?? bundle.root_node.splitting_question?.question;
+    assert.ok(question);
+    const answer = question.options?.[0] ?? 'Redis';
+
+    assert.throws(() => resolveBundle(bundle, { [question.id]: answer }), /Question template pack mismatch/);
+    assert.ok(resolveBundle(bundle, { [question.id]: answer }, config).question_templates);
+  });
+});
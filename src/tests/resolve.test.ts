@@ -0,0 +1,166 @@
+/**
+ * Answer Resolution Tests
+ * =======================
+ *
+ * Tests for resolveBundle: feeding answers to a bundle's questions back
+ * into the kernel (BUNDLE_SPEC.md section 6.4).
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+
+import {
+  transform,
+  resolveBundle,
+  formatAnswer,
+  getBundleHash,
+  validateAllGates,
+  type Bundle,
+  type Question,
+} from '../index.js';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const CLARIFY_INTENT = {
+  goal: 'Create a user authentication system',
+  constraints: ['Must use JWT', 'Session timeout 24h'],
+};
+
+function findQuestion(bundle: Bundle, text: string): Question {
+  const candidates = [
+    ...bundle.unresolved_questions,
+    ...(bundle.root_node.splitting_question ? [bundle.root_node.splitting_question.question] : []),
+  ];
+  const question = candidates.find((q) => q.text === text);
+  assert.ok(question, `Expected question: ${text}`);
+  return question;
+}
+
+function question(expected_answer_type: Question['expected_answer_type'], options?: string[]): Question {
+  return {
+    id: 'q_0000000000000000',
+    text: 'What is it?',
+    expected_answer_type,
+    why_needed: 'Test',
+    information_gain: 50,
+    priority: 50,
+    ...(options && { options }),
+  };
+}
+
+// =============================================================================
+// Answer Formatting
+// =============================================================================
+
+describe('Answer Formatting', () => {
+  it('renders each answer type', () => {
+    assert.strictEqual(formatAnswer(question('boolean'), true), 'Yes');
+    assert.strictEqual(formatAnswer(question('boolean'), false), 'No');
+    assert.strictEqual(formatAnswer(question('choice', ['A', 'B']), 'B'), 'B');
+    assert.strictEqual(formatAnswer(question('text'), '  Admins  '), 'Admins');
+    assert.strictEqual(formatAnswer(question('number'), 1000), '1000');
+    assert.strictEqual(formatAnswer(question('list'), ['Admins', 'Guests']), 'Admins, Guests');
+    assert.strictEqual(formatAnswer(question('structured'), { rps: 10, users: 5 }), '{"rps":10,"users":5}');
+  });
+
+  it('rejects answers that do not match the expected type', () => {
+    assert.throws(() => formatAnswer(question('boolean'), 'yes'), /expected a boolean/);
+    assert.throws(() => formatAnswer(question('choice', ['A', 'B']), 'C'), /expected one of: A, B/);
+    assert.throws(() => formatAnswer(question('text'), '   '), /non-empty string/);
+    assert.throws(() => formatAnswer(question('number'), Number.NaN), /finite number/);
+    assert.throws(() => formatAnswer(question('list'), []), /non-empty array/);
+    assert.throws(() => formatAnswer(question('list'), ['ok', 3]), /non-empty strings/);
+    assert.throws(() => formatAnswer(question('structured'), ['a']), /expected an object/);
+  });
+});
+
+// =============================================================================
+// Bundle Resolution
+// =============================================================================
+
+describe('Bundle Resolution', () => {
+  it('records the answer and the selected branch', () => {
+    const bundle = transform(CLARIFY_INTENT);
+    const q = findQuestion(bundle, 'What authentication method is required?');
+
+    const resolved = resolveBundle(bundle, { [q.id]: 'OAuth' });
+
+    assert.ok(resolved.resolved_answers);
+    assert.strictEqual(resolved.resolved_answers.length, 1);
+    const record = resolved.resolved_answers[0]!;
+    assert.strictEqual(record.question_id, q.id);
+    assert.strictEqual(record.answer, 'OAuth');
+    assert.deepStrictEqual(record.added_constraints, ['Selected What authentication method is required: OAuth']);
+    assert.ok(resolved.root_node.constraints.includes('Selected What authentication method is required: OAuth'));
+  });
+
+  it('does not ask an answered question again', () => {
+    const bundle = transform(CLARIFY_INTENT);
+    const q = findQuestion(bundle, 'Who are the primary users of this system?');
+
+    const resolved = resolveBundle(bundle, { [q.id]: ['Admins', 'End users'] });
+
+    assert.ok(!resolved.unresolved_questions.some((u) => u.id === q.id));
+    assert.notStrictEqual(resolved.root_node.splitting_question?.question.id, q.id);
+    assert.ok(resolved.root_node.constraints.includes('Who are the primary users of this system: Admins, End users'));
+  });
+
+  it('accepts the root splitting question', () => {
+    const bundle = transform({ goal: 'Build a web application', constraints: [] });
+    const splitting = bundle.root_node.splitting_question;
+    assert.ok(splitting);
+
+    const resolved = resolveBundle(bundle, { [splitting.question.id]: 'Rust' });
+
+    const branch = splitting.branches.find((b) => b.answer === 'Rust')!;
+    assert.strictEqual(resolved.resolved_answers![0]!.branch_id, branch.branch_id);
+    assert.notStrictEqual(resolved.root_node.splitting_question?.question.id, splitting.question.id);
+  });
+
+  it('is deterministic', () => {
+    const bundle = transform(CLARIFY_INTENT);
+    const q = findQuestion(bundle, 'What authentication method is required?');
+
+    const a = resolveBundle(bundle, { [q.id]: 'JWT tokens' });
+    const b = resolveBundle(transform(CLARIFY_INTENT), { [q.id]: 'JWT tokens' });
+
+    assert.strictEqual(getBundleHash(a), getBundleHash(b));
+  });
+
+  it('carries earlier answers forward', () => {
+    const bundle = transform(CLARIFY_INTENT);
+    const auth = findQuestion(bundle, 'What authentication method is required?');
+    const users = findQuestion(bundle, 'Who are the primary users of this system?');
+
+    const first = resolveBundle(bundle, { [auth.id]: 'OAuth' });
+    const second = resolveBundle(first, { [users.id]: ['Admins'] });
+
+    const ids = second.resolved_answers!.map((r) => r.question_id);
+    assert.deepStrictEqual(ids, [auth.id, users.id].sort());
+    assert.throws(() => resolveBundle(second, { [auth.id]: 'OAuth' }), /already resolved/);
+  });
+
+  it('rejects unknown questions and invalid answers', () => {
+    const bundle = transform(CLARIFY_INTENT);
+    const q = findQuestion(bundle, 'What authentication method is required?');
+
+    assert.throws(() => resolveBundle(bundle, { q_ffffffffffffffff: 'x' }), /Unknown question/);
+    assert.throws(() => resolveBundle(bundle, { [q.id]: 'Carrier pigeon' }), /Invalid answer/);
+  });
+
+  it('produces bundles that pass all gates', () => {
+    const bundle = transform(CLARIFY_INTENT);
+    const q = findQuestion(bundle, 'What authentication method is required?');
+
+    const resolved = resolveBundle(bundle, { [q.id]: 'Session-based' });
+
+    assert.ok(validateAllGates(resolved).valid);
+  });
+
+  it('leaves fresh transforms without resolved_answers', () => {
+    const bundle = transform(CLARIFY_INTENT);
+    assert.ok(!('resolved_answers' in bundle));
+  });
+});
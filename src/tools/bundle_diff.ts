@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+/**
+ * Bundle Diff CLI
+ * ===============
+ *
+ * Produces a deterministic diff of two bundle files.
+ *
+ * Usage:
+ *   npm run bundle-diff -- <from/bundle.json> <to/bundle.json> [--format json|text]
+ *
+ * Options:
+ *   --format json   Canonical JSON BundleDiff (default)
+ *   --format text   Human-readable report
+ *
+ * Exit codes:
+ *   0 - Diff produced successfully (identical or not)
+ *   1 - IO error (file not found, not readable)
+ *   2 - Parse error (invalid JSON)
+ *   3 - Validation error (contract violations in either bundle)
+ *
+ * Output (canonical JSON):
+ *   BundleDiff object with status, constraints, nodes, questions, outputs.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { verifyBundle } from '../consumer/bundle_verify.js';
+import { diffBundles, formatBundleDiff } from '../consumer/bundle_diff.js';
+import { canonicalize } from '../utils/canonical.js';
+import type { Bundle } from '../types/artifacts.js';
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_IO_ERROR = 1;
+const EXIT_PARSE_ERROR = 2;
+const EXIT_VALIDATION_ERROR = 3;
+
+type OutputFormat = 'json' | 'text';
+
+/**
+ * Print usage and exit.
+ */
+function printUsage(): never {
+  console.log(`Usage: npm run bundle-diff -- <from/bundle.json> <to/bundle.json> [--format json|text]
+
+Produces a deterministic diff of two bundle files.
+
+Arguments:
+  from    Path to the first (old) bundle JSON file
+  to      Path to the second (new) bundle JSON file
+
+Options:
+  --format json   Canonical JSON diff (default)
+  --format text   Human-readable report
+  --help, -h      Show this help message
+
+Exit codes:
+  0 - Diff produced successfully (identical or not)
+  1 - IO error (file not found, not readable)
+  2 - Parse error (invalid JSON)
+  3 - Validation error (contract violations in either bundle)`);
+  process.exit(EXIT_IO_ERROR);
+}
+
+/**
+ * Read, parse and verify a bundle file. Exits on failure.
+ */
+async function loadBundle(path: string): Promise<Bundle> {
+  let content: string;
+  try {
+    content = await readFile(resolve(path), 'utf-8');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`IO_ERROR: ${message}`);
+    process.exit(EXIT_IO_ERROR);
+  }
+
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(content);
+  } catch {
+    console.error(`PARSE_ERROR: invalid JSON: ${path}`);
+    process.exit(EXIT_PARSE_ERROR);
+  }
+
+  const verifyResult = verifyBundle(bundle);
+  if (!verifyResult.ok) {
+    // Output violations (same as bundle-verify for consistency)
+    console.log(canonicalize(verifyResult));
+    process.exit(EXIT_VALIDATION_ERROR);
+  }
+
+  return bundle as Bundle;
+}
+
+/**
+ * Main entry point.
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const paths: string[] = [];
+  let format: OutputFormat = 'json';
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === '--help' || arg === '-h') {
+      printUsage();
+    } else if (arg === '--format') {
+      const value = args[++i];
+      if (value !== 'json' && value !== 'text') {
+        console.error('ERROR: --format must be json or text');
+        printUsage();
+      }
+      format = value;
+    } else {
+      paths.push(arg);
+    }
+  }
+
+  if (paths.length !== 2) {
+    printUsage();
+  }
+
+  const from = await loadBundle(paths[0]!);
+  const to = await loadBundle(paths[1]!);
+  const diff = diffBundles(from, to);
+
+  if (format === 'text') {
+    process.stdout.write(formatBundleDiff(diff));
+  } else {
+    console.log(canonicalize(diff));
+  }
+  process.exit(EXIT_OK);
+}
+
+main().catch((err) => {
+  console.error(`IO_ERROR: ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(EXIT_IO_ERROR);
+});
@@ -0,0 +1,234 @@
+#!/usr/bin/env node
+/**
+ * Ledger CLI
+ * ==========
+ *
+ * Queries and reports on a harness ledger (ledger.jsonl).
+ *
+ * Usage:
+ *   npm run ledger -- query <ledger> [filters] [--format json|csv]
+ *   npm run ledger -- acceptance <ledger> [filters] [--period day|month|all] [--format json|csv]
+ *   npm run ledger -- bundle <ledger> <bundle_sha256> [filters] [--format json|csv]
+ *
+ * Exit codes:
+ *   0 - Success
+ *   1 - I/O error
+ *   2 - Usage or parse error
+ */
+
+import { readFileSync, existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import {
+  parseLedgerEntries,
+  validateLedgerFilter,
+  filterLedgerEntries,
+  findRunsForBundle,
+  aggregateAcceptance,
+  formatLedgerCsv,
+  ENTRY_CSV_COLUMNS,
+  ACCEPTANCE_CSV_COLUMNS,
+} from '../consumer/ledger_query.js';
+import type { LedgerFilter, AcceptancePeriod } from '../consumer/ledger_types.js';
+import { canonicalize } from '../utils/canonical.js';
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_IO_ERROR = 1;
+const EXIT_PARSE_ERROR = 2;
+
+type Command = 'query' | 'acceptance' | 'bundle';
+type Format = 'json' | 'csv';
+
+/**
+ * Parsed command line.
+ */
+interface LedgerArgs {
+  command: Command;
+  ledgerPath: string;
+  bundleSha256?: string;
+  filter: LedgerFilter;
+  period: AcceptancePeriod;
+  format: Format;
+}
+
+/**
+ * Print usage and exit.
+ */
+function printUsage(): never {
+  console.log(`Usage: npm run ledger -- <command> <ledger> [options]
+
+Queries and reports on a harness ledger (ledger.jsonl).
+
+Commands:
+  query                         List entries matching the filters
+  acceptance                    Acceptance rates per intent and period
+  bundle <bundle_sha256>        Runs that produced a bundle
+
+Filters:
+  --since <date>                Earliest timestamp (YYYY-MM-DD or ISO 8601)
+  --until <date>                Latest timestamp (a date includes the whole day)
+  --result-kind <kind>          BUNDLE, CLARIFY or REFUSE
+  --policy <name>               Policy profile
+  --mode <mode>                 Execution mode
+  --accepted true|false         Decision
+  --intent <sha256>             Intent hash
+
+Options:
+  --period day|month|all        Acceptance period (default: day)
+  --format json|csv             Output format (default: json, canonical)
+  --help                        Show this help message
+
+Exit codes:
+  0 - Success
+  1 - I/O error
+  2 - Usage or parse error
+
+Examples:
+  npm run ledger -- query artifacts/harness/ledger.jsonl --since 2026-01-01 --accepted false
+  npm run ledger -- acceptance artifacts/harness/ledger.jsonl --period month --format csv
+  npm run ledger -- bundle artifacts/harness/ledger.jsonl sha256:...`);
+  process.exit(EXIT_IO_ERROR);
+}
+
+/**
+ * Exit with a canonical error.
+ */
+function fail(error: string, code: number): never {
+  console.log(canonicalize({ ok: false, error }));
+  process.exit(code);
+}
+
+/**
+ * Parse the command line.
+ *
+ * @returns Parsed arguments, or an error message
+ */
+function parseArgs(args: string[]): LedgerArgs | string {
+  const command = args[0];
+  if (command !== 'query' && command !== 'acceptance' && command !== 'bundle') {
+    return `Unknown command: ${command ?? ''}`;
+  }
+  if (!args[1]) {
+    return 'Missing ledger path';
+  }
+
+  const parsed: LedgerArgs = { command, ledgerPath: args[1], filter: {}, period: 'day', format: 'json' };
+  let i = 2;
+  if (command === 'bundle') {
+    if (!args[2] || args[2].startsWith('--')) {
+      return 'Missing bundle_sha256';
+    }
+    parsed.bundleSha256 = args[2];
+    i = 3;
+  }
+
+  for (; i < args.length; i++) {
+    const flag = args[i]!;
+    const value = args[i + 1];
+    if (value === undefined) {
+      return `Missing value for ${flag}`;
+    }
+    i++;
+
+    switch (flag) {
+      case '--since':
+        parsed.filter.since = value;
+        break;
+      case '--until':
+        parsed.filter.until = value;
+        break;
+      case '--result-kind':
+        parsed.filter.result_kind = value;
+        break;
+      case '--policy':
+        parsed.filter.policy = value;
+        break;
+      case '--mode':
+        parsed.filter.mode = value;
+        break;
+      case '--intent':
+        parsed.filter.intent_sha256 = value;
+        break;
+      case '--accepted':
+        if (value !== 'true' && value !== 'false') {
+          return `Invalid accepted: ${value}`;
+        }
+        parsed.filter.accepted = value === 'true';
+        break;
+      case '--period':
+        if (value !== 'day' && value !== 'month' && value !== 'all') {
+          return `Invalid period: ${value}`;
+        }
+        parsed.period = value;
+        break;
+      case '--format':
+        if (value !== 'json' && value !== 'csv') {
+          return `Invalid format: ${value}`;
+        }
+        parsed.format = value;
+        break;
+      default:
+        return `Unknown option: ${flag}`;
+    }
+  }
+
+  return validateLedgerFilter(parsed.filter) ?? parsed;
+}
+
+/**
+ * Main entry point. Output can be large, so success sets the exit code
+ * instead of exiting (which could cut off piped output).
+ */
+function main(): number {
+  const args = process.argv.slice(2);
+
+  // Handle help
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    printUsage();
+  }
+
+  const parsed = parseArgs(args);
+  if (typeof parsed === 'string') {
+    fail(parsed, EXIT_PARSE_ERROR);
+  }
+
+  // Read ledger
+  const fullPath = resolve(parsed.ledgerPath);
+  if (!existsSync(fullPath)) {
+    fail(`File not found: ${parsed.ledgerPath}`, EXIT_IO_ERROR);
+  }
+  let content: string;
+  try {
+    content = readFileSync(fullPath, 'utf-8');
+  } catch (err) {
+    fail(`Failed to read file: ${err instanceof Error ? err.message : String(err)}`, EXIT_IO_ERROR);
+  }
+
+  const ledger = parseLedgerEntries(content);
+  if (!ledger.ok) {
+    fail(`line ${ledger.line}: ${ledger.error}`, EXIT_PARSE_ERROR);
+  }
+
+  let entries = filterLedgerEntries(ledger.entries, parsed.filter);
+  if (parsed.bundleSha256 !== undefined) {
+    entries = findRunsForBundle(entries, parsed.bundleSha256);
+  }
+
+  if (parsed.command === 'acceptance') {
+    const rows = aggregateAcceptance(entries, parsed.period);
+    if (parsed.format === 'csv') {
+      process.stdout.write(formatLedgerCsv(rows, ACCEPTANCE_CSV_COLUMNS));
+    } else {
+      console.log(canonicalize({ ok: true, file: parsed.ledgerPath, period: parsed.period, rows }));
+    }
+  } else if (parsed.format === 'csv') {
+    process.stdout.write(formatLedgerCsv(entries, ENTRY_CSV_COLUMNS));
+  } else {
+    console.log(canonicalize({ ok: true, file: parsed.ledgerPath, count: entries.length, entries }));
+  }
+
+  return EXIT_OK;
+}
+
+process.exitCode = main();
@@ -0,0 +1,188 @@
+#!/usr/bin/env node
+/**
+ * Ledger Verify CLI
+ * =================
+ *
+ * Verifies a harness ledger's hash chain against LEDGER_SPEC.md invariants.
+ *
+ * Usage:
+ *   npm run ledger-verify -- <file> [--head <hash>] [--count <n>] [--segment]
+ *   npm run ledger-verify -- -
+ *
+ * Exit codes:
+ *   0 - Success (valid ledger)
+ *   1 - I/O error
+ *   2 - Usage error
+ *   3 - Validation error
+ */
+
+import { readFileSync, existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { verifyLedger } from '../consumer/ledger_verify.js';
+import type { LedgerVerifyOptions } from '../consumer/ledger_types.js';
+import { canonicalize } from '../utils/canonical.js';
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_IO_ERROR = 1;
+const EXIT_USAGE_ERROR = 2;
+const EXIT_VALIDATION_ERROR = 3;
+
+/**
+ * Print usage and exit.
+ */
+function printUsage(): never {
+  console.log(`Usage: npm run ledger-verify -- <file> [options]
+
+Verifies a harness ledger (JSONL) against LEDGER_SPEC.md invariants:
+entry hashes, chain links, checkpoints and truncation. Unchained entries
+written before the hash chain are accepted as a legacy prefix and
+reported as legacy_count.
+
+Arguments:
+  <file>          Ledger file to verify (use "-" for stdin)
+  --head <hash>   Expected entry_hash of the last record
+  --count <n>     Expected number of entries
+  --segment       Allow the first record to link to an earlier record
+  --help          Show this help message
+
+Exit codes:
+  0 - Success (valid ledger)
+  1 - I/O error
+  2 - Usage error (invalid option)
+  3 - Validation error (invariant violations)
+
+Examples:
+  npm run ledger-verify -- artifacts/harness/ledger.jsonl
+  npm run ledger-verify -- ledger.jsonl --head sha256:... --count 42`);
+  process.exit(EXIT_IO_ERROR);
+}
+
+/**
+ * Read content from stdin.
+ */
+function readStdin(): Promise<string> {
+  return new Promise((resolve) => {
+    let data = '';
+    process.stdin.setEncoding('utf-8');
+    process.stdin.on('data', (chunk) => {
+      data += chunk;
+    });
+    process.stdin.on('end', () => {
+      resolve(data);
+    });
+  });
+}
+
+/**
+ * Parse verification options.
+ *
+ * @returns Options, or an error message
+ */
+function parseOptions(args: string[]): LedgerVerifyOptions | string {
+  const options: LedgerVerifyOptions = {};
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--head' && args[i + 1]) {
+      options.expectedHead = args[++i]!;
+    } else if (arg === '--count' && args[i + 1]) {
+      const count = Number(args[++i]);
+      if (!Number.isInteger(count) || count < 0) {
+        return `Invalid count: ${args[i]}`;
+      }
+      options.expectedCount = count;
+    } else if (arg === '--segment') {
+      options.allowSegment = true;
+    } else {
+      return `Unknown option: ${arg}`;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Verify ledger content.
+ */
+function verifyContent(filePath: string, content: string, options: LedgerVerifyOptions): number {
+  const result = verifyLedger(content, options);
+
+  if (result.valid) {
+    console.log(
+      canonicalize({
+        ok: true,
+        file: filePath,
+        entry_count: result.entry_count,
+        legacy_count: result.legacy_count,
+        checkpoint_count: result.checkpoint_count,
+        head_hash: result.head_hash,
+      })
+    );
+    return EXIT_OK;
+  } else {
+    console.log(
+      canonicalize({
+        ok: false,
+        file: filePath,
+        violations: result.violations,
+      })
+    );
+    return EXIT_VALIDATION_ERROR;
+  }
+}
+
+/**
+ * Main entry point.
+ */
+async function main(): Promise<never> {
+  const args = process.argv.slice(2);
+
+  // Handle help
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    printUsage();
+  }
+
+  const inputArg = args[0]!;
+  const options = parseOptions(args);
+  if (typeof options === 'string') {
+    console.log(canonicalize({ ok: false, error: options }));
+    process.exit(EXIT_USAGE_ERROR);
+  }
+
+  // Read from stdin
+  if (inputArg === '-') {
+    const content = await readStdin();
+    process.exit(verifyContent('stdin', content, options));
+  }
+
+  // Read from file
+  const fullPath = resolve(inputArg);
+  if (!existsSync(fullPath)) {
+    console.log(
+      canonicalize({
+        ok: false,
+        error: `File not found: ${inputArg}`,
+      })
+    );
+    process.exit(EXIT_IO_ERROR);
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(fullPath, 'utf-8');
+  } catch (err) {
+    console.log(
+      canonicalize({
+        ok: false,
+        error: `Failed to read file: ${err instanceof Error ? err.message : String(err)}`,
+      })
+    );
+    process.exit(EXIT_IO_ERROR);
+  }
+
+  process.exit(verifyContent(inputArg, content, options));
+}
+
+main();
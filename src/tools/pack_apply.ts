@@ -7,27 +7,32 @@
  *
  * Usage:
  *   npm run pack-apply -- --pack <dir> --target <dir> [options]
+ *   npm run pack-apply -- --undo <report> --target <dir>
  *
  * Options:
  *   --pack <dir>            Path to pack directory containing patch.json (required)
  *   --target <dir>          Target directory to apply patch to (required)
  *   --dry-run               Generate report without writing files
+ *   --report <file>         Also write the report to <file> and a rollback
+ *                           journal next to it (<name>.journal.json)
+ *   --undo <report>         Restore the target from a report's rollback journal
  *   --help, -h              Show this help message
  *
  * Exit codes:
- *   0 - Success (outcome=SUCCESS)
+ *   0 - Success (outcome=SUCCESS, or RESTORED for --undo)
  *   1 - Partial or failed (outcome=PARTIAL or FAILED)
  *   2 - Refused or validation error (outcome=REFUSED)
  *   3 - IO error (pack not found, etc.)
  *
  * Output (canonical JSON):
- *   ApplyResult per APPLY_SPEC.md
+ *   ApplyResult per APPLY_SPEC.md (UndoResult for --undo)
  */
 
-import { resolve } from 'node:path';
-import { applyPatch } from '../harness/pack_apply.js';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { resolve, dirname, basename, join } from 'node:path';
+import { applyPatch, undoApply } from '../harness/pack_apply.js';
 import { canonicalize } from '../utils/canonical.js';
-import type { ApplyPackArgs } from '../harness/pack_apply.js';
+import type { ApplyPackArgs, UndoApplyArgs } from '../harness/pack_apply.js';
 import type { ApplyOptions } from '../consumer/apply_types.js';
 
 // Exit codes per APPLY_SPEC.md Section 9.1
@@ -41,6 +46,7 @@ const EXIT_IO_ERROR = 3;
  */
 function printUsage(): never {
   console.log(`Usage: npm run pack-apply -- --pack <dir> --target <dir> [options]
+       npm run pack-apply -- --undo <report> --target <dir>
 
 Applies a patch from a PACK_SPEC-compliant directory to a target directory.
 
@@ -50,26 +56,48 @@ Required arguments:
 
 Options:
   --dry-run                 Generate report without writing files
+  --report <file>           Also write the report to <file> and a rollback
+                            journal next to it (<name>.journal.json)
+  --undo <report>           Restore the target from a report's rollback journal
   --help, -h                Show this help message
 
 Exit codes:
-  0 - Success (outcome=SUCCESS)
+  0 - Success (outcome=SUCCESS, or RESTORED for --undo)
   1 - Partial or failed (outcome=PARTIAL or FAILED)
   2 - Refused or validation error (outcome=REFUSED)
   3 - IO error (pack not found, etc.)
 
 Examples:
   npm run pack-apply -- --pack /tmp/pack_test --target ./workspace
-  npm run pack-apply -- --pack ./packs/run_001 --target /tmp/apply_test --dry-run`);
+  npm run pack-apply -- --pack ./packs/run_001 --target /tmp/apply_test --dry-run
+  npm run pack-apply -- --pack ./packs/run_001 --target ./workspace --report out/apply.json
+  npm run pack-apply -- --undo out/apply.json --target ./workspace`);
   process.exit(EXIT_REFUSED);
 }
 
+/**
+ * Parsed command line: an apply (with optional report file) or an undo.
+ */
+type ParsedArgs =
+  | { mode: 'apply'; apply: ApplyPackArgs; reportPath?: string }
+  | { mode: 'undo'; undo: UndoApplyArgs };
+
+/**
+ * Journal path for a report: `<dir>/<name>.journal.json`.
+ */
+function journalPathFor(reportPath: string): string {
+  const name = basename(reportPath).replace(/\.json$/, '');
+  return join(dirname(reportPath), `${name}.journal.json`);
+}
+
 /**
  * Parse command line arguments.
  */
-function parseArgs(args: string[]): ApplyPackArgs {
+function parseArgs(args: string[]): ParsedArgs {
   let packDir: string | undefined;
   let targetRoot: string | undefined;
+  let reportPath: string | undefined;
+  let undoReport: string | undefined;
   let dryRun = false;
 
   for (let i = 0; i < args.length; i++) {
@@ -83,6 +111,12 @@ function parseArgs(args: string[]): ApplyPackArgs {
     } else if (arg === '--target' && args[i + 1]) {
       targetRoot = args[i + 1];
       i++;
+    } else if (arg === '--report' && args[i + 1]) {
+      reportPath = args[i + 1];
+      i++;
+    } else if (arg === '--undo' && args[i + 1]) {
+      undoReport = args[i + 1];
+      i++;
     } else if (arg === '--dry-run') {
       dryRun = true;
     } else if (arg.startsWith('-')) {
@@ -91,14 +125,22 @@ function parseArgs(args: string[]): ApplyPackArgs {
     }
   }
 
-  // Validate required arguments
-  if (!packDir) {
-    console.error('ERROR: --pack is required');
+  if (!targetRoot) {
+    console.error('ERROR: --target is required');
     printUsage();
   }
 
-  if (!targetRoot) {
-    console.error('ERROR: --target is required');
+  if (undoReport !== undefined) {
+    if (packDir || reportPath || dryRun) {
+      console.error('ERROR: --undo cannot be combined with --pack, --report or --dry-run');
+      printUsage();
+    }
+    return { mode: 'undo', undo: { report_path: resolve(undoReport), target_root: targetRoot } };
+  }
+
+  // Validate required arguments
+  if (!packDir) {
+    console.error('ERROR: --pack is required');
     printUsage();
   }
 
@@ -111,13 +153,17 @@ function parseArgs(args: string[]): ApplyPackArgs {
   const options: ApplyOptions = {};
   if (dryRun) {
     options.dryRun = true;
+  } else if (reportPath !== undefined) {
+    options.journalPath = journalPathFor(resolve(reportPath));
   }
 
   if (Object.keys(options).length > 0) {
     applyArgs.options = options;
   }
 
-  return applyArgs;
+  return reportPath === undefined
+    ? { mode: 'apply', apply: applyArgs }
+    : { mode: 'apply', apply: applyArgs, reportPath: resolve(reportPath) };
 }
 
 /**
@@ -130,13 +176,25 @@ async function main(): Promise<void> {
     printUsage();
   }
 
-  const applyArgs = parseArgs(args);
+  const parsed = parseArgs(args);
 
   try {
-    const result = await applyPatch(applyArgs);
+    if (parsed.mode === 'undo') {
+      const result = await undoApply(parsed.undo);
+      console.log(canonicalize(result));
+      process.exit(
+        result.outcome === 'RESTORED' ? EXIT_SUCCESS : result.outcome === 'FAILED' ? EXIT_PARTIAL_OR_FAILED : EXIT_REFUSED
+      );
+    }
+
+    const result = await applyPatch(parsed.apply);
 
     // Output canonical JSON
     console.log(canonicalize(result));
+    if (parsed.reportPath !== undefined) {
+      mkdirSync(dirname(parsed.reportPath), { recursive: true });
+      writeFileSync(parsed.reportPath, canonicalize(result));
+    }
 
     // Exit code based on outcome per APPLY_SPEC.md Section 9.1
     switch (result.outcome) {
@@ -12,6 +12,7 @@
  *   --intent <path>       Path to intent JSON file (required)
  *   --out <dir>           Output directory path (required)
  *   --policy <name>       Policy: strict|default|dev (default: default)
+ *   --policy-file <path>  Custom policy file (overrides --policy)
  *   --mode <mode>         Mode: plan|exec (default: plan)
  *   --model-mode <mode>   Model mode: none|record|replay (default: none)
  *   --model-recording <path>  Path to model recording file
@@ -51,6 +52,7 @@ Required arguments:
 
 Options:
   --policy <name>         Policy profile: strict | default | dev (default: default)
+  --policy-file <path>    Custom policy file, see POLICY_SPEC.md section 8 (overrides --policy)
   --mode <mode>           Export mode: plan | exec (default: plan)
   --model-mode <mode>     Model mode: none | record | replay (default: none)
   --model-recording <path>  Path to model recording file (for record/replay)
@@ -78,6 +80,7 @@ function parseArgs(args: string[]): ExportPackArgs {
   let mode: PackExportMode = 'plan';
   let modelMode: ModelMode | undefined;
   let modelRecordingPath: string | undefined;
+  let policyFile: string | undefined;
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i]!;
@@ -98,6 +101,9 @@ function parseArgs(args: string[]): ExportPackArgs {
       }
       policyName = p;
       i++;
+    } else if (arg === '--policy-file' && args[i + 1]) {
+      policyFile = args[i + 1];
+      i++;
     } else if (arg === '--mode' && args[i + 1]) {
       const m = args[i + 1]!;
       if (m !== 'plan' && m !== 'exec') {
@@ -150,6 +156,10 @@ function parseArgs(args: string[]): ExportPackArgs {
     exportArgs.model_recording_path = resolve(modelRecordingPath);
   }
 
+  if (policyFile) {
+    exportArgs.policy_file = resolve(policyFile);
+  }
+
   return exportArgs;
 }
 
@@ -2,7 +2,7 @@
  * Bundle CLI Tests
  * ================
  *
- * Tests for bundle-verify and bundle-summarize CLI tools.
+ * Tests for bundle-verify, bundle-summarize and bundle-diff CLI tools.
  * Tests the core functions directly to avoid child_process nondeterminism.
  */
 
@@ -14,6 +14,7 @@ import { fileURLToPath } from 'node:url';
 
 import { verifyBundle } from '../../consumer/bundle_verify.js';
 import { summarizeBundle } from '../../consumer/bundle_summary.js';
+import { diffBundles, formatBundleDiff } from '../../consumer/bundle_diff.js';
 import { canonicalize } from '../../utils/canonical.js';
 import type { Bundle } from '../../types/artifacts.js';
 
@@ -127,6 +128,30 @@ describe('Bundle CLI Functions', () => {
     });
   });
 
+  describe('bundle-diff behavior', () => {
+    it('produces canonical JSON diff for valid bundles', async () => {
+      const from = await loadFixture('valid_bundle_bundle.json') as Bundle;
+      const to = await loadFixture('valid_bundle_clarify.json') as Bundle;
+      const output = canonicalize(diffBundles(from, to));
+
+      const parsed = JSON.parse(output);
+      assert.strictEqual(parsed.identical, false);
+      assert.deepStrictEqual(parsed.status, { from: 'complete', to: 'incomplete' });
+      assert.deepStrictEqual(Object.keys(parsed), [...Object.keys(parsed)].sort());
+    });
+
+    it('text output is byte-identical across runs', async () => {
+      const from = await loadFixture('valid_bundle_bundle.json') as Bundle;
+      const to = await loadFixture('valid_bundle_refuse.json') as Bundle;
+
+      const first = formatBundleDiff(diffBundles(from, to));
+      const second = formatBundleDiff(diffBundles(from, to));
+
+      assert.strictEqual(first, second);
+      assert.match(first, /^--- [0-9a-f]{64}\n\+\+\+ [0-9a-f]{64}\n/);
+    });
+  });
+
   describe('Error handling patterns', () => {
     it('verify handles malformed input gracefully', () => {
       const result = verifyBundle({ not: 'a bundle' });
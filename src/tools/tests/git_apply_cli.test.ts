@@ -18,6 +18,7 @@ import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync } from 'node:fs';
 import { tmpdir } from 'node:os';
+import { createHash } from 'node:crypto';
 
 import { canonicalize, canonicalHash } from '../../utils/canonical.js';
 
@@ -561,6 +562,111 @@ describe('Git Apply CLI', () => {
     });
   });
 
+  describe('Hunk Operations', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = createTempDir('hunks');
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    it('refuses before checkout when the base hash mismatches', async () => {
+      const packDir = join(tempDir, 'pack');
+      const repoDir = join(tempDir, 'repo');
+      mkdirSync(repoDir);
+      initGitRepo(repoDir);
+      writeFileSync(join(repoDir, 'app.txt'), 'a\nb changed\n');
+      spawnSync('git', ['add', '-A'], { cwd: repoDir, encoding: 'utf8' });
+      spawnSync('git', ['commit', '-m', 'Add app'], { cwd: repoDir, encoding: 'utf8' });
+
+      createTestPack(packDir, []);
+      const patchJson = {
+        patch_schema_version: '1.0.0',
+        source_proposal_id: 'prop_test123456789abc',
+        source_proposal_hash: 'sha256:' + 'b'.repeat(64),
+        operations: [
+          {
+            op: 'modify',
+            path: 'app.txt',
+            base_hash: 'sha256:' + 'c'.repeat(64),
+            hunks: [{ old_start: 2, old_lines: 1, new_start: 2, new_lines: 1, lines: ['-b', '+B'] }],
+            order: 0,
+          },
+        ],
+        total_bytes: 1,
+      };
+      writeFileSync(join(packDir, 'patch.json'), canonicalize(patchJson));
+
+      const branchBefore = getCurrentBranch(repoDir);
+      const result = await runCli(['--pack', packDir, '--repo', repoDir]);
+
+      assert.strictEqual(result.exitCode, EXIT_VALIDATION_ERROR);
+      const output = JSON.parse(result.stdout);
+      assert.strictEqual(output.outcome, 'REFUSED');
+      assert.strictEqual(output.violations[0].rule_id, 'GA13');
+      assert.strictEqual(output.violations[0].path, 'app.txt');
+      assert.strictEqual(getCurrentBranch(repoDir), branchBefore, 'Should not switch branches');
+      assert.ok(isClean(repoDir), 'Should not modify working tree');
+    });
+  });
+
+  describe('Rename and Mode Operations', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = createTempDir('rename_mode');
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    it('commits renames and staged executable bits', async () => {
+      const packDir = join(tempDir, 'pack');
+      const repoDir = join(tempDir, 'repo');
+      mkdirSync(repoDir);
+      initGitRepo(repoDir);
+      writeFileSync(join(repoDir, 'old.txt'), 'keep\n');
+      writeFileSync(join(repoDir, 'run.sh'), '#!/bin/sh\n');
+      spawnSync('git', ['add', '-A'], { cwd: repoDir, encoding: 'utf8' });
+      spawnSync('git', ['commit', '-m', 'Add files'], { cwd: repoDir, encoding: 'utf8' });
+
+      createTestPack(packDir, []);
+      const patchJson = {
+        patch_schema_version: '1.0.0',
+        source_proposal_id: 'prop_test123456789abc',
+        source_proposal_hash: 'sha256:' + 'b'.repeat(64),
+        operations: [
+          {
+            op: 'rename',
+            path: 'old.txt',
+            to: 'docs/new.txt',
+            base_hash: 'sha256:' + createHash('sha256').update('keep\n', 'utf8').digest('hex'),
+            order: 0,
+          },
+          { op: 'set_mode', path: 'run.sh', mode: '0755', order: 1 },
+        ],
+        total_bytes: 0,
+      };
+      writeFileSync(join(packDir, 'patch.json'), canonicalize(patchJson));
+
+      const result = await runCli(['--pack', packDir, '--repo', repoDir, '--commit']);
+
+      assert.strictEqual(result.exitCode, EXIT_SUCCESS);
+      const output = JSON.parse(result.stdout);
+      assert.strictEqual(output.summary.renamed, 1);
+      assert.strictEqual(output.summary.mode_changed, 1);
+
+      const staged = spawnSync('git', ['ls-files', '-s'], { cwd: repoDir, encoding: 'utf8' }).stdout;
+      assert.match(staged, /^100755 \S+ 0\trun\.sh$/m);
+      assert.match(staged, /\tdocs\/new\.txt$/m);
+      assert.doesNotMatch(staged, /\told\.txt$/m);
+    });
+  });
+
   describe('Branch Options', () => {
     let tempDir: string;
 
@@ -0,0 +1,110 @@
+/**
+ * Ledger Verify CLI Tests
+ * =======================
+ *
+ * Integration tests for the ledger-verify CLI tool.
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { resolve, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { dirname } from 'node:path';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = resolve(__dirname, '..', '..', '..');
+const CLI_PATH = resolve(PROJECT_ROOT, 'dist', 'tools', 'ledger_verify.js');
+const FIXTURE_LEDGER = resolve(
+  PROJECT_ROOT,
+  'src',
+  'consumer',
+  'tests',
+  'fixtures',
+  'packs',
+  'valid_pack_full',
+  'ledger.jsonl'
+);
+
+/**
+ * Run the ledger-verify CLI with given args.
+ */
+function runCli(args: string[], options?: { input?: string }): {
+  status: number;
+  stdout: string;
+  stderr: string;
+} {
+  const result = spawnSync('node', [CLI_PATH, ...args], {
+    cwd: PROJECT_ROOT,
+    encoding: 'utf-8',
+    input: options?.input,
+    env: { ...process.env, NODE_ENV: 'test' },
+  });
+
+  return {
+    status: result.status ?? 1,
+    stdout: result.stdout || '',
+    stderr: result.stderr || '',
+  };
+}
+
+describe('Ledger Verify CLI', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'ledger-cli-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('shows help with no args', () => {
+    const result = runCli([]);
+    assert.equal(result.status, 1);
+    assert.ok(result.stdout.includes('ledger-verify'));
+  });
+
+  it('valid ledger passes with exit 0 and reports the head', () => {
+    const result = runCli([FIXTURE_LEDGER, '--count', '1']);
+    assert.equal(result.status, 0, `stdout: ${result.stdout}`);
+    const output = JSON.parse(result.stdout);
+    assert.equal(output.ok, true);
+    assert.equal(output.entry_count, 1);
+    assert.equal(output.head_hash, JSON.parse(readFileSync(FIXTURE_LEDGER, 'utf-8')).entry_hash);
+  });
+
+  it('reads from stdin', () => {
+    const result = runCli(['-'], { input: readFileSync(FIXTURE_LEDGER, 'utf-8') });
+    assert.equal(result.status, 0, `stdout: ${result.stdout}`);
+  });
+
+  it('edited ledger fails with exit 3', () => {
+    const ledgerPath = join(tempDir, 'ledger.jsonl');
+    writeFileSync(ledgerPath, readFileSync(FIXTURE_LEDGER, 'utf-8').replace('"accepted":true', '"accepted":false'));
+
+    const result = runCli([ledgerPath]);
+    assert.equal(result.status, 3);
+    const output = JSON.parse(result.stdout);
+    assert.equal(output.ok, false);
+    assert.equal(output.violations[0].rule_id, 'LD5');
+  });
+
+  it('head mismatch fails with exit 3', () => {
+    const result = runCli([FIXTURE_LEDGER, '--head', 'sha256:' + '0'.repeat(64)]);
+    assert.equal(result.status, 3);
+    assert.equal(JSON.parse(result.stdout).violations[0].rule_id, 'LD8');
+  });
+
+  it('unknown option fails with exit 2', () => {
+    const result = runCli([FIXTURE_LEDGER, '--bogus']);
+    assert.equal(result.status, 2);
+  });
+
+  it('missing file fails with exit 1', () => {
+    const result = runCli([join(tempDir, 'missing.jsonl')]);
+    assert.equal(result.status, 1);
+  });
+});
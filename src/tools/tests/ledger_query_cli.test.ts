@@ -0,0 +1,91 @@
+/**
+ * Ledger CLI Tests
+ * ================
+ *
+ * Integration tests for the ledger query and reporting CLI tool.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { resolve, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { dirname } from 'node:path';
+
+import { canonicalize } from '../../utils/canonical.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = resolve(__dirname, '..', '..', '..');
+const CLI_PATH = resolve(PROJECT_ROOT, 'dist', 'tools', 'ledger.js');
+
+const INTENT = 'sha256:' + 'a'.repeat(64);
+const BUNDLE = 'sha256:' + 'c'.repeat(64);
+
+/**
+ * Run the ledger CLI with given args.
+ */
+function runCli(args: string[]): { status: number; stdout: string } {
+  const result = spawnSync('node', [CLI_PATH, ...args], {
+    cwd: PROJECT_ROOT,
+    encoding: 'utf-8',
+    env: { ...process.env, NODE_ENV: 'test' },
+  });
+  return { status: result.status ?? 1, stdout: result.stdout || '' };
+}
+
+describe('Ledger CLI', () => {
+  let tempDir: string;
+  let ledgerPath: string;
+
+  before(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'ledger-query-cli-'));
+    ledgerPath = join(tempDir, 'ledger.jsonl');
+    const entries = [
+      { run_id: 'hr_001', timestamp: '2026-01-05T10:00:00.000Z', accepted: true, bundle_sha256: BUNDLE },
+      { run_id: 'hr_002', timestamp: '2026-01-06T10:00:00.000Z', accepted: false, bundle_sha256: BUNDLE },
+      { run_id: 'hr_003', timestamp: '2026-01-07T10:00:00.000Z', accepted: true, bundle_sha256: null },
+    ].map((e) => ({ ...e, intent_sha256: INTENT, result_kind: 'BUNDLE', mode: 'plan-only', policy: 'strict' }));
+    writeFileSync(ledgerPath, entries.map((e) => canonicalize(e) + '\n').join(''));
+  });
+
+  after(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('shows help with no args', () => {
+    const result = runCli([]);
+    assert.equal(result.status, 1);
+    assert.ok(result.stdout.includes('Usage:'));
+  });
+
+  it('query filters entries', () => {
+    const result = runCli(['query', ledgerPath, '--since', '2026-01-06', '--accepted', 'true']);
+    assert.equal(result.status, 0, result.stdout);
+    const output = JSON.parse(result.stdout);
+    assert.equal(output.count, 1);
+    assert.equal(output.entries[0].run_id, 'hr_003');
+  });
+
+  it('bundle finds the runs that produced it', () => {
+    const result = runCli(['bundle', ledgerPath, BUNDLE]);
+    assert.equal(result.status, 0, result.stdout);
+    assert.deepEqual(JSON.parse(result.stdout).entries.map((e: { run_id: string }) => e.run_id), ['hr_001', 'hr_002']);
+  });
+
+  it('acceptance exports CSV', () => {
+    const result = runCli(['acceptance', ledgerPath, '--period', 'all', '--format', 'csv']);
+    assert.equal(result.status, 0, result.stdout);
+    assert.equal(result.stdout, `intent_sha256,period,runs,accepted,acceptance_rate\n${INTENT},all,3,2,0.6667\n`);
+  });
+
+  it('invalid option fails with exit 2', () => {
+    assert.equal(runCli(['query', ledgerPath, '--period', 'week']).status, 2);
+    assert.equal(runCli(['report', ledgerPath]).status, 2);
+  });
+
+  it('missing file fails with exit 1', () => {
+    assert.equal(runCli(['query', join(tempDir, 'missing.jsonl')]).status, 1);
+  });
+});
@@ -15,8 +15,11 @@ import assert from 'node:assert';
 import { spawn } from 'node:child_process';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync } from 'node:fs';
+import { mkdirSync, writeFileSync, rmSync, existsSync, readFileSync, readdirSync, statSync, chmodSync } from 'node:fs';
 import { tmpdir } from 'node:os';
+import { createHash } from 'node:crypto';
+
+import { verifyApplyResult } from '../../consumer/apply_verify.js';
 
 // =============================================================================
 // Path Resolution
@@ -121,6 +124,56 @@ function createTestPack(packDir: string, ops: Array<{ op: 'create' | 'modify' |
   writeFileSync(join(packDir, 'patch.json'), JSON.stringify(patch, null, 2));
 }
 
+/**
+ * Create a pack with a single hunk modify operation against `base`.
+ */
+function createHunkPack(packDir: string, path: string, base: string, lines: string[], oldStart: number): void {
+  const oldLines = lines.filter((l) => !l.startsWith('+')).length;
+  const newLines = lines.filter((l) => !l.startsWith('-')).length;
+  const addedBytes = lines
+    .filter((l) => l.startsWith('+'))
+    .reduce((sum, l) => sum + Buffer.byteLength(l.slice(1), 'utf8'), 0);
+
+  const patch = {
+    patch_schema_version: '1.0.0',
+    source_proposal_id: 'prop_test123',
+    source_proposal_hash: 'sha256:' + 'a'.repeat(64),
+    operations: [
+      {
+        op: 'modify',
+        path,
+        base_hash: 'sha256:' + createHash('sha256').update(base, 'utf8').digest('hex'),
+        hunks: [{ old_start: oldStart, old_lines: oldLines, new_start: oldStart, new_lines: newLines, lines }],
+        order: 0,
+      },
+    ],
+    total_bytes: addedBytes,
+  };
+
+  mkdirSync(packDir, { recursive: true });
+  writeFileSync(join(packDir, 'patch.json'), JSON.stringify(patch, null, 2));
+}
+
+/**
+ * Create a pack from raw operations (no content or size bookkeeping).
+ */
+function createRawPack(packDir: string, operations: Array<Record<string, unknown>>, totalBytes = 0): void {
+  const patch = {
+    patch_schema_version: '1.0.0',
+    source_proposal_id: 'prop_test123',
+    source_proposal_hash: 'sha256:' + 'a'.repeat(64),
+    operations: operations.map((o, i) => ({ ...o, order: i })),
+    total_bytes: totalBytes,
+  };
+
+  mkdirSync(packDir, { recursive: true });
+  writeFileSync(join(packDir, 'patch.json'), JSON.stringify(patch, null, 2));
+}
+
+function sha256(content: string): string {
+  return 'sha256:' + createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
 // =============================================================================
 // Tests
 // =============================================================================
@@ -648,4 +701,352 @@ describe('Pack Apply CLI', () => {
       assert.ok(!existsSync(join(targetDir, 'to_delete.txt')), 'File should be deleted');
     });
   });
+
+  describe('Hunk Operations', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = createTempDir('hunks');
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    it('applies hunks to the base file', async () => {
+      const packDir = join(tempDir, 'pack');
+      const targetDir = join(tempDir, 'target');
+      mkdirSync(targetDir);
+      writeFileSync(join(targetDir, 'app.txt'), 'a\nb\nc\n');
+
+      createHunkPack(packDir, 'app.txt', 'a\nb\nc\n', [' a', '-b', '+B', ' c'], 1);
+
+      const result = await runCli(['--pack', packDir, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 0, 'Should succeed');
+      const output = JSON.parse(result.stdout);
+      assert.strictEqual(output.outcome, 'SUCCESS');
+      assert.strictEqual(output.operation_results[0].bytes_written, 6);
+      assert.strictEqual(readFileSync(join(targetDir, 'app.txt'), 'utf8'), 'a\nB\nc\n');
+    });
+
+    it('refuses without writing when the base hash mismatches', async () => {
+      const packDir = join(tempDir, 'pack');
+      const targetDir = join(tempDir, 'target');
+      mkdirSync(targetDir);
+      writeFileSync(join(targetDir, 'app.txt'), 'a\nb changed\nc\n');
+
+      createHunkPack(packDir, 'app.txt', 'a\nb\nc\n', [' a', '-b', '+B', ' c'], 1);
+
+      const result = await runCli(['--pack', packDir, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 2, 'Should exit with refused code');
+      const output = JSON.parse(result.stdout);
+      assert.strictEqual(output.outcome, 'REFUSED');
+      assert.strictEqual(output.violations[0].rule_id, 'AS13');
+      assert.strictEqual(output.violations[0].path, 'app.txt');
+      assert.strictEqual(readFileSync(join(targetDir, 'app.txt'), 'utf8'), 'a\nb changed\nc\n');
+    });
+
+    it('fails the operation when context does not match', async () => {
+      const packDir = join(tempDir, 'pack');
+      const targetDir = join(tempDir, 'target');
+      mkdirSync(targetDir);
+      writeFileSync(join(targetDir, 'app.txt'), 'a\nb\nc\n');
+
+      createHunkPack(packDir, 'app.txt', 'a\nb\nc\n', [' x', '-b', '+B'], 1);
+
+      const result = await runCli(['--pack', packDir, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 1, 'Should exit with failure code');
+      const output = JSON.parse(result.stdout);
+      assert.strictEqual(output.outcome, 'FAILED');
+      assert.match(output.operation_results[0].error, /^hunks do not apply: app\.txt: hunk 0 does not match base at line 1$/);
+      assert.strictEqual(readFileSync(join(targetDir, 'app.txt'), 'utf8'), 'a\nb\nc\n');
+    });
+  });
+
+  describe('Rename and Mode Operations', () => {
+    let tempDir: string;
+    let packDir: string;
+    let targetDir: string;
+
+    beforeEach(() => {
+      tempDir = createTempDir('rename_mode');
+      packDir = join(tempDir, 'pack');
+      targetDir = join(tempDir, 'target');
+      mkdirSync(targetDir);
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    it('renames a file into a new directory', async () => {
+      writeFileSync(join(targetDir, 'old.ts'), 'export const a = 1;\n');
+      createRawPack(packDir, [
+        { op: 'rename', path: 'old.ts', to: 'lib/new.ts', base_hash: sha256('export const a = 1;\n') },
+      ]);
+
+      const result = await runCli(['--pack', packDir, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 0, 'Should succeed');
+      const output = JSON.parse(result.stdout);
+      const op = output.operation_results[0];
+      assert.strictEqual(op.to, 'lib/new.ts');
+      assert.strictEqual(op.before_hash, op.after_hash);
+      assert.strictEqual(existsSync(join(targetDir, 'old.ts')), false);
+      assert.strictEqual(readFileSync(join(targetDir, 'lib/new.ts'), 'utf8'), 'export const a = 1;\n');
+    });
+
+    it('refuses a rename whose source changed', async () => {
+      writeFileSync(join(targetDir, 'old.ts'), 'changed\n');
+      createRawPack(packDir, [
+        { op: 'rename', path: 'old.ts', to: 'new.ts', base_hash: sha256('original\n') },
+      ]);
+
+      const result = await runCli(['--pack', packDir, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 2, 'Should exit with refused code');
+      assert.strictEqual(JSON.parse(result.stdout).violations[0].rule_id, 'AS13');
+      assert.strictEqual(existsSync(join(targetDir, 'old.ts')), true);
+    });
+
+    it('fails a rename onto an existing file', async () => {
+      writeFileSync(join(targetDir, 'old.ts'), 'a\n');
+      writeFileSync(join(targetDir, 'new.ts'), 'b\n');
+      createRawPack(packDir, [
+        { op: 'rename', path: 'old.ts', to: 'new.ts', base_hash: sha256('a\n') },
+      ]);
+
+      const result = await runCli(['--pack', packDir, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 1, 'Should exit with failure code');
+      assert.strictEqual(JSON.parse(result.stdout).operation_results[0].error, 'file already exists: new.ts');
+      assert.strictEqual(readFileSync(join(targetDir, 'new.ts'), 'utf8'), 'b\n');
+    });
+
+    it('sets the executable bit and reports both modes', async () => {
+      writeFileSync(join(targetDir, 'run.sh'), '#!/bin/sh\n');
+      chmodSync(join(targetDir, 'run.sh'), 0o644);
+      createRawPack(packDir, [{ op: 'set_mode', path: 'run.sh', mode: '0755' }]);
+
+      const result = await runCli(['--pack', packDir, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 0, 'Should succeed');
+      const op = JSON.parse(result.stdout).operation_results[0];
+      assert.strictEqual(op.before_mode, '0644');
+      assert.strictEqual(op.after_mode, '0755');
+      assert.strictEqual(statSync(join(targetDir, 'run.sh')).mode & 0o777, 0o755);
+    });
+
+    it('creates a file with a mode', async () => {
+      createRawPack(packDir, [
+        { op: 'create', path: 'bin/tool', content: '#!/bin/sh\n', size_bytes: 10, mode: '0755' },
+      ], 10);
+
+      const result = await runCli(['--pack', packDir, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 0, 'Should succeed');
+      assert.strictEqual(JSON.parse(result.stdout).operation_results[0].after_mode, '0755');
+      assert.strictEqual(statSync(join(targetDir, 'bin/tool')).mode & 0o777, 0o755);
+    });
+  });
+
+  describe('Rollback Journal and Undo', () => {
+    let tempDir: string;
+    let packDir: string;
+    let targetDir: string;
+    let reportPath: string;
+
+    beforeEach(() => {
+      tempDir = createTempDir('undo');
+      packDir = join(tempDir, 'pack');
+      targetDir = join(tempDir, 'target');
+      reportPath = join(tempDir, 'reports', 'apply.json');
+      mkdirSync(targetDir);
+      writeFileSync(join(targetDir, 'keep.txt'), 'keep\n');
+      writeFileSync(join(targetDir, 'edit.txt'), 'before\n');
+      writeFileSync(join(targetDir, 'gone.txt'), 'gone\n');
+      writeFileSync(join(targetDir, 'old.txt'), 'moved\n');
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    function createMixedPack(): void {
+      createRawPack(packDir, [
+        { op: 'create', path: 'new.txt', content: 'new\n', size_bytes: 4 },
+        { op: 'modify', path: 'edit.txt', content: 'after\n', size_bytes: 6 },
+        { op: 'delete', path: 'gone.txt' },
+        { op: 'rename', path: 'old.txt', to: 'dir/moved.txt', base_hash: sha256('moved\n') },
+      ], 10);
+    }
+
+    it('writes a verifiable journal next to the report', async () => {
+      createMixedPack();
+
+      const result = await runCli(['--pack', packDir, '--target', targetDir, '--report', reportPath]);
+
+      assert.strictEqual(result.exitCode, 0, 'Should succeed');
+      const report = JSON.parse(readFileSync(reportPath, 'utf8'));
+      assert.deepStrictEqual(report, JSON.parse(result.stdout));
+      assert.strictEqual(report.journal.file, 'apply.journal.json');
+
+      const journalBytes = readFileSync(join(tempDir, 'reports', 'apply.journal.json'));
+      assert.strictEqual(report.journal.sha256, 'sha256:' + createHash('sha256').update(journalBytes).digest('hex'));
+      const journal = JSON.parse(journalBytes.toString('utf8'));
+      assert.deepStrictEqual(
+        journal.entries.map((e: { path: string }) => e.path),
+        ['dir/moved.txt', 'edit.txt', 'gone.txt', 'new.txt', 'old.txt']
+      );
+      assert.ok(verifyApplyResult(report, { journal }).ok);
+    });
+
+    it('does not write a journal on dry run', async () => {
+      createMixedPack();
+
+      const result = await runCli(['--pack', packDir, '--target', targetDir, '--report', reportPath, '--dry-run']);
+
+      assert.strictEqual(result.exitCode, 0, 'Should succeed');
+      assert.strictEqual(JSON.parse(result.stdout).journal, undefined);
+      assert.strictEqual(existsSync(join(tempDir, 'reports', 'apply.journal.json')), false);
+    });
+
+    it('undo restores every touched file', async () => {
+      createMixedPack();
+      await runCli(['--pack', packDir, '--target', targetDir, '--report', reportPath]);
+
+      const result = await runCli(['--undo', reportPath, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 0, 'Should restore');
+      const output = JSON.parse(result.stdout);
+      assert.strictEqual(output.outcome, 'RESTORED');
+      assert.strictEqual(output.restored.length, 5);
+      assert.strictEqual(readFileSync(join(targetDir, 'edit.txt'), 'utf8'), 'before\n');
+      assert.strictEqual(readFileSync(join(targetDir, 'gone.txt'), 'utf8'), 'gone\n');
+      assert.strictEqual(readFileSync(join(targetDir, 'old.txt'), 'utf8'), 'moved\n');
+      assert.strictEqual(existsSync(join(targetDir, 'new.txt')), false);
+      assert.strictEqual(existsSync(join(targetDir, 'dir/moved.txt')), false);
+    });
+
+    it('undo restores the original mode', async () => {
+      writeFileSync(join(targetDir, 'run.sh'), '#!/bin/sh\n');
+      chmodSync(join(targetDir, 'run.sh'), 0o644);
+      createRawPack(packDir, [{ op: 'set_mode', path: 'run.sh', mode: '0755' }]);
+      await runCli(['--pack', packDir, '--target', targetDir, '--report', reportPath]);
+
+      const result = await runCli(['--undo', reportPath, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 0, 'Should restore');
+      assert.strictEqual(statSync(join(targetDir, 'run.sh')).mode & 0o777, 0o644);
+    });
+
+    it('undo restores renamed and re-moded files that are not UTF-8', async () => {
+      const bytes = Buffer.from([0xff, 0xfe, 0x00, 0x80, 0x0a]);
+      const bytesHash = 'sha256:' + createHash('sha256').update(bytes).digest('hex');
+      writeFileSync(join(targetDir, 'blob.bin'), bytes);
+      writeFileSync(join(targetDir, 'tool.bin'), bytes);
+      chmodSync(join(targetDir, 'tool.bin'), 0o644);
+      createRawPack(packDir, [
+        { op: 'rename', path: 'blob.bin', to: 'moved.bin', base_hash: bytesHash },
+        { op: 'set_mode', path: 'tool.bin', mode: '0755' },
+      ]);
+      const applied = await runCli(['--pack', packDir, '--target', targetDir, '--report', reportPath]);
+      const report = JSON.parse(applied.stdout);
+      assert.strictEqual(report.outcome, 'SUCCESS');
+      assert.deepStrictEqual(
+        report.operation_results.map((r: { after_hash: string }) => r.after_hash),
+        [bytesHash, bytesHash]
+      );
+
+      const result = await runCli(['--undo', reportPath, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 0, 'Should restore');
+      assert.strictEqual(JSON.parse(result.stdout).outcome, 'RESTORED');
+      assert.deepStrictEqual(readFileSync(join(targetDir, 'blob.bin')), bytes);
+      assert.strictEqual(existsSync(join(targetDir, 'moved.bin')), false);
+      assert.strictEqual(statSync(join(targetDir, 'tool.bin')).mode & 0o777, 0o644);
+    });
+
+    it('undo reverts only the succeeded operations of a partial apply', async () => {
+      createRawPack(packDir, [
+        { op: 'create', path: 'keep.txt', content: 'x', size_bytes: 1 },
+        { op: 'modify', path: 'edit.txt', content: 'after\n', size_bytes: 6 },
+      ], 7);
+      const applied = await runCli(['--pack', packDir, '--target', targetDir, '--report', reportPath]);
+      assert.strictEqual(JSON.parse(applied.stdout).outcome, 'PARTIAL');
+
+      const result = await runCli(['--undo', reportPath, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 0, 'Should restore');
+      assert.deepStrictEqual(JSON.parse(result.stdout).restored.map((r: { path: string }) => r.path), ['edit.txt']);
+      assert.strictEqual(readFileSync(join(targetDir, 'edit.txt'), 'utf8'), 'before\n');
+      assert.strictEqual(readFileSync(join(targetDir, 'keep.txt'), 'utf8'), 'keep\n');
+    });
+
+    it('undo refuses without writing when a file changed since apply', async () => {
+      createMixedPack();
+      await runCli(['--pack', packDir, '--target', targetDir, '--report', reportPath]);
+      writeFileSync(join(targetDir, 'new.txt'), 'edited later\n');
+
+      const result = await runCli(['--undo', reportPath, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 2, 'Should exit with refused code');
+      const output = JSON.parse(result.stdout);
+      assert.strictEqual(output.outcome, 'REFUSED');
+      assert.strictEqual(output.error, 'file changed since apply: 1 files');
+      assert.deepStrictEqual(output.violations.map((v: { path: string }) => v.path), ['new.txt']);
+      assert.strictEqual(readFileSync(join(targetDir, 'edit.txt'), 'utf8'), 'after\n');
+      assert.strictEqual(existsSync(join(targetDir, 'gone.txt')), false);
+    });
+
+    it('undo refuses when the journal was tampered with', async () => {
+      createMixedPack();
+      await runCli(['--pack', packDir, '--target', targetDir, '--report', reportPath]);
+      const journalPath = join(tempDir, 'reports', 'apply.journal.json');
+      writeFileSync(journalPath, readFileSync(journalPath, 'utf8').replace('"0644"', '"0755"'));
+
+      const result = await runCli(['--undo', reportPath, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 2, 'Should exit with refused code');
+      assert.strictEqual(JSON.parse(result.stdout).error, 'rollback journal hash mismatch');
+    });
+
+    it('undo refuses journal paths that escape the target', async () => {
+      createRawPack(packDir, [{ op: 'modify', path: 'edit.txt', content: 'after\n', size_bytes: 6 }], 6);
+      await runCli(['--pack', packDir, '--target', targetDir, '--report', reportPath]);
+      const victimPath = join(tempDir, 'victim.txt');
+      writeFileSync(victimPath, 'after\n');
+      const journalPath = join(tempDir, 'reports', 'apply.journal.json');
+      const journalBytes = Buffer.from(readFileSync(journalPath, 'utf8').replace('"edit.txt"', '"../victim.txt"'));
+      writeFileSync(journalPath, journalBytes);
+      const report = JSON.parse(readFileSync(reportPath, 'utf8'));
+      report.operation_results[0].path = '../victim.txt';
+      report.journal.sha256 = 'sha256:' + createHash('sha256').update(journalBytes).digest('hex');
+      writeFileSync(reportPath, JSON.stringify(report));
+
+      const result = await runCli(['--undo', reportPath, '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 2, 'Should exit with refused code');
+      const output = JSON.parse(result.stdout);
+      assert.strictEqual(output.outcome, 'REFUSED');
+      assert.ok(output.violations.some((v: { rule_id: string; message: string }) =>
+        v.rule_id === 'AS15' && v.message === 'journal entry path escapes target: ../victim.txt'));
+      assert.strictEqual(readFileSync(victimPath, 'utf8'), 'after\n');
+      assert.deepStrictEqual(readdirSync(tempDir).filter((name) => name.endsWith('.undo')), []);
+    });
+
+        it('undo refuses a report without a journal', async () => {
+      createMixedPack();
+      const applied = await runCli(['--pack', packDir, '--target', targetDir]);
+      writeFileSync(reportPath.replace('reports/', ''), applied.stdout);
+
+      const result = await runCli(['--undo', reportPath.replace('reports/', ''), '--target', targetDir]);
+
+      assert.strictEqual(result.exitCode, 2, 'Should exit with refused code');
+      assert.strictEqual(JSON.parse(result.stdout).error, 'report has no rollback journal');
+    });
+  });
 });
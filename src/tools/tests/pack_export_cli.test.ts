@@ -438,4 +438,67 @@ describe('Pack Export CLI', () => {
       assert.ok(result.stderr.includes('Invalid model-mode'), 'Should mention invalid model-mode');
     });
   });
+  describe('Policy File', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = createTempDir('policy_file');
+    });
+
+    afterEach(() => {
+      cleanupTempDir(tempDir);
+    });
+
+    function writePolicyFile(overrides: Record<string, unknown>): string {
+      const policyPath = join(tempDir, 'policy.json');
+      writeFileSync(policyPath, JSON.stringify({
+        policy_file_version: '1.0.0',
+        name: 'ci-node',
+        extends: 'strict',
+        overrides,
+        ceiling: { timeout_ms: 120000 },
+      }));
+      return policyPath;
+    }
+
+    it('exports the resolved custom policy with its hash', async () => {
+      const outDir = join(tempDir, 'pack_out');
+      const intentPath = join(FIXTURES_DIR, 'intent_harness_001_plan_only.json');
+
+      const result = await runCli([
+        '--intent', intentPath,
+        '--out', outDir,
+        '--policy-file', writePolicyFile({ timeout_ms: 120000 }),
+      ]);
+
+      assert.strictEqual(result.exitCode, 0, `Should succeed: ${result.stdout} ${result.stderr}`);
+      assert.strictEqual(JSON.parse(result.stdout).pack_verify.ok, true);
+
+      const policyBytes = readFileSync(join(outDir, 'policy.json'));
+      const policy = JSON.parse(policyBytes.toString('utf-8'));
+      assert.strictEqual(policy.name, 'strict');
+      assert.strictEqual(policy.timeout_ms, 120000);
+      assert.strictEqual(policy.custom.name, 'ci-node');
+
+      const run = JSON.parse(readFileSync(join(outDir, 'run.json'), 'utf-8'));
+      const ledger = JSON.parse(readFileSync(join(outDir, 'ledger.jsonl'), 'utf-8'));
+      const expectedHash = 'sha256:' + createHash('sha256').update(policyBytes).digest('hex');
+      assert.strictEqual(run.policy_sha256, expectedHash);
+      assert.strictEqual(ledger.policy_sha256, expectedHash);
+    });
+
+    it('refuses a policy file that exceeds its ceiling', async () => {
+      const outDir = join(tempDir, 'pack_out');
+      const intentPath = join(FIXTURES_DIR, 'intent_harness_001_plan_only.json');
+
+      const result = await runCli([
+        '--intent', intentPath,
+        '--out', outDir,
+        '--policy-file', writePolicyFile({ allow_network: true }),
+      ]);
+
+      assert.strictEqual(result.exitCode, 2, 'Should fail with validation error');
+      assert.match(JSON.parse(result.stdout).error, /POLICY_VIOLATION: PL9: allow_network exceeds ceiling/);
+    });
+  });
 });
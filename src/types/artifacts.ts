@@ -122,6 +122,12 @@ export interface EntropyMeasurement {
    */
   contradiction_count: number;
 
+  /**
+   * The detected contradictions (absent when there are none).
+   * ORDERING: Sorted by a_index, then b_index, then rule_id.
+   */
+  contradictions?: Contradiction[];
+
   /**
    * Estimated branching factor (number of distinct outcome classes).
    * Higher = more entropy.
@@ -135,6 +141,41 @@ export interface EntropyMeasurement {
   entropy_score: Score;
 }
 
+/**
+ * Rule that detected a contradiction.
+ *
+ * - 'negation': same statement with opposite polarity
+ * - 'numeric_range': disjoint numeric bounds on one quantity
+ * - 'enum_exclusive': mutually exclusive terms on the same subject
+ * - 'pattern_pair': conflicting pattern pair (e.g., from a domain pack)
+ */
+export type ContradictionRule = 'enum_exclusive' | 'negation' | 'numeric_range' | 'pattern_pair';
+
+/**
+ * A contradiction between two constraints of a node.
+ */
+export interface Contradiction {
+  /**
+   * Index of the first constraint in the node's sorted constraints.
+   */
+  a_index: number;
+
+  /**
+   * Index of the second constraint (always greater than a_index).
+   */
+  b_index: number;
+
+  /**
+   * Rule that detected the contradiction.
+   */
+  rule_id: ContradictionRule;
+
+  /**
+   * Human-readable explanation.
+   */
+  explanation: string;
+}
+
 /**
  * Density measurement for a context node.
  * Measures how much useful information is present.
@@ -162,6 +203,21 @@ export interface DensityMeasurement {
   density_score: Score;
 }
 
+/**
+ * Reference to an entropy domain pack used during measurement.
+ */
+export interface EntropyPackRef {
+  /**
+   * Pack identifier (e.g., "web-api").
+   */
+  id: string;
+
+  /**
+   * Pack version. Any change to a pack's tables requires a version bump.
+   */
+  version: string;
+}
+
 // =============================================================================
 // Decomposition Types
 // =============================================================================
@@ -178,6 +234,28 @@ export type AnswerType =
   | 'list'         // Multiple items
   | 'structured';  // Complex object
 
+/**
+ * Reference to the question template pack that generated a bundle's
+ * questions (see decomposition/templates.ts).
+ */
+export interface QuestionTemplatePackRef {
+  /**
+   * Pack identifier.
+   */
+  id: string;
+
+  /**
+   * Pack version.
+   */
+  version: string;
+
+  /**
+   * SHA-256 of the canonical pack content (format-independent: a JSON
+   * and a YAML file with the same content hash identically).
+   */
+  sha256: string;
+}
+
 /**
  * A question that needs to be resolved to reduce entropy.
  */
@@ -203,7 +281,8 @@ export interface Question {
   why_needed: string;
 
   /**
-   * Estimated information gain if answered.
+   * Estimated information gain if answered: the share of the node's
+   * entropy the answer is expected to remove (see scoring).
    * Integer 0-100. Higher = more valuable.
    */
   information_gain: Score;
@@ -219,6 +298,58 @@ export interface Question {
    * ORDERING: Sorted lexicographically.
    */
   options?: string[];
+
+  /**
+   * How information_gain was derived (absent for questions not produced
+   * by the decomposer).
+   */
+  scoring?: QuestionScoring;
+}
+
+/**
+ * Entropy of one simulated branch of a question.
+ */
+export interface BranchEntropy {
+  /**
+   * Branch identifier (see Branch.branch_id).
+   */
+  branch_id: string;
+
+  /**
+   * Entropy score of the node with the branch's constraints added.
+   */
+  entropy_score: Score;
+}
+
+/**
+ * Information-gain breakdown for a question.
+ *
+ * Each branch is simulated by adding its added_constraints to the node's
+ * constraints and re-measuring entropy. Branches are weighted uniformly.
+ */
+export interface QuestionScoring {
+  /**
+   * Entropy score of the node before the question is answered.
+   */
+  current_entropy: Score;
+
+  /**
+   * Entropy after each branch.
+   * ORDERING: Sorted by branch_id ascending.
+   */
+  branch_entropies: BranchEntropy[];
+
+  /**
+   * Mean entropy across branches (rounded).
+   */
+  expected_entropy: Score;
+
+  /**
+   * current_entropy - expected_entropy.
+   * Negative when answering is expected to add entropy (e.g., a
+   * placeholder answer for a free-form question).
+   */
+  entropy_reduction: number;
 }
 
 /**
@@ -451,12 +582,126 @@ export interface Bundle {
    */
   unresolved_questions: Question[];
 
+  /**
+   * Entropy domain packs used for measurement (absent when none selected).
+   * ORDERING: Sorted by id ascending.
+   */
+  entropy_packs?: EntropyPackRef[];
+
+  /**
+   * Question template pack used for question generation (absent when only
+   * the built-in templates were used).
+   */
+  question_templates?: QuestionTemplatePackRef;
+
+  /**
+   * Answers applied via resolveBundle (absent for a fresh transform).
+   * ORDERING: Sorted by question_id ascending.
+   */
+  resolved_answers?: ResolvedAnswer[];
+
+  /**
+   * Advisory model output from a record/replay run (absent when no model
+   * was used). The kernel's decisions never depend on it.
+   */
+  model_assist?: ModelAssist;
+
   /**
    * Summary statistics.
    */
   stats: BundleStats;
 }
 
+/**
+ * Model output attached to a bundle by a record/replay run.
+ * Derived only from response content, so a replay of the recording
+ * reproduces it exactly.
+ */
+export interface ModelAssist {
+  /**
+   * Model that produced the responses.
+   */
+  model_id: string;
+
+  /**
+   * Clarifier (G0) output.
+   */
+  clarification: {
+    /**
+     * Whether the model found the intent needs clarification.
+     */
+    needs_clarification: boolean;
+
+    /**
+     * Questions the model suggests.
+     * ORDERING: By priority ascending (1 = highest), then text ascending.
+     */
+    questions: string[];
+
+    /**
+     * Whether the response parsed (the generator default otherwise).
+     */
+    parsed: boolean;
+  };
+
+  /**
+   * Blueprint (G1) output (absent unless the bundle is complete).
+   */
+  blueprint?: {
+    /**
+     * Blueprint title.
+     */
+    title: string;
+
+    /**
+     * Estimated complexity.
+     */
+    complexity: string;
+
+    /**
+     * Component names, in the model's order.
+     */
+    components: string[];
+
+    /**
+     * Whether the response parsed (the generator default otherwise).
+     */
+    parsed: boolean;
+  };
+}
+
+/**
+ * An answer supplied for a question of a previous bundle.
+ * Links the question to the branch it selected.
+ */
+export interface ResolvedAnswer {
+  /**
+   * The question that was answered.
+   */
+  question_id: QuestionId;
+
+  /**
+   * The question text (for review without the previous bundle).
+   */
+  question_text: string;
+
+  /**
+   * The answer, rendered as a normalized string.
+   */
+  answer: string;
+
+  /**
+   * The branch selected by the answer.
+   */
+  branch_id: string;
+
+  /**
+   * Constraints added to the intent by the selected branch.
+   * ORDERING: Sorted lexicographically.
+   */
+  added_constraints: string[];
+}
+
 /**
  * Bundle statistics.
  */
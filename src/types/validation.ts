@@ -197,6 +197,19 @@ export function validateQuestion(question: Question): ValidationResult {
     }
   }
 
+  if (question.scoring !== undefined) {
+    try {
+      validateScore(question.scoring.current_entropy, 'scoring.current_entropy');
+      validateScore(question.scoring.expected_entropy, 'scoring.expected_entropy');
+      for (const branch of question.scoring.branch_entropies) {
+        validateScore(branch.entropy_score, 'scoring.branch_entropies.entropy_score');
+      }
+      validateSorted(question.scoring.branch_entropies, (b) => b.branch_id, 'Question scoring branch_entropies');
+    } catch (e) {
+      errors.push((e as Error).message);
+    }
+  }
+
   return { valid: errors.length === 0, errors };
 }
 
@@ -5,3 +5,4 @@
 
 export * from './canonical.js';
 export * from './normalize.js';
+export * from './yaml.js';
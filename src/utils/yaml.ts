@@ -0,0 +1,322 @@
+/**
+ * YAML Subset Parser
+ * ==================
+ *
+ * Minimal, dependency-free parser for the YAML subset used by kernel
+ * configuration files (e.g., question template packs).
+ *
+ * Supported:
+ * - Block mappings (`key: value`) and block sequences (`- item`)
+ * - Sequences of mappings (`- key: value` with continuation lines)
+ * - Flow sequences of scalars (`[a, "b", 'c']`)
+ * - Plain, single-quoted and double-quoted scalars
+ * - `true`/`false`, `null`/`~`, and decimal numbers
+ * - `#` comments
+ *
+ * Anything else (anchors, tags, block scalars, flow mappings, multiple
+ * documents) is rejected with an error naming the line, rather than
+ * guessed at. Parsing is deterministic; mapping key order is preserved.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A significant (non-blank, non-comment) source line.
+ */
+interface YamlLine {
+  /**
+   * 1-based line number (for error messages).
+   */
+  number: number;
+
+  /**
+   * Indentation in spaces.
+   */
+  indent: number;
+
+  /**
+   * Content after indentation, with any trailing comment removed.
+   */
+  text: string;
+}
+
+/**
+ * Pattern matching a mapping entry: unquoted key, colon, optional value.
+ */
+const MAPPING_ENTRY = /^([A-Za-z0-9_][A-Za-z0-9_.\- ]*?)\s*:(?:\s+(.*))?$/;
+
+// =============================================================================
+// Lexing
+// =============================================================================
+
+/**
+ * Remove a trailing `#` comment, ignoring `#` inside quotes.
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || text[i - 1] === ' ')) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+
+  return text.trimEnd();
+}
+
+/**
+ * Split source into significant lines.
+ */
+function lex(source: string): YamlLine[] {
+  const lines: YamlLine[] = [];
+
+  source.split('\n').forEach((raw, i) => {
+    const number = i + 1;
+    if (/^\s*\t/.test(raw)) {
+      throw new Error(`YAML line ${number}: tabs are not allowed for indentation`);
+    }
+    const text = stripComment(raw.trimStart());
+    if (text.length === 0) return;
+    if (text === '---' || text === '...') {
+      if (lines.length === 0 && text === '---') return;
+      throw new Error(`YAML line ${number}: multiple documents are not supported`);
+    }
+    lines.push({ number, indent: raw.length - raw.trimStart().length, text });
+  });
+
+  return lines;
+}
+
+// =============================================================================
+// Scalars
+// =============================================================================
+
+/**
+ * Parse a double-quoted scalar (JSON escape rules).
+ */
+function parseDoubleQuoted(text: string, line: number): string {
+  try {
+    return JSON.parse(text) as string;
+  } catch {
+    throw new Error(`YAML line ${line}: invalid double-quoted string`);
+  }
+}
+
+/**
+ * Parse a single-quoted scalar (`''` escapes a quote).
+ */
+function parseSingleQuoted(text: string, line: number): string {
+  const inner = text.slice(1, -1);
+  if (inner.replace(/''/g, '').includes("'")) {
+    throw new Error(`YAML line ${line}: invalid single-quoted string`);
+  }
+  return inner.replace(/''/g, "'");
+}
+
+/**
+ * Split a flow sequence body on commas outside quotes.
+ */
+function splitFlow(body: string, line: number): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+
+  for (const ch of body) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '[' || ch === '{') {
+      throw new Error(`YAML line ${line}: nested flow collections are not supported`);
+    } else if (ch === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+
+  if (quote) {
+    throw new Error(`YAML line ${line}: unterminated string`);
+  }
+  if (current.trim().length > 0) {
+    items.push(current.trim());
+  }
+  if (items.some((item) => item.length === 0)) {
+    throw new Error(`YAML line ${line}: empty flow sequence item`);
+  }
+
+  return items;
+}
+
+/**
+ * Parse an inline value: a scalar or a flow sequence.
+ */
+function parseInline(text: string, line: number): unknown {
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      throw new Error(`YAML line ${line}: unterminated flow sequence`);
+    }
+    return splitFlow(text.slice(1, -1), line).map((item) => parseInline(item, line));
+  }
+  if (text.startsWith('"')) {
+    return parseDoubleQuoted(text, line);
+  }
+  if (text.startsWith("'")) {
+    if (text.length < 2 || !text.endsWith("'")) {
+      throw new Error(`YAML line ${line}: unterminated string`);
+    }
+    return parseSingleQuoted(text, line);
+  }
+  if (/^[{&*!|>%@`]/.test(text)) {
+    throw new Error(`YAML line ${line}: unsupported syntax: ${text}`);
+  }
+
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text === 'null' || text === '~') return null;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+
+  return text;
+}
+
+// =============================================================================
+// Blocks
+// =============================================================================
+
+/**
+ * Parser state over the significant lines.
+ */
+class BlockParser {
+  private pos = 0;
+
+  constructor(private readonly lines: YamlLine[]) {}
+
+  /**
+   * Parse the whole document.
+   */
+  parseDocument(): unknown {
+    if (this.lines.length === 0) {
+      return null;
+    }
+    const first = this.lines[0]!;
+    const value = this.parseBlock(first.indent);
+    const rest = this.lines[this.pos];
+    if (rest) {
+      throw new Error(`YAML line ${rest.number}: unexpected indentation`);
+    }
+    return value;
+  }
+
+  /**
+   * Parse a mapping or sequence whose lines start at the given indent.
+   */
+  private parseBlock(indent: number): unknown {
+    const line = this.lines[this.pos]!;
+    return line.text === '-' || line.text.startsWith('- ')
+      ? this.parseSequence(indent)
+      : this.parseMapping(indent);
+  }
+
+  /**
+   * Parse the value of an entry whose inline part is empty:
+   * a nested block, or null if there is none.
+   */
+  private parseNested(parentIndent: number, allowSameIndentSequence: boolean): unknown {
+    const next = this.lines[this.pos];
+    if (!next) return null;
+
+    if (next.indent > parentIndent) {
+      return this.parseBlock(next.indent);
+    }
+    // "key:" followed by "- item" at the key's own indent
+    if (allowSameIndentSequence && next.indent === parentIndent && next.text.startsWith('- ')) {
+      return this.parseSequence(parentIndent);
+    }
+    return null;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos]!;
+      if (line.indent < indent) break;
+      if (line.indent > indent) {
+        throw new Error(`YAML line ${line.number}: unexpected indentation`);
+      }
+      if (line.text !== '-' && !line.text.startsWith('- ')) break;
+
+      const rest = line.text.slice(1).trimStart();
+      if (rest.length === 0) {
+        this.pos++;
+        items.push(this.parseNested(indent, false));
+      } else if (MAPPING_ENTRY.test(rest)) {
+        // "- key: value" starts a mapping indented past the dash
+        this.lines[this.pos] = {
+          number: line.number,
+          indent: indent + (line.text.length - rest.length),
+          text: rest,
+        };
+        items.push(this.parseMapping(this.lines[this.pos]!.indent));
+      } else {
+        this.pos++;
+        items.push(parseInline(rest, line.number));
+      }
+    }
+
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos]!;
+      if (line.indent < indent) break;
+      if (line.indent > indent) {
+        throw new Error(`YAML line ${line.number}: unexpected indentation`);
+      }
+      if (line.text.startsWith('- ')) break;
+
+      const match = line.text.match(MAPPING_ENTRY);
+      if (!match) {
+        throw new Error(`YAML line ${line.number}: expected "key: value"`);
+      }
+      const key = match[1]!;
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw new Error(`YAML line ${line.number}: duplicate key: ${key}`);
+      }
+
+      this.pos++;
+      const inline = match[2];
+      mapping[key] = inline !== undefined && inline.length > 0
+        ? parseInline(inline, line.number)
+        : this.parseNested(indent, true);
+    }
+
+    return mapping;
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Parse a YAML document (supported subset only).
+ *
+ * @param source - YAML source text
+ * @returns Parsed value (null for an empty document)
+ * @throws Error naming the line for malformed or unsupported input
+ */
+export function parseYaml(source: string): unknown {
+  return new BlockParser(lex(source.replace(/\r\n?/g, '\n'))).parseDocument();
+}
@@ -25,6 +25,7 @@ import { fileURLToPath } from 'node:url';
 import { existsSync } from 'node:fs';
 
 import { runHarness } from '../dist/harness/run_intent.js';
+import { KERNEL_VERSION } from '../dist/assembler/bundle.js';
 import type { HarnessRunInput, HarnessRunResult } from '../dist/harness/types.js';
 
 // =============================================================================
@@ -353,7 +354,7 @@ async function main(): Promise<void> {
           result_kind: r.result_kind,
           accepted: r.accepted,
           last_updated: new Date().toISOString(),
-          kernel_version: '0.1.0', // TODO: get from kernel
+          kernel_version: KERNEL_VERSION,
         });
       }
       await saveGoldens(goldens);